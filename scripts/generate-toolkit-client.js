@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+
+// Generates a typed client module from a saved toolkit description.
+//
+// Usage: node scripts/generate-toolkit-client.js <toolkit.json> [--toolkit name] [--class Name] [--import module] [--out file.ts]
+//
+// The JSON file holds one ToolkitDescription.toJson() object, or an array of them (for example the result of
+// AgentsClient.listToolkits() mapped through toJson()), in which case --toolkit picks one. Run `npm run build`
+// first; the script uses the Node build in dist/node.
+
+const fs = require("fs");
+const path = require("path");
+
+const { ToolkitDescription, generateToolkitClient } = require(path.join(__dirname, "..", "dist", "node", "index.js"));
+
+function usage(message) {
+    if (message) {
+        console.error(message);
+    }
+    console.error("usage: generate-toolkit-client <toolkit.json> [--toolkit name] [--class Name] [--import module] [--out file.ts]");
+    process.exit(1);
+}
+
+const options = {};
+const positional = [];
+const args = process.argv.slice(2);
+for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg.startsWith("--")) {
+        if (i + 1 >= args.length) {
+            usage(`missing value for ${arg}`);
+        }
+        options[arg.slice(2)] = args[++i];
+    } else {
+        positional.push(arg);
+    }
+}
+if (positional.length !== 1) {
+    usage();
+}
+
+const json = JSON.parse(fs.readFileSync(positional[0], "utf8"));
+const toolkits = Array.isArray(json) ? json : [json];
+const selected = options.toolkit === undefined
+    ? toolkits
+    : toolkits.filter((toolkit) => toolkit.name === options.toolkit);
+if (selected.length !== 1) {
+    usage(options.toolkit === undefined
+        ? `found ${toolkits.length} toolkits, choose one with --toolkit`
+        : `toolkit ${options.toolkit} was not found`);
+}
+
+const source = generateToolkitClient(ToolkitDescription.fromJson(selected[0]), {
+    className: options.class,
+    importPath: options.import,
+});
+
+if (options.out === undefined) {
+    process.stdout.write(source);
+} else {
+    fs.writeFileSync(options.out, source);
+}
@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+
+// Pretty-prints a room protocol recording, one line per message.
+//
+// Usage: node scripts/inspect-protocol-recording.js <recording.jsonl> [--type prefix] [--width n]
+//
+// The file is written by FileProtocolRecordSink. --type only shows messages whose type starts with the prefix and
+// --width limits how much of each JSON header is shown. Run `npm run build` first; the script uses the Node build
+// in dist/node.
+
+const path = require("path");
+
+const { formatProtocolRecording, readProtocolRecording } = require(path.join(__dirname, "..", "dist", "node", "index.js"));
+
+function usage(message) {
+    if (message) {
+        console.error(message);
+    }
+    console.error("usage: inspect-protocol-recording <recording.jsonl> [--type prefix] [--width n]");
+    process.exit(1);
+}
+
+async function main() {
+    const options = {};
+    const positional = [];
+    const args = process.argv.slice(2);
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg.startsWith("--")) {
+            if (i + 1 >= args.length) {
+                usage(`missing value for ${arg}`);
+            }
+            options[arg.slice(2)] = args[++i];
+        } else {
+            positional.push(arg);
+        }
+    }
+    if (positional.length !== 1) {
+        usage();
+    }
+
+    const width = options.width === undefined ? undefined : Number(options.width);
+    if (width !== undefined && !(width > 0)) {
+        usage(`invalid width ${options.width}`);
+    }
+
+    const records = (await readProtocolRecording(positional[0]))
+        .filter((record) => options.type === undefined || record.type.startsWith(options.type));
+    if (records.length > 0) {
+        process.stdout.write(`${formatProtocolRecording(records, { maxHeaderLength: width })}\n`);
+    }
+}
+
+main().catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -1,5 +1,6 @@
 // agents_client.ts
 
+import type { RequestOptions } from "./request-options.js";
 import { RoomClient } from "./room-client.js";
 import type { Content } from "./response.js";
 import {
@@ -10,6 +11,7 @@ import {
     ToolStreamOutput,
     type ToolCallOutput,
 } from "./agent.js";
+import { validateJsonSchema, type JsonSchemaError } from "./json-schema.js";
 import { ToolContentSpec } from "./tool-content-type.js";
 
 /**
@@ -77,6 +79,29 @@ export class ToolDescription {
     public get outputSchema(): Record<string, any> | undefined {
         return this.outputSpec?.schema as Record<string, any> | undefined;
     }
+
+    /**
+     * Validates tool arguments against the input schema before calling the tool. Returns the errors found,
+     * each with a JSON Pointer to the failing value; tools without an input schema accept anything.
+     */
+    public validateInput(value: unknown): JsonSchemaError[] {
+        return this._validate(this.inputSchema, value);
+    }
+
+    public validateOutput(value: unknown): JsonSchemaError[] {
+        return this._validate(this.outputSchema, value);
+    }
+
+    private _validate(schema: Record<string, any> | undefined, value: unknown): JsonSchemaError[] {
+        if (schema === undefined) {
+            return [];
+        }
+        if (this.defs === undefined) {
+            return validateJsonSchema(schema, value);
+        }
+        const defs = schema["$defs"];
+        return validateJsonSchema({ ...schema, $defs: { ...this.defs, ...(defs ?? {}) } }, value);
+    }
 }
 
 export class ToolkitDescription {
@@ -215,7 +240,7 @@ export class AgentsClient {
         name: string;
         url: string;
         arguments: Record<string, any>;
-    }): Promise<void> {
+    } & RequestOptions): Promise<void> {
         await this.client.call(params);
     }
 
@@ -226,7 +251,7 @@ export class AgentsClient {
         participantId?: string;
         participantName?: string;
         timeout?: number;
-    }): Promise<ToolkitDescription[]> {
+    } & RequestOptions): Promise<ToolkitDescription[]> {
         return await this.client.listToolkits(params);
     }
     /**
@@ -238,14 +263,14 @@ export class AgentsClient {
         input: ToolInput;
         participantId?: string;
         onBehalfOfId?: string;
-    }): Promise<ToolCallOutput>;
+    } & RequestOptions): Promise<ToolCallOutput>;
     public async invokeTool(params: {
         toolkit: string;
         tool: string;
         arguments: Record<string, any>;
         participantId?: string;
         onBehalfOfId?: string;
-    }): Promise<Content>;
+    } & RequestOptions): Promise<Content>;
     public async invokeTool(params: {
         toolkit: string;
         tool: string;
@@ -253,38 +278,42 @@ export class AgentsClient {
         arguments?: Record<string, any>;
         participantId?: string;
         onBehalfOfId?: string;
-    }): Promise<ToolCallOutput | Content> {
-        if (params.input === undefined) {
+    } & RequestOptions): Promise<ToolCallOutput | Content> {
+        const { toolkit, tool, input, arguments: arguments_, participantId, onBehalfOfId, ...options } = params;
+        if (input === undefined) {
             return await this.client.invokeContent({
-                toolkit: params.toolkit,
-                tool: params.tool,
-                arguments: params.arguments ?? {},
-                participantId: params.participantId,
-                onBehalfOfId: params.onBehalfOfId,
+                toolkit,
+                tool,
+                arguments: arguments_ ?? {},
+                participantId,
+                onBehalfOfId,
+                ...options,
             });
         }
 
-        if (params.input instanceof ToolContentInput) {
+        if (input instanceof ToolContentInput) {
             const output = await this.client.invokeToolCall({
-                toolkit: params.toolkit,
-                tool: params.tool,
-                input: params.input.content,
-                participantId: params.participantId,
-                onBehalfOfId: params.onBehalfOfId,
+                toolkit,
+                tool,
+                input: input.content,
+                participantId,
+                onBehalfOfId,
+                ...options,
             });
             return output.kind === "content"
                 ? new ToolContentOutput(output.content)
                 : new ToolStreamOutput(output.stream, { inputClosed: output.inputClosed });
         }
 
-        if (params.input instanceof ToolStreamInput) {
+        if (input instanceof ToolStreamInput) {
             const output = await this.client.invokeToolCall({
-                toolkit: params.toolkit,
-                tool: params.tool,
-                input: params.input.stream,
+                toolkit,
+                tool,
+                input: input.stream,
                 streamInput: true,
-                participantId: params.participantId,
-                onBehalfOfId: params.onBehalfOfId,
+                participantId,
+                onBehalfOfId,
+                ...options,
             });
             return output.kind === "content"
                 ? new ToolContentOutput(output.content)
@@ -17,11 +17,13 @@ import {
     unpackContent,
 } from "./response.js";
 import { RoomServerException } from "./room-server-client.js";
+import { validateJsonSchemaValue } from "./json-schema.js";
 import { ToolContentSpec, type ToolContentType } from "./tool-content-type.js";
 import { packMessage, unpackMessage } from "./utils.js";
 import { RoomEvent, RoomStatusEvent } from "./room-event.js";
 import { Participant, RemoteParticipant } from "./participant.js";
 import { StreamController } from "./stream-controller.js";
+import { ToolCallLimiter, ToolCallRejectedException, type ToolCallLimits } from "./tool-call-limiter.js";
 
 export type ValidationMode = "full" | "contentTypes" | "none";
 
@@ -210,77 +212,6 @@ function schemaWithDefs(schema?: Record<string, any>, defs?: Record<string, any>
     return merged;
 }
 
-function validateJsonSchemaValue(schema: Record<string, any>, value: unknown, root: Record<string, any> = schema): string | undefined {
-    if (typeof schema["$ref"] === "string") {
-        const ref = schema["$ref"] as string;
-        if (ref.startsWith("#/$defs/")) {
-            const name = ref.slice("#/$defs/".length);
-            const defs = root["$defs"];
-            if (isRecord(defs) && isRecord(defs[name])) {
-                return validateJsonSchemaValue(defs[name], value, root);
-            }
-        }
-    }
-    if (Array.isArray(schema.enum) && !schema.enum.some((item: unknown) => JSON.stringify(item) === JSON.stringify(value))) {
-        return "value is not one of the allowed enum values";
-    }
-    if ("const" in schema && JSON.stringify(schema.const) !== JSON.stringify(value)) {
-        return "value does not match const";
-    }
-    const rawType = schema.type;
-    const types = Array.isArray(rawType) ? rawType : rawType === undefined ? [] : [rawType];
-    const matchesType = (type: unknown): boolean => {
-        switch (type) {
-            case "object": return isRecord(value);
-            case "array": return Array.isArray(value);
-            case "string": return typeof value === "string";
-            case "number": return typeof value === "number" && Number.isFinite(value);
-            case "integer": return typeof value === "number" && Number.isInteger(value);
-            case "boolean": return typeof value === "boolean";
-            case "null": return value === null;
-            default: return true;
-        }
-    };
-    if (types.length > 0 && !types.some(matchesType)) {
-        return `expected type ${types.join(" or ")}`;
-    }
-    if (isRecord(value)) {
-        const required = Array.isArray(schema.required) ? schema.required : [];
-        for (const key of required) {
-            if (typeof key === "string" && !(key in value)) {
-                return `missing required property ${key}`;
-            }
-        }
-        const properties = isRecord(schema.properties) ? schema.properties : {};
-        for (const [key, propertySchema] of Object.entries(properties)) {
-            if (key in value && isRecord(propertySchema)) {
-                const error = validateJsonSchemaValue(propertySchema, value[key], root);
-                if (error !== undefined) return `${key}: ${error}`;
-            }
-        }
-        if (schema.additionalProperties === false) {
-            for (const key of Object.keys(value)) {
-                if (!(key in properties)) return `unexpected property ${key}`;
-            }
-        }
-    }
-    if (Array.isArray(value) && isRecord(schema.items)) {
-        for (let index = 0; index < value.length; index += 1) {
-            const error = validateJsonSchemaValue(schema.items, value[index], root);
-            if (error !== undefined) return `${index}: ${error}`;
-        }
-    }
-    if (typeof value === "string") {
-        if (typeof schema.minLength === "number" && value.length < schema.minLength) return `string is shorter than ${schema.minLength}`;
-        if (typeof schema.maxLength === "number" && value.length > schema.maxLength) return `string is longer than ${schema.maxLength}`;
-    }
-    if (typeof value === "number") {
-        if (typeof schema.minimum === "number" && value < schema.minimum) return `number is less than ${schema.minimum}`;
-        if (typeof schema.maximum === "number" && value > schema.maximum) return `number is greater than ${schema.maximum}`;
-    }
-    return undefined;
-}
-
 export class Toolkit {
     readonly name: string;
     readonly title?: string;
@@ -420,7 +351,7 @@ export class Toolkit {
         if (!this.shouldValidateSchema) return;
         const resolved = schemaWithDefs(schema, tool.defs);
         if (resolved === undefined) return;
-        const error = validateJsonSchemaValue(resolved, schemaValue(content), resolved);
+        const error = validateJsonSchemaValue(resolved, schemaValue(content));
         if (error !== undefined) {
             throw new InvalidToolDataException(`tool ${tool.name} ${direction} does not match ${direction}_schema: ${error}`);
         }
@@ -441,13 +372,21 @@ export class Toolkit {
 
 export class HostedToolkit {
     public readonly toolkit: Toolkit;
+
+    /**
+     * Enforces the concurrency limits the toolkit was started with, and reports active and queued calls.
+     */
+    public readonly limiter?: ToolCallLimiter;
+
     private readonly _stopHostedToolkit: () => Promise<void>;
 
-    constructor({ toolkit, stopHostedToolkit }: {
+    constructor({ toolkit, stopHostedToolkit, limiter }: {
         toolkit: Toolkit;
         stopHostedToolkit: () => Promise<void>;
+        limiter?: ToolCallLimiter;
     }) {
         this.toolkit = toolkit;
+        this.limiter = limiter;
         this._stopHostedToolkit = stopHostedToolkit;
     }
 
@@ -469,13 +408,16 @@ class _RemoteToolkitWrapper {
     private readonly _requestStreams = new Map<string, StreamController<StreamItem>>();
     private readonly _requestStreamTools = new Map<string, BaseTool>();
     private readonly _pendingRequestChunks = new Map<string, Content[]>();
+    public readonly limiter?: ToolCallLimiter;
 
-    constructor({ toolkit, room }: {
+    constructor({ toolkit, room, limits }: {
         toolkit: Toolkit;
         room: RoomClient;
+        limits?: ToolCallLimits;
     }) {
         this.toolkit = toolkit;
         this.client = room;
+        this.limiter = limits === undefined ? undefined : new ToolCallLimiter(limits);
     }
 
     async start({ public_: isPublic = false }: { public_?: boolean } = {}): Promise<void> {
@@ -508,6 +450,7 @@ class _RemoteToolkitWrapper {
         this._started = false;
         this.client.off("disconnected", this._roomEventHandler);
         this.client.off("reconnected", this._roomEventHandler);
+        this.limiter?.rejectQueued(new ToolCallRejectedException("hosted toolkit stopped"));
         this._failActiveRequestStreams(new RoomServerException("hosted toolkit stopped"));
         try {
             await this._unregister();
@@ -677,6 +620,7 @@ class _RemoteToolkitWrapper {
         const toolCallIdFallback = `${messageId}`;
         let toolCallId = toolCallIdFallback;
         let openedResponseStream = false;
+        let release: (() => void) | null = null;
         try {
             const [message, payload] = unpackMessage(data!);
             const toolName = message["name"];
@@ -717,6 +661,12 @@ class _RemoteToolkitWrapper {
                 caller: this._resolveParticipant(message["caller_id"]),
                 onBehalfOf: this._resolveParticipant(message["on_behalf_of_id"]),
             });
+            if (this.limiter !== undefined) {
+                release = await this.limiter.acquire({ tool: toolName, callerId: context.caller?.id });
+                if (!this.client.isActiveProtocol(protocol)) {
+                    return;
+                }
+            }
             const output = await this.toolkit.execute(context, toolName, resolvedInput);
             if (output instanceof ToolContentOutput) {
                 this.toolkit.validateStreamMode({ tool, direction: "output", spec: this.toolkit.resolveOutputSpec(tool), stream: false });
@@ -750,6 +700,7 @@ class _RemoteToolkitWrapper {
                 message: error instanceof InvalidToolDataException ? error.message : undefined,
             }));
         } finally {
+            release?.();
             this._closeRequestStream(toolCallId);
         }
     }
@@ -779,16 +730,22 @@ class _RemoteToolkitWrapper {
     }
 }
 
-export async function startHostedToolkit({ room, toolkit, public_: isPublic = false }: {
+export async function startHostedToolkit({ room, toolkit, public_: isPublic = false, limits }: {
     room: RoomClient;
     toolkit: Toolkit;
     public_?: boolean;
+
+    /**
+     * Concurrency caps and queueing for incoming calls. Without limits every call runs as soon as it arrives.
+     */
+    limits?: ToolCallLimits;
 }): Promise<HostedToolkit> {
-    const wrapper = new _RemoteToolkitWrapper({ toolkit, room });
+    const wrapper = new _RemoteToolkitWrapper({ toolkit, room, limits });
     await wrapper.start({ public_: isPublic });
     return new HostedToolkit({
         toolkit,
         stopHostedToolkit: () => wrapper.stop(),
+        limiter: wrapper.limiter,
     });
 }
 
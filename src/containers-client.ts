@@ -2,6 +2,7 @@ import { v4 as uuidv4 } from "uuid";
 
 import { Completer } from "./completer.js";
 import type { ContainerMountSpec } from "./meshagent-client.js";
+import type { RequestOptions } from "./request-options.js";
 import { BinaryContent, ControlContent, ErrorContent, JsonContent, type Content } from "./response.js";
 import { RoomClient } from "./room-client.js";
 import { RoomServerException } from "./room-server-client.js";
@@ -599,16 +600,18 @@ export class ContainersClient {
     return new RoomServerException(`unexpected return type from containers.${operation}`);
   }
 
-  private async invoke(operation: string, input: Record<string, unknown>): Promise<Content> {
+  private async invoke(operation: string, input: Record<string, unknown>, options: RequestOptions = {}): Promise<Content> {
     return await this.room.invokeContent({
       toolkit: "containers",
       tool: operation,
       input,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
     });
   }
 
-  public async listImages(): Promise<ContainerImage[]> {
-    const output = await this.invoke("list_images", {});
+  public async listImages(options: RequestOptions = {}): Promise<ContainerImage[]> {
+    const output = await this.invoke("list_images", {}, options);
     if (!(output instanceof JsonContent) || !isRecord(output.json)) {
       throw this.unexpectedResponseError("list_images");
     }
@@ -626,49 +629,49 @@ export class ContainersClient {
     return images;
   }
 
-  public async inspectImage(params: { imageId: string }): Promise<ContainerImageInspection> {
+  public async inspectImage(params: { imageId: string } & RequestOptions): Promise<ContainerImageInspection> {
     const output = await this.invoke("inspect_image", {
       image_id: params.imageId,
-    });
+    }, params);
     if (!(output instanceof JsonContent) || !isRecord(output.json)) {
       throw this.unexpectedResponseError("inspect_image");
     }
     return parseContainerImageInspection(output.json, "inspect_image");
   }
 
-  public async deleteImage(params: { image: string }): Promise<void> {
+  public async deleteImage(params: { image: string } & RequestOptions): Promise<void> {
     await this.invoke("delete_image", {
       image: params.image,
-    });
+    }, params);
   }
 
-  public async pullImage(params: { tag: string; credentials?: DockerSecret[] }): Promise<void> {
+  public async pullImage(params: { tag: string; credentials?: DockerSecret[] } & RequestOptions): Promise<void> {
     await this.invoke("pull_image", {
       tag: params.tag,
       credentials: toCredentials(params.credentials ?? []),
-    });
+    }, params);
   }
 
   public async pushImage(params: {
     tag: string;
     credentials?: DockerSecret[];
     private?: boolean;
-  }): Promise<string> {
+  } & RequestOptions): Promise<string> {
     const output = await this.invoke("push_image", {
       tag: params.tag,
       credentials: toCredentials(params.credentials ?? []),
       private: params.private ?? false,
-    });
+    }, params);
     if (!(output instanceof JsonContent) || !isRecord(output.json)) {
       throw this.unexpectedResponseError("push_image");
     }
     return readStringField(output.json, "container_id", "push_image");
   }
 
-  public async load(params: { archivePath: string }): Promise<ImportedImage> {
+  public async load(params: { archivePath: string } & RequestOptions): Promise<ImportedImage> {
     const output = await this.invoke("load", {
       archive_path: params.archivePath,
-    });
+    }, params);
     if (!(output instanceof JsonContent) || !isRecord(output.json)) {
       throw this.unexpectedResponseError("load");
     }
@@ -679,12 +682,12 @@ export class ContainersClient {
     mounts: ContainerMountSpec[];
     archivePath: string;
     private?: boolean;
-  }): Promise<string> {
+  } & RequestOptions): Promise<string> {
     const output = await this.invoke("load_image", {
       mounts: toMountList(params.mounts),
       archive_path: params.archivePath,
       private: params.private ?? false,
-    });
+    }, params);
     if (!(output instanceof JsonContent) || !isRecord(output.json)) {
       throw this.unexpectedResponseError("load_image");
     }
@@ -696,13 +699,13 @@ export class ContainersClient {
     mounts: ContainerMountSpec[];
     archivePath: string;
     private?: boolean;
-  }): Promise<string> {
+  } & RequestOptions): Promise<string> {
     const output = await this.invoke("save_image", {
       tag: params.tag,
       mounts: toMountList(params.mounts),
       archive_path: params.archivePath,
       private: params.private ?? false,
-    });
+    }, params);
     if (!(output instanceof JsonContent) || !isRecord(output.json)) {
       throw this.unexpectedResponseError("save_image");
     }
@@ -725,7 +728,7 @@ export class ContainersClient {
     template?: "agent" | "none";
     writableRootFs?: boolean;
     private?: boolean;
-  }): Promise<string> {
+  } & RequestOptions): Promise<string> {
     const output = await this.invoke("run", {
       image: params.image,
       command: params.command,
@@ -742,7 +745,7 @@ export class ContainersClient {
       template: params.template,
       writable_root_fs: params.writableRootFs,
       private: params.private,
-    });
+    }, params);
     if (!(output instanceof JsonContent) || !isRecord(output.json)) {
       throw this.unexpectedResponseError("run");
     }
@@ -762,11 +765,13 @@ export class ContainersClient {
     credentials?: DockerSecret[];
     builderName?: string;
     size?: number;
-  }): Promise<string> {
+  } & RequestOptions): Promise<string> {
     const output = await this.room.invokeWithStreamInput({
       toolkit: "containers",
       tool: "build",
       input: buildInputStream(params),
+      signal: params.signal,
+      timeoutMs: params.timeoutMs,
     });
     if (!(output instanceof JsonContent) || !isRecord(output.json)) {
       throw this.unexpectedResponseError("build");
@@ -774,8 +779,8 @@ export class ContainersClient {
     return readStringField(output.json, "build_id", "build");
   }
 
-  public async listBuilds(): Promise<BuildJob[]> {
-    const output = await this.invoke("list_builds", {});
+  public async listBuilds(options: RequestOptions = {}): Promise<BuildJob[]> {
+    const output = await this.invoke("list_builds", {}, options);
     if (!(output instanceof JsonContent) || !isRecord(output.json)) {
       throw this.unexpectedResponseError("list_builds");
     }
@@ -791,30 +796,30 @@ export class ContainersClient {
     });
   }
 
-  public async cancelBuild(params: { buildId: string }): Promise<void> {
+  public async cancelBuild(params: { buildId: string } & RequestOptions): Promise<void> {
     await this.invoke("cancel_build", {
       build_id: params.buildId,
-    });
+    }, params);
   }
 
-  public async deleteBuild(params: { buildId: string }): Promise<void> {
+  public async deleteBuild(params: { buildId: string } & RequestOptions): Promise<void> {
     await this.invoke("delete_build", {
       build_id: params.buildId,
-    });
+    }, params);
   }
 
-  public async runService(params: { serviceId: string; env?: Record<string, string> }): Promise<string> {
+  public async runService(params: { serviceId: string; env?: Record<string, string> } & RequestOptions): Promise<string> {
     const output = await this.invoke("run_service", {
       service_id: params.serviceId,
       env: toStringMapList(params.env ?? {}),
-    });
+    }, params);
     if (!(output instanceof JsonContent) || !isRecord(output.json)) {
       throw this.unexpectedResponseError("run_service");
     }
     return readStringField(output.json, "container_id", "run_service");
   }
 
-  public exec(params: { containerId: string; command: string; tty?: boolean }): ExecSession {
+  public exec(params: { containerId: string; command: string; tty?: boolean } & RequestOptions): ExecSession {
     const requestId = uuidv4();
     const session = new ExecSession({
       requestId,
@@ -828,6 +833,8 @@ export class ContainersClient {
         toolkit: "containers",
         tool: "exec",
         input: session.inputStream(),
+        signal: params.signal,
+        timeoutMs: params.timeoutMs,
       })
       .then(async (stream) => {
         for await (const chunk of stream) {
@@ -869,17 +876,17 @@ export class ContainersClient {
     return session;
   }
 
-  public async stop(params: { containerId: string; force?: boolean }): Promise<void> {
+  public async stop(params: { containerId: string; force?: boolean } & RequestOptions): Promise<void> {
     await this.invoke("stop_container", {
       container_id: params.containerId,
       force: params.force ?? false,
-    });
+    }, params);
   }
 
-  public async waitForExitStatus(params: { containerId: string }): Promise<ContainerExitStatus> {
+  public async waitForExitStatus(params: { containerId: string } & RequestOptions): Promise<ContainerExitStatus> {
     const output = await this.invoke("wait_for_exit", {
       container_id: params.containerId,
-    });
+    }, params);
     if (!(output instanceof JsonContent) || !isRecord(output.json)) {
       throw this.unexpectedResponseError("wait_for_exit");
     }
@@ -895,18 +902,18 @@ export class ContainersClient {
     };
   }
 
-  public async waitForExit(params: { containerId: string }): Promise<number> {
+  public async waitForExit(params: { containerId: string } & RequestOptions): Promise<number> {
     const status = await this.waitForExitStatus(params);
     return status.exitCode;
   }
 
-  public async deleteContainer(params: { containerId: string }): Promise<void> {
+  public async deleteContainer(params: { containerId: string } & RequestOptions): Promise<void> {
     await this.invoke("delete_container", {
       container_id: params.containerId,
-    });
+    }, params);
   }
 
-  public logs(params: { containerId: string; follow?: boolean }): ContainerLogsSession {
+  public logs(params: { containerId: string; follow?: boolean } & RequestOptions): ContainerLogsSession {
     const requestId = uuidv4();
     const closeInput = new Completer<void>();
     const progressController = new StreamController<LogProgress>();
@@ -942,6 +949,8 @@ export class ContainersClient {
         toolkit: "containers",
         tool: "logs",
         input: inputStream(),
+        signal: params.signal,
+        timeoutMs: params.timeoutMs,
       })
       .then(async (stream) => {
         for await (const chunk of stream) {
@@ -1021,7 +1030,7 @@ export class ContainersClient {
     };
   }
 
-  public getBuildLogs(params: { buildId: string; follow?: boolean }): BuildLogsSession {
+  public getBuildLogs(params: { buildId: string; follow?: boolean } & RequestOptions): BuildLogsSession {
     const requestId = uuidv4();
     const closeInput = new Completer<void>();
     const streamController = new StreamController<string>();
@@ -1056,6 +1065,8 @@ export class ContainersClient {
         toolkit: "containers",
         tool: "get_build_logs",
         input: inputStream(),
+        signal: params.signal,
+        timeoutMs: params.timeoutMs,
       })
       .then(async (stream) => {
         for await (const chunk of stream) {
@@ -1139,10 +1150,10 @@ export class ContainersClient {
     };
   }
 
-  public async list(params?: { all?: boolean }): Promise<RoomContainer[]> {
+  public async list(params?: { all?: boolean } & RequestOptions): Promise<RoomContainer[]> {
     const output = await this.invoke("list_containers", {
       all: params?.all,
-    });
+    }, params ?? {});
     if (!(output instanceof JsonContent) || !isRecord(output.json)) {
       throw this.unexpectedResponseError("list");
     }
@@ -1,4 +1,5 @@
 import { Schema, Table, tableFromIPC, tableToIPC } from "apache-arrow";
+import type { RequestOptions } from "./request-options.js";
 import { RoomClient } from "./room-client.js";
 import { RoomServerException } from "./room-server-client.js";
 import { BinaryContent, ControlContent, EmptyContent, ErrorContent, JsonContent, type Content } from "./response.js";
@@ -1035,8 +1036,8 @@ export class DatasetsClient {
     return new RoomServerException(`unexpected return type from datasets.${operation}`);
   }
 
-  private async invoke(operation: string, input: Record<string, unknown>): Promise<JsonContent | null> {
-    const response = await this.room.invokeContent({ toolkit: "dataset", tool: operation, input });
+  private async invoke(operation: string, input: Record<string, unknown>, { signal, timeoutMs }: RequestOptions = {}): Promise<JsonContent | null> {
+    const response = await this.room.invokeContent({ toolkit: "dataset", tool: operation, input, signal, timeoutMs });
     if (response instanceof JsonContent) {
       return response;
     }
@@ -1046,16 +1047,16 @@ export class DatasetsClient {
     return null;
   }
 
-  private async invokeContent(operation: string, input: Content): Promise<Content | null> {
-    return await this.room.invokeContent({ toolkit: "dataset", tool: operation, input });
+  private async invokeContent(operation: string, input: Content, { signal, timeoutMs }: RequestOptions = {}): Promise<Content | null> {
+    return await this.room.invokeContent({ toolkit: "dataset", tool: operation, input, signal, timeoutMs });
   }
 
-  private async invokeStream(operation: string, input: AsyncIterable<Content>): Promise<AsyncIterable<Content>> {
-    return await this.room.invokeStream({ toolkit: "dataset", tool: operation, input });
+  private async invokeStream(operation: string, input: AsyncIterable<Content>, { signal, timeoutMs }: RequestOptions = {}): Promise<AsyncIterable<Content>> {
+    return await this.room.invokeStream({ toolkit: "dataset", tool: operation, input, signal, timeoutMs });
   }
 
-  private async drainWriteStream(operation: string, input: DatasetWriteInputStream | DatasetArrowWriteInputStream): Promise<void> {
-    const response = await this.invokeStream(operation, input.stream());
+  private async drainWriteStream(operation: string, input: DatasetWriteInputStream | DatasetArrowWriteInputStream, options: RequestOptions = {}): Promise<void> {
+    const response = await this.invokeStream(operation, input.stream(), options);
     try {
       for await (const chunk of response) {
         if (chunk instanceof ErrorContent) {
@@ -1084,9 +1085,9 @@ export class DatasetsClient {
     }
   }
 
-  private async *streamRows(operation: string, start: Record<string, unknown>): AsyncIterable<DatasetRows> {
+  private async *streamRows(operation: string, start: Record<string, unknown>, options: RequestOptions = {}): AsyncIterable<DatasetRows> {
     const input = new DatasetReadInputStream(start);
-    const response = await this.invokeStream(operation, input.stream());
+    const response = await this.invokeStream(operation, input.stream(), options);
     input.requestNext();
     try {
       for await (const chunk of response) {
@@ -1110,9 +1111,9 @@ export class DatasetsClient {
     }
   }
 
-  private async *streamArrow(operation: string, start: Record<string, unknown>): AsyncIterable<Table> {
+  private async *streamArrow(operation: string, start: Record<string, unknown>, options: RequestOptions = {}): AsyncIterable<Table> {
     const input = new DatasetArrowReadInputStream(start);
-    const response = await this.invokeStream(operation, input.stream());
+    const response = await this.invokeStream(operation, input.stream(), options);
     input.requestNext();
     try {
       for await (const chunk of response) {
@@ -1136,14 +1137,14 @@ export class DatasetsClient {
     }
   }
 
-  public async listTables({ namespace, branch }: {
+  public async listTables({ namespace, branch, signal, timeoutMs }: {
     namespace?: string[];
     branch?: string;
-  } = {}): Promise<string[]> {
+  } & RequestOptions = {}): Promise<string[]> {
     const response = await this.invoke("list_tables", {
       namespace: namespace ?? null,
       branch: branch ?? null,
-    });
+    }, { signal, timeoutMs });
     if (!(response instanceof JsonContent)) {
       throw this._unexpectedResponseError("list_tables");
     }
@@ -1158,6 +1159,8 @@ export class DatasetsClient {
     namespace,
     branch,
     metadata,
+    signal,
+    timeoutMs,
   }: {
     name: string;
     data?: ArrowTableChunks;
@@ -1166,7 +1169,7 @@ export class DatasetsClient {
     namespace?: string[];
     branch?: string;
     metadata?: Record<string, unknown>;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     const input = new DatasetArrowWriteInputStream(
       {
         kind: "start",
@@ -1179,10 +1182,10 @@ export class DatasetsClient {
       data ?? [],
       schema,
     );
-    await this.drainWriteStream("create_table", input);
+    await this.drainWriteStream("create_table", input, { signal, timeoutMs });
   }
 
-  public async createTableWithSchema({ name, schema, data, mode = "create", namespace, branch, metadata }: {
+  public async createTableWithSchema({ name, schema, data, mode = "create", namespace, branch, metadata, signal, timeoutMs }: {
     name: string;
     schema?: Schema;
     data?: Iterable<Table> | Table;
@@ -1190,7 +1193,7 @@ export class DatasetsClient {
     namespace?: string[];
     branch?: string;
     metadata?: Record<string, unknown>;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     return this.createTable({
       name,
       schema,
@@ -1199,10 +1202,12 @@ export class DatasetsClient {
       namespace,
       branch,
       metadata,
+      signal,
+      timeoutMs,
     });
   }
 
-  public async createTableWithArrowSchema({ name, schema, batches, mode = "create", namespace, branch, metadata }: {
+  public async createTableWithArrowSchema({ name, schema, batches, mode = "create", namespace, branch, metadata, signal, timeoutMs }: {
     name: string;
     schema: Schema;
     batches?: ArrowTableChunks;
@@ -1210,7 +1215,7 @@ export class DatasetsClient {
     namespace?: string[];
     branch?: string;
     metadata?: Record<string, unknown>;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     return this.createTable({
       name,
       schema,
@@ -1219,17 +1224,19 @@ export class DatasetsClient {
       namespace,
       branch,
       metadata,
+      signal,
+      timeoutMs,
     });
   }
 
-  public async createTableFromArrowBatches({ name, batches, mode = "create", namespace, branch, metadata }: {
+  public async createTableFromArrowBatches({ name, batches, mode = "create", namespace, branch, metadata, signal, timeoutMs }: {
     name: string;
     batches: ArrowTableChunks;
     mode?: CreateMode;
     namespace?: string[];
     branch?: string;
     metadata?: Record<string, unknown>;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     return this.createTable({
       name,
       data: batches,
@@ -1237,17 +1244,19 @@ export class DatasetsClient {
       namespace,
       branch,
       metadata,
+      signal,
+      timeoutMs,
     });
   }
 
-  public async createTableFromArrowTable({ name, table, mode = "create", namespace, branch, metadata }: {
+  public async createTableFromArrowTable({ name, table, mode = "create", namespace, branch, metadata, signal, timeoutMs }: {
     name: string;
     table: Table;
     mode?: CreateMode;
     namespace?: string[];
     branch?: string;
     metadata?: Record<string, unknown>;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     return this.createTableWithArrowSchema({
       name,
       schema: table.schema,
@@ -1256,17 +1265,19 @@ export class DatasetsClient {
       namespace,
       branch,
       metadata,
+      signal,
+      timeoutMs,
     });
   }
 
-  public async createTableFromData({ name, data, mode = "create", namespace, branch, metadata }: {
+  public async createTableFromData({ name, data, mode = "create", namespace, branch, metadata, signal, timeoutMs }: {
     name: string;
     data?: Iterable<Table> | Table;
     mode?: CreateMode;
     namespace?: string[];
     branch?: string;
     metadata?: Record<string, unknown>;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     return this.createTable({
       name,
       data: data == null ? undefined : data instanceof Table ? [data] : data,
@@ -1274,10 +1285,12 @@ export class DatasetsClient {
       namespace,
       branch,
       metadata,
+      signal,
+      timeoutMs,
     });
   }
 
-  public async createTableFromDataStream({ name, chunks, schema, mode = "create", namespace, branch, metadata }: {
+  public async createTableFromDataStream({ name, chunks, schema, mode = "create", namespace, branch, metadata, signal, timeoutMs }: {
     name: string;
     chunks: ArrowTableChunks;
     schema?: Schema;
@@ -1285,18 +1298,18 @@ export class DatasetsClient {
     namespace?: string[];
     branch?: string;
     metadata?: Record<string, unknown>;
-  }): Promise<void> {
-    return this.createTable({ name, data: chunks, schema, mode, namespace, branch, metadata });
+  } & RequestOptions): Promise<void> {
+    return this.createTable({ name, data: chunks, schema, mode, namespace, branch, metadata, signal, timeoutMs });
   }
 
-  public async createTableFromJsonData({ name, data, mode = "create", namespace, branch, metadata }: {
+  public async createTableFromJsonData({ name, data, mode = "create", namespace, branch, metadata, signal, timeoutMs }: {
     name: string;
     data?: DatasetRows;
     mode?: CreateMode;
     namespace?: string[];
     branch?: string;
     metadata?: Record<string, unknown>;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     const input = new DatasetWriteInputStream(
       {
         kind: "start",
@@ -1308,15 +1321,15 @@ export class DatasetsClient {
       },
       data == null ? [] : rowChunkList(data),
     );
-    await this.drainWriteStream("create_table", input);
+    await this.drainWriteStream("create_table", input, { signal, timeoutMs });
   }
 
-  public async dropTable({ name, ignoreMissing = false, namespace, branch }: {
+  public async dropTable({ name, ignoreMissing = false, namespace, branch, signal, timeoutMs }: {
     name: string;
     ignoreMissing?: boolean;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.room.invokeContent({
       toolkit: "dataset",
       tool: "drop_table",
@@ -1326,24 +1339,26 @@ export class DatasetsClient {
         namespace: namespace ?? null,
         branch: branch ?? null,
       },
+      signal,
+      timeoutMs,
     });
   }
 
-  public async renameTable({ name, newName, namespace, branch }: {
+  public async renameTable({ name, newName, namespace, branch, signal, timeoutMs }: {
     name: string;
     newName: string;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.invoke("rename_table", {
       name,
       new_name: newName,
       namespace: namespace ?? null,
       branch: branch ?? null,
-    });
+    }, { signal, timeoutMs });
   }
 
-  public async importFromStorage({ table, path, mode = "create", format = "auto", on, sheet, batchSize, namespace, branch }: {
+  public async importFromStorage({ table, path, mode = "create", format = "auto", on, sheet, batchSize, namespace, branch, signal, timeoutMs }: {
     table: string;
     path: string;
     mode?: DatasetImportMode;
@@ -1353,7 +1368,7 @@ export class DatasetsClient {
     batchSize?: number;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     const input: Record<string, unknown> = {
       table,
       path,
@@ -1367,17 +1382,17 @@ export class DatasetsClient {
     if (batchSize != null) {
       input.batch_size = batchSize;
     }
-    await this.invoke("import_storage", input);
+    await this.invoke("import_storage", input, { signal, timeoutMs });
   }
 
-  public async exportToStorage({ table, path, format, namespace, branch, version }: {
+  public async exportToStorage({ table, path, format, namespace, branch, version, signal, timeoutMs }: {
     table: string;
     path: string;
     format: DatasetStorageFormat;
     namespace?: string[];
     branch?: string;
     version?: number;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.invoke("export_storage", {
       table,
       path,
@@ -1385,44 +1400,46 @@ export class DatasetsClient {
       namespace: namespace ?? null,
       branch: branch ?? null,
       version: version ?? null,
-    });
+    }, { signal, timeoutMs });
   }
 
-  public async updateColumnMetadata({ table, column, metadata, namespace, branch }: {
+  public async updateColumnMetadata({ table, column, metadata, namespace, branch, signal, timeoutMs }: {
     table: string;
     column: string;
     metadata: Record<string, string>;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.invoke("update_column_metadata", {
       table,
       column,
       metadata: metadataEntries(metadata),
       namespace: namespace ?? null,
       branch: branch ?? null,
-    });
+    }, { signal, timeoutMs });
   }
 
-  public async dropIndex({ table, name, namespace, branch }: {
+  public async dropIndex({ table, name, namespace, branch, signal, timeoutMs }: {
     table: string;
     name: string;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.room.invokeContent({
       toolkit: "dataset",
       tool: "drop_index",
       input: { table, name, namespace: namespace ?? null, branch: branch ?? null },
+      signal,
+      timeoutMs,
     });
   }
 
-  public async addColumns({ table, newColumns, namespace, branch }: {
+  public async addColumns({ table, newColumns, namespace, branch, signal, timeoutMs }: {
     table: string;
     newColumns: Record<string, string> | Schema;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     if (newColumns instanceof Schema) {
       await this.invokeContent("add_columns", new BinaryContent({
         data: schemaToIPC(newColumns),
@@ -1432,7 +1449,7 @@ export class DatasetsClient {
           branch: branch ?? null,
           content_type: ARROW_IPC_STREAM_MIME_TYPE,
         },
-      }));
+      }), { signal, timeoutMs });
       return;
     }
     await this.room.invokeContent({
@@ -1446,62 +1463,66 @@ export class DatasetsClient {
         namespace: namespace ?? null,
         branch: branch ?? null,
       },
+      signal,
+      timeoutMs,
     });
   }
 
-  public async dropColumns({ table, columns, namespace, branch }: {
+  public async dropColumns({ table, columns, namespace, branch, signal, timeoutMs }: {
     table: string;
     columns: string[];
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.room.invokeContent({
       toolkit: "dataset",
       tool: "drop_columns",
       input: { table, columns, namespace: namespace ?? null, branch: branch ?? null },
+      signal,
+      timeoutMs,
     });
   }
 
-  public async insert({ table, records, namespace, branch }: {
+  public async insert({ table, records, namespace, branch, signal, timeoutMs }: {
     table: string;
     records: Table;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
-    await this.insertStream({ table, chunks: [records], namespace, branch });
+  } & RequestOptions): Promise<void> {
+    await this.insertStream({ table, chunks: [records], namespace, branch, signal, timeoutMs });
   }
 
-  public async insertTable({ table, records, namespace, branch }: {
+  public async insertTable({ table, records, namespace, branch, signal, timeoutMs }: {
     table: string;
     records: Table;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
-    await this.insertStream({ table, chunks: [records], namespace, branch });
+  } & RequestOptions): Promise<void> {
+    await this.insertStream({ table, chunks: [records], namespace, branch, signal, timeoutMs });
   }
 
-  public async insertStream({ table, chunks, namespace, branch }: {
+  public async insertStream({ table, chunks, namespace, branch, signal, timeoutMs }: {
     table: string;
     chunks: ArrowTableChunks;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     const input = new DatasetArrowWriteInputStream({
       kind: "start",
       table,
       namespace: namespace ?? null,
       branch: branch ?? null,
     }, chunks);
-    await this.drainWriteStream("insert", input);
+    await this.drainWriteStream("insert", input, { signal, timeoutMs });
   }
 
-  public async update({ table, where, values, namespace, branch }: {
+  public async update({ table, where, values, namespace, branch, signal, timeoutMs }: {
     table: string;
     where: string;
     values: DatasetRecord;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.room.invokeContent({
       toolkit: "dataset",
       tool: "update",
@@ -1512,49 +1533,53 @@ export class DatasetsClient {
         namespace: namespace ?? null,
         branch: branch ?? null,
       },
+      signal,
+      timeoutMs,
     });
   }
 
-  public async delete({ table, where, namespace, branch }: {
+  public async delete({ table, where, namespace, branch, signal, timeoutMs }: {
     table: string;
     where: string;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.room.invokeContent({
       toolkit: "dataset",
       tool: "delete",
       input: { table, where, namespace: namespace ?? null, branch: branch ?? null },
+      signal,
+      timeoutMs,
     });
   }
 
-  public async merge({ table, on, records, namespace, branch }: {
+  public async merge({ table, on, records, namespace, branch, signal, timeoutMs }: {
     table: string;
     on: string;
     records: Table;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
-    await this.mergeStream({ table, on, chunks: [records], namespace, branch });
+  } & RequestOptions): Promise<void> {
+    await this.mergeStream({ table, on, chunks: [records], namespace, branch, signal, timeoutMs });
   }
 
-  public async mergeTable({ table, on, records, namespace, branch }: {
+  public async mergeTable({ table, on, records, namespace, branch, signal, timeoutMs }: {
     table: string;
     on: string;
     records: Table;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
-    await this.mergeStream({ table, on, chunks: [records], namespace, branch });
+  } & RequestOptions): Promise<void> {
+    await this.mergeStream({ table, on, chunks: [records], namespace, branch, signal, timeoutMs });
   }
 
-  public async mergeStream({ table, on, chunks, namespace, branch }: {
+  public async mergeStream({ table, on, chunks, namespace, branch, signal, timeoutMs }: {
     table: string;
     on: string;
     chunks: ArrowTableChunks;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     const input = new DatasetArrowWriteInputStream({
       kind: "start",
       table,
@@ -1562,40 +1587,40 @@ export class DatasetsClient {
       namespace: namespace ?? null,
       branch: branch ?? null,
     }, chunks);
-    await this.drainWriteStream("merge", input);
+    await this.drainWriteStream("merge", input, { signal, timeoutMs });
   }
 
-  public async sql({ query, tables, params, namespace, branch }: {
+  public async sql({ query, tables, params, namespace, branch, signal, timeoutMs }: {
     query: string;
     tables?: Array<TableRef | string>;
     params?: Table;
     namespace?: string[];
     branch?: string;
-  }): Promise<Table[]> {
+  } & RequestOptions): Promise<Table[]> {
     const results: Table[] = [];
-    for await (const chunk of this.sqlStream({ query, tables, params, namespace, branch })) {
+    for await (const chunk of this.sqlStream({ query, tables, params, namespace, branch, signal, timeoutMs })) {
       results.push(chunk);
     }
     return results;
   }
 
-  public async sqlTable({ query, tables, params, namespace, branch }: {
+  public async sqlTable({ query, tables, params, namespace, branch, signal, timeoutMs }: {
     query: string;
     tables?: Array<TableRef | string>;
     params?: Table;
     namespace?: string[];
     branch?: string;
-  }): Promise<Table> {
-    return tableFromChunks(await this.sql({ query, tables, params, namespace, branch }));
+  } & RequestOptions): Promise<Table> {
+    return tableFromChunks(await this.sql({ query, tables, params, namespace, branch, signal, timeoutMs }));
   }
 
-  public async openSqlQuery({ query, tables, params, namespace, branch }: {
+  public async openSqlQuery({ query, tables, params, namespace, branch, signal, timeoutMs }: {
     query: string;
     tables?: Array<TableRef | string>;
     params?: Table;
     namespace?: string[];
     branch?: string;
-  }): Promise<DatasetSqlQuery> {
+  } & RequestOptions): Promise<DatasetSqlQuery> {
     const response = await this.invokeContent("open_sql_query", new BinaryContent({
       data: params == null ? new Uint8Array() : tableToIPC(params, "stream"),
       headers: {
@@ -1604,7 +1629,7 @@ export class DatasetsClient {
         namespace: namespace ?? null,
         branch: branch ?? null,
       },
-    }));
+    }), { signal, timeoutMs });
     if (!(response instanceof BinaryContent)) {
       throw this._unexpectedResponseError("open_sql_query");
     }
@@ -1619,13 +1644,13 @@ export class DatasetsClient {
     };
   }
 
-  public async executeSql({ query, tables, params, namespace, branch }: {
+  public async executeSql({ query, tables, params, namespace, branch, signal, timeoutMs }: {
     query: string;
     tables?: Array<TableRef | string>;
     params?: Table;
     namespace?: string[];
     branch?: string;
-  }): Promise<DatasetSqlExecution> {
+  } & RequestOptions): Promise<DatasetSqlExecution> {
     const response = await this.invokeContent("execute_sql", new BinaryContent({
       data: params == null ? new Uint8Array() : tableToIPC(params, "stream"),
       headers: {
@@ -1634,7 +1659,7 @@ export class DatasetsClient {
         namespace: namespace ?? null,
         branch: branch ?? null,
       },
-    }));
+    }), { signal, timeoutMs });
     if (response instanceof BinaryContent) {
       if (response.headers.kind !== "query") {
         throw this._unexpectedResponseError("execute_sql");
@@ -1663,41 +1688,41 @@ export class DatasetsClient {
     throw this._unexpectedResponseError("execute_sql");
   }
 
-  public async *sqlStream({ query, tables, params, namespace, branch }: {
+  public async *sqlStream({ query, tables, params, namespace, branch, signal, timeoutMs }: {
     query: string;
     tables?: Array<TableRef | string>;
     params?: Table;
     namespace?: string[];
     branch?: string;
-  }): AsyncIterable<Table> {
-    const result = await this.executeSql({ query, tables, params, namespace, branch });
+  } & RequestOptions): AsyncIterable<Table> {
+    const result = await this.executeSql({ query, tables, params, namespace, branch, signal, timeoutMs });
     if (result.kind === "statement") {
       throw new RoomServerException(`SQL statement did not return rows; rows_affected=${result.rowsAffected}`);
     }
     const opened = result;
     try {
-      yield* this.readSqlQuery({ queryId: opened.queryId });
+      yield* this.readSqlQuery({ queryId: opened.queryId, signal, timeoutMs });
     } finally {
       await this.closeSqlQuery({ queryId: opened.queryId });
     }
   }
 
-  public async *readSqlQuery({ queryId }: { queryId: string }): AsyncIterable<Table> {
+  public async *readSqlQuery({ queryId, signal, timeoutMs }: { queryId: string } & RequestOptions): AsyncIterable<Table> {
     yield* this.streamArrow("read_sql_query", {
       kind: "start",
       query_id: queryId,
-    });
+    }, { signal, timeoutMs });
   }
 
-  public async closeSqlQuery({ queryId }: { queryId: string }): Promise<void> {
-    const response = await this.room.invokeContent({ toolkit: "dataset", tool: "close_sql_query", input: { query_id: queryId } });
+  public async closeSqlQuery({ queryId, signal, timeoutMs }: { queryId: string } & RequestOptions): Promise<void> {
+    const response = await this.room.invokeContent({ toolkit: "dataset", tool: "close_sql_query", input: { query_id: queryId }, signal, timeoutMs });
     if (!(response instanceof EmptyContent)) {
       throw this._unexpectedResponseError("close_sql_query");
     }
   }
 
-  public async cancelSqlQuery({ queryId }: { queryId: string }): Promise<DatasetSqlCancelResult> {
-    const response = await this.room.invokeContent({ toolkit: "dataset", tool: "cancel_sql_query", input: { query_id: queryId } });
+  public async cancelSqlQuery({ queryId, signal, timeoutMs }: { queryId: string } & RequestOptions): Promise<DatasetSqlCancelResult> {
+    const response = await this.room.invokeContent({ toolkit: "dataset", tool: "cancel_sql_query", input: { query_id: queryId }, signal, timeoutMs });
     if (!(response instanceof JsonContent)
       || !["cancelled", "cancelling", "not_cancellable"].includes(response.json.status as string)) {
       throw this._unexpectedResponseError("cancel_sql_query");
@@ -1705,13 +1730,13 @@ export class DatasetsClient {
     return { status: response.json.status as DatasetSqlCancelStatus };
   }
 
-  public async executeSqlStatement({ query, tables, params, namespace, branch }: {
+  public async executeSqlStatement({ query, tables, params, namespace, branch, signal, timeoutMs }: {
     query: string;
     tables?: Array<TableRef | string>;
     params?: Table;
     namespace?: string[];
     branch?: string;
-  }): Promise<number> {
+  } & RequestOptions): Promise<number> {
     const response = await this.invokeContent("execute_sql_statement", new BinaryContent({
       data: params == null ? new Uint8Array() : tableToIPC(params, "stream"),
       headers: {
@@ -1720,7 +1745,7 @@ export class DatasetsClient {
         namespace: namespace ?? null,
         branch: branch ?? null,
       },
-    }));
+    }), { signal, timeoutMs });
     if (!(response instanceof JsonContent)
       || typeof response.json.rows_affected !== "number"
       || !Number.isInteger(response.json.rows_affected)) {
@@ -1729,7 +1754,7 @@ export class DatasetsClient {
     return response.json.rows_affected;
   }
 
-  public async search({ table, text, vector, where, offset, limit, select, namespace, branch, version }: {
+  public async search({ table, text, vector, where, offset, limit, select, namespace, branch, version, signal, timeoutMs }: {
     table: string;
     text?: string;
     vector?: number[];
@@ -1740,7 +1765,7 @@ export class DatasetsClient {
     namespace?: string[];
     branch?: string;
     version?: number;
-  }): Promise<Table[]> {
+  } & RequestOptions): Promise<Table[]> {
     const results: Table[] = [];
     for await (const chunk of this.searchStream({
       table,
@@ -1753,13 +1778,15 @@ export class DatasetsClient {
       namespace,
       branch,
       version,
+      signal,
+      timeoutMs,
     })) {
       results.push(chunk);
     }
     return results;
   }
 
-  public async searchTable({ table, text, vector, where, offset, limit, select, namespace, branch, version }: {
+  public async searchTable({ table, text, vector, where, offset, limit, select, namespace, branch, version, signal, timeoutMs }: {
     table: string;
     text?: string;
     vector?: number[];
@@ -1770,7 +1797,7 @@ export class DatasetsClient {
     namespace?: string[];
     branch?: string;
     version?: number;
-  }): Promise<Table> {
+  } & RequestOptions): Promise<Table> {
     return tableFromChunks(await this.search({
       table,
       text,
@@ -1782,10 +1809,12 @@ export class DatasetsClient {
       namespace,
       branch,
       version,
+      signal,
+      timeoutMs,
     }));
   }
 
-  public async *searchStream({ table, text, vector, where, offset, limit, select, namespace, branch, version }: {
+  public async *searchStream({ table, text, vector, where, offset, limit, select, namespace, branch, version, signal, timeoutMs }: {
     table: string;
     text?: string;
     vector?: number[];
@@ -1796,7 +1825,7 @@ export class DatasetsClient {
     namespace?: string[];
     branch?: string;
     version?: number;
-  }): AsyncIterable<Table> {
+  } & RequestOptions): AsyncIterable<Table> {
     yield* this.streamArrow("search", {
       kind: "start",
       table,
@@ -1810,15 +1839,15 @@ export class DatasetsClient {
       namespace: namespace ?? null,
       branch: branch ?? null,
       version: version ?? null,
-    });
+    }, { signal, timeoutMs });
   }
 
-  public async *watchTable({ table, namespace, branch, pollIntervalSeconds = 0.5 }: {
+  public async *watchTable({ table, namespace, branch, pollIntervalSeconds = 0.5, signal, timeoutMs }: {
     table: string;
     namespace?: string[];
     branch?: string;
     pollIntervalSeconds?: number;
-  }): AsyncIterable<DatasetWatchEvent> {
+  } & RequestOptions): AsyncIterable<DatasetWatchEvent> {
     const input = new DatasetArrowReadInputStream({
       kind: "start",
       table,
@@ -1826,7 +1855,7 @@ export class DatasetsClient {
       branch: branch ?? null,
       poll_interval_seconds: pollIntervalSeconds,
     });
-    const response = await this.invokeStream("watch_table", input.stream());
+    const response = await this.invokeStream("watch_table", input.stream(), { signal, timeoutMs });
     input.requestNext();
     try {
       for await (const chunk of response) {
@@ -1885,7 +1914,7 @@ export class DatasetsClient {
     }
   }
 
-  public async count({ table, text, vector, where, namespace, branch, version }: {
+  public async count({ table, text, vector, where, namespace, branch, version, signal, timeoutMs }: {
     table: string;
     text?: string;
     vector?: number[];
@@ -1893,7 +1922,7 @@ export class DatasetsClient {
     namespace?: string[];
     branch?: string;
     version?: number;
-  }): Promise<number> {
+  } & RequestOptions): Promise<number> {
     const response = await this.invoke("count", {
       table,
       text: text ?? null,
@@ -1903,19 +1932,19 @@ export class DatasetsClient {
       namespace: namespace ?? null,
       branch: branch ?? null,
       version: version ?? null,
-    });
+    }, { signal, timeoutMs });
     if (!(response instanceof JsonContent) || typeof response.json.count !== "number" || !Number.isInteger(response.json.count)) {
       throw this._unexpectedResponseError("count");
     }
     return response.json.count;
   }
 
-  public async inspect({ table, namespace, branch, version }: {
+  public async inspect({ table, namespace, branch, version, signal, timeoutMs }: {
     table: string;
     namespace?: string[];
     branch?: string;
     version?: number;
-  }): Promise<Schema> {
+  } & RequestOptions): Promise<Schema> {
     const response = await this.room.invokeContent({
       toolkit: "dataset",
       tool: "inspect",
@@ -1925,6 +1954,8 @@ export class DatasetsClient {
       branch: branch ?? null,
       version: version ?? null,
       },
+      signal,
+      timeoutMs,
     });
     if (!(response instanceof BinaryContent)) {
       throw this._unexpectedResponseError("inspect");
@@ -1932,122 +1963,130 @@ export class DatasetsClient {
     return tableFromIPCBytes(response.data).schema;
   }
 
-  public async optimize(table: string): Promise<DatasetOptimizeResult>;
-  public async optimize(params: { table: string; namespace?: string[]; branch?: string; config?: DatasetOptimizeConfig }): Promise<DatasetOptimizeResult>;
-  public async optimize(tableOrParams: string | { table: string; namespace?: string[]; branch?: string; config?: DatasetOptimizeConfig }): Promise<DatasetOptimizeResult> {
+  public async optimize(table: string, options?: RequestOptions): Promise<DatasetOptimizeResult>;
+  public async optimize(params: { table: string; namespace?: string[]; branch?: string; config?: DatasetOptimizeConfig } & RequestOptions): Promise<DatasetOptimizeResult>;
+  public async optimize(
+    tableOrParams: string | ({ table: string; namespace?: string[]; branch?: string; config?: DatasetOptimizeConfig } & RequestOptions),
+    options: RequestOptions = {},
+  ): Promise<DatasetOptimizeResult> {
     const table = typeof tableOrParams === "string" ? tableOrParams : tableOrParams.table;
     const namespace = typeof tableOrParams === "string" ? undefined : tableOrParams.namespace;
     const branch = typeof tableOrParams === "string" ? undefined : tableOrParams.branch;
     const config = typeof tableOrParams === "string" ? undefined : tableOrParams.config;
+    const { signal, timeoutMs } = typeof tableOrParams === "string" ? options : tableOrParams;
     const response = await this.invoke("optimize", {
       table,
       namespace: namespace ?? null,
       branch: branch ?? null,
       config: config ?? null,
-    });
+    }, { signal, timeoutMs });
     if (!(response instanceof JsonContent)) {
       throw this._unexpectedResponseError("optimize");
     }
     return optimizeResultFromJson(response.json);
   }
 
-  public async stats({ table, namespace, branch, version, maxRowsPerGroup }: {
+  public async stats({ table, namespace, branch, version, maxRowsPerGroup, signal, timeoutMs }: {
     table: string;
     namespace?: string[];
     branch?: string;
     version?: number;
     maxRowsPerGroup?: number;
-  }): Promise<DatasetTableStats> {
+  } & RequestOptions): Promise<DatasetTableStats> {
     const response = await this.invoke("stats", {
       table,
       namespace: namespace ?? null,
       branch: branch ?? null,
       version: version ?? null,
       max_rows_per_group: maxRowsPerGroup ?? null,
-    });
+    }, { signal, timeoutMs });
     if (!(response instanceof JsonContent)) {
       throw this._unexpectedResponseError("stats");
     }
     return tableStatsFromJson(response.json);
   }
 
-  public async restore({ table, version, namespace, branch }: {
+  public async restore({ table, version, namespace, branch, signal, timeoutMs }: {
     table: string;
     version: number;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.room.invokeContent({
       toolkit: "dataset",
       tool: "restore",
       input: { table, version, namespace: namespace ?? null, branch: branch ?? null },
+      signal,
+      timeoutMs,
     });
   }
 
-  public async listVersions({ table, namespace, branch }: {
+  public async listVersions({ table, namespace, branch, signal, timeoutMs }: {
     table: string;
     namespace?: string[];
     branch?: string;
-  }): Promise<TableVersion[]> {
+  } & RequestOptions): Promise<TableVersion[]> {
     const response = await this.invoke("list_versions", {
       table,
       namespace: namespace ?? null,
       branch: branch ?? null,
-    });
+    }, { signal, timeoutMs });
     if (!(response instanceof JsonContent) || !Array.isArray(response.json.versions)) {
       throw this._unexpectedResponseError("list_versions");
     }
     return response.json.versions.map((version) => tableVersionFromJson(version));
   }
 
-  public async createIndex({ table, config, namespace, branch }: {
+  public async createIndex({ table, config, namespace, branch, signal, timeoutMs }: {
     table: string;
     config: DatasetIndexConfig;
     namespace?: string[];
     branch?: string;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.room.invokeContent({
       toolkit: "dataset",
       tool: "create_index",
       input: { table, config, namespace: namespace ?? null, branch: branch ?? null },
+      signal,
+      timeoutMs,
     });
   }
 
-  public async listIndexes({ table, namespace, branch, version }: {
+  public async listIndexes({ table, namespace, branch, version, signal, timeoutMs }: {
     table: string;
     namespace?: string[];
     branch?: string;
     version?: number;
-  }): Promise<TableIndex[]> {
+  } & RequestOptions): Promise<TableIndex[]> {
     const response = await this.invoke("list_indexes", {
       table,
       namespace: namespace ?? null,
       branch: branch ?? null,
       version: version ?? null,
-    });
+    }, { signal, timeoutMs });
     if (!(response instanceof JsonContent) || !Array.isArray(response.json.indexes)) {
       throw this._unexpectedResponseError("list_indexes");
     }
     return response.json.indexes.map((index) => tableIndexFromJson(index));
   }
 
-  public async listBranches({ namespace }: {
+  public async listBranches({ namespace, signal, timeoutMs }: {
     namespace?: string[];
-  } = {}): Promise<TableBranch[]> {
+  } & RequestOptions = {}): Promise<TableBranch[]> {
     const response = await this.invoke("list_branches", {
       namespace: namespace ?? null,
-    });
+    }, { signal, timeoutMs });
     if (!(response instanceof JsonContent) || !Array.isArray(response.json.branches)) {
       throw this._unexpectedResponseError("list_branches");
     }
     return response.json.branches.map((branch) => tableBranchFromJson(branch));
   }
 
-  public async createBranch({ branch, fromBranch, namespace }: {
+  public async createBranch({ branch, fromBranch, namespace, signal, timeoutMs }: {
     branch: string;
     fromBranch?: string;
     namespace?: string[];
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.room.invokeContent({
       toolkit: "dataset",
       tool: "create_branch",
@@ -2056,17 +2095,21 @@ export class DatasetsClient {
         from_branch: fromBranch ?? null,
         namespace: namespace ?? null,
       },
+      signal,
+      timeoutMs,
     });
   }
 
-  public async deleteBranch({ branch, namespace }: {
+  public async deleteBranch({ branch, namespace, signal, timeoutMs }: {
     branch: string;
     namespace?: string[];
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.room.invokeContent({
       toolkit: "dataset",
       tool: "delete_branch",
       input: { branch, namespace: namespace ?? null },
+      signal,
+      timeoutMs,
     });
   }
 }
@@ -0,0 +1,309 @@
+// document-awareness.ts
+
+import { isRelativePosition, type DocumentSelection } from "./document-position.js";
+import { EventEmitter } from "./event-emitter.js";
+import type { RoomClient } from "./room-client.js";
+import type { RoomMessage, RoomMessageEvent } from "./room-event.js";
+
+/**
+ * The messaging type of awareness messages. Their payload is `{ path, kind, clock, selection, state }`, where
+ * kind is "join" when a participant opens the document, "update" when its state changes and "leave" when it
+ * closes the document.
+ */
+export const AWARENESS_MESSAGE_TYPE = "document.awareness";
+
+type AwarenessMessageKind = "join" | "update" | "leave";
+
+/**
+ * What another participant that has the document open is doing in it.
+ */
+export interface DocumentAwarenessPeer {
+  participantId: string;
+  selection: DocumentSelection | null;
+  state: Record<string, unknown>;
+
+  /**
+   * When the peer's state was last received, in milliseconds since the epoch.
+   */
+  updatedAt: number;
+}
+
+export interface DocumentAwarenessEvent {
+  type: "join" | "update" | "leave";
+  peer: DocumentAwarenessPeer;
+}
+
+export interface DocumentAwarenessOptions {
+  /**
+   * Local changes are sent at most once per this many milliseconds; changes in between are merged. Defaults to 100.
+   */
+  throttleMs?: number;
+
+  /**
+   * Peers that have not been heard from for this many milliseconds are removed, for example after they crashed.
+   * The local state is resent every half of this to stay present. Defaults to 30000.
+   */
+  timeoutMs?: number;
+}
+
+function parseSelection(value: unknown): DocumentSelection | null {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const { anchor, head } = value as Record<string, unknown>;
+  return isRelativePosition(anchor) && isRelativePosition(head) ? { anchor, head } : null;
+}
+
+/**
+ * Ephemeral presence for one synced document: which participants have it open, their selection and any custom
+ * state such as a display color. Nothing is stored in the document. State travels as room messages, so it is only
+ * exchanged while messaging is enabled on the room.
+ *
+ * Emits "join", "update" and "leave" with the peer. Peers leave when they close the document, when they leave the
+ * room, when this room disconnects, and when they have not been heard from within `timeoutMs`.
+ */
+export class DocumentAwareness extends EventEmitter<DocumentAwarenessEvent> {
+  public readonly path: string;
+
+  private readonly room: RoomClient;
+  private readonly throttleMs: number;
+  private readonly timeoutMs: number;
+  private readonly _peers = new Map<string, DocumentAwarenessPeer>();
+  private readonly _clocks = new Map<string, number>();
+  private _state: Record<string, unknown> = {};
+  private _selection: DocumentSelection | null = null;
+  private _clock = 0;
+  private _lastSentAt = 0;
+  private _sendTimer: ReturnType<typeof setTimeout> | null = null;
+  private _renewTimer: ReturnType<typeof setInterval> | null = null;
+  private _started = false;
+
+  constructor({ room, path, throttleMs = 100, timeoutMs = 30000 }: {
+    room: RoomClient;
+    path: string;
+  } & DocumentAwarenessOptions) {
+    super();
+    this.room = room;
+    this.path = path;
+    this.throttleMs = throttleMs;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Announces the local participant to the others that have the document open. SyncClient starts it for
+   * documents opened with the `awareness` option.
+   */
+  public start(): void {
+    if (this._started) {
+      return;
+    }
+    this._started = true;
+    this.room.messaging.on("message", this._onMessage);
+    this.room.messaging.on("participant_removed", this._onParticipantRemoved);
+    this.room.messaging.on("messaging_enabled", this._onMessagingEnabled);
+    this._renewTimer = setInterval(this._renew, this.timeoutMs / 2);
+    this._send("join");
+  }
+
+  get peers(): DocumentAwarenessPeer[] {
+    return [...this._peers.values()];
+  }
+
+  public getPeer(participantId: string): DocumentAwarenessPeer | null {
+    return this._peers.get(participantId) ?? null;
+  }
+
+  get state(): Record<string, unknown> {
+    return this._state;
+  }
+
+  get selection(): DocumentSelection | null {
+    return this._selection;
+  }
+
+  /**
+   * Replaces the local custom state. The state must be JSON serializable.
+   */
+  public setState(state: Record<string, unknown>): void {
+    this._state = { ...state };
+    this._scheduleSend();
+  }
+
+  /**
+   * Sets one field of the local custom state, or removes it when `value` is undefined.
+   */
+  public setStateField(name: string, value: unknown): void {
+    const state = { ...this._state };
+    if (value === undefined) {
+      delete state[name];
+    } else {
+      state[name] = value;
+    }
+    this._state = state;
+    this._scheduleSend();
+  }
+
+  /**
+   * Sets the local selection, or clears it when null. Positions come from `TextElement.createPosition` and
+   * `Element.createChildPosition`; peers resolve them with `resolveSelection`.
+   */
+  public setSelection(selection: DocumentSelection | null): void {
+    this._selection = selection;
+    this._scheduleSend();
+  }
+
+  /**
+   * Tells the others that the local participant left the document and stops tracking peers.
+   */
+  public override dispose(): void {
+    if (this._started) {
+      this._started = false;
+      this.room.messaging.off("message", this._onMessage);
+      this.room.messaging.off("participant_removed", this._onParticipantRemoved);
+      this.room.messaging.off("messaging_enabled", this._onMessagingEnabled);
+      this._send("leave");
+    }
+    if (this._sendTimer !== null) {
+      clearTimeout(this._sendTimer);
+      this._sendTimer = null;
+    }
+    if (this._renewTimer !== null) {
+      clearInterval(this._renewTimer);
+      this._renewTimer = null;
+    }
+    this._removeAll();
+    super.dispose();
+  }
+
+  /**
+   * Drops every peer when the room disconnects. Peers are announced again once messaging is back online.
+   */
+  public _onRoomDisconnect(): void {
+    this._removeAll();
+  }
+
+  private _scheduleSend(): void {
+    if (!this._started || this._sendTimer !== null) {
+      return;
+    }
+    const wait = this._lastSentAt + this.throttleMs - Date.now();
+    if (wait <= 0) {
+      this._send("update");
+      return;
+    }
+    this._sendTimer = setTimeout(() => {
+      this._sendTimer = null;
+      this._send("update");
+    }, wait);
+  }
+
+  private _payload(kind: AwarenessMessageKind): Record<string, unknown> {
+    this._clock += 1;
+    return {
+      path: this.path,
+      kind,
+      clock: this._clock,
+      selection: kind === "leave" ? null : this._selection,
+      state: kind === "leave" ? {} : this._state,
+    };
+  }
+
+  private _send(kind: AwarenessMessageKind): void {
+    if (!this.room.messaging.online) {
+      return;
+    }
+    this._lastSentAt = Date.now();
+    // Awareness is ephemeral: a lost update is replaced by the next one or by the periodic renewal.
+    this.room.messaging.broadcastMessage({ type: AWARENESS_MESSAGE_TYPE, message: this._payload(kind) }).catch(() => {});
+  }
+
+  private _sendTo(participantId: string): void {
+    const participant = this.room.messaging.getParticipant(participantId);
+    if (participant === null) {
+      return;
+    }
+    this.room.messaging.sendMessageNowait({ to: participant, type: AWARENESS_MESSAGE_TYPE, message: this._payload("update") });
+  }
+
+  private readonly _renew = (): void => {
+    const expired = Date.now() - this.timeoutMs;
+    for (const peer of [...this._peers.values()]) {
+      if (peer.updatedAt < expired) {
+        this._remove(peer.participantId);
+      }
+    }
+    if (this._sendTimer === null) {
+      this._send("update");
+    }
+  };
+
+  private readonly _onMessage = (event: RoomMessageEvent): void => {
+    const message: RoomMessage = event.message;
+    if (message.type !== AWARENESS_MESSAGE_TYPE || message.message["path"] !== this.path) {
+      return;
+    }
+    const participantId = message.fromParticipantId;
+    if (participantId === this.room.localParticipant?.id) {
+      return;
+    }
+    const clock = Number(message.message["clock"]);
+    if (clock <= (this._clocks.get(participantId) ?? 0)) {
+      return;
+    }
+    this._clocks.set(participantId, clock);
+
+    const kind = message.message["kind"] as AwarenessMessageKind;
+    if (kind === "leave") {
+      // A later session of this participant starts counting again.
+      this._clocks.delete(participantId);
+      this._remove(participantId);
+      return;
+    }
+
+    const state = message.message["state"];
+    const joined = !this._peers.has(participantId);
+    const peer: DocumentAwarenessPeer = {
+      participantId,
+      selection: parseSelection(message.message["selection"]),
+      state: typeof state === "object" && state !== null && !Array.isArray(state) ? state as Record<string, unknown> : {},
+      updatedAt: Date.now(),
+    };
+    this._peers.set(participantId, peer);
+    if (kind === "join") {
+      // Let the newcomer know about us without waiting for our next update.
+      this._sendTo(participantId);
+    }
+    this.emit(joined ? "join" : "update", { type: joined ? "join" : "update", peer });
+  };
+
+  private readonly _onParticipantRemoved = (event: RoomMessageEvent): void => {
+    const participantId = String(event.message.message["id"]);
+    this._clocks.delete(participantId);
+    this._remove(participantId);
+  };
+
+  private readonly _onMessagingEnabled = (): void => {
+    for (const participantId of [...this._peers.keys()]) {
+      if (this.room.messaging.getParticipant(participantId) === null) {
+        this._remove(participantId);
+      }
+    }
+    this._send("join");
+  };
+
+  private _remove(participantId: string): void {
+    const peer = this._peers.get(participantId);
+    if (peer === undefined) {
+      return;
+    }
+    this._peers.delete(participantId);
+    this.emit("leave", { type: "leave", peer });
+  }
+
+  private _removeAll(): void {
+    this._clocks.clear();
+    for (const participantId of [...this._peers.keys()]) {
+      this._remove(participantId);
+    }
+  }
+}
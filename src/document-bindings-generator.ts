@@ -0,0 +1,188 @@
+// document-bindings-generator.ts
+
+import { ChildProperty, ElementType, MeshSchema, SimpleValue, ValueProperty } from "./schema.js";
+
+export interface DocumentBindingsGeneratorOptions {
+    /**
+     * Module the generated code imports the SDK from. Defaults to "@meshagent/meshagent".
+     */
+    importPath?: string;
+}
+
+const RESERVED_WORDS = new Set([
+    "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do", "else", "enum",
+    "export", "extends", "false", "finally", "for", "function", "if", "import", "in", "instanceof", "new", "null",
+    "return", "super", "switch", "this", "throw", "true", "try", "typeof", "var", "void", "while", "with", "yield",
+    "let", "static", "implements", "interface", "package", "private", "protected", "public", "await",
+    "constructor",
+]);
+
+// Members of TypedElement that generated accessors must not shadow.
+const TYPED_ELEMENT_MEMBERS = new Set([
+    "element", "id", "delete", "tagName", "getValue", "setValue", "getChildElements", "createChildElement",
+    "getTextElement",
+]);
+
+const SDK_NAMES = new Set(["TypedElement", "RuntimeDocument", "TextElement"]);
+
+function words(name: string): string[] {
+    return name
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .split(/[^A-Za-z0-9]+/)
+        .filter((word) => word.length > 0);
+}
+
+function pascalCase(name: string): string {
+    const result = words(name).map((word) => word[0].toUpperCase() + word.slice(1)).join("");
+    if (result === "") return "Element";
+    return /^[0-9]/.test(result) ? `_${result}` : result;
+}
+
+function camelCase(name: string): string {
+    const pascal = pascalCase(name);
+    const result = pascal.startsWith("_") ? pascal : pascal[0].toLowerCase() + pascal.slice(1);
+    return RESERVED_WORDS.has(result) || TYPED_ELEMENT_MEMBERS.has(result) ? `${result}_` : result;
+}
+
+function propertyKey(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function docComment(text: string | undefined, indent: string): string {
+    if (text === undefined || text.trim() === "") return "";
+    const lines = text.trim().replace(/\*\//g, "*\\/").split("\n");
+    return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`.trimEnd()).join("\n")}\n${indent} */\n`;
+}
+
+function unique(name: string, used: Set<string>): string {
+    let result = name;
+    for (let suffix = 2; used.has(result); suffix += 1) {
+        result = `${name}${suffix}`;
+    }
+    used.add(result);
+    return result;
+}
+
+function valueType(property: ValueProperty): string {
+    if (property.enumValues !== undefined && property.enumValues.length > 0) {
+        return property.enumValues.map((value) => JSON.stringify(value)).join(" | ");
+    }
+    const type = property.type === SimpleValue.nullValue ? "null" : property.type;
+    // Optional values are declared as nullable in the schema JSON, see ValueProperty.toJson.
+    return property.required || type === "null" ? type : `${type} | null`;
+}
+
+function attributesInterface(elementType: ElementType, name: string): string {
+    const lines = elementType.properties
+        .filter((property): property is ValueProperty => property instanceof ValueProperty)
+        .map((property) => `${docComment(property.description, "    ")}    ${propertyKey(property.name)}${property.required ? "" : "?"}: ${valueType(property)};`);
+    if (lines.length === 0) return `export type ${name} = Record<string, never>;`;
+    return `export interface ${name} {\n${lines.join("\n")}\n}`;
+}
+
+function bindingClass(elementType: ElementType, classNames: Map<string, string>, requiresAttributes: Set<string>): string {
+    const className = classNames.get(elementType.tagName)!;
+    const members = new Set<string>();
+    const body: string[] = [`    public static readonly tagName = ${JSON.stringify(elementType.tagName)};`];
+
+    for (const property of elementType.properties) {
+        if (property instanceof ValueProperty) {
+            const accessor = unique(camelCase(property.name), members);
+            const type = property.required ? valueType(property) : `${valueType(property)} | undefined`;
+            body.push([
+                "",
+                `${docComment(property.description, "    ")}    get ${accessor}(): ${type} {`,
+                `        return this.getValue(${JSON.stringify(property.name)});`,
+                "    }",
+                "",
+                `    set ${accessor}(value: ${type}) {`,
+                `        this.setValue(${JSON.stringify(property.name)}, value);`,
+                "    }",
+            ].join("\n"));
+        } else if (property instanceof ChildProperty) {
+            const childClasses = property.childTagNames.map((tagName) => classNames.get(tagName)!);
+            if (childClasses.length > 0) {
+                const accessor = unique(camelCase(property.name), members);
+                const type = childClasses.length === 1 ? `${childClasses[0]}[]` : `Array<${childClasses.join(" | ")}>`;
+                body.push([
+                    "",
+                    `${docComment(property.description, "    ")}    get ${accessor}(): ${type} {`,
+                    `        return this.getChildElements<${childClasses.join(" | ")}>([${childClasses.join(", ")}]);`,
+                    "    }",
+                ].join("\n"));
+            }
+            for (const childClass of childClasses) {
+                const method = unique(`create${childClass}`, members);
+                body.push([
+                    "",
+                    `    public ${method}(attributes: ${childClass}Attributes${requiresAttributes.has(childClass) ? "" : " = {}"}, index?: number): ${childClass} {`,
+                    `        return this.createChildElement(${childClass}, attributes, index);`,
+                    "    }",
+                ].join("\n"));
+            }
+        }
+    }
+
+    if (elementType.tagName === "text" && !members.has("text")) {
+        body.push([
+            "",
+            "    get text(): TextElement {",
+            "        return this.getTextElement();",
+            "    }",
+        ].join("\n"));
+    }
+
+    return `${docComment(elementType.description, "")}export class ${className} extends TypedElement {\n${body.join("\n")}\n}`;
+}
+
+/**
+ * Generates a TypeScript module with typed bindings for the elements of a document schema. Each element type
+ * becomes a TypedElement subclass with an accessor per attribute, typed from its ValueProperty, a getter for its
+ * children and a create method per allowed child tag, plus an interface for its attributes. A bind function
+ * wraps the root of a document.
+ *
+ * The schema can be a MeshSchema or its JSON, as stored with documents.
+ */
+export function generateDocumentBindings(
+    schema: MeshSchema | Record<string, any>,
+    { importPath = "@meshagent/meshagent" }: DocumentBindingsGeneratorOptions = {},
+): string {
+    const meshSchema = schema instanceof MeshSchema ? schema : MeshSchema.fromJson(schema);
+    const usedNames = new Set<string>(SDK_NAMES);
+    const classNames = new Map<string, string>();
+    for (const elementType of meshSchema.elements) {
+        let className = pascalCase(elementType.tagName);
+        while (usedNames.has(className) || usedNames.has(`${className}Attributes`)) {
+            className = `${className}Element`;
+        }
+        usedNames.add(className);
+        usedNames.add(`${className}Attributes`);
+        classNames.set(elementType.tagName, className);
+    }
+
+    // Create methods can only default their attributes to {} when no attribute is required.
+    const requiresAttributes = new Set(meshSchema.elements
+        .filter((elementType) => elementType.properties.some((property) => property instanceof ValueProperty && property.required))
+        .map((elementType) => classNames.get(elementType.tagName)!));
+
+    const declarations = meshSchema.elements.map((elementType) => [
+        attributesInterface(elementType, `${classNames.get(elementType.tagName)}Attributes`),
+        bindingClass(elementType, classNames, requiresAttributes),
+    ].join("\n\n"));
+
+    const rootClass = classNames.get(meshSchema.root.tagName)!;
+    const usesText = meshSchema.elements.some((elementType) => elementType.tagName === "text");
+
+    return [
+        `// Generated from the ${JSON.stringify(meshSchema.root.tagName)} document schema. Do not edit by hand.`,
+        "",
+        `import { TypedElement } from ${JSON.stringify(importPath)};`,
+        `import type { ${usesText ? "RuntimeDocument, TextElement" : "RuntimeDocument"} } from ${JSON.stringify(importPath)};`,
+        "",
+        ...declarations.map((declaration) => `${declaration}\n`),
+        `export function bind${rootClass}(doc: RuntimeDocument): ${rootClass} {`,
+        `    return new ${rootClass}(doc.root);`,
+        "}",
+        "",
+    ].join("\n");
+}
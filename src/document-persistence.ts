@@ -0,0 +1,228 @@
+// document-persistence.ts
+
+/**
+ * What SyncClient keeps locally for a document: its full state and state vector as base64 Yjs encodings, and the
+ * local edits that have not been sent to the room yet.
+ */
+export interface PersistedDocument {
+  state: string;
+  stateVector: string;
+  pendingUpdate: string | null;
+}
+
+/**
+ * Storage for documents opened through SyncClient, keyed by document path. Implementations only need to store and
+ * return the records as given.
+ */
+export interface DocumentPersistence {
+  load(path: string): Promise<PersistedDocument | null>;
+  save(path: string, document: PersistedDocument): Promise<void>;
+  remove(path: string): Promise<void>;
+}
+
+function isPersistedDocument(value: unknown): value is PersistedDocument {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  return typeof record["state"] === "string" &&
+    typeof record["stateVector"] === "string" &&
+    (record["pendingUpdate"] === null || typeof record["pendingUpdate"] === "string");
+}
+
+export class MemoryDocumentPersistence implements DocumentPersistence {
+  public readonly documents = new Map<string, PersistedDocument>();
+
+  public async load(path: string): Promise<PersistedDocument | null> {
+    const document = this.documents.get(path);
+    return document === undefined ? null : { ...document };
+  }
+
+  public async save(path: string, document: PersistedDocument): Promise<void> {
+    this.documents.set(path, { ...document });
+  }
+
+  public async remove(path: string): Promise<void> {
+    this.documents.delete(path);
+  }
+}
+
+interface FileSystemPromises {
+  mkdir(path: string, options: { recursive: boolean }): Promise<unknown>;
+  readFile(path: string, encoding: "utf8"): Promise<string>;
+  writeFile(path: string, data: string, encoding: "utf8"): Promise<void>;
+  rename(from: string, to: string): Promise<void>;
+  rm(path: string, options: { force: boolean }): Promise<void>;
+}
+
+const globalScope = globalThis as typeof globalThis & {
+  process?: {
+    versions?: { node?: string };
+    getBuiltinModule?: (id: string) => unknown;
+  };
+  indexedDB?: IndexedDbFactory;
+};
+
+function fileSystemPromises(): Promise<FileSystemPromises> {
+  const fs = globalScope.process?.getBuiltinModule?.("fs/promises") as FileSystemPromises | undefined;
+  if (fs !== undefined) {
+    return Promise.resolve(fs);
+  }
+  // Node.js before 20.16 has no getBuiltinModule. The specifier is not a literal so browser bundlers leave it alone.
+  const specifier = "fs/promises";
+  return import(specifier) as Promise<FileSystemPromises>;
+}
+
+/**
+ * Stores each document as a JSON file in `directory`.
+ */
+export class FileDocumentPersistence implements DocumentPersistence {
+  public readonly directory: string;
+
+  private _fs?: Promise<FileSystemPromises>;
+
+  constructor({ directory }: { directory: string }) {
+    if (globalScope.process?.versions?.node === undefined) {
+      throw new Error("FileDocumentPersistence requires the Node.js file system");
+    }
+    this.directory = directory.replace(/[\\/]+$/, "");
+  }
+
+  private _fileSystem(): Promise<FileSystemPromises> {
+    if (this._fs === undefined) {
+      this._fs = fileSystemPromises();
+      this._fs.catch(() => {
+        this._fs = undefined;
+      });
+    }
+    return this._fs;
+  }
+
+  private _file(path: string): string {
+    return `${this.directory}/${encodeURIComponent(path)}.json`;
+  }
+
+  public async load(path: string): Promise<PersistedDocument | null> {
+    let text: string;
+    try {
+      text = await (await this._fileSystem()).readFile(this._file(path), "utf8");
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+    const document: unknown = JSON.parse(text);
+    return isPersistedDocument(document) ? document : null;
+  }
+
+  public async save(path: string, document: PersistedDocument): Promise<void> {
+    // Write to a temporary file first so a crash mid-write never leaves a truncated document behind.
+    const file = this._file(path);
+    const fs = await this._fileSystem();
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(document), "utf8");
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  public async remove(path: string): Promise<void> {
+    await (await this._fileSystem()).rm(this._file(path), { force: true });
+  }
+}
+
+interface IndexedDbRequest<T> {
+  result: T;
+  error: unknown;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+interface IndexedDbOpenRequest extends IndexedDbRequest<IndexedDbDatabase> {
+  onupgradeneeded: (() => void) | null;
+}
+
+interface IndexedDbObjectStore {
+  get(key: string): IndexedDbRequest<unknown>;
+  put(value: unknown, key: string): IndexedDbRequest<unknown>;
+  delete(key: string): IndexedDbRequest<unknown>;
+}
+
+interface IndexedDbDatabase {
+  objectStoreNames: { contains(name: string): boolean };
+  createObjectStore(name: string): unknown;
+  transaction(storeName: string, mode: "readonly" | "readwrite"): { objectStore(name: string): IndexedDbObjectStore };
+  close(): void;
+}
+
+interface IndexedDbFactory {
+  open(name: string, version?: number): IndexedDbOpenRequest;
+}
+
+function requestResult<T>(request: IndexedDbRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Stores documents in an IndexedDB object store, for browsers.
+ */
+export class IndexedDbDocumentPersistence implements DocumentPersistence {
+  public readonly databaseName: string;
+  public readonly storeName: string;
+
+  private _database?: Promise<IndexedDbDatabase>;
+
+  constructor({ databaseName = "meshagent-documents", storeName = "documents" }: {
+    databaseName?: string;
+    storeName?: string;
+  } = {}) {
+    if (globalScope.indexedDB === undefined) {
+      throw new Error("IndexedDbDocumentPersistence requires IndexedDB");
+    }
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+  }
+
+  private _open(): Promise<IndexedDbDatabase> {
+    if (this._database === undefined) {
+      const request = globalScope.indexedDB!.open(this.databaseName, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+      this._database = requestResult(request);
+      this._database.catch(() => {
+        this._database = undefined;
+      });
+    }
+    return this._database;
+  }
+
+  private async _store(mode: "readonly" | "readwrite"): Promise<IndexedDbObjectStore> {
+    const database = await this._open();
+    return database.transaction(this.storeName, mode).objectStore(this.storeName);
+  }
+
+  public async load(path: string): Promise<PersistedDocument | null> {
+    const document = await requestResult((await this._store("readonly")).get(path));
+    return isPersistedDocument(document) ? document : null;
+  }
+
+  public async save(path: string, document: PersistedDocument): Promise<void> {
+    await requestResult((await this._store("readwrite")).put({ ...document }, path));
+  }
+
+  public async remove(path: string): Promise<void> {
+    await requestResult((await this._store("readwrite")).delete(path));
+  }
+
+  public async close(): Promise<void> {
+    if (this._database !== undefined) {
+      (await this._database).close();
+      this._database = undefined;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+// document-position.ts
+
+import type { ResolvedPosition, RuntimeDocument } from "./document.js";
+import type { LocalParticipant, Participant } from "./participant.js";
+import type { RelativePosition } from "./runtime.js";
+
+/**
+ * The participant attribute that holds a participant's selection, see shareSelection.
+ */
+export const SELECTION_ATTRIBUTE = "document_selection";
+
+/**
+ * A selection made of two relative positions. `anchor` is where the selection started and `head` is where the
+ * cursor is, so a collapsed selection is a cursor.
+ */
+export interface DocumentSelection {
+  anchor: RelativePosition;
+  head: RelativePosition;
+}
+
+export interface ResolvedSelection {
+  anchor: ResolvedPosition;
+  head: ResolvedPosition;
+}
+
+function isPositionID(value: unknown): boolean {
+  return value === null || (
+    typeof value === "object" &&
+    typeof (value as Record<string, unknown>)["client"] === "number" &&
+    typeof (value as Record<string, unknown>)["clock"] === "number"
+  );
+}
+
+/**
+ * Checks that a value, such as a participant attribute, has the shape of a relative position.
+ */
+export function isRelativePosition(value: unknown): value is RelativePosition {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const position = value as Record<string, unknown>;
+  return (position["kind"] === "text" || position["kind"] === "children") &&
+    isPositionID(position["type"]) &&
+    (position["tname"] === null || typeof position["tname"] === "string") &&
+    isPositionID(position["item"]) &&
+    typeof position["assoc"] === "number";
+}
+
+/**
+ * Resolves both ends of a selection. Returns null when either end no longer resolves.
+ */
+export function resolveSelection(doc: RuntimeDocument, selection: DocumentSelection): ResolvedSelection | null {
+  const anchor = doc.resolvePosition(selection.anchor);
+  const head = doc.resolvePosition(selection.head);
+  if (anchor === null || head === null) {
+    return null;
+  }
+  return { anchor, head };
+}
+
+/**
+ * Publishes the local participant's selection in the document at `path` so other participants can render
+ * it, or clears it when `selection` is null. Peers read it with participantSelection.
+ */
+export function shareSelection(participant: LocalParticipant, path: string, selection: DocumentSelection | null): void {
+  participant.setAttribute(
+    SELECTION_ATTRIBUTE,
+    selection === null ? null : { path, anchor: selection.anchor, head: selection.head },
+  );
+}
+
+/**
+ * Returns the selection a participant shared for the document at `path`, or null when they have not shared
+ * one for that document.
+ */
+export function participantSelection(participant: Participant, path: string): DocumentSelection | null {
+  const value = participant.getAttribute(SELECTION_ATTRIBUTE);
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const { path: selectionPath, anchor, head } = value as Record<string, unknown>;
+  if (selectionPath !== path || !isRelativePosition(anchor) || !isRelativePosition(head)) {
+    return null;
+  }
+  return { anchor, head };
+}
@@ -0,0 +1,916 @@
+// document-serializers.ts
+
+import { v4 as uuid } from "uuid";
+
+import { Element, RuntimeDocument, TextElement, attributesFromJson, tagNameFromJson } from "./document.js";
+import { ChildProperty, ElementType, MeshSchema } from "./schema.js";
+
+export class DocumentSerializationException extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DocumentSerializationException";
+  }
+}
+
+/**
+ * Converts documents to and from a text format. Deserializing replaces the content of the document in one
+ * transaction, so it is sent as one update and undone as one step.
+ */
+export interface DocumentSerializer {
+  readonly mimeType: string;
+  readonly extension: string;
+  serialize(doc: RuntimeDocument): string;
+  deserialize(doc: RuntimeDocument, text: string): void;
+}
+
+type Delta = Array<{ insert: string; attributes?: Record<string, any> }>;
+
+function normalizeDelta(delta: unknown): Delta {
+  if (!Array.isArray(delta)) {
+    throw new DocumentSerializationException("text must be an array of delta operations");
+  }
+  return delta.map((op) => {
+    if (typeof op !== "object" || op === null || typeof op["insert"] !== "string") {
+      throw new DocumentSerializationException("text delta operations must insert a string");
+    }
+    const attributes = op["attributes"];
+    return attributes != null && Object.keys(attributes).length > 0
+      ? { insert: op["insert"], attributes: { ...attributes } }
+      : { insert: op["insert"] };
+  });
+}
+
+function childProperty(elementType: ElementType): ChildProperty | undefined {
+  const name = elementType.childPropertyName;
+  return name === undefined ? undefined : elementType.property(name) as ChildProperty;
+}
+
+function ensureChildAllowed(parent: ElementType, tagName: string): void {
+  if (!(childProperty(parent)?.isTagAllowed(tagName) ?? false)) {
+    throw new DocumentSerializationException(`${parent.tagName} cannot contain ${tagName}`);
+  }
+}
+
+/*
+------------------------------------------------------------------
+   JSON
+------------------------------------------------------------------
+*/
+
+/**
+ * The canonical JSON form of a document, in the shape Element.appendJson accepts: each element is an object with
+ * its tag name as the only key, holding its attributes and, under its child property, its children. Text is
+ * written as `{ "$text": delta }`.
+ */
+export class JsonDocumentSerializer implements DocumentSerializer {
+  public readonly mimeType = "application/json";
+  public readonly extension = ".json";
+  public readonly includeIds: boolean;
+  public readonly indent: number;
+
+  /**
+   * With `includeIds`, element ids are written and kept on import; otherwise imported elements get new ids.
+   */
+  constructor({ includeIds = false, indent = 2 }: { includeIds?: boolean; indent?: number } = {}) {
+    this.includeIds = includeIds;
+    this.indent = indent;
+  }
+
+  public serialize(doc: RuntimeDocument): string {
+    return JSON.stringify(this.toJson(doc), null, this.indent);
+  }
+
+  public deserialize(doc: RuntimeDocument, text: string): void {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      throw new DocumentSerializationException(`invalid JSON: ${(error as Error).message}`);
+    }
+    if (typeof json !== "object" || json === null || Array.isArray(json)) {
+      throw new DocumentSerializationException("a document must be a JSON object");
+    }
+    this.fromJson(doc, json as Record<string, any>);
+  }
+
+  public toJson(doc: RuntimeDocument): Record<string, any> {
+    return this._elementJson(doc.root);
+  }
+
+  public fromJson(doc: RuntimeDocument, json: Record<string, any>): void {
+    const root = doc.schema.root;
+    const { attributes, children } = this._readElement(json, root);
+    doc.replaceContent({
+      attributes,
+      children: children.map((child) => this._nodeData(child, root, doc.schema)),
+    });
+  }
+
+  private _elementJson(element: Element): Record<string, any> {
+    const json: Record<string, any> = {};
+    for (const [name, value] of Object.entries(element.attributes)) {
+      if (name !== "$id" || this.includeIds) {
+        json[name] = value;
+      }
+    }
+    const childName = element.elementType.childPropertyName;
+    if (childName !== undefined) {
+      json[childName] = element.getChildren().map((child) => child instanceof TextElement
+        ? { $text: normalizeDelta(child.delta) }
+        : this._elementJson(child as Element));
+    }
+    return { [element.tagName]: json };
+  }
+
+  private _readElement(
+    json: Record<string, any>,
+    elementType: ElementType,
+  ): { attributes: Record<string, any>; children: Array<Record<string, any>> } {
+    let tagName: string;
+    let attributes: Record<string, any>;
+    try {
+      tagName = tagNameFromJson(json);
+      attributes = attributesFromJson(json);
+    } catch (error) {
+      throw new DocumentSerializationException((error as Error).message);
+    }
+    if (tagName !== elementType.tagName) {
+      throw new DocumentSerializationException(`expected ${elementType.tagName} but found ${tagName}`);
+    }
+
+    let children: Array<Record<string, any>> = [];
+    const childName = elementType.childPropertyName;
+    if (childName !== undefined && childName in attributes) {
+      if (!Array.isArray(attributes[childName])) {
+        throw new DocumentSerializationException(`${tagName}.${childName} must be an array`);
+      }
+      children = attributes[childName];
+      delete attributes[childName];
+    }
+
+    for (const name of Object.keys(attributes)) {
+      if (name === "$id" && !this.includeIds) {
+        delete attributes[name];
+      } else if (!name.startsWith("$")) {
+        try {
+          elementType.property(name);
+        } catch {
+          throw new DocumentSerializationException(`${tagName} has no attribute ${name}`);
+        }
+      }
+    }
+    return { attributes, children };
+  }
+
+  private _nodeData(json: Record<string, any>, parent: ElementType, schema: MeshSchema): Record<string, any> {
+    if (typeof json !== "object" || json === null) {
+      throw new DocumentSerializationException("children must be JSON objects");
+    }
+    if ("$text" in json) {
+      return { text: { delta: normalizeDelta(json["$text"]) } };
+    }
+
+    const tagName = Object.keys(json)[0];
+    ensureChildAllowed(parent, tagName);
+    const elementType = schema.elementsByTagName[tagName];
+    if (elementType === undefined) {
+      throw new DocumentSerializationException(`${tagName} is not in the schema`);
+    }
+    const { attributes, children } = this._readElement(json, elementType);
+    const childData = children.map((child) => this._nodeData(child, elementType, schema));
+    return {
+      element: {
+        name: tagName,
+        attributes: { $id: uuid(), ...attributes },
+        children: childData.length === 0 && tagName === "text" ? [{ text: { delta: [] } }] : childData,
+      },
+    };
+  }
+}
+
+/*
+------------------------------------------------------------------
+   Markup rules
+------------------------------------------------------------------
+*/
+
+/**
+ * How an element maps to a markup block. `text` names the attribute that holds the block's text; without it the
+ * text is the element's own text, or that of its first "text" child element.
+ */
+export type MarkupRule =
+  | { kind: "heading"; level: number; text?: string }
+  | { kind: "paragraph"; text?: string }
+  | { kind: "quote"; text?: string }
+  | { kind: "code"; text?: string }
+  | { kind: "list"; ordered?: boolean }
+  | { kind: "listItem"; text?: string };
+
+/**
+ * Markup rules by tag name. Elements without a rule are containers whose children are written in order, except
+ * "text" elements, which are paragraphs.
+ */
+export type MarkupRules = Record<string, MarkupRule>;
+
+type Block =
+  | { type: "heading"; level: number; text: Delta }
+  | { type: "paragraph" | "quote"; text: Delta }
+  | { type: "code"; text: string }
+  | { type: "list"; ordered: boolean; items: ListItem[] };
+
+interface ListItem {
+  text: Delta;
+  children: Block[];
+}
+
+function plainText(delta: Delta): string {
+  return delta.map((op) => op.insert).join("");
+}
+
+/**
+ * Maps between document elements and markup blocks using MarkupRules.
+ */
+class MarkupMapper {
+  constructor(private readonly _schema: MeshSchema, private readonly _rules: MarkupRules) {}
+
+  public toBlocks(element: Element, skip?: Element): Block[] {
+    const blocks: Block[] = [];
+    for (const child of element.getChildren()) {
+      if (!(child instanceof Element) || child === skip) {
+        continue;
+      }
+      const rule = this._ruleFor(child.tagName);
+      if (rule === undefined) {
+        blocks.push(...this.toBlocks(child));
+        continue;
+      }
+      switch (rule.kind) {
+        case "heading":
+          blocks.push({ type: "heading", level: rule.level, text: this._text(child, rule.text).text });
+          break;
+        case "paragraph":
+        case "quote":
+          blocks.push({ type: rule.kind, text: this._text(child, rule.text).text });
+          break;
+        case "code":
+          blocks.push({ type: "code", text: plainText(this._text(child, rule.text).text) });
+          break;
+        case "list":
+          blocks.push({ type: "list", ordered: rule.ordered ?? false, items: this._items(child) });
+          break;
+        case "listItem":
+          blocks.push({ type: "list", ordered: false, items: [this._item(child)] });
+          break;
+      }
+    }
+    return blocks;
+  }
+
+  public fromBlocks(blocks: Block[], parent: ElementType): Array<Record<string, any>> {
+    const children: Array<Record<string, any>> = [];
+    for (const block of blocks) {
+      switch (block.type) {
+        case "heading":
+          children.push(this._blockData(parent, this._headingTag(block.level) ?? this._paragraphTag(), block.text));
+          break;
+        case "paragraph":
+          children.push(this._blockData(parent, this._paragraphTag(), block.text));
+          break;
+        case "quote":
+        case "code": {
+          const text = block.type === "code" ? [{ insert: block.text }] : block.text;
+          children.push(this._blockData(parent, this._tagFor(block.type) ?? this._paragraphTag(), text));
+          break;
+        }
+        case "list": {
+          const listTag = this._listTag(block.ordered);
+          const itemTag = this._tagFor("listItem");
+          if (listTag === undefined || itemTag === undefined) {
+            // Without list tags, items become paragraphs.
+            for (const item of block.items) {
+              children.push(...this.fromBlocks([{ type: "paragraph", text: item.text }, ...item.children], parent));
+            }
+            break;
+          }
+          ensureChildAllowed(parent, listTag);
+          const listType = this._schema.element(listTag);
+          const items = block.items.map((item) => {
+            const itemType = this._schema.element(itemTag);
+            return this._blockData(listType, itemTag, item.text, this.fromBlocks(item.children, itemType));
+          });
+          children.push({ element: { name: listTag, attributes: { $id: uuid() }, children: items } });
+          break;
+        }
+      }
+    }
+    return children;
+  }
+
+  private _ruleFor(tagName: string): MarkupRule | undefined {
+    return this._rules[tagName] ?? (tagName === "text" ? { kind: "paragraph" } : undefined);
+  }
+
+  private _tagFor(kind: MarkupRule["kind"]): string | undefined {
+    return Object.keys(this._rules).find((tag) => this._rules[tag].kind === kind && this._schema.elementsByTagName[tag] != null);
+  }
+
+  private _paragraphTag(): string {
+    const tag = this._tagFor("paragraph") ?? (this._schema.elementsByTagName["text"] != null ? "text" : undefined);
+    if (tag === undefined) {
+      throw new DocumentSerializationException("the markup rules have no paragraph tag");
+    }
+    return tag;
+  }
+
+  private _headingTag(level: number): string | undefined {
+    let best: { tag: string; distance: number } | undefined;
+    for (const [tag, rule] of Object.entries(this._rules)) {
+      if (rule.kind === "heading" && this._schema.elementsByTagName[tag] != null) {
+        const distance = Math.abs(rule.level - level);
+        if (best === undefined || distance < best.distance) {
+          best = { tag, distance };
+        }
+      }
+    }
+    return best?.tag;
+  }
+
+  private _listTag(ordered: boolean): string | undefined {
+    const lists = Object.keys(this._rules).filter((tag) => this._rules[tag].kind === "list" && this._schema.elementsByTagName[tag] != null);
+    return lists.find((tag) => ((this._rules[tag] as { ordered?: boolean }).ordered ?? false) === ordered) ?? lists[0];
+  }
+
+  private _text(element: Element, attribute: string | undefined): { text: Delta; source?: Element } {
+    if (attribute !== undefined) {
+      const value = element.getAttribute(attribute);
+      return { text: value == null || value === "" ? [] : [{ insert: String(value) }] };
+    }
+    const own = element.getChildren().find((child) => child instanceof TextElement) as TextElement | undefined;
+    if (own !== undefined) {
+      return { text: normalizeDelta(own.delta) };
+    }
+    const textChild = element.getChildren().find((child) => child instanceof Element && child.tagName === "text") as Element | undefined;
+    const text = textChild?.getChildren().find((child) => child instanceof TextElement) as TextElement | undefined;
+    return { text: text === undefined ? [] : normalizeDelta(text.delta), source: textChild };
+  }
+
+  private _item(element: Element): ListItem {
+    const rule = this._ruleFor(element.tagName);
+    const { text, source } = this._text(element, rule?.kind === "listItem" ? rule.text : undefined);
+    return { text, children: this.toBlocks(element, source) };
+  }
+
+  private _items(list: Element): ListItem[] {
+    return list.getChildren()
+      .filter((child): child is Element => child instanceof Element)
+      .map((child) => this._item(child));
+  }
+
+  private _blockData(
+    parent: ElementType,
+    tagName: string,
+    text: Delta,
+    extraChildren: Array<Record<string, any>> = [],
+  ): Record<string, any> {
+    ensureChildAllowed(parent, tagName);
+    const rule = this._rules[tagName] as { text?: string } | undefined;
+    const attributes: Record<string, any> = { $id: uuid() };
+    let children: Array<Record<string, any>>;
+    if (rule?.text !== undefined) {
+      attributes[rule.text] = plainText(text);
+      children = extraChildren;
+    } else if (tagName === "text") {
+      children = [{ text: { delta: text } }];
+    } else {
+      ensureChildAllowed(this._schema.element(tagName), "text");
+      children = [
+        { element: { name: "text", attributes: { $id: uuid() }, children: [{ text: { delta: text } }] } },
+        ...extraChildren,
+      ];
+    }
+    return { element: { name: tagName, attributes, children } };
+  }
+}
+
+/**
+ * Returns the link when it is relative or uses an http, https or mailto scheme, so exported documents never carry
+ * script URLs such as `javascript:`.
+ */
+function safeLink(link: string): string | null {
+  // Browsers ignore control characters and whitespace when reading a scheme.
+  const scheme = /^([^/?#]*?):/.exec(link.replace(/[\u0000-\u0020\u007f]/g, ""));
+  if (scheme === null) {
+    return link;
+  }
+  return ["http", "https", "mailto"].includes(scheme[1].toLowerCase()) ? link : null;
+}
+
+/*
+------------------------------------------------------------------
+   Markdown
+------------------------------------------------------------------
+*/
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, "\\$1");
+}
+
+function escapeMarkdownLink(link: string): string {
+  let depth = 0;
+  for (const char of link) {
+    depth += char === "(" ? 1 : char === ")" ? -1 : 0;
+    if (depth < 0) {
+      break;
+    }
+  }
+  const escaped = link.replace(/\\/g, "\\\\").replace(/\s/g, encodeURIComponent);
+  return depth === 0 ? escaped : escaped.replace(/[()]/g, "\\$&");
+}
+
+function markdownInline(delta: Delta): string {
+  return delta.map(({ insert, attributes = {} }) => {
+    let text = attributes["code"] ? `\`${insert}\`` : escapeMarkdown(insert);
+    if (attributes["italic"]) text = `*${text}*`;
+    if (attributes["bold"]) text = `**${text}**`;
+    const link = typeof attributes["link"] === "string" ? safeLink(attributes["link"]) : null;
+    if (link !== null) text = `[${text}](${escapeMarkdownLink(link)})`;
+    return text;
+  }).join("")
+    // Keep text that starts like a block from being read back as one.
+    .replace(/^(\s*)([#>+-])/gm, "$1\\$2")
+    .replace(/^(\s*\d+)([.)])/gm, "$1\\$2");
+}
+
+function indentLines(text: string, prefix: string, first: string = prefix): string {
+  return text.split("\n").map((line, index) => (line === "" ? "" : `${index === 0 ? first : prefix}${line}`)).join("\n");
+}
+
+function renderMarkdown(blocks: Block[]): string {
+  return blocks.map((block) => {
+    switch (block.type) {
+      case "heading":
+        return `${"#".repeat(Math.min(Math.max(block.level, 1), 6))} ${markdownInline(block.text).replace(/\n/g, " ")}`;
+      case "paragraph":
+        return markdownInline(block.text);
+      case "quote":
+        return markdownInline(block.text).split("\n").map((line) => `> ${line}`).join("\n");
+      case "code":
+        return `\`\`\`\n${block.text}\n\`\`\``;
+      case "list":
+        return block.items.map((item, index) => {
+          const marker = block.ordered ? `${index + 1}. ` : "- ";
+          const indent = " ".repeat(marker.length);
+          const nested = item.children.length === 0 ? "" : `\n${indentLines(renderMarkdown(item.children), indent)}`;
+          return `${indentLines(markdownInline(item.text), indent, marker)}${nested}`;
+        }).join("\n");
+    }
+  }).join("\n\n");
+}
+
+const LIST_ITEM = /^([-*+]|\d+[.)])\s+(.*)$/;
+
+function dedent(lines: string[]): string[] {
+  const indents = lines.filter((line) => line.trim() !== "").map((line) => /^\s*/.exec(line)![0].length);
+  const common = indents.length === 0 ? 0 : Math.min(...indents);
+  return lines.map((line) => line.slice(common));
+}
+
+function startsBlock(line: string): boolean {
+  return /^(#{1,6}\s|>|```)/.test(line) || LIST_ITEM.test(line);
+}
+
+function parseMarkdownBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (line.trim() === "") {
+      i++;
+      continue;
+    }
+
+    if (line.startsWith("```")) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith("```")) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push({ type: "code", text: code.join("\n") });
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*?)\s*#*$/.exec(line);
+    if (heading !== null) {
+      blocks.push({ type: "heading", level: heading[1].length, text: parseMarkdownInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].startsWith(">")) {
+        quoted.push(lines[i++].replace(/^>\s?/, ""));
+      }
+      blocks.push({ type: "quote", text: parseMarkdownInline(quoted.join("\n")) });
+      continue;
+    }
+
+    const first = LIST_ITEM.exec(line);
+    if (first !== null) {
+      const ordered = /\d/.test(first[1]);
+      const items: ListItem[] = [];
+      while (i < lines.length) {
+        const item = LIST_ITEM.exec(lines[i]);
+        if (item === null || /\d/.test(item[1]) !== ordered) {
+          break;
+        }
+        i++;
+        const nested: string[] = [];
+        while (i < lines.length) {
+          if (/^\s+\S/.test(lines[i])) {
+            nested.push(lines[i++]);
+          } else if (lines[i].trim() === "" && i + 1 < lines.length && /^\s+\S/.test(lines[i + 1])) {
+            nested.push(lines[i++]);
+          } else {
+            break;
+          }
+        }
+        items.push({ text: parseMarkdownInline(item[2]), children: parseMarkdownBlocks(dedent(nested)) });
+      }
+      blocks.push({ type: "list", ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() !== "" && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push({ type: "paragraph", text: parseMarkdownInline(paragraph.join("\n")) });
+  }
+  return blocks;
+}
+
+function pushText(delta: Delta, insert: string, attributes: Record<string, any>): void {
+  if (insert === "") {
+    return;
+  }
+  const last = delta[delta.length - 1];
+  const sameAttributes = JSON.stringify(last?.attributes ?? {}) === JSON.stringify(attributes);
+  if (last !== undefined && sameAttributes) {
+    last.insert += insert;
+  } else {
+    delta.push(Object.keys(attributes).length === 0 ? { insert } : { insert, attributes: { ...attributes } });
+  }
+}
+
+/**
+ * Reads a `[label](url)` link starting at `start`. The url may contain balanced parentheses and backslash escapes,
+ * but no whitespace.
+ */
+function parseMarkdownLink(text: string, start: number): { label: string; url: string; end: number } | null {
+  const label = /^\[((?:\\.|[^\]\\])*)\]\(/.exec(text.slice(start));
+  if (label === null) {
+    return null;
+  }
+  let url = "";
+  let depth = 0;
+  for (let i = start + label[0].length; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\" && i + 1 < text.length && /[!-/:-@[-`{-~]/.test(text[i + 1])) {
+      url += text[++i];
+    } else if (char === "(") {
+      depth++;
+      url += char;
+    } else if (char === ")" && depth > 0) {
+      depth--;
+      url += char;
+    } else if (char === ")") {
+      return { label: label[1], url, end: i + 1 };
+    } else if (/\s/.test(char)) {
+      return null;
+    } else {
+      url += char;
+    }
+  }
+  return null;
+}
+
+function parseMarkdownInline(text: string, attributes: Record<string, any> = {}, delta: Delta = []): Delta {
+  let i = 0;
+  let plain = "";
+  const flush = () => {
+    pushText(delta, plain, attributes);
+    plain = "";
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === "\\" && i + 1 < text.length && /[!-/:-@[-`{-~]/.test(text[i + 1])) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+    if (char === "`") {
+      const end = text.indexOf("`", i + 1);
+      if (end > i) {
+        flush();
+        pushText(delta, text.slice(i + 1, end), { ...attributes, code: true });
+        i = end + 1;
+        continue;
+      }
+    }
+    if (char === "[") {
+      const link = parseMarkdownLink(text, i);
+      if (link !== null) {
+        flush();
+        parseMarkdownInline(link.label, { ...attributes, link: link.url }, delta);
+        i = link.end;
+        continue;
+      }
+    }
+    const marker = text.startsWith("**", i) ? "**" : char === "*" || char === "_" ? char : null;
+    if (marker !== null) {
+      const end = text.indexOf(marker, i + marker.length);
+      if (end > i + marker.length) {
+        flush();
+        parseMarkdownInline(text.slice(i + marker.length, end), { ...attributes, [marker === "**" ? "bold" : "italic"]: true }, delta);
+        i = end + marker.length;
+        continue;
+      }
+    }
+    plain += char;
+    i++;
+  }
+  flush();
+  return delta;
+}
+
+/**
+ * Markdown with headings, paragraphs, quotes, fenced code and nested lists, and bold, italic, code and link text
+ * formatting. Which tags these map to is set by `rules`.
+ */
+export class MarkdownDocumentSerializer implements DocumentSerializer {
+  public readonly mimeType = "text/markdown";
+  public readonly extension = ".md";
+  public readonly rules: MarkupRules;
+
+  constructor({ rules = {} }: { rules?: MarkupRules } = {}) {
+    this.rules = rules;
+  }
+
+  public serialize(doc: RuntimeDocument): string {
+    const blocks = new MarkupMapper(doc.schema, this.rules).toBlocks(doc.root);
+    return blocks.length === 0 ? "" : `${renderMarkdown(blocks)}\n`;
+  }
+
+  public deserialize(doc: RuntimeDocument, text: string): void {
+    const blocks = parseMarkdownBlocks(text.replace(/\r\n?/g, "\n").split("\n"));
+    doc.replaceContent({ children: new MarkupMapper(doc.schema, this.rules).fromBlocks(blocks, doc.schema.root) });
+  }
+}
+
+/*
+------------------------------------------------------------------
+   HTML
+------------------------------------------------------------------
+*/
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " " };
+
+function unescapeHtml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name: string) => {
+    if (name.startsWith("#")) {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      // Entities outside Unicode, or naming a lone surrogate, are kept as written.
+      const valid = code <= 0x10ffff && (code < 0xd800 || code > 0xdfff);
+      return valid ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function htmlInline(delta: Delta): string {
+  return delta.map(({ insert, attributes = {} }) => {
+    let html = escapeHtml(insert).replace(/\n/g, "<br>");
+    if (attributes["code"]) html = `<code>${html}</code>`;
+    if (attributes["italic"]) html = `<em>${html}</em>`;
+    if (attributes["bold"]) html = `<strong>${html}</strong>`;
+    const link = typeof attributes["link"] === "string" ? safeLink(attributes["link"]) : null;
+    if (link !== null) html = `<a href="${escapeHtml(link)}">${html}</a>`;
+    return html;
+  }).join("");
+}
+
+function renderHtml(blocks: Block[]): string {
+  return blocks.map((block) => {
+    switch (block.type) {
+      case "heading": {
+        const level = Math.min(Math.max(block.level, 1), 6);
+        return `<h${level}>${htmlInline(block.text)}</h${level}>`;
+      }
+      case "paragraph":
+        return `<p>${htmlInline(block.text)}</p>`;
+      case "quote":
+        return `<blockquote>${htmlInline(block.text)}</blockquote>`;
+      case "code":
+        return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+      case "list": {
+        const tag = block.ordered ? "ol" : "ul";
+        const items = block.items.map((item) => {
+          const nested = item.children.length === 0 ? "" : `\n${renderHtml(item.children)}\n`;
+          return `<li>${htmlInline(item.text)}${nested}</li>`;
+        });
+        return `<${tag}>\n${items.join("\n")}\n</${tag}>`;
+      }
+    }
+  }).join("\n");
+}
+
+interface HtmlNode {
+  tag: string;
+  attributes: Record<string, string>;
+  children: Array<HtmlNode | string>;
+}
+
+const VOID_TAGS = new Set(["br", "hr", "img", "input", "meta", "link", "source", "wbr"]);
+const SKIPPED_TAGS = new Set(["head", "script", "style", "template"]);
+const BLOCK_TAGS = new Set([
+  "h1", "h2", "h3", "h4", "h5", "h6", "p", "blockquote", "pre", "ul", "ol", "li", "div", "section", "article",
+  "main", "header", "footer", "body", "html", "table", "hr",
+]);
+
+/**
+ * A forgiving parser for the HTML written by HtmlDocumentSerializer and similar markup: unknown tags are kept as
+ * containers and unmatched closing tags are ignored.
+ */
+function parseHtml(html: string): HtmlNode {
+  const root: HtmlNode = { tag: "#root", attributes: {}, children: [] };
+  const stack: HtmlNode[] = [root];
+  const token = /<!--[\s\S]*?-->|<!DOCTYPE[^>]*>|<\/?([a-zA-Z][a-zA-Z0-9]*)((?:\s+[^\s=>/]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*\/?>|[^<]+|</g;
+  for (const match of html.matchAll(token)) {
+    const [text, name, attributeText] = match;
+    const current = stack[stack.length - 1];
+    if (name === undefined) {
+      if (!text.startsWith("<!")) {
+        current.children.push(unescapeHtml(text));
+      }
+      continue;
+    }
+
+    const tag = name.toLowerCase();
+    if (text.startsWith("</")) {
+      const index = stack.map((node) => node.tag).lastIndexOf(tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    for (const attribute of (attributeText ?? "").matchAll(/([^\s=>/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g)) {
+      attributes[attribute[1].toLowerCase()] = unescapeHtml(attribute[2] ?? attribute[3] ?? attribute[4] ?? "");
+    }
+    const node: HtmlNode = { tag, attributes, children: [] };
+    current.children.push(node);
+    if (!VOID_TAGS.has(tag) && !text.endsWith("/>")) {
+      stack.push(node);
+    }
+  }
+  return root;
+}
+
+function htmlText(node: HtmlNode | string): string {
+  if (typeof node === "string") return node;
+  if (node.tag === "br") return "\n";
+  return node.children.map(htmlText).join("");
+}
+
+function htmlInlineDelta(nodes: Array<HtmlNode | string>, attributes: Record<string, any> = {}, delta: Delta = []): Delta {
+  for (const node of nodes) {
+    if (typeof node === "string") {
+      pushText(delta, node.replace(/\s+/g, " "), attributes);
+      continue;
+    }
+    if (SKIPPED_TAGS.has(node.tag)) {
+      continue;
+    }
+    switch (node.tag) {
+      case "br":
+        pushText(delta, "\n", attributes);
+        break;
+      case "strong":
+      case "b":
+        htmlInlineDelta(node.children, { ...attributes, bold: true }, delta);
+        break;
+      case "em":
+      case "i":
+        htmlInlineDelta(node.children, { ...attributes, italic: true }, delta);
+        break;
+      case "code":
+        pushText(delta, htmlText(node), { ...attributes, code: true });
+        break;
+      case "a":
+        htmlInlineDelta(node.children, node.attributes["href"] ? { ...attributes, link: node.attributes["href"] } : attributes, delta);
+        break;
+      default:
+        htmlInlineDelta(node.children, attributes, delta);
+    }
+  }
+  return delta;
+}
+
+function trimDelta(delta: Delta): Delta {
+  if (delta.length > 0) {
+    delta[0].insert = delta[0].insert.replace(/^[ \t]+/, "");
+    const last = delta[delta.length - 1];
+    last.insert = last.insert.replace(/[ \t]+$/, "");
+  }
+  return delta.filter((op) => op.insert !== "").map((op) => ({
+    ...op,
+    insert: op.insert.replace(/ ?\n ?/g, "\n"),
+  }));
+}
+
+function htmlBlocks(nodes: Array<HtmlNode | string>): Block[] {
+  const blocks: Block[] = [];
+  let inline: Array<HtmlNode | string> = [];
+  const flushInline = () => {
+    const text = trimDelta(htmlInlineDelta(inline));
+    if (text.length > 0) {
+      blocks.push({ type: "paragraph", text });
+    }
+    inline = [];
+  };
+
+  for (const node of nodes) {
+    if (typeof node === "string" || !BLOCK_TAGS.has(node.tag)) {
+      if (typeof node === "string" || !SKIPPED_TAGS.has(node.tag)) {
+        inline.push(node);
+      }
+      continue;
+    }
+    flushInline();
+
+    const heading = /^h([1-6])$/.exec(node.tag);
+    if (heading !== null) {
+      blocks.push({ type: "heading", level: Number(heading[1]), text: trimDelta(htmlInlineDelta(node.children)) });
+    } else if (node.tag === "p") {
+      blocks.push({ type: "paragraph", text: trimDelta(htmlInlineDelta(node.children)) });
+    } else if (node.tag === "blockquote") {
+      const text: Delta = [];
+      for (const block of htmlBlocks(node.children)) {
+        if (block.type === "heading" || block.type === "paragraph" || block.type === "quote") {
+          if (text.length > 0) pushText(text, "\n", {});
+          block.text.forEach((op) => pushText(text, op.insert, op.attributes ?? {}));
+        }
+      }
+      blocks.push({ type: "quote", text });
+    } else if (node.tag === "pre") {
+      blocks.push({ type: "code", text: htmlText(node).replace(/^\n/, "").replace(/\n$/, "") });
+    } else if (node.tag === "ul" || node.tag === "ol") {
+      const items = node.children
+        .filter((child): child is HtmlNode => typeof child !== "string" && child.tag === "li")
+        .map((item) => {
+          // Items of loose lists wrap their text in a paragraph.
+          const paragraph = item.children.find((child): child is HtmlNode => typeof child !== "string" && child.tag === "p");
+          const inline = item.children.filter((child) => typeof child === "string" || !BLOCK_TAGS.has(child.tag));
+          const nested = item.children.filter((child) => typeof child !== "string" && BLOCK_TAGS.has(child.tag) && child !== paragraph);
+          return { text: trimDelta(htmlInlineDelta(paragraph?.children ?? inline)), children: htmlBlocks(nested) };
+        });
+      blocks.push({ type: "list", ordered: node.tag === "ol", items });
+    } else if (node.tag !== "hr") {
+      blocks.push(...htmlBlocks(node.children));
+    }
+  }
+  flushInline();
+  return blocks;
+}
+
+/**
+ * HTML with the same blocks and text formatting as MarkdownDocumentSerializer. Serializing writes a fragment;
+ * deserializing accepts fragments or whole pages and ignores markup it has no mapping for.
+ */
+export class HtmlDocumentSerializer implements DocumentSerializer {
+  public readonly mimeType = "text/html";
+  public readonly extension = ".html";
+  public readonly rules: MarkupRules;
+
+  constructor({ rules = {} }: { rules?: MarkupRules } = {}) {
+    this.rules = rules;
+  }
+
+  public serialize(doc: RuntimeDocument): string {
+    const blocks = new MarkupMapper(doc.schema, this.rules).toBlocks(doc.root);
+    return blocks.length === 0 ? "" : `${renderHtml(blocks)}\n`;
+  }
+
+  public deserialize(doc: RuntimeDocument, text: string): void {
+    const blocks = htmlBlocks(parseHtml(text).children);
+    doc.replaceContent({ children: new MarkupMapper(doc.schema, this.rules).fromBlocks(blocks, doc.schema.root) });
+  }
+}
@@ -0,0 +1,146 @@
+// document-snapshot.ts
+
+import { Element, RuntimeDocument, TextElement, nodeChangeData } from "./document.js";
+
+export interface DocumentSnapshot {
+  id: string;
+
+  /**
+   * Path of the document the snapshot was taken from.
+   */
+  path: string;
+
+  label: string;
+  createdAt: Date;
+
+  /**
+   * Participant that took the snapshot, when known.
+   */
+  createdBy: string | null;
+}
+
+/**
+ * A difference between two versions of a document, matching elements by their `$id`. The root element has a
+ * null id. Reordered elements are not reported.
+ */
+export type DocumentDifference =
+  | { type: "elementAdded"; id: string; tagName: string; parentId: string | null }
+  | { type: "elementRemoved"; id: string; tagName: string; parentId: string | null }
+  | { type: "attributeChanged"; id: string | null; tagName: string; name: string; oldValue: any; newValue: any }
+  | { type: "textChanged"; id: string | null; oldText: string; newText: string };
+
+/**
+ * Folder that holds the snapshots of the document at `path`, next to the document itself.
+ */
+export function snapshotFolder(path: string): string {
+  const slash = path.lastIndexOf("/");
+  const folder = slash < 0 ? "" : path.slice(0, slash + 1);
+  return `${folder}.${path.slice(slash + 1)}.snapshots`;
+}
+
+export function snapshotToJson(snapshot: DocumentSnapshot, schema: Record<string, unknown>): Record<string, unknown> {
+  return {
+    id: snapshot.id,
+    path: snapshot.path,
+    label: snapshot.label,
+    created_at: snapshot.createdAt.toISOString(),
+    created_by: snapshot.createdBy,
+    schema,
+  };
+}
+
+export function snapshotFromJson(json: Record<string, any>): { snapshot: DocumentSnapshot; schema: Record<string, any> } | null {
+  if (
+    typeof json["id"] !== "string" ||
+    typeof json["path"] !== "string" ||
+    typeof json["created_at"] !== "string" ||
+    typeof json["schema"] !== "object" ||
+    json["schema"] === null
+  ) {
+    return null;
+  }
+  return {
+    snapshot: {
+      id: json["id"],
+      path: json["path"],
+      label: typeof json["label"] === "string" ? json["label"] : "",
+      createdAt: new Date(json["created_at"]),
+      createdBy: typeof json["created_by"] === "string" ? json["created_by"] : null,
+    },
+    schema: json["schema"],
+  };
+}
+
+/**
+ * Makes `target` match the content of `source` in one transaction. The content is written as new changes, so
+ * other participants receive it as a normal edit and it can be undone.
+ */
+export function replaceDocumentContent(target: RuntimeDocument, source: RuntimeDocument): void {
+  target.replaceContent({
+    attributes: { ...source.root.attributes },
+    children: source.root.getChildren().map(nodeChangeData),
+  });
+}
+
+function textOf(element: Element): string | null {
+  const text = element.getChildren().find((child) => child instanceof TextElement) as TextElement | undefined;
+  return text === undefined ? null : text.delta.map((delta) => delta["insert"] ?? "").join("");
+}
+
+function indexElements(root: Element): Map<string | null, { element: Element; parentId: string | null }> {
+  const elements = new Map<string | null, { element: Element; parentId: string | null }>();
+  const visit = (element: Element, parentId: string | null) => {
+    const id = element === root ? null : element.id ?? null;
+    if (id !== null || element === root) {
+      elements.set(id, { element, parentId });
+    }
+    for (const child of element.getChildren()) {
+      if (child instanceof Element) {
+        visit(child, id);
+      }
+    }
+  };
+  visit(root, null);
+  return elements;
+}
+
+/**
+ * Lists what changed between two versions of a document.
+ */
+export function diffDocuments(from: RuntimeDocument, to: RuntimeDocument): DocumentDifference[] {
+  const before = indexElements(from.root);
+  const after = indexElements(to.root);
+  const differences: DocumentDifference[] = [];
+
+  for (const [id, { element, parentId }] of before) {
+    if (id !== null && !after.has(id)) {
+      differences.push({ type: "elementRemoved", id, tagName: element.tagName, parentId });
+    }
+  }
+
+  for (const [id, { element, parentId }] of after) {
+    const previous = before.get(id);
+    if (previous === undefined) {
+      differences.push({ type: "elementAdded", id: id!, tagName: element.tagName, parentId });
+      continue;
+    }
+
+    const names = new Set([...Object.keys(previous.element.attributes), ...Object.keys(element.attributes)]);
+    names.delete("$id");
+    for (const name of names) {
+      const oldValue = previous.element.getAttribute(name);
+      const newValue = element.getAttribute(name);
+      if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        differences.push({ type: "attributeChanged", id, tagName: element.tagName, name, oldValue, newValue });
+      }
+    }
+
+    const oldText = textOf(previous.element);
+    const newText = textOf(element);
+    if (oldText !== null && newText !== null && oldText !== newText) {
+      differences.push({ type: "textChanged", id, oldText, newText });
+    }
+  }
+
+  return differences;
+}
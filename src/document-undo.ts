@@ -0,0 +1,106 @@
+// document-undo.ts
+
+import { EventEmitter } from "./event-emitter.js";
+import {
+  beginUndoGroup,
+  clearUndoHistory,
+  endUndoGroup,
+  getUndoState,
+  redoDocument,
+  stopUndoCapturing,
+  undoDocument,
+} from "./runtime.js";
+import type { UndoState } from "./runtime.js";
+
+export interface UndoOptions {
+  /**
+   * Local changes made within this many milliseconds of each other are merged into one undo step.
+   * Defaults to 500. Use 0 to make every change its own step, and group changes explicitly with transact.
+   */
+  captureTimeoutMs?: number;
+}
+
+export interface UndoStateEvent extends UndoState {
+  type: "change";
+}
+
+/**
+ * Undo history for a MeshDocument. Only changes made through this document are recorded; changes that arrive
+ * from other participants are never reverted, and undo leaves them in place when it reverts local edits
+ * around them. Emits "change" whenever canUndo or canRedo flips.
+ */
+export class DocumentUndoManager extends EventEmitter<UndoStateEvent> {
+  public readonly documentId: string;
+
+  private _state: UndoState = { canUndo: false, canRedo: false };
+
+  constructor({ documentId }: { documentId: string }) {
+    super();
+    this.documentId = documentId;
+  }
+
+  get canUndo(): boolean {
+    return this._state.canUndo;
+  }
+
+  get canRedo(): boolean {
+    return this._state.canRedo;
+  }
+
+  /**
+   * Reverts the last local undo step. Returns false when there was nothing to undo.
+   */
+  public undo(): boolean {
+    const undone = undoDocument(this.documentId);
+    this._refresh();
+    return undone;
+  }
+
+  /**
+   * Reapplies the last undone step. Returns false when there was nothing to redo.
+   */
+  public redo(): boolean {
+    const redone = redoDocument(this.documentId);
+    this._refresh();
+    return redone;
+  }
+
+  /**
+   * Records every change made in `fn` as a single undo step. Nested calls join the outer step.
+   */
+  public transact<T>(fn: () => T): T {
+    beginUndoGroup(this.documentId);
+    try {
+      return fn();
+    } finally {
+      endUndoGroup(this.documentId);
+    }
+  }
+
+  /**
+   * Starts a new undo step with the next change, even if it falls within the capture timeout.
+   */
+  public stopCapturing(): void {
+    stopUndoCapturing(this.documentId);
+  }
+
+  public clear(): void {
+    clearUndoHistory(this.documentId);
+    this._refresh();
+  }
+
+  /**
+   * Called by the runtime whenever the undo or redo stack changes.
+   */
+  public onStateChanged = (state: UndoState): void => {
+    if (state.canUndo === this._state.canUndo && state.canRedo === this._state.canRedo) {
+      return;
+    }
+    this._state = { canUndo: state.canUndo, canRedo: state.canRedo };
+    this.emit("change", { type: "change", ...this._state });
+  };
+
+  private _refresh(): void {
+    this.onStateChanged(getUndoState(this.documentId));
+  }
+}
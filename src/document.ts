@@ -3,12 +3,57 @@
 import { v4 as uuid } from "uuid";
 import { MeshSchema, ElementType, ChildProperty } from "./schema.js";
 import { EventEmitter } from "./event-emitter.js";
+import type { AbsolutePosition, PositionKind, RelativePosition } from "./runtime.js";
 
 export interface RuntimeDocumentEvent {
   type: string;
   doc: RuntimeDocument;
 }
 
+/**
+ * A structured change to an element, delivered to `Element.observe` listeners. `target` is the element that
+ * changed: the parent for child changes, and the `text` element for text changes. Child indices are positions at
+ * the time of each change, so replaying a batch in order reproduces the new children.
+ */
+export type ElementChange =
+  | { type: "childInserted"; target: Element; index: number; node: Node }
+  | { type: "childRemoved"; target: Element; index: number; node: Node }
+  | { type: "attributeChanged"; target: Element; name: string; oldValue: any; newValue: any }
+  | { type: "textChanged"; target: Element; text: TextElement; delta: Array<Record<string, any>> };
+
+export interface ElementObserverOptions {
+  /**
+   * Also report changes to descendants of the observed element.
+   */
+  deep?: boolean;
+
+  /**
+   * Only report changes whose target has one of these tag names.
+   */
+  tagNames?: string[];
+
+  /**
+   * Only report attribute changes, and only for these attribute names.
+   */
+  attributes?: string[];
+}
+
+export type ElementChangeListener = (changes: ElementChange[]) => void;
+
+/**
+ * Where a relative position currently points: a character offset in `node` for text positions, or a child
+ * index of `node` for child positions.
+ */
+export type ResolvedPosition =
+  | { kind: "text"; node: TextElement; index: number }
+  | { kind: "children"; node: Element; index: number };
+
+interface ElementObserver {
+  element: Element;
+  listener: ElementChangeListener;
+  options: ElementObserverOptions;
+}
+
 /*
 ------------------------------------------------------------------
    Node
@@ -24,6 +69,12 @@ export class RuntimeDocument extends EventEmitter<RuntimeDocumentEvent> {
   // Here we’ll maintain an array of subscribers for demonstration.
   private _changeSubscribers: Array<(data: Record<string, any>) => void> = [];
 
+  private _transactionDepth = 0;
+  private _pendingChanges: Array<Record<string, any>> = [];
+
+  private readonly _observers = new Set<ElementObserver>();
+  private _pendingElementChanges: ElementChange[] = [];
+
   constructor({id, schema, sendChanges, sendChangesToBackend}: {
     id: string;
     schema: MeshSchema;
@@ -51,6 +102,169 @@ export class RuntimeDocument extends EventEmitter<RuntimeDocumentEvent> {
     };
   }
 
+  get inTransaction(): boolean {
+    return this._transactionDepth > 0;
+  }
+
+  /**
+   * Runs `fn` as one transaction. Mutations inside it apply to the local tree straight away, so elements
+   * created in `fn` can be used immediately, but change subscribers and "updated" listeners are notified once
+   * when the outermost transaction ends, and the changes are sent on as a single update. Nested calls join the
+   * outer transaction. If `fn` throws, the changes it already made are kept and still sent.
+   */
+  public transact<T>(fn: () => T): T {
+    this._transactionDepth++;
+    try {
+      return fn();
+    } finally {
+      this._transactionDepth--;
+      if (this._transactionDepth === 0) {
+        this.commitTransaction();
+      }
+    }
+  }
+
+  /**
+   * Replaces the children of the root, and its attributes when `attributes` is given, in one transaction.
+   * `children` take the form of `insertChildren` changes, see nodeChangeData.
+   */
+  public replaceContent({ attributes, children }: {
+    attributes?: Record<string, any>;
+    children: Array<Record<string, any>>;
+  }): void {
+    const root = this.root;
+    const changes: Array<Record<string, any>> = [];
+
+    if (attributes !== undefined) {
+      const removed = Object.keys(root.attributes).filter((name) => !(name in attributes));
+      if (removed.length > 0) {
+        changes.push({ nodeID: root.id, removeAttributes: removed });
+      }
+      if (Object.keys(attributes).length > 0) {
+        changes.push({ nodeID: root.id, setAttributes: { ...attributes } });
+      }
+    }
+    if (root.getChildren().length > 0) {
+      changes.push({ nodeID: root.id, deleteChildren: { index: 0, length: root.getChildren().length } });
+    }
+    if (children.length > 0) {
+      changes.push({ nodeID: root.id, insertChildren: { index: 0, children } });
+    }
+    if (changes.length === 0) {
+      return;
+    }
+
+    this.transact(() => {
+      this.sendChanges({ documentID: this.id, changes });
+    });
+  }
+
+  /**
+   * Creates a relative position for `index` in the text of, or the children of, the element with `nodeID`.
+   * Prefer `TextElement.createPosition` and `Element.createChildPosition`. Only documents backed by the runtime,
+   * such as MeshDocument, support positions.
+   */
+  public createRelativePosition(_nodeID: string | undefined, _kind: PositionKind, _index: number, _assoc?: number): RelativePosition {
+    throw new Error("relative positions are not supported by this document");
+  }
+
+  protected resolveRuntimePosition(_position: RelativePosition): AbsolutePosition | null {
+    throw new Error("relative positions are not supported by this document");
+  }
+
+  /**
+   * Resolves a position created by this document, or by another copy of it such as a peer's, against the
+   * current content. Returns null when its text or element was deleted, or when it refers to changes that have
+   * not arrived yet.
+   */
+  public resolvePosition(position: RelativePosition): ResolvedPosition | null {
+    const absolute = this.resolveRuntimePosition(position);
+    if (absolute === null) {
+      return null;
+    }
+    const element = absolute.nodeID === null ? this.root : this.root.getNodeByID(absolute.nodeID);
+    if (element === null) {
+      return null;
+    }
+    if (position.kind === "children") {
+      return { kind: "children", node: element, index: absolute.index };
+    }
+    const text = element.getChildren()[0];
+    return text instanceof TextElement ? { kind: "text", node: text, index: absolute.index } : null;
+  }
+
+  /**
+   * Delivers the changes buffered during a transaction. Subclasses that send changes elsewhere flush them here.
+   */
+  protected commitTransaction(): void {
+    const elementChanges = this._pendingElementChanges;
+    this._pendingElementChanges = [];
+    this._notifyObservers(elementChanges);
+
+    const changes = this._pendingChanges;
+    this._pendingChanges = [];
+    if (changes.length === 0) {
+      return;
+    }
+
+    for (const message of changes) {
+      for (const sub of this._changeSubscribers) {
+        sub(message);
+      }
+    }
+
+    this.emit("updated", { type: "change", doc: this});
+  }
+
+  /**
+   * Registers an observer for `element`. Prefer `Element.observe`.
+   */
+  public observe(element: Element, listener: ElementChangeListener, options: ElementObserverOptions = {}) {
+    const observer: ElementObserver = { element, listener, options };
+    this._observers.add(observer);
+
+    return {
+      unsubscribe: () => {
+        this._observers.delete(observer);
+      },
+    };
+  }
+
+  private _notifyObservers(changes: ElementChange[]): void {
+    if (changes.length === 0) {
+      return;
+    }
+    for (const observer of [...this._observers]) {
+      const matching = changes.filter((change) => this._observerMatches(observer, change));
+      if (matching.length > 0 && this._observers.has(observer)) {
+        observer.listener(matching);
+      }
+    }
+  }
+
+  private _observerMatches({ element, options }: ElementObserver, change: ElementChange): boolean {
+    if (options.tagNames !== undefined && !options.tagNames.includes(change.target.tagName)) {
+      return false;
+    }
+    if (options.attributes !== undefined) {
+      if (change.type !== "attributeChanged" || !options.attributes.includes(change.name)) {
+        return false;
+      }
+    }
+    if (change.target === element) {
+      return true;
+    }
+    if (!options.deep) {
+      return false;
+    }
+    for (let parent = change.target.parent; parent != null; parent = parent.parent) {
+      if (parent === element) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   // The root element
   // We lazily instantiate so we can reference `this.schema.root`:
   private _root?: Element;
@@ -119,6 +333,8 @@ export class RuntimeDocument extends EventEmitter<RuntimeDocumentEvent> {
       throw new Error(`Target node not found: ${nodeID}`);
     }
 
+    const elementChanges: ElementChange[] = [];
+
     // Process element deltas
     let retain = 0;
     const elements = message["elements"] as Array<Record<string, any>> || [];
@@ -129,14 +345,19 @@ export class RuntimeDocument extends EventEmitter<RuntimeDocumentEvent> {
       if (delta["insert"] != null) {
         for (const insert of delta["insert"] as Array<Record<string, any>>) {
           if (insert["element"] != null || insert["text"] != null) {
-            target.children.splice(retain, 0, this._createNode(target, insert));
+            const node = this._createNode(target, insert);
+            target.children.splice(retain, 0, node);
+            elementChanges.push({ type: "childInserted", target, index: retain, node });
             retain++;
           } else {
             throw new Error("Unsupported element delta");
           }
         }
       } else if (delta["delete"] != null) {
-        target.children.splice(retain, delta["delete"]);
+        const removed = target.children.splice(retain, delta["delete"]);
+        for (const node of removed) {
+          elementChanges.push({ type: "childRemoved", target, index: retain, node });
+        }
         retain -= delta["delete"];
       }
     }
@@ -148,6 +369,7 @@ export class RuntimeDocument extends EventEmitter<RuntimeDocumentEvent> {
         throw new Error("Node is not a text node: " + target.tagName);
       }
       const textNode = target.children[0] as TextElement;
+      elementChanges.push({ type: "textChanged", target, text: textNode, delta: text });
       let retainInner = 0;
       let i = 0;
       let offset = 0;
@@ -291,6 +513,13 @@ export class RuntimeDocument extends EventEmitter<RuntimeDocumentEvent> {
     if (attr) {
       const setList = (attr["set"] as Array<Record<string, any>>) || [];
       for (const change of setList) {
+        elementChanges.push({
+          type: "attributeChanged",
+          target,
+          name: change["name"],
+          oldValue: target.attributes[change["name"]],
+          newValue: change["value"],
+        });
         target.attributes[change["name"]] = change["value"];
 
         target.emit("updated", { type: "change", node: target });
@@ -298,12 +527,27 @@ export class RuntimeDocument extends EventEmitter<RuntimeDocumentEvent> {
 
       const delList = (attr["delete"] as Array<string>) || [];
       for (const name of delList) {
+        elementChanges.push({
+          type: "attributeChanged",
+          target,
+          name,
+          oldValue: target.attributes[name],
+          newValue: undefined,
+        });
         delete target.attributes[name];
 
         target.emit("updated", { type: "change", node: target });
       }
     }
 
+    if (this.inTransaction) {
+      this._pendingElementChanges.push(...elementChanges);
+      this._pendingChanges.push(message);
+      return;
+    }
+
+    this._notifyObservers(elementChanges);
+
     for (const sub of this._changeSubscribers) {
       sub(message);
     }
@@ -386,6 +630,35 @@ export class Element extends Node {
     return this.attributes[name];
   }
 
+  /**
+   * Calls `listener` with the changes to this element, or with `deep` to its whole subtree, as typed records.
+   * Changes are batched per update, or per transaction inside `RuntimeDocument.transact`.
+   *
+   * For example, to follow the "status" attribute of every task under a list:
+   * `list.observe(onChange, { deep: true, tagNames: ["task"], attributes: ["status"] })`.
+   */
+  public observe(listener: ElementChangeListener, options: ElementObserverOptions = {}) {
+    return this.doc.observe(this, listener, options);
+  }
+
+  /**
+   * Creates a position before the child at `index` that moves with the children around it as other
+   * participants insert and delete children. With a negative `assoc` the position sticks to the child before
+   * `index` instead of the one after it.
+   */
+  public createChildPosition(index: number, assoc = 0): RelativePosition {
+    return this.doc.createRelativePosition(this.id, "children", index, assoc);
+  }
+
+  /**
+   * Returns the current child index of a position created by createChildPosition, or null when it no longer
+   * points into this element.
+   */
+  public resolveChildPosition(position: RelativePosition): number | null {
+    const resolved = this.doc.resolvePosition(position);
+    return resolved !== null && resolved.node === this ? resolved.index : null;
+  }
+
   public setAttribute(name: string, value: any): void {
     this.doc.sendChanges({
       documentID: this.doc.id,
@@ -592,6 +865,24 @@ export class TextElement extends Node {
     this.delta = delta;
   }
 
+  /**
+   * Creates a position at character `index` that keeps pointing at the same place in the text as other
+   * participants edit it, for cursors and selections. With a negative `assoc` the position sticks to the
+   * character before `index`, so text typed at the position is inserted after it.
+   */
+  public createPosition(index: number, assoc = 0): RelativePosition {
+    return this.doc.createRelativePosition(this.parent?.id, "text", index, assoc);
+  }
+
+  /**
+   * Returns the current character index of a position created by createPosition, or null when it no longer
+   * points into this text.
+   */
+  public resolvePosition(position: RelativePosition): number | null {
+    const resolved = this.doc.resolvePosition(position);
+    return resolved !== null && resolved.node === this ? resolved.index : null;
+  }
+
   public insert(index: number, text: string, attributes?: Record<string, any>): void {
     this.doc.sendChanges({
       documentID: this.doc.id,
@@ -673,3 +964,20 @@ export function attributesFromJson(json: Record<string, any>): Record<string, an
     throw new Error("JSON element value must be an object");
   }
 }
+
+/**
+ * Converts a node and its subtree into the form accepted by `insertChildren` changes, keeping element ids.
+ */
+export function nodeChangeData(node: Node): Record<string, any> {
+  if (node instanceof TextElement) {
+    return { text: { delta: node.delta.map((delta) => ({ ...delta })) } };
+  }
+  const element = node as Element;
+  return {
+    element: {
+      name: element.tagName,
+      attributes: { ...element.attributes },
+      children: element.getChildren().map(nodeChangeData),
+    },
+  };
+}
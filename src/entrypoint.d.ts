@@ -14,12 +14,63 @@ export declare function getState(documentID: string, vector?: string | null): st
 
 export declare function getStateVector(documentID: string): string;
 
+export declare function mergeDocumentUpdates(base64Updates: string[]): string;
+
+export interface UndoState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export interface RuntimeUndoOptions {
+  captureTimeout?: number;
+  onStateChanged?: (state: UndoState) => void;
+}
+
 export declare function registerDocument(
   id: string,
   base64Data?: string | null,
-  undo?: boolean,
+  undo?: boolean | RuntimeUndoOptions,
   sendUpdateToBackend?: ((msg: string) => void) | null,
   sendUpdateToClient?: ((msg: string) => void) | null,
 ): void;
 
 export declare function unregisterDocument(id: string): void;
+
+export declare function undoDocument(id: string): boolean;
+
+export declare function redoDocument(id: string): boolean;
+
+export declare function getUndoState(id: string): UndoState;
+
+export declare function stopUndoCapturing(id: string): void;
+
+export declare function beginUndoGroup(id: string): void;
+
+export declare function endUndoGroup(id: string): void;
+
+export declare function clearUndoHistory(id: string): void;
+
+export type PositionKind = "text" | "children";
+
+export interface RelativePosition {
+  kind: PositionKind;
+  type: { client: number; clock: number } | null;
+  tname: string | null;
+  item: { client: number; clock: number } | null;
+  assoc: number;
+}
+
+export interface AbsolutePosition {
+  nodeID: string | null;
+  index: number;
+}
+
+export declare function createRelativePosition(
+  id: string,
+  nodeID: string | null | undefined,
+  kind: PositionKind,
+  index: number,
+  assoc?: number,
+): RelativePosition;
+
+export declare function resolveRelativePosition(id: string, position: RelativePosition): AbsolutePosition | null;
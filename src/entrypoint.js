@@ -9009,8 +9009,21 @@ var ServerXmlDocument = class {
    */
   constructor(doc2, undo, notifyChanges) {
     this._y = doc2.get("xml", YXmlElement);
+    this._undoGroupDepth = 0;
+    this._undoCaptureTimeout = 0;
+    this._onUndoStateChanged = null;
     if (undo) {
-      this._undoManager = new UndoManager(this._y);
+      const options = typeof undo === "object" ? undo : {};
+      this._undoManager = new UndoManager(this._y, { captureTimeout: options.captureTimeout ?? 500 });
+      this._onUndoStateChanged = options.onStateChanged ?? null;
+      const notifyUndoState = () => {
+        if (this._onUndoStateChanged) {
+          this._onUndoStateChanged(this.undoState());
+        }
+      };
+      this._undoManager.on("stack-item-added", notifyUndoState);
+      this._undoManager.on("stack-item-popped", notifyUndoState);
+      this._undoManager.on("stack-cleared", notifyUndoState);
     } else {
       this._undoManager = null;
     }
@@ -9104,13 +9117,147 @@ var ServerXmlDocument = class {
    * @param changes A Uint8Array containing the Yjs update (diff).
    */
   applyBackendChanges(changes) {
-    applyUpdate(this.doc, changes);
+    applyUpdate(this.doc, changes, this);
   }
+  /**
+   * Reverts the last local change. Backend changes are applied with this document as their
+   * transaction origin, so the undo manager only ever tracks local edits.
+   * @returns true if a change was reverted.
+   */
   doUndo() {
-    this._undoManager?.undo();
+    return (this._undoManager?.undo() ?? null) !== null;
   }
   doRedo() {
-    this._undoManager?.redo();
+    return (this._undoManager?.redo() ?? null) !== null;
+  }
+  undoState() {
+    return {
+      canUndo: this._undoManager?.canUndo() ?? false,
+      canRedo: this._undoManager?.canRedo() ?? false
+    };
+  }
+  /**
+   * Makes the next local change start a new undo step instead of merging into the last one.
+   */
+  stopUndoCapturing() {
+    this._undoManager?.stopCapturing();
+  }
+  /**
+   * Merges every local change until the matching endUndoGroup into a single undo step.
+   * Groups may be nested; only the outermost one takes effect.
+   */
+  beginUndoGroup() {
+    if (!this._undoManager || this._undoGroupDepth++ > 0) {
+      return;
+    }
+    this._undoManager.stopCapturing();
+    this._undoCaptureTimeout = this._undoManager.captureTimeout;
+    this._undoManager.captureTimeout = Infinity;
+  }
+  endUndoGroup() {
+    if (!this._undoManager || this._undoGroupDepth === 0 || --this._undoGroupDepth > 0) {
+      return;
+    }
+    this._undoManager.captureTimeout = this._undoCaptureTimeout;
+    this._undoManager.stopCapturing();
+  }
+  clearUndoHistory() {
+    this._undoManager?.clear();
+  }
+  /**
+   * Returns the Yjs type whose items a position of the given kind counts: the Y.XmlText of a text element, or
+   * the children of an element.
+   */
+  positionType(nodeID, kind) {
+    const element2 = this.findNode(nodeID);
+    if (element2 == null) {
+      throw new Error("Element was not found for nodeID " + nodeID);
+    }
+    if (kind === "text") {
+      if (element2.nodeName !== "text") {
+        throw new Error("Can only create text positions in a text node.");
+      }
+      return element2.firstChild;
+    }
+    return element2;
+  }
+  /**
+   * Creates a position that stays attached to the item at `index` when other changes are applied, following
+   * Yjs relative positions. A negative `assoc` attaches the position to the item before the index instead.
+   */
+  createRelativePosition(nodeID, kind, index, assoc = 0) {
+    const type = this.positionType(nodeID, kind);
+    const typeID = type._item === null ? null : { client: type._item.id.client, clock: type._item.id.clock };
+    const tname = type._item === null ? findRootTypeKey(type) : null;
+    const position = (item) => ({ kind, type: typeID, tname, item, assoc });
+    if (assoc < 0) {
+      if (index === 0) {
+        return position(null);
+      }
+      index--;
+    }
+    for (let t = type._start; t !== null; t = t.right) {
+      if (!t.deleted && t.countable) {
+        if (t.length > index) {
+          return position({ client: t.id.client, clock: t.id.clock + index });
+        }
+        index -= t.length;
+      }
+      if (t.right === null && assoc < 0) {
+        return position({ client: t.lastId.client, clock: t.lastId.clock });
+      }
+    }
+    return position(null);
+  }
+  /**
+   * Resolves a position created by createRelativePosition against the current state. Returns null when the
+   * position refers to changes this document has not seen yet, or when its text or element was deleted.
+   */
+  resolveRelativePosition({ kind, type: typeID, tname, item: itemID, assoc }) {
+    const store = this.doc.store;
+    let type = null;
+    let index = 0;
+    if (itemID != null) {
+      if (getState(store, itemID.client) <= itemID.clock) {
+        return null;
+      }
+      const res = followRedone(store, createID(itemID.client, itemID.clock));
+      const right = res.item;
+      if (!(right instanceof Item)) {
+        return null;
+      }
+      type = right.parent;
+      index = right.deleted || !right.countable ? 0 : res.diff + (assoc >= 0 ? 0 : 1);
+      for (let n = right.left; n !== null; n = n.left) {
+        if (!n.deleted && n.countable) {
+          index += n.length;
+        }
+      }
+    } else {
+      if (tname != null) {
+        type = this.doc.share.get(tname) ?? null;
+      } else if (typeID != null) {
+        if (getState(store, typeID.client) <= typeID.clock) {
+          return null;
+        }
+        const { item } = followRedone(store, createID(typeID.client, typeID.clock));
+        if (item instanceof Item && item.content instanceof ContentType) {
+          type = item.content.type;
+        }
+      }
+      if (type === null) {
+        return null;
+      }
+      index = assoc >= 0 ? type._length : 0;
+    }
+    if (type._item !== null && type._item.deleted) {
+      return null;
+    }
+    const element2 = kind === "text" ? type._item?.parent : type;
+    if (!(element2 instanceof YXmlElement)) {
+      return null;
+    }
+    return { nodeID: element2 === this._y ? null : element2.getAttribute("$id") ?? null, index };
   }
   /**
    * Serializes a Y.XmlElement or Y.XmlText into a JS object
@@ -9502,15 +9649,65 @@ function unregisterDocument(id2) {
   documents.delete(id2);
   protocols.delete(id2);
 }
+function mergeDocumentUpdates(base64Updates) {
+  if (base64Updates.length === 1) {
+    return base64Updates[0];
+  }
+  return uint8ArrayToBase64(mergeUpdates(base64Updates.map(base64ToUint8Array)));
+}
+function getRegisteredDocument(id2) {
+  const server = documents.get(id2);
+  if (!server) {
+    throw new Error("Document not registered: " + id2);
+  }
+  return server;
+}
+function undoDocument(id2) {
+  return getRegisteredDocument(id2).doUndo();
+}
+function redoDocument(id2) {
+  return getRegisteredDocument(id2).doRedo();
+}
+function getUndoState(id2) {
+  return getRegisteredDocument(id2).undoState();
+}
+function stopUndoCapturing(id2) {
+  getRegisteredDocument(id2).stopUndoCapturing();
+}
+function beginUndoGroup(id2) {
+  getRegisteredDocument(id2).beginUndoGroup();
+}
+function endUndoGroup(id2) {
+  getRegisteredDocument(id2).endUndoGroup();
+}
+function clearUndoHistory(id2) {
+  getRegisteredDocument(id2).clearUndoHistory();
+}
+function createRelativePosition(id2, nodeID, kind, index, assoc = 0) {
+  return getRegisteredDocument(id2).createRelativePosition(nodeID, kind, index, assoc);
+}
+function resolveRelativePosition(id2, position) {
+  return getRegisteredDocument(id2).resolveRelativePosition(position);
+}
 export {
   ServerXmlDocument,
   applyBackendChanges,
   applyChanges,
   base64ToUint8Array,
+  beginUndoGroup,
+  clearUndoHistory,
+  createRelativePosition,
+  endUndoGroup,
   getState2 as getState,
   getStateVector2 as getStateVector,
+  getUndoState,
+  mergeDocumentUpdates,
+  redoDocument,
   registerDocument,
+  resolveRelativePosition,
+  stopUndoCapturing,
   uint8ArrayToBase64,
+  undoDocument,
   unregisterDocument
 };
 /*! Bundled license information:
@@ -0,0 +1,1421 @@
+// in-memory-room-server.ts
+
+import { v4 as uuidv4 } from "uuid";
+
+import {
+  ContentTool,
+  ToolCallOutput,
+  ToolContentInput,
+  ToolContentOutput,
+  ToolContext,
+  ToolInput,
+  ToolStreamInput,
+  ToolStreamOutput,
+  Toolkit,
+} from "./agent.js";
+import { Protocol, ProtocolFactory, ProtocolMessageStream, ProtocolOptions, StreamProtocolChannel } from "./protocol.js";
+import {
+  BinaryContent,
+  Content,
+  ControlCloseStatus,
+  ControlContent,
+  EmptyContent,
+  ErrorContent,
+  JsonContent,
+  unpackContent,
+} from "./response.js";
+import { RoomServerException } from "./room-server-client.js";
+import { applyBackendChanges, getState, registerDocument, unregisterDocument } from "./runtime.js";
+import { StreamController } from "./stream-controller.js";
+import { decoder, encoder, packMessage, unpackMessage } from "./utils.js";
+
+const BUILT_IN_TOOLKITS = ["storage", "queues", "messaging", "developer", "sync", "services"];
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const data = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return data;
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const globalScope = globalThis as typeof globalThis & {
+    atob?: (data: string) => string;
+    Buffer?: any;
+  };
+  if (globalScope.Buffer) {
+    return new Uint8Array(globalScope.Buffer.from(base64, "base64"));
+  }
+  if (!globalScope.atob) {
+    throw new Error("base64 decoding is not available in this environment");
+  }
+  const binary = globalScope.atob(base64);
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function normalizePath(path: unknown): string {
+  if (typeof path !== "string") {
+    throw new RoomServerException("path is required");
+  }
+  return path.split("/").filter((part) => part.length > 0 && part !== ".").join("/");
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+function contentFromArguments(rawArguments: unknown, payload: Uint8Array): Content {
+  if (!isRecord(rawArguments)) {
+    throw new RoomServerException("arguments must be a content header object");
+  }
+  if (typeof rawArguments["type"] === "string") {
+    return unpackContent(packMessage(rawArguments, payload.length > 0 ? payload : undefined));
+  }
+  return new JsonContent({ json: rawArguments });
+}
+
+function jsonArguments(input: ToolInput): Record<string, any> {
+  if (input instanceof ToolContentInput) {
+    if (input.content instanceof EmptyContent) {
+      return {};
+    }
+    if (input.content instanceof JsonContent && isRecord(input.content.json)) {
+      return input.content.json;
+    }
+  }
+  throw new RoomServerException("expected JSON object input");
+}
+
+function streamIterator(input: ToolInput): AsyncIterator<Content> {
+  if (!(input instanceof ToolStreamInput)) {
+    throw new RoomServerException("expected streamed input");
+  }
+  return input.stream[Symbol.asyncIterator]();
+}
+
+/**
+ * A file held by InMemoryStorage.
+ */
+export interface InMemoryFile {
+  data: Uint8Array;
+  mimeType: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * The files served by the in-memory storage toolkit. Paths are stored without leading slashes.
+ */
+export class InMemoryStorage {
+  public readonly files = new Map<string, InMemoryFile>();
+
+  public read(path: string): InMemoryFile | undefined {
+    return this.files.get(normalizePath(path));
+  }
+
+  public write(path: string, data: Uint8Array, { mimeType = "application/octet-stream" }: { mimeType?: string } = {}): void {
+    const key = normalizePath(path);
+    const now = new Date();
+    const existing = this.files.get(key);
+    this.files.set(key, {
+      data,
+      mimeType,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    });
+  }
+
+  public isFolder(path: string): boolean {
+    const prefix = normalizePath(path);
+    if (prefix.length === 0) {
+      return true;
+    }
+    for (const key of this.files.keys()) {
+      if (key.startsWith(`${prefix}/`)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Returns the paths deleted.
+   */
+  public delete(path: string, { recursive = false }: { recursive?: boolean } = {}): string[] {
+    const key = normalizePath(path);
+    if (this.files.delete(key)) {
+      return [key];
+    }
+    if (!this.isFolder(key)) {
+      throw new RoomServerException(`file not found: ${key}`);
+    }
+    if (!recursive) {
+      throw new RoomServerException(`folder is not empty: ${key}`);
+    }
+    const deleted = [...this.files.keys()].filter((file) => key.length === 0 || file.startsWith(`${key}/`));
+    for (const file of deleted) {
+      this.files.delete(file);
+    }
+    return deleted;
+  }
+
+  public move(sourcePath: string, destinationPath: string, { overwrite = false }: { overwrite?: boolean } = {}): void {
+    const source = normalizePath(sourcePath);
+    const destination = normalizePath(destinationPath);
+    const file = this.files.get(source);
+    if (file === undefined) {
+      throw new RoomServerException(`file not found: ${source}`);
+    }
+    if (this.files.has(destination) && !overwrite) {
+      throw new RoomServerException(`file already exists: ${destination}`);
+    }
+    this.files.delete(source);
+    this.files.set(destination, { ...file, updatedAt: new Date() });
+  }
+
+  public list(path: string): Array<Record<string, unknown>> {
+    const prefix = normalizePath(path);
+    const entries = new Map<string, Record<string, unknown>>();
+    for (const [key, file] of this.files) {
+      if (prefix.length > 0 && !key.startsWith(`${prefix}/`)) {
+        continue;
+      }
+      const relative = prefix.length === 0 ? key : key.slice(prefix.length + 1);
+      const [name, ...rest] = relative.split("/");
+      if (rest.length > 0) {
+        entries.set(name, { name, is_folder: true, size: null, created_at: null, updated_at: null });
+      } else {
+        entries.set(name, {
+          name,
+          is_folder: false,
+          size: file.data.length,
+          created_at: file.createdAt.toISOString(),
+          updated_at: file.updatedAt.toISOString(),
+        });
+      }
+    }
+    return [...entries.values()];
+  }
+}
+
+type _QueueWaiter = {
+  resolve: (message: Record<string, any>) => void;
+  isActive: () => boolean;
+};
+
+/**
+ * The queues served by the in-memory queues toolkit.
+ */
+export class InMemoryQueues {
+  public readonly queues = new Map<string, Record<string, any>[]>();
+
+  private readonly _waiters = new Map<string, _QueueWaiter[]>();
+
+  public open(name: string): void {
+    if (!this.queues.has(name)) {
+      this.queues.set(name, []);
+    }
+  }
+
+  public close(name: string): void {
+    this.queues.delete(name);
+  }
+
+  public drain(name: string): void {
+    this._queue(name, { create: false }).length = 0;
+  }
+
+  public send(name: string, message: Record<string, any>, { create = true }: { create?: boolean } = {}): void {
+    const queue = this._queue(name, { create });
+    const waiters = this._waiters.get(name) ?? [];
+    while (waiters.length > 0) {
+      const waiter = waiters.shift()!;
+      if (waiter.isActive()) {
+        waiter.resolve(message);
+        return;
+      }
+    }
+    queue.push(message);
+  }
+
+  /**
+   * Takes the next message, waiting for one when `wait` is set. An aborted wait returns null and leaves later
+   * messages in the queue.
+   */
+  public async receive(
+    name: string,
+    { create = true, wait = true, isActive = () => true, signal }: {
+      create?: boolean;
+      wait?: boolean;
+      isActive?: () => boolean;
+      signal?: AbortSignal;
+    } = {},
+  ): Promise<Record<string, any> | null> {
+    const queue = this._queue(name, { create });
+    if (queue.length > 0) {
+      return queue.shift()!;
+    }
+    if (!wait || signal?.aborted) {
+      return null;
+    }
+    return await new Promise((resolve) => {
+      const waiters = this._waiters.get(name) ?? [];
+      waiters.push({ resolve, isActive: () => isActive() && signal?.aborted !== true });
+      this._waiters.set(name, waiters);
+      signal?.addEventListener("abort", () => resolve(null), { once: true });
+    });
+  }
+
+  private _queue(name: string, { create }: { create: boolean }): Record<string, any>[] {
+    const queue = this.queues.get(name);
+    if (queue !== undefined) {
+      return queue;
+    }
+    if (!create) {
+      throw new RoomServerException(`queue not found: ${name}`);
+    }
+    this.open(name);
+    return this.queues.get(name)!;
+  }
+}
+
+/**
+ * Context passed to tools executed by an InMemoryRoomServer.
+ */
+export class InMemoryRoomToolContext extends ToolContext {
+  public readonly server: InMemoryRoomServer;
+  public readonly connection: InMemoryRoomConnection;
+  public readonly toolCallId: string;
+
+  /**
+   * Aborted when the caller cancels the tool call.
+   */
+  public readonly signal: AbortSignal;
+
+  private readonly _afterResponse: Array<() => void> = [];
+
+  constructor({ server, connection, toolCallId, signal = new AbortController().signal }: {
+    server: InMemoryRoomServer;
+    connection: InMemoryRoomConnection;
+    toolCallId: string;
+    signal?: AbortSignal;
+  }) {
+    super();
+    this.server = server;
+    this.connection = connection;
+    this.toolCallId = toolCallId;
+    this.signal = signal;
+  }
+
+  /**
+   * Schedules a callback to run once the tool call response has been queued.
+   */
+  public afterResponse(callback: () => void): void {
+    this._afterResponse.push(callback);
+  }
+
+  public _runAfterResponse(): void {
+    for (const callback of this._afterResponse.splice(0)) {
+      callback();
+    }
+  }
+}
+
+type InMemoryToolHandler = (context: InMemoryRoomToolContext, input: ToolInput) => Promise<ToolCallOutput>;
+
+class _InMemoryTool extends ContentTool {
+  private readonly _handler: InMemoryToolHandler;
+
+  constructor(name: string, handler: InMemoryToolHandler) {
+    super({ name });
+    this._handler = handler;
+  }
+
+  async execute(context: ToolContext, input: ToolInput): Promise<ToolCallOutput> {
+    return await this._handler(context as InMemoryRoomToolContext, input);
+  }
+}
+
+function inMemoryToolkit(name: string, handlers: Record<string, InMemoryToolHandler>): Toolkit {
+  return new Toolkit({
+    name,
+    tools: Object.entries(handlers).map(([toolName, handler]) => new _InMemoryTool(toolName, handler)),
+    validationMode: "none",
+  });
+}
+
+class _InMemoryClientChannel extends StreamProtocolChannel {
+  private _onError?: (error: unknown) => void;
+  private _finished = false;
+
+  public override start(
+    onDataReceived: (data: Uint8Array) => void,
+    { onDone, onError }: { onDone?: () => void; onError?: (error: unknown) => void },
+  ): void {
+    this._onError = onError;
+    super.start(onDataReceived, {
+      onDone: () => this._finish(() => onDone?.()),
+      onError: (error) => this._finish(() => onError?.(error)),
+    });
+  }
+
+  public override dispose(): void {
+    this._finished = true;
+    super.dispose();
+    this.output.close();
+  }
+
+  public fail(error: unknown): void {
+    const onError = this._onError;
+    this._finish(() => onError?.(error));
+  }
+
+  private _finish(callback: () => void): void {
+    if (this._finished) {
+      return;
+    }
+    this._finished = true;
+    callback();
+  }
+}
+
+type _ForwardedCall = {
+  requester: InMemoryRoomConnection;
+  requestId: number;
+  toolCallId: string;
+  toolkit: string;
+  opened: boolean;
+};
+
+/**
+ * A participant connected to an InMemoryRoomServer.
+ */
+export class InMemoryRoomConnection {
+  public readonly server: InMemoryRoomServer;
+  public readonly protocol: Protocol;
+  public readonly participantId: string;
+  public readonly role: string;
+  public attributes: Record<string, unknown>;
+  public messagingEnabled = false;
+
+  public readonly _requestStreams = new Map<string, StreamController<Content>>();
+  public readonly _pendingRequestChunks = new Map<string, Content[]>();
+  public readonly _forwardedCalls = new Map<number, _ForwardedCall>();
+  public readonly _runningCalls = new Map<string, AbortController>();
+
+  private readonly _clientChannel?: _InMemoryClientChannel;
+  private _closed = false;
+
+  constructor({ server, protocol, participantId, role, attributes, clientChannel }: {
+    server: InMemoryRoomServer;
+    protocol: Protocol;
+    participantId: string;
+    role: string;
+    attributes: Record<string, unknown>;
+    clientChannel?: _InMemoryClientChannel;
+  }) {
+    this.server = server;
+    this.protocol = protocol;
+    this.participantId = participantId;
+    this.role = role;
+    this.attributes = attributes;
+    this._clientChannel = clientChannel;
+  }
+
+  public get isClosed(): boolean {
+    return this._closed;
+  }
+
+  public toJson(): Record<string, unknown> {
+    return { id: this.participantId, role: this.role, attributes: this.attributes };
+  }
+
+  /**
+   * Sends a message to this participant, ignoring connections that have already gone away.
+   */
+  public sendNowait(type: string, data: Uint8Array, { id, stream }: { id?: number; stream?: string } = {}): void {
+    if (this._closed || this.protocol.isClosed) {
+      return;
+    }
+    try {
+      this.protocol.sendNowait(type, data, { id, stream });
+    } catch (error) {
+      console.debug(`unable to send ${type} to ${this.participantId}`, error);
+    }
+  }
+
+  /**
+   * Closes the connection from the server side, as if the room had ended the session.
+   */
+  public close(): void {
+    this.protocol.close();
+  }
+
+  /**
+   * Drops the connection with an error, as if the network had failed.
+   */
+  public fail(error: unknown = new Error("connection lost")): void {
+    if (this._clientChannel === undefined) {
+      this.protocol.close();
+      return;
+    }
+    this._clientChannel.fail(error);
+    this.protocol.close();
+  }
+
+  public _markClosed(): boolean {
+    if (this._closed) {
+      return false;
+    }
+    this._closed = true;
+    return true;
+  }
+}
+
+type _RegisteredToolkit = {
+  id: string;
+  connection: InMemoryRoomConnection;
+  name: string;
+  title?: string;
+  description?: string;
+  tools: Record<string, unknown>;
+  isPublic: boolean;
+};
+
+type _SyncSession = {
+  connection: InMemoryRoomConnection;
+  output: StreamController<Content>;
+};
+
+type _SyncDocument = {
+  id: string;
+  path: string;
+  schema: Record<string, unknown> | null;
+  sessions: Set<_SyncSession>;
+};
+
+/**
+ * An in-process room server for exercising RoomClient based code without a network.
+ *
+ * The server implements the room handshake, request/response routing, hosted toolkit
+ * registration and the built-in storage, queues, messaging, developer, sync and services
+ * toolkits. Any built-in toolkit can be replaced by passing a Toolkit with the same name.
+ */
+export class InMemoryRoomServer {
+  public readonly roomName: string;
+  public readonly storage: InMemoryStorage;
+  public readonly queues: InMemoryQueues;
+  public services: Array<Record<string, unknown>>;
+  public serviceStates: Array<Record<string, unknown>>;
+  public readonly restartedServices: string[] = [];
+
+  private readonly _connections = new Set<InMemoryRoomConnection>();
+  private readonly _toolkits = new Map<string, Toolkit>();
+  private readonly _customToolkits = new Set<string>();
+  private readonly _registeredToolkits = new Map<string, _RegisteredToolkit>();
+  private readonly _forwardedRequestStreams = new Map<string, { host: InMemoryRoomConnection; toolkit: string }>();
+  private readonly _documents = new Map<string, _SyncDocument>();
+  private readonly _logStreams = new Set<StreamController<Content>>();
+  private _sessionCount = 0;
+
+  constructor({
+    roomName = "in-memory-room",
+    storage = new InMemoryStorage(),
+    queues = new InMemoryQueues(),
+    services = [],
+    serviceStates = [],
+    toolkits = [],
+  }: {
+    roomName?: string;
+    storage?: InMemoryStorage;
+    queues?: InMemoryQueues;
+    services?: Array<Record<string, unknown>>;
+    serviceStates?: Array<Record<string, unknown>>;
+    toolkits?: Toolkit[];
+  } = {}) {
+    this.roomName = roomName;
+    this.storage = storage;
+    this.queues = queues;
+    this.services = services;
+    this.serviceStates = serviceStates;
+
+    for (const toolkit of [
+      this._storageToolkit(),
+      this._queuesToolkit(),
+      this._messagingToolkit(),
+      this._developerToolkit(),
+      this._syncToolkit(),
+      this._servicesToolkit(),
+    ]) {
+      this._toolkits.set(toolkit.name, toolkit);
+    }
+    for (const toolkit of toolkits) {
+      this.addToolkit(toolkit);
+    }
+  }
+
+  public get connections(): InMemoryRoomConnection[] {
+    return [...this._connections];
+  }
+
+  /**
+   * Adds a toolkit served directly by the room, replacing any toolkit with the same name.
+   */
+  public addToolkit(toolkit: Toolkit): void {
+    this._toolkits.set(toolkit.name, toolkit);
+    if (!BUILT_IN_TOOLKITS.includes(toolkit.name)) {
+      this._customToolkits.add(toolkit.name);
+    }
+  }
+
+  /**
+   * Returns a protocol factory that connects a new participant each time it is called,
+   * so RoomClient reconnects are served by fresh sessions. `protocolOptions` apply to both
+   * ends of each connection.
+   */
+  public protocolFactory({
+    participantName,
+    role = "user",
+    attributes = {},
+    protocolOptions = {},
+  }: {
+    participantName?: string;
+    role?: string;
+    attributes?: Record<string, unknown>;
+    protocolOptions?: ProtocolOptions;
+  } = {}): ProtocolFactory {
+    return () => {
+      const clientToServer = new ProtocolMessageStream<Uint8Array>();
+      const serverToClient = new ProtocolMessageStream<Uint8Array>();
+      const clientChannel = new _InMemoryClientChannel({ input: serverToClient, output: clientToServer });
+      const serverProtocol = new Protocol({
+        ...protocolOptions,
+        channel: new StreamProtocolChannel({ input: clientToServer, output: serverToClient }),
+      });
+      serverProtocol.done.finally(() => serverToClient.close());
+      this._accept(serverProtocol, {
+        role,
+        attributes: participantName === undefined ? { ...attributes } : { name: participantName, ...attributes },
+        clientChannel,
+      });
+      return new Protocol({ ...protocolOptions, channel: clientChannel });
+    };
+  }
+
+  /**
+   * Serves an already connected server-side protocol as a new participant.
+   */
+  public accept(protocol: Protocol, {
+    role = "user",
+    attributes = {},
+  }: {
+    role?: string;
+    attributes?: Record<string, unknown>;
+  } = {}): InMemoryRoomConnection {
+    return this._accept(protocol, { role, attributes });
+  }
+
+  /**
+   * Closes every connection.
+   */
+  public close(): void {
+    for (const connection of this.connections) {
+      connection.close();
+    }
+  }
+
+  /**
+   * Closes every connection and releases the server-side document runtimes.
+   */
+  public dispose(): void {
+    this.close();
+    for (const document of this._documents.values()) {
+      for (const session of document.sessions) {
+        session.output.close();
+      }
+      unregisterDocument(document.id);
+    }
+    this._documents.clear();
+  }
+
+  private _accept(protocol: Protocol, { role, attributes, clientChannel }: {
+    role: string;
+    attributes: Record<string, unknown>;
+    clientChannel?: _InMemoryClientChannel;
+  }): InMemoryRoomConnection {
+    const connection = new InMemoryRoomConnection({
+      server: this,
+      protocol,
+      participantId: uuidv4(),
+      role,
+      attributes,
+      clientChannel,
+    });
+    this._connections.add(connection);
+    this._sessionCount += 1;
+
+    protocol.start({
+      onMessage: (_protocol, messageId, type, data) => this._handleMessage(connection, messageId, type, data),
+      onDone: () => this._disconnected(connection),
+      onError: () => this._disconnected(connection),
+    });
+    void protocol.done.then(() => this._disconnected(connection));
+
+    connection.sendNowait("room_ready", packMessage({
+      room_name: this.roomName,
+      room_url: `memory://${this.roomName}`,
+      session_id: `${this.roomName}-session-${this._sessionCount}`,
+    }));
+    connection.sendNowait("connected", packMessage({
+      type: "init",
+      participantId: connection.participantId,
+      attributes: connection.attributes,
+    }));
+    return connection;
+  }
+
+  private _disconnected(connection: InMemoryRoomConnection): void {
+    if (!connection._markClosed()) {
+      return;
+    }
+    this._connections.delete(connection);
+
+    const error = new RoomServerException("participant disconnected");
+    for (const stream of connection._requestStreams.values()) {
+      stream.addError(error);
+      stream.close();
+    }
+    connection._requestStreams.clear();
+
+    for (const [id, registration] of [...this._registeredToolkits]) {
+      if (registration.connection === connection) {
+        this._registeredToolkits.delete(id);
+      }
+    }
+    for (const call of connection._forwardedCalls.values()) {
+      this._forwardedRequestStreams.delete(call.toolCallId);
+      const error = new ErrorContent({ text: `toolkit ${call.toolkit} disconnected` });
+      if (call.opened) {
+        this._sendChunk(call.requester, call.toolCallId, error);
+        this._sendChunk(call.requester, call.toolCallId, new ControlContent({ method: "close" }));
+      } else {
+        this._respond(call.requester, call.requestId, error);
+      }
+    }
+    connection._forwardedCalls.clear();
+
+    if (connection.messagingEnabled) {
+      connection.messagingEnabled = false;
+      this._notifyMessaging(connection, "participant.disabled", { id: connection.participantId });
+    }
+  }
+
+  private async _handleMessage(connection: InMemoryRoomConnection, messageId: number, type: string, data?: Uint8Array): Promise<void> {
+    const bytes = data ?? new Uint8Array();
+    try {
+      switch (type) {
+        case "room.invoke_tool":
+          await this._invokeTool(connection, messageId, bytes);
+          return;
+        case "room.tool_call_request_chunk":
+          this._requestChunk(connection, bytes);
+          this._respond(connection, messageId, new EmptyContent());
+          return;
+        case "room.tool_call_response":
+          this._forwardedResponse(connection, messageId, bytes);
+          return;
+        case "room.tool_call_response_chunk":
+          this._forwardedResponseChunk(connection, messageId, bytes);
+          return;
+        case "room.register_toolkit":
+          this._respond(connection, messageId, this._registerToolkit(connection, unpackMessage(bytes)[0]));
+          return;
+        case "room.unregister_toolkit":
+          this._registeredToolkits.delete(String(unpackMessage(bytes)[0]["id"]));
+          this._respond(connection, messageId, new EmptyContent());
+          return;
+        case "room.list_toolkits":
+          this._respond(connection, messageId, this._listToolkits(unpackMessage(bytes)[0]));
+          return;
+        case "room.call":
+          this._respond(connection, messageId, new EmptyContent());
+          return;
+        case "set_attributes":
+          this._setAttributes(connection, unpackMessage(bytes)[0]);
+          return;
+        default:
+          this._respond(connection, messageId, new ErrorContent({ text: `unsupported message type ${type}` }));
+      }
+    } catch (error) {
+      this._respond(connection, messageId, new ErrorContent({ text: errorText(error) }));
+    }
+  }
+
+  private _respond(connection: InMemoryRoomConnection, messageId: number, content: Content): void {
+    connection.sendNowait("__response__", content.pack(), { id: messageId });
+  }
+
+  private _sendChunk(connection: InMemoryRoomConnection, toolCallId: string, chunk: Content): void {
+    const [header, payload] = unpackMessage(chunk.pack());
+    connection.sendNowait(
+      "room.tool_call_response_chunk",
+      packMessage({ tool_call_id: toolCallId, chunk: header }, payload.length > 0 ? payload : undefined),
+      { stream: toolCallId },
+    );
+  }
+
+  private async _invokeTool(connection: InMemoryRoomConnection, messageId: number, data: Uint8Array): Promise<void> {
+    const [request, payload] = unpackMessage(data);
+    const toolkitName = request["toolkit"];
+    const toolName = request["tool"];
+    const toolCallId = typeof request["tool_call_id"] === "string" ? request["tool_call_id"] : `${messageId}`;
+    if (typeof toolkitName !== "string" || typeof toolName !== "string") {
+      throw new RoomServerException("room.invoke_tool requires a toolkit and tool");
+    }
+    const input = contentFromArguments(request["arguments"], payload);
+
+    const registration = this._findRegisteredToolkit(toolkitName, request["participant_id"]);
+    if (registration !== undefined) {
+      this._forwardToolCall(connection, registration, {
+        messageId,
+        toolCallId,
+        tool: toolName,
+        arguments: request["arguments"],
+        payload,
+        onBehalfOfId: request["on_behalf_of_id"],
+        streamInput: input instanceof ControlContent && input.method === "open",
+      });
+      return;
+    }
+
+    const toolkit = this._toolkits.get(toolkitName);
+    if (toolkit === undefined) {
+      throw new RoomServerException(`toolkit not found: ${toolkitName}`);
+    }
+
+    let toolInput: ToolInput;
+    if (input instanceof ControlContent && input.method === "open") {
+      const controller = new StreamController<Content>();
+      const iterator = controller.stream[Symbol.asyncIterator]();
+      connection._requestStreams.set(toolCallId, controller);
+      const buffered = connection._pendingRequestChunks.get(toolCallId) ?? [];
+      connection._pendingRequestChunks.delete(toolCallId);
+      for (const chunk of buffered) {
+        this._enqueueRequestChunk(connection, toolCallId, controller, chunk);
+      }
+      toolInput = new ToolStreamInput({ [Symbol.asyncIterator]: () => iterator });
+    } else {
+      toolInput = new ToolContentInput(input);
+    }
+
+    const cancellation = new AbortController();
+    connection._runningCalls.set(toolCallId, cancellation);
+    try {
+      await this._executeTool(connection, messageId, toolCallId, {
+        toolkit,
+        tool: toolName,
+        input: toolInput,
+        signal: cancellation.signal,
+      });
+    } finally {
+      connection._requestStreams.delete(toolCallId);
+      connection._runningCalls.delete(toolCallId);
+    }
+  }
+
+  private async _executeTool(connection: InMemoryRoomConnection, messageId: number, toolCallId: string, call: {
+    toolkit: Toolkit;
+    tool: string;
+    input: ToolInput;
+    signal: AbortSignal;
+  }): Promise<void> {
+    const context = new InMemoryRoomToolContext({ server: this, connection, toolCallId, signal: call.signal });
+    const output = await call.toolkit.execute(context, call.tool, call.input);
+
+    if (output instanceof ToolContentOutput) {
+      this._respond(connection, messageId, output.content);
+      context._runAfterResponse();
+      return;
+    }
+    if (!(output instanceof ToolStreamOutput)) {
+      throw new RoomServerException(`tool ${call.toolkit.name}.${call.tool} returned unsupported output`);
+    }
+
+    this._respond(connection, messageId, new ControlContent({ method: "open" }));
+    context._runAfterResponse();
+    try {
+      for await (const chunk of output.stream) {
+        if (connection.isClosed || call.signal.aborted) {
+          return;
+        }
+        this._sendChunk(connection, toolCallId, chunk);
+      }
+    } catch (error) {
+      this._sendChunk(connection, toolCallId, new ErrorContent({ text: errorText(error) }));
+    }
+    this._sendChunk(connection, toolCallId, new ControlContent({ method: "close" }));
+  }
+
+  private _requestChunk(connection: InMemoryRoomConnection, data: Uint8Array): void {
+    const [message, payload] = unpackMessage(data);
+    const toolCallId = message["tool_call_id"];
+    if (typeof toolCallId !== "string" || !isRecord(message["chunk"])) {
+      throw new RoomServerException("room.tool_call_request_chunk requires a tool_call_id and chunk");
+    }
+
+    const forwarded = this._forwardedRequestStreams.get(toolCallId);
+    if (forwarded !== undefined) {
+      forwarded.host.sendNowait(
+        `room.tool_call_request_chunk.${forwarded.toolkit}`,
+        packMessage({ tool_call_id: toolCallId, chunk: message["chunk"] }, payload.length > 0 ? payload : undefined),
+        { stream: toolCallId },
+      );
+      if (message["chunk"]["type"] === "control" && message["chunk"]["method"] === "close") {
+        this._forwardedRequestStreams.delete(toolCallId);
+      }
+      return;
+    }
+
+    const chunk = unpackContent(packMessage(message["chunk"], payload.length > 0 ? payload : undefined));
+    const cancelled = chunk instanceof ControlContent && chunk.method === "close" && chunk.statusCode === ControlCloseStatus.CANCELLED;
+    if (cancelled) {
+      connection._runningCalls.get(toolCallId)?.abort();
+    }
+    const stream = connection._requestStreams.get(toolCallId);
+    if (stream === undefined) {
+      if (cancelled) {
+        return;
+      }
+      const buffered = connection._pendingRequestChunks.get(toolCallId) ?? [];
+      buffered.push(chunk);
+      connection._pendingRequestChunks.set(toolCallId, buffered);
+      return;
+    }
+    this._enqueueRequestChunk(connection, toolCallId, stream, chunk);
+  }
+
+  private _enqueueRequestChunk(
+    connection: InMemoryRoomConnection,
+    toolCallId: string,
+    stream: StreamController<Content>,
+    chunk: Content,
+  ): void {
+    if (chunk instanceof ControlContent) {
+      if (chunk.method === "close") {
+        connection._requestStreams.delete(toolCallId);
+        stream.close();
+      }
+      return;
+    }
+    stream.add(chunk);
+  }
+
+  private _findRegisteredToolkit(name: string, participantId: unknown): _RegisteredToolkit | undefined {
+    for (const registration of this._registeredToolkits.values()) {
+      if (registration.name !== name) {
+        continue;
+      }
+      if (typeof participantId === "string" && registration.connection.participantId !== participantId) {
+        continue;
+      }
+      return registration;
+    }
+    return undefined;
+  }
+
+  private _forwardToolCall(requester: InMemoryRoomConnection, registration: _RegisteredToolkit, call: {
+    messageId: number;
+    toolCallId: string;
+    tool: string;
+    arguments: unknown;
+    payload: Uint8Array;
+    onBehalfOfId: unknown;
+    streamInput: boolean;
+  }): void {
+    const host = registration.connection;
+    const forwardId = host.protocol.getNextMessageId();
+    host._forwardedCalls.set(forwardId, {
+      requester,
+      requestId: call.messageId,
+      toolCallId: call.toolCallId,
+      toolkit: registration.name,
+      opened: false,
+    });
+    if (call.streamInput) {
+      this._forwardedRequestStreams.set(call.toolCallId, { host, toolkit: registration.name });
+    }
+    host.sendNowait(`room.tool_call.${registration.name}`, packMessage({
+      name: call.tool,
+      tool_call_id: call.toolCallId,
+      arguments: call.arguments,
+      caller_id: requester.participantId,
+      on_behalf_of_id: typeof call.onBehalfOfId === "string" ? call.onBehalfOfId : undefined,
+    }, call.payload.length > 0 ? call.payload : undefined), { id: forwardId, stream: call.toolCallId });
+  }
+
+  private _forwardedResponse(host: InMemoryRoomConnection, messageId: number, data: Uint8Array): void {
+    const call = host._forwardedCalls.get(messageId);
+    if (call === undefined) {
+      return;
+    }
+    const response = unpackContent(data);
+    if (response instanceof ControlContent && response.method === "open") {
+      call.opened = true;
+    } else {
+      host._forwardedCalls.delete(messageId);
+      this._forwardedRequestStreams.delete(call.toolCallId);
+    }
+    call.requester.sendNowait("__response__", data, { id: call.requestId });
+  }
+
+  private _forwardedResponseChunk(host: InMemoryRoomConnection, messageId: number, data: Uint8Array): void {
+    const call = host._forwardedCalls.get(messageId);
+    if (call === undefined) {
+      return;
+    }
+    const [message] = unpackMessage(data);
+    const chunk = message["chunk"];
+    if (isRecord(chunk) && chunk["type"] === "control" && chunk["method"] === "close") {
+      host._forwardedCalls.delete(messageId);
+      this._forwardedRequestStreams.delete(call.toolCallId);
+    }
+    call.requester.sendNowait("room.tool_call_response_chunk", data, { stream: call.toolCallId });
+  }
+
+  private _registerToolkit(connection: InMemoryRoomConnection, request: Record<string, any>): Content {
+    if (typeof request["name"] !== "string" || request["name"].length === 0) {
+      throw new RoomServerException("room.register_toolkit requires a name");
+    }
+    const id = uuidv4();
+    this._registeredToolkits.set(id, {
+      id,
+      connection,
+      name: request["name"],
+      title: request["title"],
+      description: request["description"],
+      tools: isRecord(request["tools"]) ? request["tools"] : {},
+      isPublic: request["public"] === true,
+    });
+    return new JsonContent({ json: { id } });
+  }
+
+  private _listToolkits(request: Record<string, any>): Content {
+    const tools: Record<string, unknown> = {};
+    for (const name of this._customToolkits) {
+      const toolkit = this._toolkits.get(name)!;
+      tools[name] = {
+        title: toolkit.title,
+        description: toolkit.description,
+        tools: toolkit.getTools(),
+      };
+    }
+    for (const registration of this._registeredToolkits.values()) {
+      const connection = registration.connection;
+      if (request["participant_id"] != null && connection.participantId !== request["participant_id"]) {
+        continue;
+      }
+      if (request["participant_name"] != null && connection.attributes["name"] !== request["participant_name"]) {
+        continue;
+      }
+      tools[registration.name] = {
+        title: registration.title,
+        description: registration.description,
+        tools: registration.tools,
+        participant_id: connection.participantId,
+      };
+    }
+    return new JsonContent({ json: { tools } });
+  }
+
+  private _setAttributes(connection: InMemoryRoomConnection, attributes: Record<string, any>): void {
+    connection.attributes = { ...connection.attributes, ...attributes };
+    if (connection.messagingEnabled) {
+      this._notifyMessaging(connection, "participant.attributes", { attributes: connection.attributes });
+    }
+  }
+
+  private _sendMessage(
+    to: InMemoryRoomConnection,
+    from: InMemoryRoomConnection,
+    type: string,
+    message: Record<string, unknown>,
+    attachment?: Uint8Array,
+  ): void {
+    to.sendNowait("messaging.send", packMessage({
+      from_participant_id: from.participantId,
+      type,
+      message,
+    }, attachment !== undefined && attachment.length > 0 ? attachment : undefined), { stream: "messaging" });
+  }
+
+  private _notifyMessaging(from: InMemoryRoomConnection, type: string, message: Record<string, unknown>): void {
+    for (const connection of this._connections) {
+      if (connection !== from && connection.messagingEnabled) {
+        this._sendMessage(connection, from, type, message);
+      }
+    }
+  }
+
+  private _emit(type: string, message: Record<string, unknown>): void {
+    for (const connection of this._connections) {
+      connection.sendNowait(type, packMessage(message), { stream: "events" });
+    }
+  }
+
+  private _storageToolkit(): Toolkit {
+    const storage = this.storage;
+    return inMemoryToolkit("storage", {
+      list: async (_context, input) => {
+        const args = jsonArguments(input);
+        return new ToolContentOutput(new JsonContent({ json: { files: storage.list(args["path"] ?? "") } }));
+      },
+      stat: async (_context, input) => {
+        const path = normalizePath(jsonArguments(input)["path"]);
+        const file = storage.read(path);
+        if (file !== undefined) {
+          return new ToolContentOutput(new JsonContent({ json: {
+            exists: true,
+            name: baseName(path),
+            is_folder: false,
+            size: file.data.length,
+            created_at: file.createdAt.toISOString(),
+            updated_at: file.updatedAt.toISOString(),
+          } }));
+        }
+        if (storage.isFolder(path)) {
+          return new ToolContentOutput(new JsonContent({ json: { exists: true, name: baseName(path), is_folder: true } }));
+        }
+        return new ToolContentOutput(new JsonContent({ json: { exists: false } }));
+      },
+      exists: async (_context, input) => {
+        const path = jsonArguments(input)["path"];
+        return new ToolContentOutput(new JsonContent({ json: {
+          exists: storage.read(path) !== undefined || storage.isFolder(path),
+        } }));
+      },
+      delete: async (context, input) => {
+        const args = jsonArguments(input);
+        for (const path of storage.delete(args["path"], { recursive: args["recursive"] === true })) {
+          this._emit("storage.file.deleted", { path, participant_id: context.connection.participantId });
+        }
+        return new ToolContentOutput(new EmptyContent());
+      },
+      move: async (context, input) => {
+        const args = jsonArguments(input);
+        storage.move(args["source_path"], args["destination_path"], { overwrite: args["overwrite"] === true });
+        this._emit("storage.file.moved", {
+          source_path: normalizePath(args["source_path"]),
+          destination_path: normalizePath(args["destination_path"]),
+          participant_id: context.connection.participantId,
+        });
+        return new ToolContentOutput(new EmptyContent());
+      },
+      download_url: async (_context, input) => {
+        const path = normalizePath(jsonArguments(input)["path"]);
+        if (storage.read(path) === undefined) {
+          throw new RoomServerException(`file not found: ${path}`);
+        }
+        return new ToolContentOutput(new JsonContent({ json: { url: `memory://${this.roomName}/storage/${path}` } }));
+      },
+      upload: async (context, input) => {
+        const chunks = streamIterator(input);
+        const self = this;
+        return new ToolStreamOutput((async function* (): AsyncIterable<Content> {
+          const start = await chunks.next();
+          if (start.done || !(start.value instanceof BinaryContent) || start.value.headers["kind"] !== "start") {
+            throw new RoomServerException("storage.upload requires a start chunk");
+          }
+          const path = normalizePath(start.value.headers["path"]);
+          if (storage.read(path) !== undefined && start.value.headers["overwrite"] !== true) {
+            throw new RoomServerException(`file already exists: ${path}`);
+          }
+          const size = typeof start.value.headers["size"] === "number" ? start.value.headers["size"] : null;
+          const mimeType = typeof start.value.headers["mime_type"] === "string"
+            ? start.value.headers["mime_type"]
+            : undefined;
+
+          const parts: Uint8Array[] = [];
+          let received = 0;
+          while (size === null || received < size) {
+            yield new BinaryContent({ data: new Uint8Array(), headers: { kind: "pull", chunk_size: 64 * 1024 } });
+            const next = await chunks.next();
+            if (next.done) {
+              break;
+            }
+            if (!(next.value instanceof BinaryContent) || next.value.headers["kind"] !== "data") {
+              throw new RoomServerException("storage.upload expected a data chunk");
+            }
+            parts.push(next.value.data);
+            received += next.value.data.length;
+          }
+
+          storage.write(path, concatBytes(parts), { mimeType });
+          self._emit("storage.file.updated", { path, participant_id: context.connection.participantId });
+        })());
+      },
+      download: async (_context, input) => {
+        const chunks = streamIterator(input);
+        return new ToolStreamOutput((async function* (): AsyncIterable<Content> {
+          const start = await chunks.next();
+          if (start.done || !(start.value instanceof BinaryContent) || start.value.headers["kind"] !== "start") {
+            throw new RoomServerException("storage.download requires a start chunk");
+          }
+          const path = normalizePath(start.value.headers["path"]);
+          const file = storage.read(path);
+          if (file === undefined) {
+            throw new RoomServerException(`file not found: ${path}`);
+          }
+          const chunkSize = typeof start.value.headers["chunk_size"] === "number" && start.value.headers["chunk_size"] > 0
+            ? start.value.headers["chunk_size"]
+            : 64 * 1024;
+
+          yield new BinaryContent({
+            data: new Uint8Array(),
+            headers: { kind: "start", name: baseName(path), mime_type: file.mimeType, size: file.data.length },
+          });
+          let offset = 0;
+          while (offset < file.data.length) {
+            const next = await chunks.next();
+            if (next.done) {
+              return;
+            }
+            const data = file.data.slice(offset, offset + chunkSize);
+            offset += data.length;
+            yield new BinaryContent({ data, headers: { kind: "data" } });
+          }
+        })());
+      },
+    });
+  }
+
+  private _queuesToolkit(): Toolkit {
+    const queues = this.queues;
+    return inMemoryToolkit("queues", {
+      list: async () => new ToolContentOutput(new JsonContent({ json: {
+        queues: [...queues.queues].map(([name, messages]) => ({ name, size: messages.length })),
+      } })),
+      open: async (_context, input) => {
+        queues.open(jsonArguments(input)["name"]);
+        return new ToolContentOutput(new EmptyContent());
+      },
+      drain: async (_context, input) => {
+        queues.drain(jsonArguments(input)["name"]);
+        return new ToolContentOutput(new EmptyContent());
+      },
+      close: async (_context, input) => {
+        queues.close(jsonArguments(input)["name"]);
+        return new ToolContentOutput(new EmptyContent());
+      },
+      send: async (_context, input) => {
+        const args = jsonArguments(input);
+        queues.send(args["name"], args["message"], { create: args["create"] !== false });
+        return new ToolContentOutput(new EmptyContent());
+      },
+      receive: async (context, input) => {
+        const args = jsonArguments(input);
+        const message = await queues.receive(args["name"], {
+          create: args["create"] !== false,
+          wait: args["wait"] !== false,
+          isActive: () => !context.connection.isClosed,
+          signal: context.signal,
+        });
+        return new ToolContentOutput(message === null ? new EmptyContent() : new JsonContent({ json: message }));
+      },
+    });
+  }
+
+  private _messagingToolkit(): Toolkit {
+    return inMemoryToolkit("messaging", {
+      enable: async (context) => {
+        const connection = context.connection;
+        connection.messagingEnabled = true;
+        context.afterResponse(() => {
+          const participants = this.connections
+            .filter((other) => other !== connection && other.messagingEnabled)
+            .map((other) => other.toJson());
+          this._sendMessage(connection, connection, "messaging.enabled", { participants });
+          this._notifyMessaging(connection, "participant.enabled", connection.toJson());
+        });
+        return new ToolContentOutput(new EmptyContent());
+      },
+      disable: async (context) => {
+        const connection = context.connection;
+        if (connection.messagingEnabled) {
+          connection.messagingEnabled = false;
+          this._notifyMessaging(connection, "participant.disabled", { id: connection.participantId });
+        }
+        return new ToolContentOutput(new EmptyContent());
+      },
+      send: async (context, input) => {
+        const args = jsonArguments(input);
+        const to = this.connections.find((connection) => (
+          connection.participantId === args["to_participant_id"] && connection.messagingEnabled
+        ));
+        if (to === undefined) {
+          throw new RoomServerException("the participant was not found");
+        }
+        this._sendMessage(to, context.connection, args["type"], JSON.parse(args["message_json"] ?? "{}"),
+          typeof args["attachment_base64"] === "string" ? base64ToBytes(args["attachment_base64"]) : undefined);
+        return new ToolContentOutput(new EmptyContent());
+      },
+      broadcast: async (context, input) => {
+        const args = jsonArguments(input);
+        const message = JSON.parse(args["message_json"] ?? "{}");
+        const attachment = typeof args["attachment_base64"] === "string" ? base64ToBytes(args["attachment_base64"]) : undefined;
+        for (const connection of this._connections) {
+          if (connection !== context.connection && connection.messagingEnabled) {
+            this._sendMessage(connection, context.connection, args["type"], message, attachment);
+          }
+        }
+        return new ToolContentOutput(new EmptyContent());
+      },
+    });
+  }
+
+  private _developerToolkit(): Toolkit {
+    return inMemoryToolkit("developer", {
+      log: async (_context, input) => {
+        const args = jsonArguments(input);
+        const type = String(args["type"]);
+        const data = isRecord(args["data"]) ? args["data"] : {};
+        this._emit("developer.log", { type, data });
+        for (const stream of this._logStreams) {
+          stream.add(new BinaryContent({ data: encoder.encode(JSON.stringify(data)), headers: { type } }));
+        }
+        return new ToolContentOutput(new EmptyContent());
+      },
+      logs: async (_context, input) => {
+        const chunks = streamIterator(input);
+        const output = new StreamController<Content>();
+        const iterator = output.stream[Symbol.asyncIterator]();
+        this._logStreams.add(output);
+        void (async () => {
+          try {
+            while (!(await chunks.next()).done) {
+              // the logs request stream carries no data, it is only held open until the caller stops
+            }
+          } catch {
+            // the caller went away
+          } finally {
+            this._logStreams.delete(output);
+            output.close();
+          }
+        })();
+        return new ToolStreamOutput({ [Symbol.asyncIterator]: () => iterator });
+      },
+    });
+  }
+
+  private _syncDocument(path: string, { create, schema }: {
+    create: boolean;
+    schema?: Record<string, unknown> | null;
+  }): _SyncDocument {
+    const existing = this._documents.get(path);
+    if (existing !== undefined) {
+      if (existing.schema === null && schema != null) {
+        existing.schema = schema;
+      }
+      return existing;
+    }
+    if (!create) {
+      throw new RoomServerException(`document not found: ${path}`);
+    }
+    const id = `${this.roomName}/${path}`;
+    registerDocument(id, null, false, () => undefined, () => undefined);
+    const document: _SyncDocument = { id, path, schema: schema ?? null, sessions: new Set() };
+    this._documents.set(path, document);
+    return document;
+  }
+
+  private _syncToolkit(): Toolkit {
+    return inMemoryToolkit("sync", {
+      create: async (_context, input) => {
+        const args = jsonArguments(input);
+        const path = normalizePath(args["path"]);
+        if (this._documents.has(path)) {
+          throw new RoomServerException(`document already exists: ${path}`);
+        }
+        this._syncDocument(path, { create: true, schema: isRecord(args["schema"]) ? args["schema"] : null });
+        return new ToolContentOutput(new EmptyContent());
+      },
+      open: async (context, input) => {
+        const chunks = streamIterator(input);
+        const output = new StreamController<Content>();
+        const iterator = output.stream[Symbol.asyncIterator]();
+        const session: _SyncSession = { connection: context.connection, output };
+
+        void (async () => {
+          let document: _SyncDocument | undefined;
+          try {
+            const start = await chunks.next();
+            if (start.done || !(start.value instanceof BinaryContent) || start.value.headers["kind"] !== "start") {
+              throw new RoomServerException("sync.open requires a start chunk");
+            }
+            const headers = start.value.headers;
+            const path = normalizePath(headers["path"]);
+            document = this._syncDocument(path, {
+              create: headers["create"] !== false,
+              schema: isRecord(headers["schema"]) ? headers["schema"] : null,
+            });
+            if (document.schema === null) {
+              throw new RoomServerException(`a schema is required to open ${path}`);
+            }
+            document.sessions.add(session);
+            const vector = typeof headers["vector"] === "string" ? headers["vector"] : null;
+            output.add(new BinaryContent({
+              data: encoder.encode(getState(document.id, vector)),
+              headers: { kind: "state", path, schema: document.schema },
+            }));
+
+            while (true) {
+              const next = await chunks.next();
+              if (next.done) {
+                break;
+              }
+              if (!(next.value instanceof BinaryContent) || next.value.headers["kind"] !== "sync") {
+                throw new RoomServerException("sync.open expected a sync chunk");
+              }
+              applyBackendChanges(document.id, decoder.decode(next.value.data));
+              for (const other of document.sessions) {
+                if (other !== session) {
+                  other.output.add(new BinaryContent({ data: next.value.data, headers: { kind: "sync", path } }));
+                }
+              }
+            }
+          } catch (error) {
+            output.add(new ErrorContent({ text: errorText(error) }));
+          } finally {
+            document?.sessions.delete(session);
+            output.close();
+          }
+        })();
+
+        return new ToolStreamOutput({ [Symbol.asyncIterator]: () => iterator });
+      },
+    });
+  }
+
+  private _servicesToolkit(): Toolkit {
+    return inMemoryToolkit("services", {
+      list: async () => new ToolContentOutput(new JsonContent({ json: {
+        services_json: this.services,
+        service_states: this.serviceStates,
+      } })),
+      restart: async (_context, input) => {
+        this.restartedServices.push(String(jsonArguments(input)["service_id"]));
+        return new ToolContentOutput(new EmptyContent());
+      },
+    });
+  }
+}
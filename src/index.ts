@@ -7,6 +7,15 @@ export * from './containers-client.js';
 export * from './datasets-client.js';
 export * from './developer-client.js';
 export * from './document.js';
+export * from './document-awareness.js';
+export * from './document-bindings-generator.js';
+export * from './document-persistence.js';
+export * from './document-position.js';
+export * from './document-serializers.js';
+export * from './document-snapshot.js';
+export * from './document-undo.js';
+export * from './in-memory-room-server.js';
+export * from './json-schema.js';
 export * from './meshagent-client.js';
 export * from './messaging-client.js';
 export * from './memory-client.js';
@@ -14,14 +23,18 @@ export * from './oauth-scopes.js';
 export * from './participant-token.js';
 export * from './participant.js';
 export * from './protocol.js';
+export * from './protocol-recording.js';
+export * from './queue-worker.js';
 export * from './queues-client.js';
 export * from './requirement.js';
+export * from './request-options.js';
 export * from './response.js';
 export * from './room-client.js';
 export * from './room-event.js';
 export * from './room-server-client.js';
 export * from './runtime.js';
 export * from './schema.js';
+export * from './schema-migration.js';
 export * from './storage-client.js';
 export * from './services-client.js';
 export * from './sqlite-client.js';
@@ -29,7 +42,12 @@ export * from './stream-controller.js';
 export * from './sync-client.js';
 export * from './api_keys.js';
 export * from './helpers.js';
+export * from './tool-builder.js';
+export * from './tool-call-limiter.js';
+export * from './tool-call-middleware.js';
 export * from './tool-content-type.js';
+export * from './toolkit-client-generator.js';
 export * from './toolkit-config.js';
+export * from './typed-element.js';
 export * from './utils.js';
 export * from './version.js';
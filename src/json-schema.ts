@@ -0,0 +1,853 @@
+// json-schema.ts
+
+/**
+ * A JSON Schema (draft 2020-12). Boolean schemas accept (true) or reject (false) every value.
+ */
+export type JsonSchema = Record<string, any> | boolean;
+
+export interface JsonSchemaError {
+    /**
+     * JSON Pointer to the value that failed, "" for the root value.
+     */
+    instancePath: string;
+
+    /**
+     * JSON Pointer, as a URI fragment, to the schema keyword that failed.
+     */
+    schemaPath: string;
+
+    keyword: string;
+    message: string;
+}
+
+export type JsonSchemaFormat = (value: string) => boolean;
+
+export interface JsonSchemaValidatorOptions {
+    /**
+     * Base URI for a root schema without an absolute $id.
+     */
+    baseUri?: string;
+
+    /**
+     * Additional schemas that $ref may point to, by URI. Schemas with an absolute $id may also be listed by that id.
+     */
+    resources?: Record<string, JsonSchema>;
+
+    /**
+     * Custom format checks, added to or replacing the built-in ones.
+     */
+    formats?: Record<string, JsonSchemaFormat>;
+
+    /**
+     * Whether "format" fails validation or is only an annotation. Defaults to true.
+     */
+    assertFormats?: boolean;
+}
+
+const DEFAULT_BASE_URI = "memory://schema/root.json";
+const MAX_DEPTH = 256;
+
+const SCHEMA_MAP_KEYWORDS = ["$defs", "definitions", "properties", "patternProperties", "dependentSchemas", "dependencies"];
+const SCHEMA_ARRAY_KEYWORDS = ["allOf", "anyOf", "oneOf", "prefixItems", "items"];
+const SCHEMA_KEYWORDS = [
+    "items",
+    "additionalItems",
+    "additionalProperties",
+    "contains",
+    "propertyNames",
+    "not",
+    "if",
+    "then",
+    "else",
+    "unevaluatedItems",
+    "unevaluatedProperties",
+];
+
+function isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSchema(value: unknown): value is JsonSchema {
+    return typeof value === "boolean" || isRecord(value);
+}
+
+function escapeJsonPointerToken(token: string): string {
+    return token.replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+function unescapeJsonPointerToken(token: string): string {
+    return token.replace(/~1/g, "/").replace(/~0/g, "~");
+}
+
+/**
+ * Builds a JSON Pointer from unescaped reference tokens.
+ */
+export function jsonPointer(tokens: Array<string | number>): string {
+    return tokens.map((token) => `/${escapeJsonPointerToken(String(token))}`).join("");
+}
+
+export function formatJsonSchemaError(error: JsonSchemaError): string {
+    return `${error.instancePath === "" ? "(root)" : error.instancePath}: ${error.message}`;
+}
+
+function resolveUri(reference: string, base: string): string {
+    try {
+        return new URL(reference, base).href;
+    } catch {
+        return reference;
+    }
+}
+
+function splitFragment(uri: string): [string, string] {
+    const index = uri.indexOf("#");
+    if (index === -1) {
+        return [uri, ""];
+    }
+    return [uri.slice(0, index), uri.slice(index + 1)];
+}
+
+function jsonEqual(a: unknown, b: unknown): boolean {
+    if (a === b) {
+        return true;
+    }
+    if (Array.isArray(a) || Array.isArray(b)) {
+        if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) {
+            return false;
+        }
+        return a.every((item, index) => jsonEqual(item, b[index]));
+    }
+    if (isRecord(a) && isRecord(b)) {
+        const keys = Object.keys(a);
+        if (keys.length !== Object.keys(b).length) {
+            return false;
+        }
+        return keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && jsonEqual(a[key], b[key]));
+    }
+    return false;
+}
+
+function typeOf(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+    return typeof value;
+}
+
+function matchesType(type: unknown, value: unknown): boolean {
+    switch (type) {
+        case "object": return isRecord(value);
+        case "array": return Array.isArray(value);
+        case "string": return typeof value === "string";
+        case "number": return typeof value === "number" && Number.isFinite(value);
+        case "integer": return typeof value === "number" && Number.isInteger(value);
+        case "boolean": return typeof value === "boolean";
+        case "null": return value === null;
+        default: return true;
+    }
+}
+
+function isMultipleOf(value: number, divisor: number): boolean {
+    const quotient = value / divisor;
+    if (!Number.isFinite(quotient)) {
+        return false;
+    }
+    return Math.abs(quotient - Math.round(quotient)) <= 1e-9 * Math.max(1, Math.abs(quotient));
+}
+
+const DAYS_IN_MONTH = [31, 29, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+function isDate(value: string): boolean {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (match === null) return false;
+    const year = Number(match[1]);
+    const month = Number(match[2]);
+    const day = Number(match[3]);
+    if (month < 1 || month > 12 || day < 1 || day > DAYS_IN_MONTH[month - 1]) return false;
+    const leap = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+    return month !== 2 || day < 29 || leap;
+}
+
+function isTime(value: string): boolean {
+    const match = /^(\d{2}):(\d{2}):(\d{2})(?:\.\d+)?(?:z|([+-])(\d{2}):(\d{2}))$/i.exec(value);
+    if (match === null) return false;
+    const [hour, minute, second] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (hour > 23 || minute > 59 || second > 60) return false;
+    return match[4] === undefined || (Number(match[5]) <= 23 && Number(match[6]) <= 59);
+}
+
+function isHostname(value: string): boolean {
+    const name = value.endsWith(".") ? value.slice(0, -1) : value;
+    if (name.length === 0 || name.length > 253) return false;
+    return name.split(".").every((label) => /^[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?$/.test(label));
+}
+
+function isIpv4(value: string): boolean {
+    const parts = value.split(".");
+    return parts.length === 4 && parts.every((part) => /^(?:0|[1-9]\d{0,2})$/.test(part) && Number(part) <= 255);
+}
+
+function isIpv6(value: string): boolean {
+    let address = value;
+    let groups = 8;
+    const lastColon = address.lastIndexOf(":");
+    if (lastColon !== -1 && address.slice(lastColon + 1).includes(".")) {
+        if (!isIpv4(address.slice(lastColon + 1))) return false;
+        address = `${address.slice(0, lastColon + 1)}0`;
+        groups = 7;
+    }
+    const halves = address.split("::");
+    if (halves.length > 2) return false;
+    const parse = (half: string): string[] | null => {
+        if (half === "") return [];
+        const parts = half.split(":");
+        return parts.every((part) => /^[0-9A-Fa-f]{1,4}$/.test(part)) ? parts : null;
+    };
+    const head = parse(halves[0]);
+    const tail = halves.length === 2 ? parse(halves[1]) : [];
+    if (head === null || tail === null) return false;
+    const count = head.length + tail.length;
+    return halves.length === 2 ? count < groups : count === groups;
+}
+
+function isRegex(value: string): boolean {
+    try {
+        new RegExp(value, "u");
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+const BUILT_IN_FORMATS: Record<string, JsonSchemaFormat> = {
+    "date": isDate,
+    "time": isTime,
+    "date-time": (value) => {
+        const match = /^(.+)[Tt](.+)$/.exec(value);
+        return match !== null && isDate(match[1]) && isTime(match[2]);
+    },
+    "duration": (value) => /^P(?!$)(?:\d+W|(?:\d+Y)?(?:\d+M)?(?:\d+D)?(?:T(?=\d)(?:\d+H)?(?:\d+M)?(?:\d+S)?)?)$/.test(value),
+    "email": (value) => {
+        const at = value.lastIndexOf("@");
+        if (at <= 0) return false;
+        const domain = value.slice(at + 1);
+        const local = value.slice(0, at);
+        if (!/^[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/.test(local)) return false;
+        const literal = /^\[(?:IPv6:(.+)|(.+))\]$/.exec(domain);
+        if (literal !== null) return literal[1] !== undefined ? isIpv6(literal[1]) : isIpv4(literal[2]);
+        return isHostname(domain);
+    },
+    "hostname": isHostname,
+    "ipv4": isIpv4,
+    "ipv6": isIpv6,
+    "uri": (value) => /^[A-Za-z][A-Za-z0-9+.-]*:[^\s<>"{}|\\^`]*$/.test(value),
+    "uri-reference": (value) => /^[^\s<>"{}|\\^`]*$/.test(value),
+    "iri": (value) => /^[A-Za-z][A-Za-z0-9+.-]*:[^\s<>"{}|\\^`]*$/u.test(value),
+    "iri-reference": (value) => /^[^\s<>"{}|\\^`]*$/u.test(value),
+    "uuid": (value) => /^[0-9A-Fa-f]{8}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{4}-[0-9A-Fa-f]{12}$/.test(value),
+    "regex": isRegex,
+    "json-pointer": (value) => /^(?:\/(?:[^~/]|~[01])*)*$/.test(value),
+    "relative-json-pointer": (value) => /^(?:0|[1-9]\d*)(?:#|(?:\/(?:[^~/]|~[01])*)*)$/.test(value),
+};
+
+interface Evaluation {
+    valid: boolean;
+    properties: Set<string>;
+    items: Set<number>;
+}
+
+interface EvaluationContext {
+    instancePath: string;
+    schemaPath: string;
+    base: string;
+    dynamicScope: string[];
+    depth: number;
+}
+
+/**
+ * Validates values against a JSON Schema (draft 2020-12), including $ref and $dynamicRef, the applicator,
+ * unevaluated and format keywords. The draft-07 forms of items, additionalItems, definitions and dependencies
+ * are also understood.
+ *
+ * Remote $ref targets are never fetched during validation: list them in resources, or use load() to fetch them
+ * up front.
+ */
+export class JsonSchemaValidator {
+    public readonly schema: JsonSchema;
+
+    private readonly _rootUri: string;
+    private readonly _formats: Record<string, JsonSchemaFormat>;
+    private readonly _assertFormats: boolean;
+    private readonly _resources = new Map<string, JsonSchema>();
+    private readonly _anchors = new Map<string, JsonSchema>();
+    private readonly _dynamicAnchors = new Map<string, Map<string, JsonSchema>>();
+    private readonly _bases = new WeakMap<object, string>();
+    private readonly _patterns = new Map<string, RegExp>();
+
+    constructor(schema: JsonSchema, { baseUri = DEFAULT_BASE_URI, resources = {}, formats = {}, assertFormats = true }: JsonSchemaValidatorOptions = {}) {
+        this.schema = schema;
+        this._formats = { ...BUILT_IN_FORMATS, ...formats };
+        this._assertFormats = assertFormats;
+        for (const [uri, resource] of Object.entries(resources)) {
+            this.addResource(uri, resource);
+        }
+        this._rootUri = this.addResource(baseUri, schema);
+    }
+
+    /**
+     * Creates a validator, first fetching every remote schema that $ref points to and that is not already
+     * listed in resources.
+     */
+    public static async load(
+        schema: JsonSchema,
+        { fetchSchema, ...options }: JsonSchemaValidatorOptions & { fetchSchema: (uri: string) => Promise<JsonSchema> },
+    ): Promise<JsonSchemaValidator> {
+        const validator = new JsonSchemaValidator(schema, options);
+        const requested = new Set<string>();
+        while (true) {
+            const missing = validator._missingResources().filter((uri) => !requested.has(uri));
+            if (missing.length === 0) {
+                return validator;
+            }
+            for (const uri of missing) {
+                requested.add(uri);
+                validator.addResource(uri, await fetchSchema(uri));
+            }
+        }
+    }
+
+    /**
+     * Registers a schema that $ref may point to, and returns its resolved URI.
+     */
+    public addResource(uri: string, schema: JsonSchema): string {
+        const [base] = splitFragment(resolveUri(uri, DEFAULT_BASE_URI));
+        this._resources.set(base, schema);
+        return this._index(schema, base, true);
+    }
+
+    /**
+     * Returns every error found, or an empty array when the value is valid.
+     */
+    public validate(value: unknown): JsonSchemaError[] {
+        const errors: JsonSchemaError[] = [];
+        this._evaluate(this.schema, value, {
+            instancePath: "",
+            schemaPath: "#",
+            base: this._rootUri,
+            dynamicScope: [],
+            depth: 0,
+        }, errors);
+        return errors;
+    }
+
+    public isValid(value: unknown): boolean {
+        return this.validate(value).length === 0;
+    }
+
+    private _index(schema: unknown, base: string, isResourceRoot: boolean): string {
+        if (Array.isArray(schema)) {
+            for (const item of schema) {
+                this._index(item, base, false);
+            }
+            return base;
+        }
+        if (!isRecord(schema)) {
+            return base;
+        }
+
+        let resource = base;
+        if (typeof schema["$id"] === "string") {
+            [resource] = splitFragment(resolveUri(schema["$id"], base));
+            this._resources.set(resource, schema);
+        } else if (isResourceRoot) {
+            this._resources.set(resource, schema);
+        }
+        this._bases.set(schema, resource);
+
+        if (typeof schema["$anchor"] === "string") {
+            this._anchors.set(`${resource}#${schema["$anchor"]}`, schema);
+        }
+        if (typeof schema["$dynamicAnchor"] === "string") {
+            this._anchors.set(`${resource}#${schema["$dynamicAnchor"]}`, schema);
+            const anchors = this._dynamicAnchors.get(resource) ?? new Map<string, JsonSchema>();
+            anchors.set(schema["$dynamicAnchor"], schema);
+            this._dynamicAnchors.set(resource, anchors);
+        }
+
+        for (const keyword of SCHEMA_MAP_KEYWORDS) {
+            if (isRecord(schema[keyword])) {
+                for (const child of Object.values(schema[keyword])) {
+                    this._index(child, resource, false);
+                }
+            }
+        }
+        for (const keyword of SCHEMA_ARRAY_KEYWORDS) {
+            if (Array.isArray(schema[keyword])) {
+                this._index(schema[keyword], resource, false);
+            }
+        }
+        for (const keyword of SCHEMA_KEYWORDS) {
+            if (isRecord(schema[keyword])) {
+                this._index(schema[keyword], resource, false);
+            }
+        }
+        return resource;
+    }
+
+    private _missingResources(): string[] {
+        const missing = new Set<string>();
+        const visit = (schema: unknown): void => {
+            if (Array.isArray(schema)) {
+                schema.forEach(visit);
+                return;
+            }
+            if (!isRecord(schema)) {
+                return;
+            }
+            const base = this._bases.get(schema) ?? this._rootUri;
+            for (const keyword of ["$ref", "$dynamicRef"]) {
+                if (typeof schema[keyword] === "string") {
+                    const [uri] = splitFragment(resolveUri(schema[keyword], base));
+                    if (!this._resources.has(uri)) {
+                        missing.add(uri);
+                    }
+                }
+            }
+            for (const keyword of SCHEMA_MAP_KEYWORDS) {
+                if (isRecord(schema[keyword])) {
+                    Object.values(schema[keyword]).forEach(visit);
+                }
+            }
+            for (const keyword of [...SCHEMA_ARRAY_KEYWORDS, ...SCHEMA_KEYWORDS]) {
+                if (schema[keyword] !== undefined) {
+                    visit(schema[keyword]);
+                }
+            }
+        };
+        for (const resource of [...this._resources.values()]) {
+            visit(resource);
+        }
+        return [...missing];
+    }
+
+    private _resolve(reference: string, base: string): { schema: JsonSchema; uri: string } | undefined {
+        const uri = resolveUri(reference, base);
+        const anchored = this._anchors.get(uri);
+        if (anchored !== undefined) {
+            return { schema: anchored, uri };
+        }
+        const [resourceUri, fragment] = splitFragment(uri);
+        let target: unknown = this._resources.get(resourceUri);
+        if (target === undefined) {
+            return undefined;
+        }
+        if (fragment !== "") {
+            if (!fragment.startsWith("/")) {
+                return undefined;
+            }
+            for (const token of fragment.slice(1).split("/")) {
+                const key = unescapeJsonPointerToken(decodeURIComponent(token));
+                if (Array.isArray(target)) {
+                    target = target[Number(key)];
+                } else if (isRecord(target)) {
+                    target = target[key];
+                } else {
+                    return undefined;
+                }
+            }
+        }
+        return isSchema(target) ? { schema: target, uri } : undefined;
+    }
+
+    private _pattern(pattern: string): RegExp {
+        let regex = this._patterns.get(pattern);
+        if (regex === undefined) {
+            try {
+                regex = new RegExp(pattern, "u");
+            } catch {
+                regex = new RegExp(pattern);
+            }
+            this._patterns.set(pattern, regex);
+        }
+        return regex;
+    }
+
+    private _evaluate(schema: JsonSchema, value: unknown, context: EvaluationContext, errors: JsonSchemaError[]): Evaluation {
+        const evaluation: Evaluation = { valid: true, properties: new Set(), items: new Set() };
+        if (schema === false) {
+            errors.push({ instancePath: context.instancePath, schemaPath: context.schemaPath, keyword: "false", message: "no value is allowed here" });
+            evaluation.valid = false;
+            return evaluation;
+        }
+        if (!isRecord(schema)) {
+            return evaluation;
+        }
+        if (context.depth > MAX_DEPTH) {
+            throw new Error(`JSON schema recursion is deeper than ${MAX_DEPTH} levels at ${context.schemaPath}`);
+        }
+
+        const base = this._bases.get(schema) ?? context.base;
+        const dynamicScope = base !== context.base || context.dynamicScope.length === 0
+            ? [...context.dynamicScope, base]
+            : context.dynamicScope;
+        const errorCount = errors.length;
+
+        const fail = (keyword: string, message: string): void => {
+            errors.push({ instancePath: context.instancePath, schemaPath: `${context.schemaPath}/${keyword}`, keyword, message });
+        };
+        const apply = (
+            subschema: JsonSchema,
+            instance: unknown,
+            schemaTokens: Array<string | number>,
+            instanceTokens: Array<string | number> = [],
+            into: JsonSchemaError[] = errors,
+            nextBase: string = base,
+        ): Evaluation => this._evaluate(subschema, instance, {
+            instancePath: context.instancePath + jsonPointer(instanceTokens),
+            schemaPath: context.schemaPath + jsonPointer(schemaTokens),
+            base: nextBase,
+            dynamicScope,
+            depth: context.depth + 1,
+        }, into);
+        const merge = (other: Evaluation): void => {
+            other.properties.forEach((key) => evaluation.properties.add(key));
+            other.items.forEach((index) => evaluation.items.add(index));
+        };
+
+        if (typeof schema["$ref"] === "string") {
+            const resolved = this._resolve(schema["$ref"], base);
+            if (resolved === undefined) {
+                fail("$ref", `cannot resolve $ref ${schema["$ref"]}`);
+            } else {
+                merge(apply(resolved.schema, value, ["$ref"], [], errors, this._baseOf(resolved.schema, resolved.uri)));
+            }
+        }
+        if (typeof schema["$dynamicRef"] === "string") {
+            const resolved = this._resolveDynamic(schema["$dynamicRef"], base, dynamicScope);
+            if (resolved === undefined) {
+                fail("$dynamicRef", `cannot resolve $dynamicRef ${schema["$dynamicRef"]}`);
+            } else {
+                merge(apply(resolved.schema, value, ["$dynamicRef"], [], errors, this._baseOf(resolved.schema, resolved.uri)));
+            }
+        }
+
+        if (schema.type !== undefined) {
+            const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+            if (!types.some((type: unknown) => matchesType(type, value))) {
+                fail("type", `expected type ${types.join(" or ")} but got ${typeOf(value)}`);
+            }
+        }
+        if (Array.isArray(schema.enum) && !schema.enum.some((item: unknown) => jsonEqual(item, value))) {
+            fail("enum", "value is not one of the allowed enum values");
+        }
+        if ("const" in schema && !jsonEqual(schema.const, value)) {
+            fail("const", "value does not match const");
+        }
+
+        if (typeof value === "number") {
+            if (typeof schema.multipleOf === "number" && schema.multipleOf > 0 && !isMultipleOf(value, schema.multipleOf)) {
+                fail("multipleOf", `number is not a multiple of ${schema.multipleOf}`);
+            }
+            if (typeof schema.minimum === "number" && value < schema.minimum) fail("minimum", `number is less than ${schema.minimum}`);
+            if (typeof schema.maximum === "number" && value > schema.maximum) fail("maximum", `number is greater than ${schema.maximum}`);
+            if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+                fail("exclusiveMinimum", `number must be greater than ${schema.exclusiveMinimum}`);
+            }
+            if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+                fail("exclusiveMaximum", `number must be less than ${schema.exclusiveMaximum}`);
+            }
+        }
+
+        if (typeof value === "string") {
+            const length = [...value].length;
+            if (typeof schema.minLength === "number" && length < schema.minLength) fail("minLength", `string is shorter than ${schema.minLength}`);
+            if (typeof schema.maxLength === "number" && length > schema.maxLength) fail("maxLength", `string is longer than ${schema.maxLength}`);
+            if (typeof schema.pattern === "string" && !this._pattern(schema.pattern).test(value)) {
+                fail("pattern", `string does not match pattern ${schema.pattern}`);
+            }
+            if (typeof schema.format === "string" && this._assertFormats) {
+                const check = this._formats[schema.format];
+                if (check !== undefined && !check(value)) {
+                    fail("format", `string is not a valid ${schema.format}`);
+                }
+            }
+        }
+
+        if (Array.isArray(value)) {
+            this._evaluateArray(schema, value, fail, apply, evaluation);
+        }
+        if (isRecord(value)) {
+            this._evaluateObject(schema, value, fail, apply, merge, evaluation);
+        }
+
+        if (Array.isArray(schema.allOf)) {
+            schema.allOf.forEach((subschema: JsonSchema, index: number) => merge(apply(subschema, value, ["allOf", index])));
+        }
+        if (Array.isArray(schema.anyOf)) {
+            let matched = false;
+            schema.anyOf.forEach((subschema: JsonSchema, index: number) => {
+                const result = apply(subschema, value, ["anyOf", index], [], []);
+                if (result.valid) {
+                    matched = true;
+                    merge(result);
+                }
+            });
+            if (!matched) fail("anyOf", "value does not match any schema in anyOf");
+        }
+        if (Array.isArray(schema.oneOf)) {
+            const matches = schema.oneOf
+                .map((subschema: JsonSchema, index: number) => apply(subschema, value, ["oneOf", index], [], []))
+                .filter((result: Evaluation) => result.valid);
+            if (matches.length === 1) {
+                merge(matches[0]);
+            } else if (matches.length === 0) {
+                fail("oneOf", "value does not match any schema in oneOf");
+            } else {
+                fail("oneOf", `value matches ${matches.length} schemas in oneOf`);
+            }
+        }
+        if (isSchema(schema.not) && apply(schema.not, value, ["not"], [], []).valid) {
+            fail("not", "value must not match the schema in not");
+        }
+        if (isSchema(schema.if)) {
+            const condition = apply(schema.if, value, ["if"], [], []);
+            if (condition.valid) {
+                merge(condition);
+                if (isSchema(schema.then)) merge(apply(schema.then, value, ["then"]));
+            } else if (isSchema(schema.else)) {
+                merge(apply(schema.else, value, ["else"]));
+            }
+        }
+
+        if (Array.isArray(value) && isSchema(schema.unevaluatedItems)) {
+            value.forEach((item, index) => {
+                if (!evaluation.items.has(index)) {
+                    apply(schema.unevaluatedItems, item, ["unevaluatedItems"], [index]);
+                    evaluation.items.add(index);
+                }
+            });
+        }
+        if (isRecord(value) && isSchema(schema.unevaluatedProperties)) {
+            for (const key of Object.keys(value)) {
+                if (!evaluation.properties.has(key)) {
+                    if (schema.unevaluatedProperties === false) {
+                        fail("unevaluatedProperties", `unexpected property ${key}`);
+                    } else {
+                        apply(schema.unevaluatedProperties, value[key], ["unevaluatedProperties"], [key]);
+                    }
+                    evaluation.properties.add(key);
+                }
+            }
+        }
+
+        if (errors.length > errorCount) {
+            return { valid: false, properties: new Set(), items: new Set() };
+        }
+        return evaluation;
+    }
+
+    private _evaluateArray(
+        schema: Record<string, any>,
+        value: unknown[],
+        fail: (keyword: string, message: string) => void,
+        apply: (subschema: JsonSchema, instance: unknown, schemaTokens: Array<string | number>, instanceTokens?: Array<string | number>, into?: JsonSchemaError[]) => Evaluation,
+        evaluation: Evaluation,
+    ): void {
+        const legacyTuple = Array.isArray(schema.items);
+        const prefixKeyword = legacyTuple ? "items" : "prefixItems";
+        const prefixItems: unknown[] = Array.isArray(schema[prefixKeyword]) ? schema[prefixKeyword] : [];
+        const restKeyword = legacyTuple ? "additionalItems" : "items";
+        const rest = schema[restKeyword];
+
+        value.forEach((item, index) => {
+            if (index < prefixItems.length) {
+                if (isSchema(prefixItems[index])) {
+                    apply(prefixItems[index] as JsonSchema, item, [prefixKeyword, index], [index]);
+                }
+                evaluation.items.add(index);
+            } else if (isSchema(rest)) {
+                apply(rest, item, [restKeyword], [index]);
+                evaluation.items.add(index);
+            }
+        });
+
+        if (isSchema(schema.contains)) {
+            let count = 0;
+            value.forEach((item, index) => {
+                if (apply(schema.contains, item, ["contains"], [index], []).valid) {
+                    count += 1;
+                    evaluation.items.add(index);
+                }
+            });
+            const minContains = typeof schema.minContains === "number" ? schema.minContains : 1;
+            if (count < minContains) {
+                fail("contains", minContains === 1
+                    ? "array does not contain a matching item"
+                    : `array contains fewer than ${minContains} matching items`);
+            }
+            if (typeof schema.maxContains === "number" && count > schema.maxContains) {
+                fail("maxContains", `array contains more than ${schema.maxContains} matching items`);
+            }
+        }
+
+        if (typeof schema.minItems === "number" && value.length < schema.minItems) fail("minItems", `array has fewer than ${schema.minItems} items`);
+        if (typeof schema.maxItems === "number" && value.length > schema.maxItems) fail("maxItems", `array has more than ${schema.maxItems} items`);
+        if (schema.uniqueItems === true) {
+            for (let i = 0; i < value.length; i += 1) {
+                for (let j = i + 1; j < value.length; j += 1) {
+                    if (jsonEqual(value[i], value[j])) {
+                        fail("uniqueItems", `array items ${i} and ${j} are equal`);
+                        return;
+                    }
+                }
+            }
+        }
+    }
+
+    private _evaluateObject(
+        schema: Record<string, any>,
+        value: Record<string, any>,
+        fail: (keyword: string, message: string) => void,
+        apply: (subschema: JsonSchema, instance: unknown, schemaTokens: Array<string | number>, instanceTokens?: Array<string | number>, into?: JsonSchemaError[]) => Evaluation,
+        merge: (other: Evaluation) => void,
+        evaluation: Evaluation,
+    ): void {
+        const keys = Object.keys(value);
+        const properties = isRecord(schema.properties) ? schema.properties : {};
+        const patternProperties = isRecord(schema.patternProperties) ? schema.patternProperties : {};
+        const matched = new Set<string>();
+
+        for (const [key, subschema] of Object.entries(properties)) {
+            if (Object.prototype.hasOwnProperty.call(value, key) && isSchema(subschema)) {
+                apply(subschema, value[key], ["properties", key], [key]);
+                matched.add(key);
+            }
+        }
+        for (const [pattern, subschema] of Object.entries(patternProperties)) {
+            if (!isSchema(subschema)) continue;
+            const regex = this._pattern(pattern);
+            for (const key of keys) {
+                if (regex.test(key)) {
+                    apply(subschema, value[key], ["patternProperties", pattern], [key]);
+                    matched.add(key);
+                }
+            }
+        }
+        if (isSchema(schema.additionalProperties)) {
+            for (const key of keys) {
+                if (matched.has(key) || Object.prototype.hasOwnProperty.call(properties, key)) continue;
+                if (schema.additionalProperties === false) {
+                    fail("additionalProperties", `unexpected property ${key}`);
+                } else {
+                    apply(schema.additionalProperties, value[key], ["additionalProperties"], [key]);
+                }
+                matched.add(key);
+            }
+        }
+        matched.forEach((key) => evaluation.properties.add(key));
+
+        if (isSchema(schema.propertyNames)) {
+            for (const key of keys) {
+                const nameErrors: JsonSchemaError[] = [];
+                if (!apply(schema.propertyNames, key, ["propertyNames"], [], nameErrors).valid) {
+                    fail("propertyNames", `property name ${key} is invalid: ${nameErrors[0]?.message ?? "does not match propertyNames"}`);
+                }
+            }
+        }
+
+        if (Array.isArray(schema.required)) {
+            for (const key of schema.required) {
+                if (typeof key === "string" && !Object.prototype.hasOwnProperty.call(value, key)) {
+                    fail("required", `missing required property ${key}`);
+                }
+            }
+        }
+
+        const dependentRequired: Record<string, unknown> = { ...(isRecord(schema.dependentRequired) ? schema.dependentRequired : {}) };
+        const dependentSchemas: Record<string, unknown> = { ...(isRecord(schema.dependentSchemas) ? schema.dependentSchemas : {}) };
+        const dependentSchemasKeyword: Record<string, string> = {};
+        if (isRecord(schema.dependencies)) {
+            for (const [key, dependency] of Object.entries(schema.dependencies)) {
+                if (Array.isArray(dependency)) {
+                    dependentRequired[key] = dependency;
+                } else {
+                    dependentSchemas[key] = dependency;
+                    dependentSchemasKeyword[key] = "dependencies";
+                }
+            }
+        }
+        for (const [key, required] of Object.entries(dependentRequired)) {
+            if (!Object.prototype.hasOwnProperty.call(value, key) || !Array.isArray(required)) continue;
+            for (const dependency of required) {
+                if (typeof dependency === "string" && !Object.prototype.hasOwnProperty.call(value, dependency)) {
+                    fail("dependentRequired", `property ${key} requires property ${dependency}`);
+                }
+            }
+        }
+        for (const [key, subschema] of Object.entries(dependentSchemas)) {
+            if (Object.prototype.hasOwnProperty.call(value, key) && isSchema(subschema)) {
+                merge(apply(subschema, value, [dependentSchemasKeyword[key] ?? "dependentSchemas", key]));
+            }
+        }
+
+        if (typeof schema.minProperties === "number" && keys.length < schema.minProperties) {
+            fail("minProperties", `object has fewer than ${schema.minProperties} properties`);
+        }
+        if (typeof schema.maxProperties === "number" && keys.length > schema.maxProperties) {
+            fail("maxProperties", `object has more than ${schema.maxProperties} properties`);
+        }
+    }
+
+    private _baseOf(schema: JsonSchema, uri: string): string {
+        if (isRecord(schema)) {
+            const base = this._bases.get(schema);
+            if (base !== undefined) {
+                return base;
+            }
+        }
+        return splitFragment(uri)[0];
+    }
+
+    /**
+     * Resolves $dynamicRef: when the statically resolved target declares a matching $dynamicAnchor, the
+     * outermost resource in the dynamic scope with that anchor wins.
+     */
+    private _resolveDynamic(reference: string, base: string, dynamicScope: string[]): { schema: JsonSchema; uri: string } | undefined {
+        const resolved = this._resolve(reference, base);
+        const [, anchor] = splitFragment(reference);
+        if (resolved === undefined || anchor === "" || anchor.startsWith("/")) {
+            return resolved;
+        }
+        if (!isRecord(resolved.schema) || resolved.schema["$dynamicAnchor"] !== anchor) {
+            return resolved;
+        }
+        for (const resource of dynamicScope) {
+            const schema = this._dynamicAnchors.get(resource)?.get(anchor);
+            if (schema !== undefined) {
+                return { schema, uri: `${resource}#${anchor}` };
+            }
+        }
+        return resolved;
+    }
+}
+
+const validators = new WeakMap<object, JsonSchemaValidator>();
+
+/**
+ * Validates a value with a validator cached per schema object, returning every error found.
+ */
+export function validateJsonSchema(schema: Record<string, any>, value: unknown): JsonSchemaError[] {
+    let validator = validators.get(schema);
+    if (validator === undefined) {
+        validator = new JsonSchemaValidator(schema);
+        validators.set(schema, validator);
+    }
+    return validator.validate(value);
+}
+
+/**
+ * Validates a value and returns the first error as "<JSON Pointer>: <message>", or undefined when it is valid.
+ */
+export function validateJsonSchemaValue(schema: Record<string, any>, value: unknown): string | undefined {
+    const [error] = validateJsonSchema(schema, value);
+    return error === undefined ? undefined : formatJsonSchemaError(error);
+}
@@ -1,3 +1,4 @@
+import type { RequestOptions } from "./request-options.js";
 import { EmptyContent, JsonContent } from "./response.js";
 import { RoomClient } from "./room-client.js";
 import { RoomServerException } from "./room-server-client.js";
@@ -560,11 +561,13 @@ export class MemoryClient {
     return unexpectedResponse(operation);
   }
 
-  private async invoke(operation: string, input: Record<string, unknown>): Promise<JsonContent | null> {
+  private async invoke(operation: string, input: Record<string, unknown>, options: RequestOptions = {}): Promise<JsonContent | null> {
     const response = await this.room.invokeContent({
       toolkit: "memory",
       tool: operation,
       input,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
     });
 
     if (response instanceof JsonContent) {
@@ -584,10 +587,10 @@ export class MemoryClient {
     return response;
   }
 
-  public async list(params?: { namespace?: string[] | null }): Promise<string[]> {
+  public async list(params?: { namespace?: string[] | null } & RequestOptions): Promise<string[]> {
     const response = this.expectJsonResponse(await this.invoke("list", {
       namespace: params?.namespace ?? null,
-    }), "list");
+    }, params ?? {}), "list");
 
     const memories = response.json["memories"];
     if (!Array.isArray(memories)) {
@@ -602,35 +605,35 @@ export class MemoryClient {
     namespace?: string[] | null;
     overwrite?: boolean;
     ignoreExists?: boolean;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.invoke("create", {
       name: params.name,
       namespace: params.namespace ?? null,
       overwrite: params.overwrite ?? false,
       ignore_exists: params.ignoreExists ?? false,
-    });
+    }, params);
   }
 
   public async drop(params: {
     name: string;
     namespace?: string[] | null;
     ignoreMissing?: boolean;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.invoke("drop", {
       name: params.name,
       namespace: params.namespace ?? null,
       ignore_missing: params.ignoreMissing ?? false,
-    });
+    }, params);
   }
 
   public async inspect(params: {
     name: string;
     namespace?: string[] | null;
-  }): Promise<MemoryDetails> {
+  } & RequestOptions): Promise<MemoryDetails> {
     const response = this.expectJsonResponse(await this.invoke("inspect", {
       name: params.name,
       namespace: params.namespace ?? null,
-    }), "inspect");
+    }, params), "inspect");
     return parseMemoryDetails(response.json, "inspect");
   }
 
@@ -638,12 +641,12 @@ export class MemoryClient {
     name: string;
     statement: string;
     namespace?: string[] | null;
-  }): Promise<Array<Record<string, unknown>>> {
+  } & RequestOptions): Promise<Array<Record<string, unknown>>> {
     const response = this.expectJsonResponse(await this.invoke("query", {
       name: params.name,
       namespace: params.namespace ?? null,
       statement: params.statement,
-    }), "query");
+    }, params), "query");
 
     const results = response.json["results"];
     if (Array.isArray(results)) {
@@ -664,14 +667,14 @@ export class MemoryClient {
     records: Array<Record<string, unknown>>;
     namespace?: string[] | null;
     merge?: boolean;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.invoke("upsert_table", {
       name: params.name,
       namespace: params.namespace ?? null,
       table: params.table,
       records_json: JSON.stringify(encodeMemoryRecordValue(params.records)),
       merge: params.merge ?? true,
-    });
+    }, params);
   }
 
   public async upsertNodes(params: {
@@ -679,13 +682,13 @@ export class MemoryClient {
     records: MemoryEntityRecord[];
     namespace?: string[] | null;
     merge?: boolean;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.invoke("upsert_nodes", {
       name: params.name,
       namespace: params.namespace ?? null,
       records_json: JSON.stringify(params.records.map((record) => memoryEntityRecordJson(record))),
       merge: params.merge ?? true,
-    });
+    }, params);
   }
 
   public async upsertRelationships(params: {
@@ -693,13 +696,13 @@ export class MemoryClient {
     records: MemoryRelationshipRecord[];
     namespace?: string[] | null;
     merge?: boolean;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     await this.invoke("upsert_relationships", {
       name: params.name,
       namespace: params.namespace ?? null,
       records_json: JSON.stringify(params.records.map((record) => memoryRelationshipRecordJson(record))),
       merge: params.merge ?? true,
-    });
+    }, params);
   }
 
   public async ingestText(params: {
@@ -709,7 +712,7 @@ export class MemoryClient {
     strategy?: MemoryIngestStrategy;
     llmModel?: string | null;
     llmTemperature?: number | null;
-  }): Promise<MemoryIngestResult> {
+  } & RequestOptions): Promise<MemoryIngestResult> {
     const response = this.expectJsonResponse(await this.invoke("ingest_text", {
       name: params.name,
       namespace: params.namespace ?? null,
@@ -717,7 +720,7 @@ export class MemoryClient {
       strategy: params.strategy ?? "heuristic",
       llm_model: params.llmModel ?? null,
       llm_temperature: params.llmTemperature ?? null,
-    }), "ingest_text");
+    }, params), "ingest_text");
     return parseMemoryIngestResult(response.json, "ingest_text");
   }
 
@@ -732,7 +735,7 @@ export class MemoryClient {
     strategy?: MemoryIngestStrategy;
     llmModel?: string | null;
     llmTemperature?: number | null;
-  }): Promise<MemoryIngestResult> {
+  } & RequestOptions): Promise<MemoryIngestResult> {
     const response = this.expectJsonResponse(await this.invoke("ingest_image", {
       name: params.name,
       namespace: params.namespace ?? null,
@@ -744,7 +747,7 @@ export class MemoryClient {
       strategy: params.strategy ?? "heuristic",
       llm_model: params.llmModel ?? null,
       llm_temperature: params.llmTemperature ?? null,
-    }), "ingest_image");
+    }, params), "ingest_image");
     return parseMemoryIngestResult(response.json, "ingest_image");
   }
 
@@ -757,7 +760,7 @@ export class MemoryClient {
     strategy?: MemoryIngestStrategy;
     llmModel?: string | null;
     llmTemperature?: number | null;
-  }): Promise<MemoryIngestResult> {
+  } & RequestOptions): Promise<MemoryIngestResult> {
     const response = this.expectJsonResponse(await this.invoke("ingest_file", {
       name: params.name,
       namespace: params.namespace ?? null,
@@ -767,7 +770,7 @@ export class MemoryClient {
       strategy: params.strategy ?? "heuristic",
       llm_model: params.llmModel ?? null,
       llm_temperature: params.llmTemperature ?? null,
-    }), "ingest_file");
+    }, params), "ingest_file");
     return parseMemoryIngestResult(response.json, "ingest_file");
   }
 
@@ -781,7 +784,7 @@ export class MemoryClient {
     strategy?: MemoryIngestStrategy;
     llmModel?: string | null;
     llmTemperature?: number | null;
-  }): Promise<MemoryIngestResult> {
+  } & RequestOptions): Promise<MemoryIngestResult> {
     const response = this.expectJsonResponse(await this.invoke("ingest_from_table", {
       name: params.name,
       namespace: params.namespace ?? null,
@@ -792,7 +795,7 @@ export class MemoryClient {
       strategy: params.strategy ?? "heuristic",
       llm_model: params.llmModel ?? null,
       llm_temperature: params.llmTemperature ?? null,
-    }), "ingest_from_table");
+    }, params), "ingest_from_table");
     return parseMemoryIngestResult(response.json, "ingest_from_table");
   }
 
@@ -803,7 +806,7 @@ export class MemoryClient {
     strategy?: MemoryIngestStrategy;
     llmModel?: string | null;
     llmTemperature?: number | null;
-  }): Promise<MemoryIngestResult> {
+  } & RequestOptions): Promise<MemoryIngestResult> {
     const response = this.expectJsonResponse(await this.invoke("ingest_from_storage", {
       name: params.name,
       namespace: params.namespace ?? null,
@@ -811,7 +814,7 @@ export class MemoryClient {
       strategy: params.strategy ?? "heuristic",
       llm_model: params.llmModel ?? null,
       llm_temperature: params.llmTemperature ?? null,
-    }), "ingest_from_storage");
+    }, params), "ingest_from_storage");
     return parseMemoryIngestResult(response.json, "ingest_from_storage");
   }
 
@@ -821,14 +824,14 @@ export class MemoryClient {
     namespace?: string[] | null;
     limit?: number;
     includeRelationships?: boolean;
-  }): Promise<MemoryRecallResult> {
+  } & RequestOptions): Promise<MemoryRecallResult> {
     const response = this.expectJsonResponse(await this.invoke("recall", {
       name: params.name,
       namespace: params.namespace ?? null,
       query: params.query,
       limit: params.limit ?? 5,
       include_relationships: params.includeRelationships ?? true,
-    }), "recall");
+    }, params), "recall");
     return parseMemoryRecallResult(response.json, "recall");
   }
 
@@ -836,12 +839,12 @@ export class MemoryClient {
     name: string;
     entityIds: string[];
     namespace?: string[] | null;
-  }): Promise<MemoryDeleteEntitiesResult> {
+  } & RequestOptions): Promise<MemoryDeleteEntitiesResult> {
     const response = this.expectJsonResponse(await this.invoke("delete_entities", {
       name: params.name,
       namespace: params.namespace ?? null,
       entity_ids: params.entityIds,
-    }), "delete_entities");
+    }, params), "delete_entities");
     return parseDeleteEntitiesResult(response.json, "delete_entities");
   }
 
@@ -849,12 +852,12 @@ export class MemoryClient {
     name: string;
     relationships: MemoryRelationshipSelector[];
     namespace?: string[] | null;
-  }): Promise<MemoryDeleteRelationshipsResult> {
+  } & RequestOptions): Promise<MemoryDeleteRelationshipsResult> {
     const response = this.expectJsonResponse(await this.invoke("delete_relationships", {
       name: params.name,
       namespace: params.namespace ?? null,
       relationships: params.relationships.map((relationship) => relationshipSelectorJson(relationship)),
-    }), "delete_relationships");
+    }, params), "delete_relationships");
     return parseDeleteRelationshipsResult(response.json, "delete_relationships");
   }
 
@@ -863,13 +866,13 @@ export class MemoryClient {
     namespace?: string[] | null;
     compact?: boolean;
     cleanup?: boolean;
-  }): Promise<MemoryOptimizeResult> {
+  } & RequestOptions): Promise<MemoryOptimizeResult> {
     const response = this.expectJsonResponse(await this.invoke("optimize", {
       name: params.name,
       namespace: params.namespace ?? null,
       compact: params.compact ?? true,
       cleanup: params.cleanup ?? true,
-    }), "optimize");
+    }, params), "optimize");
     return parseOptimizeResult(response.json, "optimize");
   }
 }
@@ -0,0 +1,596 @@
+// protocol-recording.ts
+
+import { Completer } from "./completer.js";
+import {
+  Protocol,
+  ProtocolReconnectUnsupportedException,
+  decompressProtocolMessage,
+  type ProtocolChannel,
+  type ProtocolFactory,
+} from "./protocol.js";
+import { decoder, encoder, mergeUint8Arrays, packMessage } from "./utils.js";
+
+// Matches the packet size Protocol sends with.
+const PACKET_SIZE = 1024;
+
+// Heartbeat and negotiation messages depend on timing and options rather than on what the client does, so
+// replays skip them.
+const CONTROL_MESSAGE_TYPES = new Set(["__ping__", "__pong__", "__compression__", "__interleave__"]);
+
+/**
+ * One message sent or received on a recorded channel.
+ */
+export interface ProtocolRecord {
+  /**
+   * Milliseconds since the channel started.
+   */
+  time: number;
+
+  /**
+   * "out" for messages the local side sent, "in" for messages it received.
+   */
+  direction: "in" | "out";
+  id: number;
+  type: string;
+
+  /**
+   * The JSON header of the message, or null when the message is not a packed message.
+   */
+  header: Record<string, unknown> | null;
+
+  /**
+   * The base64 encoded bytes after the header, or the whole message when there is no header.
+   */
+  payload: string;
+}
+
+/**
+ * Where a RecordingProtocolChannel writes its records.
+ */
+export interface ProtocolRecordSink {
+  write(record: ProtocolRecord): void;
+}
+
+export class MemoryProtocolRecordSink implements ProtocolRecordSink {
+  public readonly records: ProtocolRecord[] = [];
+
+  public write(record: ProtocolRecord): void {
+    this.records.push(record);
+  }
+}
+
+interface FileSystem {
+  appendFileSync(path: string, data: string, encoding: "utf8"): void;
+  readFileSync(path: string, encoding: "utf8"): string;
+}
+
+const globalScope = globalThis as typeof globalThis & {
+  process?: {
+    versions?: { node?: string };
+    getBuiltinModule?: (id: string) => unknown;
+  };
+  Buffer?: {
+    from(data: Uint8Array | string, encoding?: string): { toString(encoding: string): string };
+  };
+  btoa?: (data: string) => string;
+  atob?: (data: string) => string;
+};
+
+function fileSystem(): FileSystem | Promise<FileSystem> {
+  const fs = globalScope.process?.getBuiltinModule?.("fs") as FileSystem | undefined;
+  if (fs !== undefined) {
+    return fs;
+  }
+  if (globalScope.process?.versions?.node === undefined) {
+    throw new Error("protocol recording files require the Node.js file system");
+  }
+  // Node.js before 20.16 has no getBuiltinModule. The specifier is not a literal so browser bundlers leave it alone.
+  const specifier = "fs";
+  return import(specifier) as Promise<FileSystem>;
+}
+
+/**
+ * Appends records to a file, one JSON object per line.
+ */
+export class FileProtocolRecordSink implements ProtocolRecordSink {
+  public readonly path: string;
+
+  private _fs: FileSystem | null = null;
+  private _pending: string[] = [];
+
+  constructor({ path }: { path: string }) {
+    this.path = path;
+    const fs = fileSystem();
+    if (fs instanceof Promise) {
+      void fs.then((fs) => {
+        this._fs = fs;
+        fs.appendFileSync(this.path, this._pending.join(""), "utf8");
+        this._pending = [];
+      }).catch((error: unknown) => console.warn(`unable to write the protocol recording to ${path}`, error));
+    } else {
+      this._fs = fs;
+    }
+  }
+
+  public write(record: ProtocolRecord): void {
+    const line = `${JSON.stringify(record)}\n`;
+    if (this._fs === null) {
+      // Held until the file system has been imported.
+      this._pending.push(line);
+      return;
+    }
+    // Written synchronously so the recording is complete up to the moment a process crashes.
+    this._fs.appendFileSync(this.path, line, "utf8");
+  }
+}
+
+/**
+ * Parses the lines written by FileProtocolRecordSink.
+ */
+export function parseProtocolRecording(text: string): ProtocolRecord[] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => JSON.parse(line) as ProtocolRecord);
+}
+
+/**
+ * Reads a file written by FileProtocolRecordSink.
+ */
+export async function readProtocolRecording(path: string): Promise<ProtocolRecord[]> {
+  return parseProtocolRecording((await fileSystem()).readFileSync(path, "utf8"));
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  if (globalScope.Buffer) {
+    return globalScope.Buffer.from(bytes).toString("base64");
+  }
+
+  if (!globalScope.btoa) {
+    throw new Error("base64 encoding is not available in this runtime");
+  }
+
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return globalScope.btoa(binary);
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  if (globalScope.Buffer) {
+    return Uint8Array.from(globalScope.Buffer.from(base64, "base64") as unknown as ArrayLike<number>);
+  }
+
+  if (!globalScope.atob) {
+    throw new Error("base64 decoding is not available in this runtime");
+  }
+
+  const binary = globalScope.atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes;
+}
+
+/**
+ * Splits a packed message into its JSON header and the bytes after it. Returns a null header for anything else.
+ */
+function splitMessage(data: Uint8Array): { header: Record<string, unknown> | null; payload: Uint8Array } {
+  if (data.length >= 8) {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const size = view.getUint32(4, false) + view.getUint32(0, false) * 2 ** 32;
+    if (size <= data.length - 8) {
+      try {
+        const header: unknown = JSON.parse(decoder.decode(data.subarray(8, 8 + size)));
+        if (typeof header === "object" && header !== null && !Array.isArray(header)) {
+          return { header: header as Record<string, unknown>, payload: data.subarray(8 + size) };
+        }
+      } catch {
+        // Not a packed message.
+      }
+    }
+  }
+  return { header: null, payload: data };
+}
+
+/**
+ * Pairs the identifiers, such as tool_call_id, that differ between a recorded header and the header the client
+ * sent in its place.
+ */
+function collectIdentifiers(recorded: unknown, actual: unknown, identifiers: Map<string, string>): void {
+  if (typeof recorded !== "object" || recorded === null || typeof actual !== "object" || actual === null) {
+    return;
+  }
+  for (const [key, value] of Object.entries(recorded)) {
+    const actualValue = (actual as Record<string, unknown>)[key];
+    if (typeof value === "string" && typeof actualValue === "string") {
+      if (value !== actualValue && /(^|_)id$/i.test(key)) {
+        identifiers.set(value, actualValue);
+      }
+    } else {
+      collectIdentifiers(value, actualValue, identifiers);
+    }
+  }
+}
+
+/**
+ * Whether a sent header could stand in for a recorded one given the identifiers paired so far, so that a chunk of
+ * one tool call is not taken for the chunk of another.
+ */
+function identifiersAgree(recorded: unknown, actual: unknown, identifiers: Map<string, string>): boolean {
+  if (typeof recorded !== "object" || recorded === null || typeof actual !== "object" || actual === null) {
+    return true;
+  }
+  return Object.entries(recorded).every(([key, value]) => {
+    const actualValue = (actual as Record<string, unknown>)[key];
+    if (typeof value === "string" && typeof actualValue === "string") {
+      const paired = identifiers.get(value);
+      return !/(^|_)id$/i.test(key) || paired === undefined || paired === actualValue;
+    }
+    return identifiersAgree(value, actualValue, identifiers);
+  });
+}
+
+/**
+ * Describes a message by its type and, for tool calls, the tool it calls.
+ */
+function signature(type: string, header: Record<string, unknown> | null): string {
+  const toolkit = header?.["toolkit"];
+  const tool = header?.["tool"];
+  return typeof toolkit === "string" && typeof tool === "string" ? `${type} ${toolkit}.${tool}` : type;
+}
+
+function replaceIdentifiers(value: unknown, identifiers: Map<string, string>): unknown {
+  if (typeof value === "string") {
+    return identifiers.get(value) ?? value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => replaceIdentifiers(item, identifiers));
+  }
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replaceIdentifiers(item, identifiers)]));
+  }
+  return value;
+}
+
+function packetId(view: DataView): number {
+  return view.getUint32(4, false) + view.getUint32(0, false) * 2 ** 32;
+}
+
+interface AssembledMessage {
+  id: number;
+  type: string;
+  data: Uint8Array;
+}
+
+/**
+ * Rebuilds whole messages from the packets of one direction of a channel.
+ */
+class MessageAssembler {
+  private readonly _messages = new Map<number, { type: string; packets: number; parts: Uint8Array[] }>();
+
+  public add(packet: Uint8Array): AssembledMessage | null {
+    const view = new DataView(packet.buffer, packet.byteOffset, packet.byteLength);
+    const id = packetId(view);
+    if (view.getUint32(8, false) === 0) {
+      const type = decoder.decode(packet.subarray(16));
+      const packets = view.getUint32(12, false);
+      if (packets === 0) {
+        this._messages.delete(id);
+        return { id, type, data: new Uint8Array(0) };
+      }
+      this._messages.set(id, { type, packets, parts: [] });
+      return null;
+    }
+
+    const message = this._messages.get(id);
+    if (message === undefined) {
+      return null;
+    }
+    message.parts.push(packet.subarray(12));
+    if (message.parts.length < message.packets) {
+      return null;
+    }
+    this._messages.delete(id);
+    return { id, type: message.type, data: mergeUint8Arrays(...message.parts) };
+  }
+}
+
+function framePackets(id: number, type: string, data: Uint8Array): Uint8Array[] {
+  const packets = Math.ceil(data.length / PACKET_SIZE);
+  const header = new Uint8Array(16);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, Math.floor(id / 2 ** 32), false);
+  headerView.setUint32(4, id & 0xffffffff, false);
+  headerView.setUint32(8, 0, false);
+  headerView.setUint32(12, packets, false);
+
+  const framed = [mergeUint8Arrays(header, encoder.encode(type))];
+  for (let i = 0; i < packets; i++) {
+    const packetHeader = new Uint8Array(12);
+    const packetHeaderView = new DataView(packetHeader.buffer);
+    packetHeaderView.setUint32(0, Math.floor(id / 2 ** 32), false);
+    packetHeaderView.setUint32(4, id & 0xffffffff, false);
+    packetHeaderView.setUint32(8, i + 1, false);
+    framed.push(mergeUint8Arrays(packetHeader, data.subarray(i * PACKET_SIZE, (i + 1) * PACKET_SIZE)));
+  }
+  return framed;
+}
+
+/**
+ * Wraps another channel and records every message that passes through it. Compressed messages are recorded as
+ * they were before compression, so a recording does not depend on what the peers negotiated. Use it in a
+ * protocol factory to capture live room traffic, for example:
+ *
+ *   () => new Protocol({ channel: new RecordingProtocolChannel({ channel: new WebSocketProtocolChannel({ url, jwt }), sink }) })
+ */
+export class RecordingProtocolChannel implements ProtocolChannel {
+  public readonly channel: ProtocolChannel;
+  public readonly sink: ProtocolRecordSink;
+
+  private readonly _inbound = new MessageAssembler();
+  private readonly _outbound = new MessageAssembler();
+  private _startedAt = Date.now();
+  private _recording: Promise<void> | null = null;
+
+  constructor({ channel, sink }: { channel: ProtocolChannel; sink: ProtocolRecordSink }) {
+    this.channel = channel;
+    this.sink = sink;
+  }
+
+  public start(
+    onDataReceived: (data: Uint8Array) => void,
+    params: { onDone?: () => void; onError?: (error: unknown) => void },
+  ): void {
+    this._startedAt = Date.now();
+    this.channel.start((data) => {
+      this._record("in", this._inbound.add(data));
+      onDataReceived(data);
+    }, params);
+  }
+
+  public dispose(): void {
+    this.channel.dispose();
+  }
+
+  /**
+   * Resolves once every message that has passed through the channel so far has been written to the sink.
+   */
+  public get recorded(): Promise<void> {
+    return this._recording ?? Promise.resolve();
+  }
+
+  public async sendData(data: Uint8Array): Promise<void> {
+    // Recorded before sending so a reply can never be recorded ahead of the message it answers.
+    this._record("out", this._outbound.add(data));
+    await this.channel.sendData(data);
+  }
+
+  /**
+   * Records a message once it is decompressed. Messages that pass through while one is being decompressed wait
+   * for it, so records keep the order the messages passed in.
+   */
+  private _record(direction: "in" | "out", message: AssembledMessage | null): void {
+    if (message === null) {
+      return;
+    }
+    const time = Date.now() - this._startedAt;
+    const decompressed = decompressProtocolMessage(message.type, message.data);
+    if (decompressed === null && this._recording === null) {
+      this._write(direction, time, message);
+      return;
+    }
+
+    const ready: Promise<AssembledMessage> = decompressed === null
+      ? Promise.resolve(message)
+      : decompressed.then(({ type, data }) => ({ id: message.id, type, data }), (error: unknown) => {
+          console.warn(`recording protocol message ${message.id} compressed, it could not be decompressed`, error);
+          return message;
+        });
+    const recording = (this._recording ?? Promise.resolve()).then(async () => {
+      this._write(direction, time, await ready);
+    });
+    this._recording = recording;
+    void recording.then(() => {
+      if (this._recording === recording) {
+        this._recording = null;
+      }
+    });
+  }
+
+  private _write(direction: "in" | "out", time: number, message: AssembledMessage): void {
+    const { header, payload } = splitMessage(message.data);
+    try {
+      this.sink.write({
+        time,
+        direction,
+        id: message.id,
+        type: message.type,
+        header,
+        payload: bytesToBase64(payload),
+      });
+    } catch (error) {
+      console.warn("unable to record protocol message", error);
+    }
+  }
+}
+
+export interface ProtocolReplayMismatch {
+  /**
+   * The index of the recorded message the replay expected next.
+   */
+  index: number;
+
+  /**
+   * The type of the expected and the sent message, followed by the tool for tool calls.
+   */
+  expected: string;
+  actual: string;
+}
+
+class ReplayProtocolChannel implements ProtocolChannel {
+  private readonly _replay: ProtocolReplay;
+
+  constructor(replay: ProtocolReplay) {
+    this._replay = replay;
+  }
+
+  public start(onDataReceived: (data: Uint8Array) => void): void {
+    this._replay._start(onDataReceived);
+  }
+
+  public dispose(): void {
+    this._replay._stop();
+  }
+
+  public async sendData(data: Uint8Array): Promise<void> {
+    this._replay._receive(data);
+  }
+}
+
+/**
+ * Plays a recording back to a RoomClient in place of the room. Received messages are delivered in their recorded
+ * order, each once the client has sent the messages that preceded it in the recording, so a replay does not depend
+ * on timing. Responses are matched to the client's requests by their position in the recording, and identifiers
+ * the client generates, such as tool call ids, are replaced in the replayed headers.
+ *
+ * Messages the client sends that do not match the recording are collected in `mismatches`.
+ */
+export class ProtocolReplay {
+  public readonly records: ProtocolRecord[];
+  public readonly mismatches: ProtocolReplayMismatch[] = [];
+
+  private readonly _sent: AssembledMessage[] = [];
+  private readonly _assembler = new MessageAssembler();
+  private readonly _requestIds = new Map<number, number>();
+  private readonly _identifiers = new Map<string, string>();
+  private readonly _finished = new Completer<void>();
+  private _onDataReceived: ((data: Uint8Array) => void) | null = null;
+  private _position = 0;
+  private _used = false;
+
+  constructor({ records }: { records: ProtocolRecord[] }) {
+    this.records = records.filter((record) => !CONTROL_MESSAGE_TYPES.has(record.type));
+  }
+
+  /**
+   * Resolves once every recorded message has been replayed.
+   */
+  public get finished(): Promise<void> {
+    return this._finished.fut;
+  }
+
+  /**
+   * Creates the protocol for the replayed connection. A recording holds one connection, so reconnects fail.
+   */
+  public readonly protocolFactory: ProtocolFactory = () => {
+    if (this._used) {
+      throw new ProtocolReconnectUnsupportedException("a protocol replay can only be connected once");
+    }
+    this._used = true;
+    return new Protocol({ channel: new ReplayProtocolChannel(this) });
+  };
+
+  public _start(onDataReceived: (data: Uint8Array) => void): void {
+    this._onDataReceived = onDataReceived;
+    this._schedule();
+  }
+
+  public _stop(): void {
+    this._onDataReceived = null;
+  }
+
+  public _receive(packet: Uint8Array): void {
+    const message = this._assembler.add(packet);
+    if (message === null || CONTROL_MESSAGE_TYPES.has(message.type)) {
+      return;
+    }
+    this._sent.push(message);
+    this._schedule();
+  }
+
+  /**
+   * Takes the sent message that corresponds to a recorded one. Messages of different types may leave in a different
+   * order than they did while recording, so the first one with the same signature, and the same identifiers as
+   * paired so far, is taken. A message that matches no remaining recorded message is taken in its place and
+   * reported as a mismatch.
+   */
+  private _takeSent(record: ProtocolRecord): { id: number; header: Record<string, unknown> | null } | null {
+    const expected = signature(record.type, record.header);
+    const sent = this._sent.map((message) => {
+      const header = splitMessage(message.data).header;
+      return { id: message.id, header, signature: signature(message.type, header) };
+    });
+
+    let index = sent.findIndex((message) =>
+      message.signature === expected && identifiersAgree(record.header, message.header, this._identifiers));
+    if (index < 0) {
+      const remaining = new Set(this.records
+        .slice(this._position)
+        .filter((other) => other.direction === "out")
+        .map((other) => signature(other.type, other.header)));
+      index = sent.findIndex((message) => !remaining.has(message.signature));
+      if (index < 0) {
+        return null;
+      }
+      this.mismatches.push({ index: this._position, expected, actual: sent[index].signature });
+    }
+    this._sent.splice(index, 1);
+    return sent[index];
+  }
+
+  private _schedule(): void {
+    // Deliver outside of the client's send call so handlers never run inside it.
+    void Promise.resolve().then(() => this._advance());
+  }
+
+  private _advance(): void {
+    while (this._onDataReceived !== null && this._position < this.records.length) {
+      const record = this.records[this._position];
+      if (record.direction === "out") {
+        const sent = this._takeSent(record);
+        if (sent === null) {
+          return;
+        }
+        this._requestIds.set(record.id, sent.id);
+        collectIdentifiers(record.header, sent.header, this._identifiers);
+        this._position += 1;
+        continue;
+      }
+
+      const id = record.type === "__response__" ? this._requestIds.get(record.id) ?? record.id : record.id;
+      const payload = base64ToBytes(record.payload);
+      const data = record.header === null
+        ? payload
+        : packMessage(replaceIdentifiers(record.header, this._identifiers) as Record<string, unknown>, payload);
+      this._position += 1;
+      for (const packet of framePackets(id, record.type, data)) {
+        this._onDataReceived(packet);
+      }
+    }
+    if (this._position >= this.records.length && !this._finished.completed) {
+      this._finished.complete();
+    }
+  }
+}
+
+function preview(text: string, maxLength: number): string {
+  return text.length <= maxLength ? text : `${text.slice(0, maxLength - 1)}…`;
+}
+
+/**
+ * Formats a recording for reading, one line per message: the time in seconds, the direction ("->" for sent and
+ * "<-" for received), the message id and type, the JSON header and the size of the payload after it.
+ */
+export function formatProtocolRecording(records: ProtocolRecord[], { maxHeaderLength = 200 }: { maxHeaderLength?: number } = {}): string {
+  return records.map((record) => {
+    const time = (record.time / 1000).toFixed(3).padStart(9);
+    const arrow = record.direction === "out" ? "->" : "<-";
+    const id = `#${record.id}`.padEnd(7);
+    const header = record.header === null ? "" : ` ${preview(JSON.stringify(record.header), maxHeaderLength)}`;
+    const size = base64ToBytes(record.payload).length;
+    return `${time}s ${arrow} ${id} ${record.type}${header}${size > 0 ? ` +${size} bytes` : ""}`;
+  }).join("\n");
+}
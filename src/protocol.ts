@@ -1,21 +1,69 @@
-import type { ClientRequest, IncomingMessage } from "http";
+import type { ClientRequest, IncomingMessage, Server as HttpServer } from "http";
+import type { Duplex } from "stream";
 import WebSocket, { type MessageEvent } from "isomorphic-ws";
 
 import { Completer } from "./completer.js";
-import { decoder, encoder, mergeUint8Arrays, unpackMessage } from "./utils.js";
+import { decoder, encoder, mergeUint8Arrays, packMessage, unpackMessage } from "./utils.js";
+
+const PACKET_SIZE = 1024;
+
+// Advertises the compression algorithms a peer accepts; handled by Protocol itself.
+const COMPRESSION_MESSAGE_TYPE = "__compression__";
+
+// Advertises that a peer reassembles interleaved messages; handled by Protocol itself.
+const INTERLEAVE_MESSAGE_TYPE = "__interleave__";
+
+// Heartbeat probes; Protocol answers a ping with a pong that reuses its message id.
+const PING_MESSAGE_TYPE = "__ping__";
+const PONG_MESSAGE_TYPE = "__pong__";
+
+// Appended to the type of a message whose payload is deflate compressed.
+const COMPRESSED_TYPE_SUFFIX = ";deflate";
 
 class ProtocolMessage {
   public readonly id: number;
   public readonly type: string;
-  public readonly data: Uint8Array;
+  public readonly stream: string | null;
   public readonly sent: Completer<void>;
+  public data: Uint8Array;
+  public packets: number;
+  public compressed = false;
 
-  constructor({ id, type, data }: { id: number; type: string; data: Uint8Array }) {
+  // Settles once the payload is ready to send; null when it is ready.
+  public preparing: Promise<void> | null = null;
+
+  // The next packet to send; packet 0 is the header.
+  public nextPacket = 0;
+
+  constructor({ id, type, data, stream = null }: { id: number; type: string; data: Uint8Array; stream?: string | null }) {
     this.id = id;
     this.type = type;
+    this.stream = stream;
     this.data = data;
     this.sent = new Completer<void>();
+    this.packets = Math.ceil(data.length / PACKET_SIZE);
+  }
+
+  get complete(): boolean {
+    return this.nextPacket > this.packets;
   }
+
+  /**
+   * Replaces the payload with its compressed form. Only valid before the first packet is sent.
+   */
+  public setCompressed(data: Uint8Array): void {
+    this.data = data;
+    this.packets = Math.ceil(data.length / PACKET_SIZE);
+    this.compressed = true;
+  }
+}
+
+interface PartialMessage {
+  type: string;
+  packets: number;
+  nextPacket: number;
+  parts: Uint8Array[];
+  size: number;
 }
 
 export enum ProtocolCloseKind {
@@ -60,6 +108,41 @@ export class ProtocolHandshakeException extends Error {
   }
 }
 
+function compressionSupported(): boolean {
+  return typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined";
+}
+
+async function transformBytes(data: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const writer = transform.writable.getWriter();
+  const reader = transform.readable.getReader();
+  const chunks: Uint8Array[] = [];
+  const read = async (): Promise<void> => {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+      chunks.push(value);
+    }
+  };
+  await Promise.all([writer.write(data).then(() => writer.close()), read()]);
+  return mergeUint8Arrays(...chunks);
+}
+
+/**
+ * Undoes the compression Protocol applies to large messages on the wire, for tools that read raw packets. Returns
+ * null when the message is not compressed.
+ */
+export function decompressProtocolMessage(type: string, data: Uint8Array): Promise<{ type: string; data: Uint8Array }> | null {
+  if (!type.endsWith(COMPRESSED_TYPE_SUFFIX)) {
+    return null;
+  }
+  return transformBytes(data, new DecompressionStream("deflate")).then((decompressed) => ({
+    type: type.slice(0, -COMPRESSED_TYPE_SUFFIX.length),
+    data: decompressed,
+  }));
+}
+
 function isNodeRuntime(): boolean {
   return typeof process !== "undefined" && process.release?.name === "node";
 }
@@ -75,6 +158,34 @@ function resolveWebSocketUrl(url: string): URL {
   return resolved;
 }
 
+function receiveWebSocketData(data: unknown, onDataReceived: (data: Uint8Array) => void): void {
+  if (data instanceof Blob) {
+    void data.arrayBuffer().then((buffer) => {
+      onDataReceived(new Uint8Array(buffer));
+    });
+    return;
+  }
+
+  if (typeof data === "string") {
+    onDataReceived(encoder.encode(data));
+    return;
+  }
+
+  if (data instanceof ArrayBuffer) {
+    onDataReceived(new Uint8Array(data));
+    return;
+  }
+
+  if (data instanceof Uint8Array) {
+    onDataReceived(data);
+    return;
+  }
+
+  if (ArrayBuffer.isView(data)) {
+    onDataReceived(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+  }
+}
+
 export interface ProtocolChannel {
   start(
     onDataReceived: (data: Uint8Array) => void,
@@ -224,37 +335,114 @@ export class WebSocketProtocolChannel implements ProtocolChannel {
   };
 
   private _onMessage = (event: MessageEvent): void => {
-    const data = event.data;
+    receiveWebSocketData(event.data, (data) => this._onDataReceived?.(data));
+  };
 
-    if (data instanceof Blob) {
-      void data.arrayBuffer().then((buffer) => {
-        this._onDataReceived?.(new Uint8Array(buffer));
-      });
+  private _onClose = (event: { code: number; reason: string | Buffer }): void => {
+    if (event.code === 1000) {
+      this._finish("done");
       return;
     }
 
-    if (typeof data === "string") {
-      this._onDataReceived?.(encoder.encode(data));
+    const reason = typeof event.reason === "string" ? event.reason : event.reason.toString();
+    this._finish("error", new ProtocolCloseException({ closeCode: event.code, reason }));
+  };
+
+  private _onError = (event: unknown): void => {
+    this._finish("error", event instanceof Error ? event : new Error("websocket error"));
+  };
+
+  public dispose(): void {
+    const socket = this.webSocket;
+    this.webSocket = null;
+    this._onDataReceived = undefined;
+    if (socket == null) {
       return;
     }
 
-    if (data instanceof ArrayBuffer) {
-      this._onDataReceived?.(new Uint8Array(data));
-      return;
+    socket.removeEventListener("open", this._onOpen);
+    socket.removeEventListener("message", this._onMessage);
+    socket.removeEventListener("close", this._onClose);
+    socket.removeEventListener("error", this._onError);
+    if (isNodeRuntime()) {
+      socket.off("unexpected-response", this._onUnexpectedResponse);
+    }
+    if (socket.readyState === WebSocket.CONNECTING) {
+      // Closing aborts the handshake, which reports an error that nothing listens for anymore.
+      socket.addEventListener("error", () => {});
     }
 
-    if (data instanceof Uint8Array) {
-      this._onDataReceived?.(data);
-      return;
+    if (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN) {
+      socket.close(1000);
+    }
+  }
+
+  public async sendData(data: Uint8Array): Promise<void> {
+    await this._opened.fut;
+    const socket = this.webSocket;
+    if (socket == null) {
+      throw new Error("websocket is closed");
+    }
+    socket.send(data);
+  }
+}
+
+/**
+ * The server side of a websocket that a client connected to, such as one accepted by WebSocketProtocolServer.
+ * It carries the same packets as WebSocketProtocolChannel.
+ */
+export class WebSocketServerProtocolChannel implements ProtocolChannel {
+  public webSocket: WebSocket | null;
+
+  private _finished = false;
+  private _onDataReceived?: (data: Uint8Array) => void;
+  private _doneHandler?: () => void;
+  private _errorHandler?: (error: unknown) => void;
+
+  constructor({ webSocket }: { webSocket: WebSocket }) {
+    this.webSocket = webSocket;
+  }
+
+  public start(
+    onDataReceived: (data: Uint8Array) => void,
+    { onDone, onError }: { onDone?: () => void; onError?: (error: unknown) => void },
+  ): void {
+    const socket = this.webSocket;
+    if (socket == null) {
+      throw new Error("websocket is closed");
+    }
+
+    this._finished = false;
+    this._onDataReceived = onDataReceived;
+    this._doneHandler = onDone;
+    this._errorHandler = onError;
+
+    socket.addEventListener("message", this._onMessage);
+    socket.addEventListener("close", this._onClose);
+    socket.addEventListener("error", this._onError);
+    if (socket.readyState !== WebSocket.OPEN) {
+      this._finish("done");
     }
+  }
 
-    if (ArrayBuffer.isView(data)) {
-      this._onDataReceived?.(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+  private _finish(kind: "done" | "error", error?: unknown): void {
+    if (this._finished) {
+      return;
     }
+    this._finished = true;
+    if (kind === "done") {
+      this._doneHandler?.();
+      return;
+    }
+    this._errorHandler?.(error);
+  }
+
+  private _onMessage = (event: MessageEvent): void => {
+    receiveWebSocketData(event.data, (data) => this._onDataReceived?.(data));
   };
 
   private _onClose = (event: { code: number; reason: string | Buffer }): void => {
-    if (event.code === 1000) {
+    if (event.code === 1000 || event.code === 1005) {
       this._finish("done");
       return;
     }
@@ -275,13 +463,9 @@ export class WebSocketProtocolChannel implements ProtocolChannel {
       return;
     }
 
-    socket.removeEventListener("open", this._onOpen);
     socket.removeEventListener("message", this._onMessage);
     socket.removeEventListener("close", this._onClose);
     socket.removeEventListener("error", this._onError);
-    if (isNodeRuntime()) {
-      socket.off("unexpected-response", this._onUnexpectedResponse);
-    }
 
     if (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN) {
       socket.close(1000);
@@ -289,12 +473,14 @@ export class WebSocketProtocolChannel implements ProtocolChannel {
   }
 
   public async sendData(data: Uint8Array): Promise<void> {
-    await this._opened.fut;
     const socket = this.webSocket;
-    if (socket == null) {
+    if (socket == null || socket.readyState !== WebSocket.OPEN) {
       throw new Error("websocket is closed");
     }
-    socket.send(data);
+    // Waiting until the data is written keeps a fast sender from buffering without bound.
+    await new Promise<void>((resolve, reject) => {
+      socket.send(data, (error?: Error) => (error == null ? resolve() : reject(error)));
+    });
   }
 }
 
@@ -317,6 +503,24 @@ export class ProtocolMessageStream<T> {
     }
   }
 
+  /**
+   * Removes and returns the queued messages without waiting.
+   */
+  public takeAll(): T[] {
+    return this._messages.splice(0);
+  }
+
+  /**
+   * Waits until a message is queued. Returns false once the stream is closed.
+   */
+  public async waitForMessage(): Promise<boolean> {
+    while (this._messages.length === 0 && !this._closed) {
+      await this._messageAdded.fut;
+      this._messageAdded = new Completer<void>();
+    }
+    return !this._closed;
+  }
+
   public async *stream(): AsyncGenerator<T, void, void> {
     while (!this._closed) {
       await this._messageAdded.fut;
@@ -341,6 +545,44 @@ export type MessageHandler = (
 
 export type ProtocolFactory = () => Protocol;
 
+export interface ProtocolOptions {
+  /**
+   * How many messages may be reassembled at once. When another message starts, the oldest incomplete one is
+   * dropped. Defaults to 256.
+   */
+  maxPendingMessages?: number;
+
+  /**
+   * How many bytes of incomplete messages may be buffered at once. A message that would exceed it is dropped.
+   * Defaults to 512 MiB.
+   */
+  maxBufferedBytes?: number;
+
+  /**
+   * Compresses large messages when the peer supports it. Pass true for the defaults.
+   */
+  compression?: boolean | ProtocolCompressionOptions;
+
+  /**
+   * Interleaves the packets of queued messages once the peer advertises that it reassembles interleaved
+   * messages, so a large transfer does not hold up other traffic. Until then, and for peers that never
+   * advertise it, messages are sent one after another. Defaults to false.
+   */
+  interleave?: boolean;
+}
+
+export interface ProtocolCompressionOptions {
+  /**
+   * Messages whose payload is smaller than this many bytes are sent as they are. Defaults to 16 KiB.
+   */
+  threshold?: number;
+
+  /**
+   * The message types that may be compressed. Defaults to every type.
+   */
+  types?: string[];
+}
+
 export class Protocol<T extends ProtocolChannel = ProtocolChannel> {
   public readonly channel: T;
   public readonly handlers: Record<string, MessageHandler> = {};
@@ -356,15 +598,37 @@ export class Protocol<T extends ProtocolChannel = ProtocolChannel> {
   private _closeKind: ProtocolCloseKind | null = null;
   private _closeReason: string | null = null;
 
-  private _recvPacketId = 0;
-  private _recvState = "ready";
-  private _recvPacketTotal = 0;
-  private _recvMessageId = -1;
-  private _recvType = "";
-  private _recvPackets: Uint8Array[] = [];
+  private readonly _maxPendingMessages: number;
+  private readonly _maxBufferedBytes: number;
+  private readonly _recvMessages = new Map<number, PartialMessage>();
+  private _recvBufferedBytes = 0;
 
-  constructor({ channel }: { channel: T }) {
+  private readonly _compression: Required<ProtocolCompressionOptions> | null;
+  private _peerCompression = false;
+  private readonly _interleave: boolean;
+  private _peerInterleave = false;
+  private _inbound: Promise<void> | null = null;
+
+  private readonly _pings = new Map<number, { sentAt: number; completer: Completer<number> }>();
+  private _bytesSent = 0;
+  private _bytesReceived = 0;
+
+  constructor({
+    channel,
+    maxPendingMessages = 256,
+    maxBufferedBytes = 512 * 1024 * 1024,
+    compression = false,
+    interleave = false,
+  }: { channel: T } & ProtocolOptions) {
     this.channel = channel;
+    this._interleave = interleave;
+    this._maxPendingMessages = maxPendingMessages;
+    this._maxBufferedBytes = maxBufferedBytes;
+    this._compression = compression === false || !compressionSupported() ? null : {
+      threshold: 16 * 1024,
+      types: [],
+      ...(compression === true ? {} : compression),
+    };
   }
 
   public get url(): string | null {
@@ -395,6 +659,35 @@ export class Protocol<T extends ProtocolChannel = ProtocolChannel> {
     return this._done.fut;
   }
 
+  /**
+   * The number of bytes written to the channel, including packet headers.
+   */
+  public get bytesSent(): number {
+    return this._bytesSent;
+  }
+
+  /**
+   * The number of bytes read from the channel, including packet headers.
+   */
+  public get bytesReceived(): number {
+    return this._bytesReceived;
+  }
+
+  /**
+   * Whether large messages are being compressed, which requires compression to be enabled on both peers.
+   * Until the peer advertises support, every message is sent uncompressed.
+   */
+  public get compressing(): boolean {
+    return this._compression !== null && this._peerCompression;
+  }
+
+  /**
+   * Whether queued messages are being interleaved, which requires interleaving to be enabled on both peers.
+   */
+  public get interleaving(): boolean {
+    return this._interleave && this._peerInterleave;
+  }
+
   public async waitForClose(): Promise<void> {
     await this.done;
   }
@@ -472,30 +765,55 @@ export class Protocol<T extends ProtocolChannel = ProtocolChannel> {
     return this._id++;
   }
 
-  public sendNowait(type: string, data: Uint8Array, { id }: { id?: number } = {}): number {
+  /**
+   * Queues a message without waiting for it to be sent. Messages that share a `stream` key, or an id, reach
+   * the peer in the order they were queued; other messages may overtake each other while interleaving.
+   */
+  public sendNowait(type: string, data: Uint8Array, { id, stream }: { id?: number; stream?: string } = {}): number {
     if (this._sendError != null) {
       throw this._sendError;
     }
     if (this._closed) {
       throw new Error("protocol is closed");
     }
-    const message = new ProtocolMessage({ id: id ?? this.getNextMessageId(), type, data });
-    this._send.add(message);
+    const message = new ProtocolMessage({ id: id ?? this.getNextMessageId(), type, data, stream });
+    this._enqueue(message);
     return message.id;
   }
 
-  public async send(type: string, data: Uint8Array, id?: number): Promise<void> {
-    const message = new ProtocolMessage({ id: id ?? this.getNextMessageId(), type, data });
+  public async send(type: string, data: Uint8Array, id?: number, { stream }: { stream?: string } = {}): Promise<void> {
+    const message = new ProtocolMessage({ id: id ?? this.getNextMessageId(), type, data, stream });
     if (this._sendError != null) {
       throw this._sendError;
     }
     if (this._closed) {
       throw new Error("protocol is closed");
     }
-    this._send.add(message);
+    this._enqueue(message);
     await message.sent.fut;
   }
 
+  /**
+   * Measures the round trip time to the peer in milliseconds. Rejects when the peer does not answer within
+   * `timeoutMs`, 30 seconds by default, or the protocol closes first. Peers built on Protocol answer pings
+   * themselves; other peers may never answer.
+   */
+  public async ping({ timeoutMs = 30000 }: { timeoutMs?: number } = {}): Promise<number> {
+    const id = this.sendNowait(PING_MESSAGE_TYPE, new Uint8Array(0));
+    const completer = new Completer<number>();
+    this._pings.set(id, { sentAt: Date.now(), completer });
+
+    const timer = setTimeout(() => {
+      this._pings.delete(id);
+      completer.completeError(new Error(`ping timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+    try {
+      return await completer.fut;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   public async sendJson(object: unknown): Promise<void> {
     await this.send("application/json", encoder.encode(JSON.stringify(object)));
   }
@@ -538,6 +856,26 @@ export class Protocol<T extends ProtocolChannel = ProtocolChannel> {
       },
     });
     this._sendLoop = this._runSendLoop(onError);
+    if (this._compression !== null) {
+      this.sendNowait(COMPRESSION_MESSAGE_TYPE, packMessage({ algorithms: ["deflate"] }));
+    }
+    if (this._interleave) {
+      this.sendNowait(INTERLEAVE_MESSAGE_TYPE, new Uint8Array(0));
+    }
+  }
+
+  /**
+   * Closes the protocol as if the connection had failed, for example when the peer stopped answering pings on
+   * a connection that never reported being closed.
+   */
+  public abort(reason: string): void {
+    const error = new Error(reason);
+    this._setCloseState({ kind: ProtocolCloseKind.ERROR, reason });
+    this._shutdown();
+    this.channel.dispose();
+    if (!this._done.completed) {
+      this._done.complete(error);
+    }
   }
 
   public close(): void {
@@ -560,48 +898,80 @@ export class Protocol<T extends ProtocolChannel = ProtocolChannel> {
     this._closed = true;
     this._open = false;
     this._send.close();
+
+    const error = new Error("protocol is closed");
+    for (const { completer } of this._pings.values()) {
+      completer.completeError(error);
+    }
+    this._pings.clear();
   }
 
+  /**
+   * Sends queued messages a packet at a time. Until both peers interleave, each message is sent whole before
+   * the next one starts, which is all a peer that reassembles one message at a time can read. Once they do,
+   * messages are interleaved so that a large transfer does not hold up other traffic, and a new message gets
+   * its first packets out before transfers already in progress continue, so messages that fit in one packet go
+   * out right away. A message still waits for earlier messages with the same stream key, which keeps them in
+   * order, or with the same id, which the receiver could not tell apart.
+   */
   private async _runSendLoop(onError?: (error: unknown) => void): Promise<void> {
-    for await (const message of this._send.stream()) {
-      try {
-        const packets = Math.ceil(message.data.length / 1024);
-
-        const header = new Uint8Array(16);
-        const headerView = new DataView(header.buffer);
-        headerView.setUint32(0, Math.floor(message.id / 2 ** 32), false);
-        headerView.setUint32(4, message.id & 0xffffffff, false);
-        headerView.setUint32(8, 0, false);
-        headerView.setUint32(12, packets, false);
-
-        await this.channel.sendData(mergeUint8Arrays(header, encoder.encode(message.type)));
-
-        for (let i = 0; i < packets; i += 1) {
-          const packetHeader = new Uint8Array(12);
-          const packetHeaderView = new DataView(packetHeader.buffer);
-          packetHeaderView.setUint32(0, Math.floor(message.id / 2 ** 32), false);
-          packetHeaderView.setUint32(4, message.id & 0xffffffff, false);
-          packetHeaderView.setUint32(8, i + 1, false);
-
-          await this.channel.sendData(
-            mergeUint8Arrays(
-              packetHeader,
-              message.data.subarray(i * 1024, Math.min((i + 1) * 1024, message.data.length)),
-            ),
-          );
-        }
+    const active: ProtocolMessage[] = [];
+    const waiting: ProtocolMessage[] = [];
+    let changed = false;
 
-        if (!message.sent.completed) {
-          message.sent.complete();
+    const admit = (): ProtocolMessage[] => {
+      if (!this.interleaving) {
+        return active.length === 0 ? waiting.splice(0, 1) : [];
+      }
+      const ids = new Set(active.map((message) => message.id));
+      const streams = new Set(active.map((message) => message.stream));
+      const admitted: ProtocolMessage[] = [];
+      const blocked: ProtocolMessage[] = [];
+      for (const message of waiting) {
+        const conflicts = ids.has(message.id) || (message.stream !== null && streams.has(message.stream));
+        (conflicts ? blocked : admitted).push(message);
+        ids.add(message.id);
+        streams.add(message.stream);
+      }
+      waiting.splice(0, waiting.length, ...blocked);
+      return admitted;
+    };
+
+    while (true) {
+      for (const message of this._send.takeAll()) {
+        waiting.push(message);
+        changed = true;
+      }
+      if (changed) {
+        active.unshift(...admit());
+        changed = false;
+      }
+      // Messages still being compressed are passed over until they are ready.
+      const index = active.findIndex((message) => message.preparing === null);
+      if (index < 0) {
+        const preparing = active.map((message) => message.preparing!.then(() => true));
+        if (!(await Promise.race([this._send.waitForMessage(), ...preparing]))) {
+          return;
         }
+        continue;
+      }
+      const [message] = active.splice(index, 1);
+      if (this._closed) {
+        return;
+      }
+
+      try {
+        await this._sendPackets(message);
       } catch (error) {
         this._sendError = error;
         this._setCloseState({
           kind: ProtocolCloseKind.ERROR,
           reason: error instanceof Error ? error.message : String(error),
         });
-        if (!message.sent.completed) {
-          message.sent.completeError(error);
+        for (const pending of [message, ...active, ...waiting]) {
+          if (!pending.sent.completed) {
+            pending.sent.completeError(error);
+          }
         }
         this._shutdown();
         if (!this._done.completed) {
@@ -610,76 +980,151 @@ export class Protocol<T extends ProtocolChannel = ProtocolChannel> {
         onError?.(error);
         return;
       }
+
+      if (!message.complete) {
+        active.push(message);
+        continue;
+      }
+      changed = true;
+      if (!message.sent.completed) {
+        message.sent.complete();
+      }
+    }
+  }
+
+  /**
+   * Queues a message, compressing it first when it qualifies. Compression runs alongside the send loop, which
+   * keeps sending other messages in the meantime.
+   */
+  private _enqueue(message: ProtocolMessage): void {
+    const options = this._compression;
+    if (
+      options !== null &&
+      this._peerCompression &&
+      message.data.length >= options.threshold &&
+      message.type !== COMPRESSION_MESSAGE_TYPE &&
+      (options.types.length === 0 || options.types.includes(message.type))
+    ) {
+      message.preparing = transformBytes(message.data, new CompressionStream("deflate")).then((compressed) => {
+        if (compressed.length < message.data.length) {
+          message.setCompressed(compressed);
+        }
+      }, (error: unknown) => {
+        console.warn(`sending protocol message ${message.id} uncompressed`, error);
+      }).finally(() => {
+        message.preparing = null;
+      });
+    }
+    this._send.add(message);
+  }
+
+  /**
+   * Sends the next packet of a message, together with its header when the message has not started yet.
+   */
+  private async _sendPackets(message: ProtocolMessage): Promise<void> {
+    if (message.nextPacket === 0) {
+      const header = new Uint8Array(16);
+      const headerView = new DataView(header.buffer);
+      headerView.setUint32(0, Math.floor(message.id / 2 ** 32), false);
+      headerView.setUint32(4, message.id & 0xffffffff, false);
+      headerView.setUint32(8, 0, false);
+      headerView.setUint32(12, message.packets, false);
+
+      const type = message.compressed ? message.type + COMPRESSED_TYPE_SUFFIX : message.type;
+      const headerPacket = mergeUint8Arrays(header, encoder.encode(type));
+      await this.channel.sendData(headerPacket);
+      this._bytesSent += headerPacket.length;
+      message.nextPacket = 1;
     }
+    if (message.complete) {
+      return;
+    }
+
+    const i = message.nextPacket - 1;
+    const packetHeader = new Uint8Array(12);
+    const packetHeaderView = new DataView(packetHeader.buffer);
+    packetHeaderView.setUint32(0, Math.floor(message.id / 2 ** 32), false);
+    packetHeaderView.setUint32(4, message.id & 0xffffffff, false);
+    packetHeaderView.setUint32(8, message.nextPacket, false);
+
+    const dataPacket = mergeUint8Arrays(
+      packetHeader,
+      message.data.subarray(i * PACKET_SIZE, Math.min((i + 1) * PACKET_SIZE, message.data.length)),
+    );
+    await this.channel.sendData(dataPacket);
+    this._bytesSent += dataPacket.length;
+    message.nextPacket += 1;
   }
 
+  /**
+   * Reassembles messages from their packets. Packets of different messages may interleave; each message is
+   * tracked by its id. A message whose packets arrive out of order, or that does not fit in the receive
+   * buffers, is dropped without affecting the others.
+   */
   public onDataReceived(dataPacket: Uint8Array): void {
+    this._bytesReceived += dataPacket.length;
     const dataView = new DataView(dataPacket.buffer, dataPacket.byteOffset, dataPacket.byteLength);
     const messageId = dataView.getUint32(4, false) + dataView.getUint32(0, false) * 2 ** 32;
     const packet = dataView.getUint32(8, false);
 
-    if (packet !== this._recvPacketId) {
-      this._recvState = "error";
-    }
-
     if (packet === 0) {
-      if (this._recvState === "ready" || this._recvState === "error") {
-        this._recvPacketTotal = dataView.getUint32(12, false);
-        this._recvMessageId = messageId;
-        this._recvType = decoder.decode(dataPacket.subarray(16));
-
-        if (this._recvPacketTotal === 0) {
-          try {
-            const merged = mergeUint8Arrays(...this._recvPackets);
-            this._recvPackets.length = 0;
-            this._dispatchMessage({ messageId, type: this._recvType, data: merged });
-          } finally {
-            this._recvState = "ready";
-            this._recvPacketId = 0;
-            this._recvType = "";
-            this._recvMessageId = -1;
-          }
-        } else {
-          this._recvPacketId += 1;
-          this._recvState = "processing";
-        }
-      } else {
-        this._recvState = "error";
-        this._recvPacketId = 0;
+      this._dropIncoming(messageId);
+      const packets = dataView.getUint32(12, false);
+      const type = decoder.decode(dataPacket.subarray(16));
+      if (packets === 0) {
+        this._dispatchMessage({ messageId, type, data: new Uint8Array(0) });
+        return;
       }
+      if (this._recvMessages.size >= this._maxPendingMessages) {
+        const oldest = this._recvMessages.keys().next().value!;
+        console.warn(`dropping incomplete protocol message ${oldest}, too many messages in progress`);
+        this._dropIncoming(oldest);
+      }
+      this._recvMessages.set(messageId, { type, packets, nextPacket: 1, parts: [], size: 0 });
       return;
     }
 
-    if (this._recvState !== "processing") {
-      this._recvState = "error";
-      this._recvPacketId = 0;
+    const message = this._recvMessages.get(messageId);
+    if (message === undefined) {
       return;
     }
-
-    if (messageId !== this._recvMessageId) {
-      this._recvState = "error";
-      this._recvPacketId = 0;
+    if (packet !== message.nextPacket) {
+      console.warn(`dropping protocol message ${messageId}, expected packet ${message.nextPacket} but received ${packet}`);
+      this._dropIncoming(messageId);
+      return;
     }
 
-    this._recvPackets.push(dataPacket.subarray(12));
+    const part = dataPacket.subarray(12);
+    if (this._recvBufferedBytes + part.length > this._maxBufferedBytes) {
+      console.warn(`dropping protocol message ${messageId}, it does not fit in the receive buffer`);
+      this._dropIncoming(messageId);
+      return;
+    }
+    message.parts.push(part);
+    message.size += part.length;
+    this._recvBufferedBytes += part.length;
 
-    if (this._recvPacketTotal === this._recvPacketId) {
-      try {
-        const merged = mergeUint8Arrays(...this._recvPackets);
-        this._recvPackets.length = 0;
-        this._dispatchMessage({ messageId, type: this._recvType, data: merged });
-      } finally {
-        this._recvState = "ready";
-        this._recvPacketId = 0;
-        this._recvType = "";
-        this._recvMessageId = -1;
-      }
+    if (message.nextPacket < message.packets) {
+      message.nextPacket += 1;
       return;
     }
 
-    this._recvPacketId += 1;
+    this._dropIncoming(messageId);
+    this._dispatchMessage({ messageId, type: message.type, data: mergeUint8Arrays(...message.parts) });
   }
 
+  private _dropIncoming(messageId: number): void {
+    const message = this._recvMessages.get(messageId);
+    if (message !== undefined) {
+      this._recvMessages.delete(messageId);
+      this._recvBufferedBytes -= message.size;
+    }
+  }
+
+  /**
+   * Passes a complete message to its handler. Compressed messages are decompressed first; messages that
+   * arrive while one is being decompressed wait for it, so handlers see messages in the order they arrived.
+   */
   private _dispatchMessage({
     messageId,
     type,
@@ -689,6 +1134,64 @@ export class Protocol<T extends ProtocolChannel = ProtocolChannel> {
     type: string;
     data: Uint8Array;
   }): void {
+    if (type === COMPRESSION_MESSAGE_TYPE) {
+      // A handshake that cannot be read is treated as no compression support.
+      try {
+        const algorithms = unpackMessage(data)[0]["algorithms"];
+        this._peerCompression = Array.isArray(algorithms) && algorithms.includes("deflate");
+      } catch (error) {
+        console.warn("ignoring malformed protocol compression handshake", error);
+        this._peerCompression = false;
+      }
+      return;
+    }
+    if (type === INTERLEAVE_MESSAGE_TYPE) {
+      this._peerInterleave = true;
+      return;
+    }
+    if (type === PING_MESSAGE_TYPE) {
+      if (!this._closed) {
+        this.sendNowait(PONG_MESSAGE_TYPE, new Uint8Array(0), { id: messageId });
+      }
+      return;
+    }
+    if (type === PONG_MESSAGE_TYPE) {
+      const ping = this._pings.get(messageId);
+      if (ping !== undefined) {
+        this._pings.delete(messageId);
+        ping.completer.complete(Date.now() - ping.sentAt);
+      }
+      return;
+    }
+
+    const compressed = type.endsWith(COMPRESSED_TYPE_SUFFIX);
+    if (!compressed && this._inbound === null) {
+      this._deliverMessage(messageId, type, data);
+      return;
+    }
+
+    const decoded = compressed
+      ? transformBytes(data, new DecompressionStream("deflate")).catch((error: unknown) => {
+          console.warn(`dropping protocol message ${messageId}, it could not be decompressed`, error);
+          return null;
+        })
+      : Promise.resolve(data);
+    const messageType = compressed ? type.slice(0, -COMPRESSED_TYPE_SUFFIX.length) : type;
+    const inbound = (this._inbound ?? Promise.resolve()).then(async () => {
+      const payload = await decoded;
+      if (payload !== null) {
+        this._deliverMessage(messageId, messageType, payload);
+      }
+    });
+    this._inbound = inbound;
+    void inbound.then(() => {
+      if (this._inbound === inbound) {
+        this._inbound = null;
+      }
+    });
+  }
+
+  private _deliverMessage(messageId: number, type: string, data: Uint8Array): void {
     void this.handleMessage(messageId, type, data).catch((error: unknown) => {
       console.error("unhandled protocol message handler error", error);
     });
@@ -699,9 +1202,10 @@ export class WebSocketClientProtocol extends Protocol<WebSocketProtocolChannel>
   private readonly _url: string;
   private readonly _token: string | null;
 
-  constructor({ url, token }: { url: string; token: string | null }) {
+  constructor({ url, token, ...options }: { url: string; token: string | null } & ProtocolOptions) {
     super({
       channel: new WebSocketProtocolChannel({ url, jwt: token }),
+      ...options,
     });
     this._url = url;
     this._token = token;
@@ -719,3 +1223,163 @@ export class WebSocketClientProtocol extends Protocol<WebSocketProtocolChannel>
     return this._token;
   }
 }
+
+function requestToken(request: IncomingMessage): string | null {
+  const authorization = request.headers.authorization;
+  if (authorization != null && authorization.startsWith("Bearer ")) {
+    return authorization.slice("Bearer ".length).trim();
+  }
+
+  // Browsers cannot set headers on websockets, so WebSocketProtocolChannel sends the token as a subprotocol.
+  const subprotocols = request.headers["sec-websocket-protocol"];
+  for (const subprotocol of (subprotocols ?? "").split(",")) {
+    const value = subprotocol.trim();
+    if (value.startsWith("meshagent-room.")) {
+      return value.slice("meshagent-room.".length);
+    }
+  }
+  return null;
+}
+
+/**
+ * The server side of a connection from a RoomClient. It speaks the same packets as WebSocketClientProtocol,
+ * so a server adds handlers for the messages it serves and replies to requests with `__response__` messages
+ * that reuse the request's message id.
+ */
+export class WebSocketServerProtocol extends Protocol<WebSocketServerProtocolChannel> {
+  public readonly request: IncomingMessage | null;
+
+  private readonly _token: string | null;
+
+  constructor({ webSocket, request = null, ...options }: {
+    webSocket: WebSocket;
+    request?: IncomingMessage | null;
+  } & ProtocolOptions) {
+    super({ channel: new WebSocketServerProtocolChannel({ webSocket }), ...options });
+    this.request = request;
+    this._token = request == null ? null : requestToken(request);
+  }
+
+  public override get url(): string | null {
+    return this.request?.url ?? null;
+  }
+
+  /**
+   * The token the client connected with, from its Authorization header or its `meshagent-room.` subprotocol.
+   */
+  public override get token(): string | null {
+    return this._token;
+  }
+}
+
+/**
+ * Accepts RoomClient connections from the upgrade requests of a Node.js http server, for local gateways, test
+ * doubles and relays. Every connection is passed to `onConnection` as a protocol that has not been started, so
+ * handlers can be added before it is started.
+ */
+export class WebSocketProtocolServer {
+  public readonly path: string | null;
+
+  private readonly _server: WebSocket.Server;
+  private readonly _onConnection: (protocol: WebSocketServerProtocol) => void;
+  private readonly _authorize?: (request: IncomingMessage, token: string | null) => boolean | Promise<boolean>;
+  private readonly _options: ProtocolOptions;
+  private readonly _protocols = new Set<WebSocketServerProtocol>();
+  private _closed = false;
+
+  constructor({ onConnection, path = null, authorize, ...options }: {
+    onConnection: (protocol: WebSocketServerProtocol) => void;
+
+    /**
+     * Only upgrade requests for this path are accepted; others are answered with 404.
+     */
+    path?: string | null;
+
+    /**
+     * Decides whether a client may connect. Rejected clients are answered with 401.
+     */
+    authorize?: (request: IncomingMessage, token: string | null) => boolean | Promise<boolean>;
+  } & ProtocolOptions) {
+    if (!isNodeRuntime() || WebSocket.Server == null) {
+      throw new Error("WebSocketProtocolServer requires Node.js");
+    }
+    this.path = path;
+    this._server = new WebSocket.Server({ noServer: true });
+    this._onConnection = onConnection;
+    this._authorize = authorize;
+    this._options = options;
+  }
+
+  /**
+   * The protocols of the connections that are still open.
+   */
+  public get protocols(): WebSocketServerProtocol[] {
+    return [...this._protocols];
+  }
+
+  /**
+   * Serves the upgrade requests of an http server. Returns a function that stops serving them.
+   */
+  public attach(server: HttpServer): () => void {
+    const listener = (request: IncomingMessage, socket: Duplex, head: Buffer): void => {
+      void this.handleUpgrade(request, socket, head);
+    };
+    server.on("upgrade", listener);
+    return () => {
+      server.off("upgrade", listener);
+    };
+  }
+
+  /**
+   * Completes the websocket handshake of an upgrade request and passes the connection to `onConnection`.
+   */
+  public async handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    if (this._closed) {
+      rejectUpgrade(socket, 503, "Service Unavailable");
+      return;
+    }
+    if (this.path != null && new URL(request.url ?? "/", "http://localhost").pathname !== this.path) {
+      rejectUpgrade(socket, 404, "Not Found");
+      return;
+    }
+    if (this._authorize != null) {
+      let authorized = false;
+      try {
+        authorized = await this._authorize(request, requestToken(request));
+      } catch (error) {
+        console.error("websocket authorization failed", error);
+      }
+      if (!authorized) {
+        rejectUpgrade(socket, 401, "Unauthorized");
+        return;
+      }
+    }
+
+    this._server.handleUpgrade(request, socket, head, (webSocket) => {
+      if (this._closed) {
+        webSocket.close(1001);
+        return;
+      }
+      const protocol = new WebSocketServerProtocol({ webSocket, request, ...this._options });
+      this._protocols.add(protocol);
+      void protocol.done.then(() => this._protocols.delete(protocol));
+      this._onConnection(protocol);
+    });
+  }
+
+  /**
+   * Stops accepting connections and closes the open ones.
+   */
+  public close(): void {
+    this._closed = true;
+    for (const protocol of this.protocols) {
+      protocol.close();
+    }
+    this._protocols.clear();
+    this._server.close();
+  }
+}
+
+function rejectUpgrade(socket: Duplex, statusCode: number, statusText: string): void {
+  socket.end(`HTTP/1.1 ${statusCode} ${statusText}\r\nConnection: close\r\nContent-Length: 0\r\n\r\n`);
+}
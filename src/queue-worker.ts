@@ -0,0 +1,428 @@
+// queue-worker.ts
+
+import { Completer } from "./completer.js";
+import type { RoomClient } from "./room-client.js";
+import { StreamController } from "./stream-controller.js";
+
+export interface QueueWorkerOptions {
+  /**
+   * Maximum number of messages handled at once. Defaults to 1.
+   */
+  concurrency?: number;
+
+  /**
+   * Handler attempts per message, including the first, before the message is dead-lettered. Defaults to 3.
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry. Each further retry doubles it, up to maxRetryDelayMs.
+   */
+  retryDelayMs?: number;
+  maxRetryDelayMs?: number;
+
+  /**
+   * Queue that receives messages whose attempts are exhausted. Without one they are dropped with a warning.
+   */
+  deadLetterQueue?: string | null;
+
+  /**
+   * Creates the queue if it does not exist. Defaults to true.
+   */
+  create?: boolean;
+}
+
+export type QueueMessageHandler = (delivery: QueueDelivery) => void | Promise<void>;
+
+/**
+ * The envelope sent to the dead-letter queue for a message whose attempts are exhausted.
+ */
+export interface DeadLetterMessage {
+  queue: string;
+  message: Record<string, any>;
+  attempts: number;
+  error: string;
+}
+
+/**
+ * A message handed to a QueueWorker consumer. Each delivery must be settled with ack() or fail() to free its
+ * concurrency slot. Deliveries settled more than once ignore the later calls.
+ */
+export class QueueDelivery {
+  public readonly queue: string;
+  public readonly message: Record<string, any>;
+  public readonly attempt: number;
+
+  private readonly _settle: (delivery: QueueDelivery, error?: unknown) => void;
+  private _settled = false;
+
+  constructor({ queue, message, attempt, settle }: {
+    queue: string;
+    message: Record<string, any>;
+    attempt: number;
+    settle: (delivery: QueueDelivery, error?: unknown) => void;
+  }) {
+    this.queue = queue;
+    this.message = message;
+    this.attempt = attempt;
+    this._settle = settle;
+  }
+
+  public get settled(): boolean {
+    return this._settled;
+  }
+
+  /**
+   * Marks the message as handled.
+   */
+  public ack(): void {
+    if (this._settled) {
+      return;
+    }
+    this._settled = true;
+    this._settle(this);
+  }
+
+  /**
+   * Marks the attempt as failed. The message is redelivered after a backoff, or dead-lettered once its
+   * attempts are exhausted.
+   */
+  public fail(error: unknown): void {
+    if (this._settled) {
+      return;
+    }
+    this._settled = true;
+    this._settle(this, error ?? new Error("queue delivery failed"));
+  }
+}
+
+function errorText(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return String(error);
+}
+
+/**
+ * Consumes a room queue with a concurrency limit, handler retries and an optional dead-letter queue.
+ *
+ * Use start(handler) for the callback form, where a handler that returns acks the message and one that throws
+ * fails it, or iterate the worker and settle each delivery yourself. The queue server has no acknowledgements,
+ * so a received message lives only in this worker until it is settled: stop() waits for in-flight deliveries,
+ * and returns messages waiting on a retry, or received after stop, to the queue.
+ */
+export class QueueWorker implements AsyncIterable<QueueDelivery> {
+  public readonly queue: string;
+
+  private readonly _room: RoomClient;
+  private readonly _concurrency: number;
+  private readonly _maxAttempts: number;
+  private readonly _retryDelayMs: number;
+  private readonly _maxRetryDelayMs: number;
+  private readonly _deadLetterQueue: string | null;
+  private readonly _create: boolean;
+
+  private readonly _inFlight = new Set<QueueDelivery>();
+  private readonly _retries = new Map<ReturnType<typeof setTimeout>, QueueDelivery>();
+  private readonly _pendingSends = new Set<Promise<void>>();
+  private readonly _stopRequested = new Completer<void>();
+  private readonly _done = new Completer<void>();
+
+  private _dispatch: ((delivery: QueueDelivery) => void) | null = null;
+  private _deliveries: StreamController<QueueDelivery> | null = null;
+  private _slotFreed: Completer<void> | null = null;
+  private _idle: Completer<void> | null = null;
+  private _loop: Promise<void> | null = null;
+  private _stopping = false;
+
+  constructor({
+    room,
+    queue,
+    concurrency = 1,
+    maxAttempts = 3,
+    retryDelayMs = 500,
+    maxRetryDelayMs = 30000,
+    deadLetterQueue = null,
+    create = true,
+  }: { room: RoomClient; queue: string } & QueueWorkerOptions) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error("concurrency must be a positive integer");
+    }
+    if (!Number.isInteger(maxAttempts) || maxAttempts < 1) {
+      throw new Error("maxAttempts must be a positive integer");
+    }
+    this._room = room;
+    this.queue = queue;
+    this._concurrency = concurrency;
+    this._maxAttempts = maxAttempts;
+    this._retryDelayMs = retryDelayMs;
+    this._maxRetryDelayMs = maxRetryDelayMs;
+    this._deadLetterQueue = deadLetterQueue;
+    this._create = create;
+    void this._done.fut.catch(() => undefined);
+  }
+
+  public get running(): boolean {
+    return this._loop != null && !this._done.completed;
+  }
+
+  /**
+   * Resolves once the worker has stopped, or rejects if the room closed underneath it.
+   */
+  public get done(): Promise<void> {
+    return this._done.fut;
+  }
+
+  public get inFlight(): number {
+    return this._inFlight.size;
+  }
+
+  /**
+   * Starts consuming the queue, calling handler for each delivery.
+   */
+  public start(handler: QueueMessageHandler): void {
+    this._begin((delivery) => {
+      void this._runHandler(handler, delivery);
+    });
+  }
+
+  /**
+   * Starts consuming the queue and yields each delivery. Ending the iteration stops the worker and returns
+   * unsettled deliveries to the queue.
+   */
+  public [Symbol.asyncIterator](): AsyncIterator<QueueDelivery> {
+    const deliveries = new StreamController<QueueDelivery>();
+    const iterator = deliveries.stream[Symbol.asyncIterator]();
+    this._deliveries = deliveries;
+    this._begin((delivery) => deliveries.add(delivery));
+
+    const stop = async (): Promise<void> => {
+      for (const delivery of [...this._inFlight]) {
+        this._requeue(delivery);
+      }
+      await this.stop();
+    };
+    return {
+      next: () => iterator.next(),
+      return: async (): Promise<IteratorResult<QueueDelivery>> => {
+        await stop();
+        return await iterator.return?.() ?? { done: true, value: undefined };
+      },
+      throw: async (error?: unknown): Promise<IteratorResult<QueueDelivery>> => {
+        await stop();
+        throw error;
+      },
+    };
+  }
+
+  /**
+   * Stops receiving, waits for in-flight deliveries to be settled and returns messages waiting on a retry to
+   * the queue.
+   */
+  public async stop(): Promise<void> {
+    if (this._loop == null) {
+      return;
+    }
+    this._stopping = true;
+    if (!this._stopRequested.completed) {
+      this._stopRequested.complete();
+    }
+    await this._loop.catch(() => undefined);
+
+    for (const [timer, delivery] of [...this._retries]) {
+      clearTimeout(timer);
+      this._retries.delete(timer);
+      this._inFlight.add(delivery);
+      this._requeue(delivery);
+    }
+    while (this._inFlight.size > 0) {
+      this._idle ??= new Completer<void>();
+      await this._idle.fut;
+    }
+    while (this._pendingSends.size > 0) {
+      await Promise.all([...this._pendingSends]);
+    }
+
+    this._deliveries?.close();
+    if (!this._done.completed) {
+      this._done.complete();
+    }
+  }
+
+  private _begin(dispatch: (delivery: QueueDelivery) => void): void {
+    if (this._loop != null) {
+      throw new Error(`queue worker for ${this.queue} has already been started`);
+    }
+    this._dispatch = dispatch;
+    this._loop = this._receiveLoop().catch((error: unknown) => {
+      this._deliveries?.addError(error);
+      if (!this._done.completed) {
+        this._done.completeError(error);
+      }
+    });
+  }
+
+  private async _receiveLoop(): Promise<void> {
+    let failures = 0;
+    while (!this._stopping) {
+      while (this._inFlight.size + this._retries.size >= this._concurrency && !this._stopping) {
+        this._slotFreed ??= new Completer<void>();
+        await Promise.race([this._slotFreed.fut, this._stopRequested.fut]);
+      }
+      if (this._stopping) {
+        return;
+      }
+
+      // Not cancelled on stop: the server may already have dequeued a message for it.
+      const receive = this._room.queues.receive(this.queue, { create: this._create, wait: true });
+      let message: Record<string, any> | null | undefined;
+      try {
+        message = await Promise.race([receive, this._stopRequested.fut.then(() => undefined)]);
+      } catch (error) {
+        if (this._stopping) {
+          return;
+        }
+        if (this._room.isClosed) {
+          throw error;
+        }
+        failures += 1;
+        if (this._room.isConnected) {
+          await this._sleep(this._backoff(failures));
+        } else {
+          console.debug(`queue worker for ${this.queue} is waiting for the room to reconnect`, error);
+          await Promise.race([this._room.waitUntilConnected(), this._stopRequested.fut]);
+        }
+        continue;
+      }
+      failures = 0;
+
+      if (message === undefined) {
+        // Stopped while waiting: a message that still arrives for this receive goes back to the queue.
+        void receive.then((late) => {
+          if (late != null) {
+            this._trackSend(this._send(this.queue, late));
+          }
+        }, () => undefined);
+        return;
+      }
+      if (message == null) {
+        continue;
+      }
+      this._deliver(message, 1);
+    }
+  }
+
+  private _deliver(message: Record<string, any>, attempt: number): void {
+    const delivery = new QueueDelivery({
+      queue: this.queue,
+      message,
+      attempt,
+      settle: (delivery, error) => this._settle(delivery, error),
+    });
+    this._inFlight.add(delivery);
+    this._dispatch!(delivery);
+  }
+
+  private async _runHandler(handler: QueueMessageHandler, delivery: QueueDelivery): Promise<void> {
+    try {
+      await handler(delivery);
+      delivery.ack();
+    } catch (error) {
+      delivery.fail(error);
+    }
+  }
+
+  private _settle(delivery: QueueDelivery, error?: unknown): void {
+    if (error !== undefined) {
+      if (delivery.attempt < this._maxAttempts && !this._stopping) {
+        const timer = setTimeout(() => {
+          this._retries.delete(timer);
+          this._deliver(delivery.message, delivery.attempt + 1);
+        }, this._backoff(delivery.attempt));
+        this._retries.set(timer, delivery);
+      } else if (delivery.attempt < this._maxAttempts) {
+        this._trackSend(this._send(this.queue, delivery.message));
+      } else {
+        this._trackSend(this._deadLetter(delivery, error));
+      }
+    }
+    this._release(delivery);
+  }
+
+  private _requeue(delivery: QueueDelivery): void {
+    if (!this._inFlight.has(delivery)) {
+      return;
+    }
+    this._trackSend(this._send(this.queue, delivery.message));
+    this._release(delivery);
+  }
+
+  private _release(delivery: QueueDelivery): void {
+    this._inFlight.delete(delivery);
+    const slotFreed = this._slotFreed;
+    this._slotFreed = null;
+    slotFreed?.complete();
+    if (this._inFlight.size === 0) {
+      const idle = this._idle;
+      this._idle = null;
+      idle?.complete();
+    }
+  }
+
+  private async _deadLetter(delivery: QueueDelivery, error: unknown): Promise<void> {
+    if (this._deadLetterQueue == null) {
+      console.warn(`dropping message from ${this.queue} after ${delivery.attempt} attempts`, error);
+      return;
+    }
+    const deadLetter: DeadLetterMessage = {
+      queue: this.queue,
+      message: delivery.message,
+      attempts: delivery.attempt,
+      error: errorText(error),
+    };
+    await this._send(this._deadLetterQueue, { ...deadLetter });
+  }
+
+  /**
+   * Sends a message, retrying once after a reconnect if the room was disconnected.
+   */
+  private async _send(queue: string, message: Record<string, any>): Promise<void> {
+    try {
+      await this._room.queues.send(queue, message, { create: true });
+    } catch (error) {
+      if (this._room.isClosed || this._room.isConnected) {
+        console.warn(`queue worker for ${this.queue} was unable to send a message to ${queue}`, error);
+        return;
+      }
+      try {
+        await this._room.waitUntilConnected();
+        await this._room.queues.send(queue, message, { create: true });
+      } catch (retryError) {
+        console.warn(`queue worker for ${this.queue} was unable to send a message to ${queue}`, retryError);
+      }
+    }
+  }
+
+  private _trackSend(send: Promise<void>): void {
+    this._pendingSends.add(send);
+    void send.finally(() => this._pendingSends.delete(send));
+  }
+
+  private _backoff(attempt: number): number {
+    return Math.min(this._retryDelayMs * 2 ** (attempt - 1), this._maxRetryDelayMs);
+  }
+
+  private async _sleep(milliseconds: number): Promise<void> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await Promise.race([
+        new Promise((resolve) => {
+          timer = setTimeout(resolve, milliseconds);
+        }),
+        this._stopRequested.fut,
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -1,6 +1,10 @@
+import { validateJsonSchemaValue } from "./json-schema.js";
+import { QueueWorker, type QueueWorkerOptions } from "./queue-worker.js";
 import { RoomClient } from "./room-client.js";
+import type { RequestOptions } from "./request-options.js";
 import { EmptyContent, JsonContent, type Content } from "./response.js";
 import { RoomServerException } from "./room-server-client.js";
+import { ToolContentSpec } from "./tool-content-type.js";
 
 
 export class Queue {
@@ -16,6 +20,84 @@ export class Queue {
   }
 }
 
+export class InvalidQueueMessageException extends RoomServerException {
+  public readonly queue: string;
+  public readonly value: unknown;
+
+  constructor({ queue, value, error }: { queue: string; value: unknown; error: string }) {
+    super(`message for queue ${queue} does not match its schema: ${error}`);
+    this.name = "InvalidQueueMessageException";
+    this.queue = queue;
+    this.value = value;
+  }
+}
+
+/**
+ * Receives messages that a TypedQueue read from the server but could not validate.
+ */
+export type InvalidQueueMessageSink = (error: InvalidQueueMessageException) => void | Promise<void>;
+
+/**
+ * A queue handle that validates messages against a JSON schema. See QueuesClient.typed.
+ */
+export class TypedQueue<T extends Record<string, any>> {
+  public readonly name: string;
+  public readonly schema: Record<string, any>;
+
+  private readonly _queues: QueuesClient;
+  private readonly _errorSink: InvalidQueueMessageSink;
+
+  constructor({ queues, name, schema, errorSink }: {
+    queues: QueuesClient;
+    name: string;
+    schema: Record<string, any>;
+    errorSink?: InvalidQueueMessageSink;
+  }) {
+    this._queues = queues;
+    this.name = name;
+    this.schema = schema;
+    this._errorSink = errorSink ?? ((error) => console.warn(`dropping invalid message from queue ${name}`, error));
+  }
+
+  public validate(value: unknown): value is T {
+    return validateJsonSchemaValue(this.schema, value) === undefined;
+  }
+
+  /**
+   * Sends a message after validating it. Throws InvalidQueueMessageException without sending if it does not
+   * match the schema.
+   */
+  public async send(message: T, options: { create?: boolean } & RequestOptions = {}): Promise<void> {
+    const error = validateJsonSchemaValue(this.schema, message);
+    if (error !== undefined) {
+      throw new InvalidQueueMessageException({ queue: this.name, value: message, error });
+    }
+    await this._queues.send(this.name, message, options);
+  }
+
+  /**
+   * Receives the next valid message. Messages that do not match the schema are passed to the error sink and
+   * skipped, so with wait: false this returns null once no valid message is left.
+   */
+  public async receive(options: { create?: boolean, wait?: boolean } & RequestOptions = {}): Promise<T | null> {
+    while (true) {
+      const message = await this._queues.receive(this.name, options);
+      if (message == null) {
+        return null;
+      }
+      const error = validateJsonSchemaValue(this.schema, message);
+      if (error === undefined) {
+        return message as T;
+      }
+      try {
+        await this._errorSink(new InvalidQueueMessageException({ queue: this.name, value: message, error }));
+      } catch (sinkError) {
+        console.warn(`error sink for queue ${this.name} failed`, sinkError);
+      }
+    }
+  }
+}
+
 // --- QueuesClient class ---
 export class QueuesClient {
   private client: RoomClient;
@@ -28,19 +110,21 @@ export class QueuesClient {
     return new RoomServerException(`unexpected return type from queues.${operation}`);
   }
 
-  private async _invoke(operation: string, arguments_: Record<string, any>): Promise<Content> {
+  private async _invoke(operation: string, arguments_: Record<string, any>, options: RequestOptions = {}): Promise<Content> {
     return await this.client.invokeContent({
       toolkit: "queues",
       tool: operation,
       arguments: arguments_,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
     });
   }
 
   /**
    * Returns a list of queues from the server.
    */
-  public async list(): Promise<Queue[]> {
-    const response = await this._invoke("list", {});
+  public async list(options: RequestOptions = {}): Promise<Queue[]> {
+    const response = await this._invoke("list", {}, options);
     if (!(response instanceof JsonContent)) {
       throw this._unexpectedResponseError("list");
     }
@@ -52,8 +136,8 @@ export class QueuesClient {
   /**
    * Opens a queue with a given name.
    */
-  public async open(name: string): Promise<void> {
-    const response = await this._invoke("open", { name });
+  public async open(name: string, options: RequestOptions = {}): Promise<void> {
+    const response = await this._invoke("open", { name }, options);
     if (!(response instanceof EmptyContent)) {
       throw this._unexpectedResponseError("open");
     }
@@ -62,8 +146,8 @@ export class QueuesClient {
   /**
    * Drains a queue with a given name.
    */
-  public async drain(name: string): Promise<void> {
-    const response = await this._invoke("drain", { name });
+  public async drain(name: string, options: RequestOptions = {}): Promise<void> {
+    const response = await this._invoke("drain", { name }, options);
     if (!(response instanceof EmptyContent)) {
       throw this._unexpectedResponseError("drain");
     }
@@ -72,8 +156,8 @@ export class QueuesClient {
   /**
    * Closes a queue with a given name.
    */
-  public async close(name: string): Promise<void> {
-    const response = await this._invoke("close", { name });
+  public async close(name: string, options: RequestOptions = {}): Promise<void> {
+    const response = await this._invoke("close", { name }, options);
     if (!(response instanceof EmptyContent)) {
       throw this._unexpectedResponseError("close");
     }
@@ -82,8 +166,8 @@ export class QueuesClient {
   /**
    * Sends a message to a queue, optionally creating the queue if it doesn't exist.
    */
-  public async send(name: string, message: Record<string, any>, { create = true } : { create?: boolean }): Promise<void> {
-    const response = await this._invoke("send", { name, create, message });
+  public async send(name: string, message: Record<string, any>, { create = true, signal, timeoutMs } : { create?: boolean } & RequestOptions): Promise<void> {
+    const response = await this._invoke("send", { name, create, message }, { signal, timeoutMs });
     if (!(response instanceof EmptyContent)) {
       throw this._unexpectedResponseError("send");
     }
@@ -91,13 +175,14 @@ export class QueuesClient {
 
   /**
    * Receives a message from a queue. Returns null if the response is EmptyContent, or the JSON if it's a JsonContent.
+   * Aborting a waiting receive releases the local request; a message the server has already dequeued for it is lost.
    */
-  public async receive(name: string, { create = true, wait = true } : { create?: boolean, wait?: boolean }): Promise<Record<string, any> | null> {
+  public async receive(name: string, { create = true, wait = true, signal, timeoutMs } : { create?: boolean, wait?: boolean } & RequestOptions): Promise<Record<string, any> | null> {
     const response = await this._invoke("receive", {
       name,
       create,
       wait,
-    });
+    }, { signal, timeoutMs });
 
     if (response instanceof EmptyContent) {
       return null;
@@ -109,4 +194,27 @@ export class QueuesClient {
 
     throw this._unexpectedResponseError("receive");
   }
+
+  /**
+   * Creates a worker that consumes the queue with retries and dead-lettering. Call start() on it, or iterate it.
+   */
+  public consume(name: string, options: QueueWorkerOptions = {}): QueueWorker {
+    return new QueueWorker({ room: this.client, queue: name, ...options });
+  }
+
+  /**
+   * Returns a handle for a queue whose messages must match a JSON schema, given directly or as the schema of a
+   * ToolContentSpec. Invalid incoming messages go to errorSink, which by default logs and drops them.
+   */
+  public typed<T extends Record<string, any>>(
+    name: string,
+    schema: Record<string, any> | ToolContentSpec,
+    { errorSink }: { errorSink?: InvalidQueueMessageSink } = {},
+  ): TypedQueue<T> {
+    const resolved = schema instanceof ToolContentSpec ? schema.schema : schema;
+    if (resolved === undefined) {
+      throw new Error(`a schema is required for typed queue ${name}`);
+    }
+    return new TypedQueue<T>({ queues: this, name, schema: resolved, errorSink });
+  }
 }
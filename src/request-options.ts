@@ -0,0 +1,141 @@
+// request-options.ts
+
+/**
+ * Cancellation options accepted by room requests.
+ */
+export interface RequestOptions {
+  /**
+   * Aborts the request. The request is rejected with the signal's reason, or an AbortError.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Fails the request with a TimeoutError if it has not finished within this many milliseconds.
+   * For streamed responses this bounds the whole stream, not just the first chunk.
+   */
+  timeoutMs?: number;
+}
+
+export function abortError(signal: AbortSignal): unknown {
+  if (signal.reason != null) {
+    return signal.reason;
+  }
+  const error = new Error("Aborted");
+  error.name = "AbortError";
+  return error;
+}
+
+export function timeoutError(label: string, timeoutMs: number): Error {
+  const error = new Error(`${label} timed out after ${timeoutMs}ms`);
+  error.name = "TimeoutError";
+  return error;
+}
+
+/**
+ * Combines an AbortSignal and a timeout into a single cancellation for one request.
+ */
+export class RequestCancellation {
+  public readonly promise: Promise<never>;
+
+  private readonly _signal?: AbortSignal;
+  private readonly _callbacks: Array<(reason: unknown) => void> = [];
+  private _reject!: (reason: unknown) => void;
+  private _timer: ReturnType<typeof setTimeout> | null = null;
+  private _cancelled = false;
+  private _disposed = false;
+  private _reason: unknown;
+
+  private constructor({ signal, timeoutMs, label }: RequestOptions & { label: string }) {
+    if (timeoutMs != null && timeoutMs < 0) {
+      throw new Error("timeoutMs must be non-negative");
+    }
+    this._signal = signal;
+    this.promise = new Promise<never>((_resolve, reject) => {
+      this._reject = reject;
+    });
+    void this.promise.catch(() => undefined);
+
+    if (signal?.aborted) {
+      this._cancel(abortError(signal));
+      return;
+    }
+    signal?.addEventListener("abort", this._onAbort, { once: true });
+    if (timeoutMs != null) {
+      this._timer = setTimeout(() => this._cancel(timeoutError(label, timeoutMs)), timeoutMs);
+    }
+  }
+
+  /**
+   * Returns null when the options carry neither a signal nor a timeout.
+   */
+  public static create({ signal, timeoutMs, label }: RequestOptions & { label: string }): RequestCancellation | null {
+    if (signal == null && timeoutMs == null) {
+      return null;
+    }
+    return new RequestCancellation({ signal, timeoutMs, label });
+  }
+
+  public get cancelled(): boolean {
+    return this._cancelled;
+  }
+
+  public get reason(): unknown {
+    return this._reason;
+  }
+
+  public throwIfCancelled(): void {
+    if (this._cancelled) {
+      throw this._reason;
+    }
+  }
+
+  /**
+   * Registers a callback to run on cancellation. Runs immediately if already cancelled.
+   */
+  public onCancel(callback: (reason: unknown) => void): void {
+    if (this._cancelled) {
+      callback(this._reason);
+      return;
+    }
+    this._callbacks.push(callback);
+  }
+
+  /**
+   * Races a promise against the cancellation.
+   */
+  public async race<T>(promise: Promise<T>): Promise<T> {
+    return await Promise.race([promise, this.promise]);
+  }
+
+  /**
+   * Stops the timer and signal listener once the request has finished.
+   */
+  public dispose(): void {
+    if (this._disposed) {
+      return;
+    }
+    this._disposed = true;
+    if (this._timer != null) {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+    this._signal?.removeEventListener("abort", this._onAbort);
+  }
+
+  private readonly _onAbort = (): void => {
+    this._cancel(abortError(this._signal!));
+  };
+
+  private _cancel(reason: unknown): void {
+    if (this._cancelled || this._disposed) {
+      return;
+    }
+    this._cancelled = true;
+    this._reason = reason;
+    this.dispose();
+    this._reject(reason);
+    for (const callback of this._callbacks.splice(0)) {
+      callback(reason);
+    }
+  }
+}
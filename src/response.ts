@@ -209,6 +209,8 @@ export class EmptyContent implements Content {
 
 export enum ControlCloseStatus {
   NORMAL = 1000,
+  // The caller cancelled the tool call; the callee should stop working on it.
+  CANCELLED = 1001,
   INVALID_DATA = 1007,
 }
 
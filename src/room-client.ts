@@ -2,6 +2,7 @@ import { Completer } from "./completer.js";
 import { DatasetsClient } from "./datasets-client.js";
 import { SqliteClient } from "./sqlite-client.js";
 import { DeveloperClient } from "./developer-client.js";
+import type { DocumentPersistence } from "./document-persistence.js";
 import { EventEmitter, type EventHandler, type EventName } from "./event-emitter.js";
 import { MessagingClient } from "./messaging-client.js";
 import { MemoryClient } from "./memory-client.js";
@@ -17,14 +18,21 @@ import {
   type ProtocolFactory,
 } from "./protocol.js";
 import { QueuesClient } from "./queues-client.js";
+import { RequestCancellation, type RequestOptions } from "./request-options.js";
 import { BinaryContent, ControlCloseStatus, ControlContent, EmptyContent, ErrorContent, FileContent, JsonContent, LinkContent, TextContent, unpackContent } from "./response.js";
 import type { Content } from "./response.js";
-import { RoomEvent, RoomStatusEvent } from "./room-event.js";
+import { ConnectionQualityEvent, RoomEvent, RoomStatusEvent } from "./room-event.js";
 import { RoomServerException } from "./room-server-client.js";
 import { ServicesClient } from "./services-client.js";
 import { StorageClient } from "./storage-client.js";
 import { StreamController } from "./stream-controller.js";
 import { SyncClient } from "./sync-client.js";
+import {
+  ToolCallMiddlewarePipeline,
+  ToolInvocation,
+  type ToolCallMiddleware,
+  type ToolInvocationOutput,
+} from "./tool-call-middleware.js";
 import { splitMessageHeader, splitMessagePayload, packMessage, unpackMessage } from "./utils.js";
 import { AgentsClient, ToolkitDescription } from "./agent-client.js";
 import { ContainersClient } from "./containers-client.js";
@@ -52,6 +60,16 @@ type ProtocolConnectAttempt = (params: {
   remaining: number | null;
 }) => Promise<void>;
 
+interface JournaledRequest {
+  type: string;
+  data: Uint8Array;
+  correlationId: string;
+  completer: Completer<Content>;
+  protocol: Protocol | null;
+  requestId: number | null;
+  afterSend?: () => void;
+}
+
 interface ProtocolRetryResult {
   connected: boolean;
   closeKind?: ProtocolCloseKind | null;
@@ -124,6 +142,69 @@ class RoomConnectionStatusException extends RoomServerException {
   }
 }
 
+/**
+ * Races each step of a tool call's input stream against the call's cancellation, so a cancelled
+ * call stops waiting on its input.
+ */
+function cancellableInput(
+  input: AsyncIterable<Content>,
+  cancellation: RequestCancellation | null,
+): AsyncIterable<Content> {
+  if (cancellation == null) {
+    return input;
+  }
+  return {
+    [Symbol.asyncIterator](): AsyncIterator<Content> {
+      const iterator = input[Symbol.asyncIterator]();
+      return {
+        async next(): Promise<IteratorResult<Content>> {
+          try {
+            return await cancellation.race(iterator.next());
+          } catch (error) {
+            if (cancellation.cancelled) {
+              void Promise.resolve(iterator.return?.()).catch(() => undefined);
+            }
+            throw error;
+          }
+        },
+        async return(value?: unknown): Promise<IteratorResult<Content>> {
+          return await iterator.return?.(value) ?? { done: true, value };
+        },
+      };
+    },
+  };
+}
+
+/**
+ * Releases a tool call's cancellation once its response stream ends or the caller stops reading.
+ */
+function disposeWhenFinished(
+  iterator: AsyncIterator<Content>,
+  cancellation: RequestCancellation | null,
+): AsyncIterator<Content> {
+  if (cancellation == null) {
+    return iterator;
+  }
+  return {
+    async next(): Promise<IteratorResult<Content>> {
+      try {
+        const result = await iterator.next();
+        if (result.done === true) {
+          cancellation.dispose();
+        }
+        return result;
+      } catch (error) {
+        cancellation.dispose();
+        throw error;
+      }
+    },
+    async return(value?: unknown): Promise<IteratorResult<Content>> {
+      cancellation.dispose();
+      return await iterator.return?.(value) ?? { done: true, value };
+    },
+  };
+}
+
 function normalizeCloseReason(reason: string | null | undefined): string | null {
   if (reason == null) {
     return null;
@@ -254,18 +335,18 @@ export class RoomProtocolProxy {
     return this._handlers.get(type);
   }
 
-  public async send(type: string, data: Uint8Array, { id }: { id?: number } = {}): Promise<void> {
+  public async send(type: string, data: Uint8Array, { id, stream }: { id?: number; stream?: string } = {}): Promise<void> {
     if (this._room._entered && !this._room.isConnected && !this._room._allowDisconnectedRequests) {
       throw this._room._disconnectedError({ baseMessage: "room connection is disconnected" });
     }
-    await this._room._protocolInstance.send(type, data, id);
+    await this._room._protocolInstance.send(type, data, id, { stream });
   }
 
-  public sendNowait(type: string, data: Uint8Array, { id }: { id?: number } = {}): number {
+  public sendNowait(type: string, data: Uint8Array, { id, stream }: { id?: number; stream?: string } = {}): number {
     if (this._room._entered && !this._room.isConnected && !this._room._allowDisconnectedRequests) {
       throw this._room._disconnectedError({ baseMessage: "room connection is disconnected" });
     }
-    return this._room._protocolInstance.sendNowait(type, data, { id });
+    return this._room._protocolInstance.sendNowait(type, data, { id, stream });
   }
 
   public getNextMessageId(): number {
@@ -308,6 +389,19 @@ export class RoomProtocolProxy {
   }
 }
 
+export interface RoomHeartbeatOptions {
+  /**
+   * How often the connection is probed, in milliseconds. Defaults to 10000.
+   */
+  intervalMs?: number;
+
+  /**
+   * How many heartbeats in a row may go unanswered before the connection is considered lost and the client
+   * reconnects. Defaults to 3.
+   */
+  missedHeartbeats?: number;
+}
+
 export class RoomClient {
   public readonly protocol: RoomProtocolProxy;
 
@@ -329,9 +423,12 @@ export class RoomClient {
 
   private readonly _protocolFactory: ProtocolFactory;
   private readonly _reconnectTimeout: number | null;
+  private readonly _journalIdempotentRequests: boolean;
   private readonly _eventsController = new StreamController<RoomEvent>();
   private readonly _eventEmitter = new EventEmitter<RoomEvent>();
   private readonly _pendingRequests = new Map<number, Completer<Content>>();
+  private readonly _requestJournal = new Map<string, JournaledRequest>();
+  private readonly _toolCallMiddleware = new ToolCallMiddlewarePipeline();
   private readonly _toolCallStreams = new Map<string, StreamController<Content>>();
   private readonly _toolCallPreOpenErrors = new Map<string, Completer<never>>();
   private readonly _ignoredResponseLabels = new Map<number, string>();
@@ -354,6 +451,16 @@ export class RoomClient {
   private _roomUrl: string | null = null;
   private _sessionId: string | null = null;
 
+  private readonly _heartbeat: Required<RoomHeartbeatOptions> | null;
+  private _heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private _heartbeatSupported: boolean | null = null;
+  private _missedHeartbeats = 0;
+  private _rtt: number | null = null;
+  private _jitter: number | null = null;
+  private _reconnects = 0;
+  private _previousBytesSent = 0;
+  private _previousBytesReceived = 0;
+
   private static readonly RECONNECT_RETRY_BASE_DELAY_MS = 500;
   private static readonly RECONNECT_RETRY_MAX_DELAY_MS = 30000;
 
@@ -363,19 +470,44 @@ export class RoomClient {
   private readonly _handleResponseBound = this._handleResponse.bind(this);
   private readonly _handleToolCallResponseChunkBound = this._handleToolCallResponseChunk.bind(this);
 
+  /**
+   * When journalIdempotentRequests is enabled, tool calls made with `idempotent: true` are kept
+   * in a journal while they wait for a response. A connection loss that the client recovers from
+   * replays them with the same tool_call_id instead of failing them.
+   *
+   * documentPersistence caches documents opened through `sync` locally; see SyncClient.
+   *
+   * When heartbeat is enabled, the connection is pinged periodically so that a connection that silently
+   * stopped working is detected and reconnected, and "connection quality" events report its health. Pass
+   * true for the defaults. Heartbeats need a room server that answers `__ping__` control messages with
+   * `__pong__`. When none of the first `missedHeartbeats` heartbeats is answered, the client warns once and turns
+   * heartbeats off, so against such a server a connection that silently stopped working is not detected.
+   */
   constructor({
     protocolFactory = null,
     reconnectTimeout = null,
+    journalIdempotentRequests = false,
+    documentPersistence,
+    heartbeat = false,
   }: {
     protocolFactory?: ProtocolFactory | null;
     reconnectTimeout?: number | null;
+    journalIdempotentRequests?: boolean;
+    documentPersistence?: DocumentPersistence;
+    heartbeat?: boolean | RoomHeartbeatOptions;
   } = {}) {
     if (reconnectTimeout != null && reconnectTimeout < 0) {
       throw new Error("reconnectTimeout must be null or non-negative");
     }
+    this._heartbeat = heartbeat === false ? null : {
+      intervalMs: 10000,
+      missedHeartbeats: 3,
+      ...(heartbeat === true ? {} : heartbeat),
+    };
 
     this._protocolFactory = protocolFactory ?? createProtocolFactoryFromEnvironment();
     this._reconnectTimeout = reconnectTimeout;
+    this._journalIdempotentRequests = journalIdempotentRequests;
     this._protocolInstance = this._protocolFactory();
     this.protocol = new RoomProtocolProxy({ room: this });
 
@@ -385,7 +517,7 @@ export class RoomClient {
     this.protocol.addHandler("__response__", this._handleResponseBound);
     this.protocol.addHandler("room.tool_call_response_chunk", this._handleToolCallResponseChunkBound);
 
-    this.sync = new SyncClient({ room: this });
+    this.sync = new SyncClient({ room: this, persistence: documentPersistence });
     this.storage = new StorageClient({ room: this });
     this.developer = new DeveloperClient({ room: this });
     this.messaging = new MessagingClient({ room: this });
@@ -451,6 +583,22 @@ export class RoomClient {
     return this._sessionId;
   }
 
+  /**
+   * The current health of the room connection. Round trip times are only measured when heartbeats are enabled.
+   */
+  public get connectionQuality(): ConnectionQualityEvent {
+    return new ConnectionQualityEvent({
+      connected: this._connected,
+      rtt: this._rtt,
+      jitter: this._jitter,
+      missedHeartbeats: this._missedHeartbeats,
+      heartbeatSupported: this._heartbeatSupported,
+      reconnects: this._reconnects,
+      bytesSent: this._previousBytesSent + this._protocolInstance.bytesSent,
+      bytesReceived: this._previousBytesReceived + this._protocolInstance.bytesReceived,
+    });
+  }
+
   public isActiveProtocol(protocol: Protocol): boolean {
     return protocol === this._protocolInstance;
   }
@@ -578,6 +726,7 @@ export class RoomClient {
     this._connected = true;
     this._closeKind = null;
     this._closeReason = null;
+    this._startHeartbeat();
   }
 
   private _markDisconnected({
@@ -591,6 +740,74 @@ export class RoomClient {
     this._closeKind = kind;
     this._closeReason = normalizeCloseReason(reason);
     this._ignoredResponseLabels.clear();
+    this._stopHeartbeat();
+  }
+
+  private _startHeartbeat(): void {
+    this._stopHeartbeat();
+    const heartbeat = this._heartbeat;
+    if (heartbeat == null) {
+      return;
+    }
+
+    // Support is detected once per client, so reconnecting to a server without heartbeats does not warn again.
+    if (this._heartbeatSupported === false) {
+      return;
+    }
+    const protocol = this._protocolInstance;
+    this._missedHeartbeats = 0;
+    this._heartbeatTimer = setInterval(() => {
+      void this._sendHeartbeat(protocol, heartbeat);
+    }, heartbeat.intervalMs);
+    this.emit(this.connectionQuality);
+  }
+
+  private _stopHeartbeat(): void {
+    if (this._heartbeatTimer == null) {
+      return;
+    }
+    clearInterval(this._heartbeatTimer);
+    this._heartbeatTimer = null;
+    if (!this._closing) {
+      this.emit(this.connectionQuality);
+    }
+  }
+
+  private async _sendHeartbeat(protocol: Protocol, heartbeat: Required<RoomHeartbeatOptions>): Promise<void> {
+    let rtt: number;
+    try {
+      rtt = await protocol.ping({ timeoutMs: heartbeat.intervalMs });
+    } catch {
+      if (!this.isActiveProtocol(protocol) || protocol.isClosed || this._heartbeatTimer == null) {
+        return;
+      }
+      this._missedHeartbeats += 1;
+      // A server that never answered does not support heartbeats, so they are turned off rather than
+      // treated as a lost connection.
+      if (this._heartbeatSupported === null && this._missedHeartbeats >= heartbeat.missedHeartbeats) {
+        this._heartbeatSupported = false;
+        console.warn("the room server does not answer heartbeats, so they are turned off and lost connections will not be detected");
+        this._stopHeartbeat();
+        return;
+      }
+      this.emit(this.connectionQuality);
+      if (this._heartbeatSupported === true && this._missedHeartbeats >= heartbeat.missedHeartbeats) {
+        protocol.abort(`missed ${this._missedHeartbeats} heartbeats`);
+      }
+      return;
+    }
+
+    if (!this.isActiveProtocol(protocol) || this._heartbeatTimer == null) {
+      return;
+    }
+    // Jitter is smoothed the way RTP smooths interarrival jitter (RFC 3550).
+    if (this._rtt != null) {
+      this._jitter = (this._jitter ?? 0) + (Math.abs(rtt - this._rtt) - (this._jitter ?? 0)) / 16;
+    }
+    this._rtt = rtt;
+    this._heartbeatSupported = true;
+    this._missedHeartbeats = 0;
+    this.emit(this.connectionQuality);
   }
 
   private _completeRoomClosed(): void {
@@ -724,6 +941,7 @@ export class RoomClient {
   private _setTerminalState({ state }: { state: RoomClientTerminalState }): RoomClientTerminalState {
     if (this._terminalState == null) {
       this._terminalState = state;
+      this._failRequestJournal(state.requestError());
     }
     return this._terminalState;
   }
@@ -831,13 +1049,102 @@ export class RoomClient {
     }
     const pending = [...this._pendingRequests.values()];
     this._pendingRequests.clear();
+    const journaled = new Set([...this._requestJournal.values()].map((entry) => entry.completer));
     for (const request of pending) {
+      if (this._terminalState == null && journaled.has(request)) {
+        continue;
+      }
       if (!request.completed) {
         request.completeError(error);
       }
     }
   }
 
+  private _failRequestJournal(error: RoomServerException): void {
+    const entries = [...this._requestJournal.values()];
+    this._requestJournal.clear();
+    for (const entry of entries) {
+      if (!entry.completer.completed) {
+        entry.completer.completeError(error);
+      }
+    }
+  }
+
+  private _sendJournaledRequest(entry: JournaledRequest): void {
+    if (entry.requestId != null && this._pendingRequests.get(entry.requestId) === entry.completer) {
+      this._pendingRequests.delete(entry.requestId);
+    }
+
+    const protocol = this._protocolInstance;
+    const requestId = protocol.getNextMessageId();
+    entry.protocol = protocol;
+    entry.requestId = requestId;
+    this._pendingRequests.set(requestId, entry.completer);
+    protocol.send(entry.type, entry.data, requestId).then(() => {
+      const afterSend = entry.afterSend;
+      entry.afterSend = undefined;
+      afterSend?.();
+    }, (error: unknown) => {
+      console.debug(`journaled request ${entry.correlationId} will be replayed after reconnect`, error);
+    });
+  }
+
+  private _replayRequestJournal(): void {
+    for (const entry of this._requestJournal.values()) {
+      if (entry.protocol !== this._protocolInstance) {
+        this._sendJournaledRequest(entry);
+      }
+    }
+  }
+
+  /**
+   * Sends a request that is replayed on each reconnect until it receives a response. Only the
+   * first response completes the request, later responses for earlier sends are ignored.
+   */
+  private async _journalRequest({
+    type,
+    request,
+    data,
+    correlationId,
+    afterSend,
+    cancellation = null,
+  }: {
+    type: string;
+    request: RequestHeader;
+    data?: Uint8Array;
+    correlationId: string;
+    afterSend?: () => void;
+    cancellation?: RequestCancellation | null;
+  }): Promise<Content> {
+    cancellation?.throwIfCancelled();
+    this._raiseIfTerminal();
+    if (this._requestJournal.has(correlationId)) {
+      throw new RoomServerException(`request ${correlationId} is already in flight`);
+    }
+
+    const entry: JournaledRequest = {
+      type,
+      data: packMessage(request, data),
+      correlationId,
+      completer: new Completer<Content>(),
+      protocol: null,
+      requestId: null,
+      afterSend,
+    };
+    this._requestJournal.set(correlationId, entry);
+    try {
+      if (!this._entered || this._connected || this._allowDisconnectedRequests) {
+        this._sendJournaledRequest(entry);
+      }
+      return await (cancellation == null ? entry.completer.fut : cancellation.race(entry.completer.fut));
+    } finally {
+      this._requestJournal.delete(correlationId);
+      if (entry.requestId != null && this._pendingRequests.get(entry.requestId) === entry.completer) {
+        this._pendingRequests.delete(entry.requestId);
+      }
+    }
+  }
+
   private async _failToolCallStreams({
     error,
   }: {
@@ -846,8 +1153,14 @@ export class RoomClient {
     if (this._toolCallStreams.size === 0) {
       return;
     }
-    const streams = [...this._toolCallStreams.values()];
-    this._toolCallStreams.clear();
+    const streams: StreamController<Content>[] = [];
+    for (const [toolCallId, stream] of [...this._toolCallStreams]) {
+      if (this._terminalState == null && this._requestJournal.has(toolCallId)) {
+        continue;
+      }
+      this._toolCallStreams.delete(toolCallId);
+      streams.push(stream);
+    }
     for (const stream of streams) {
       stream.add(new ErrorContent({ text: error.message }));
       stream.close();
@@ -1036,6 +1349,8 @@ export class RoomClient {
       this._resendLocalAttributesNowait();
       await this.sync._onRoomReconnect();
       this.messaging._onRoomReconnect();
+      this._replayRequestJournal();
+      this._reconnects += 1;
       this._markConnected();
     } finally {
       this._allowDisconnectedRequests = false;
@@ -1044,6 +1359,8 @@ export class RoomClient {
 
   private _replaceProtocol(nextProtocol: Protocol): void {
     const currentProtocol = this._protocolInstance;
+    this._previousBytesSent += currentProtocol.bytesSent;
+    this._previousBytesReceived += currentProtocol.bytesReceived;
     this.protocol._unbind(currentProtocol);
     this._protocolInstance = nextProtocol;
     this.protocol._bind(nextProtocol);
@@ -1425,12 +1742,14 @@ export class RoomClient {
     label,
     messageId,
     expectResponse = false,
+    stream,
   }: {
     type: string;
     data: Uint8Array;
     label: string;
     messageId?: number;
     expectResponse?: boolean;
+    stream?: string;
   }): number | null {
     try {
       this._raiseIfTerminal();
@@ -1451,7 +1770,7 @@ export class RoomClient {
     }
 
     try {
-      protocol.sendNowait(type, data, { id: resolvedMessageId });
+      protocol.sendNowait(type, data, { id: resolvedMessageId, stream });
     } catch (error) {
       this._ignoredResponseLabels.delete(resolvedMessageId);
       if (this.isClosed) {
@@ -1522,6 +1841,7 @@ export class RoomClient {
       type: "set_attributes",
       data: packMessage(attributes),
       label: "local participant attribute update",
+      stream: "set_attributes",
     });
   }
 
@@ -1542,7 +1862,28 @@ export class RoomClient {
     request: RequestHeader,
     data?: Uint8Array,
     afterSend?: () => void,
+    { signal, timeoutMs }: RequestOptions = {},
   ): Promise<Content> {
+    const cancellation = RequestCancellation.create({ signal, timeoutMs, label: type });
+    try {
+      return await this._sendRequest(type, request, data, afterSend, cancellation);
+    } finally {
+      cancellation?.dispose();
+    }
+  }
+
+  /**
+   * Sends a request and waits for its response. A cancelled request is removed from the pending
+   * requests, so a late response is dropped.
+   */
+  private async _sendRequest(
+    type: string,
+    request: RequestHeader,
+    data: Uint8Array | undefined,
+    afterSend: (() => void) | undefined,
+    cancellation: RequestCancellation | null,
+  ): Promise<Content> {
+    cancellation?.throwIfCancelled();
     this._raiseIfTerminal();
     if (this._entered && !this._connected && !this._allowDisconnectedRequests) {
       throw this._disconnectedError({ baseMessage: "room connection is disconnected" });
@@ -1552,29 +1893,32 @@ export class RoomClient {
     const completer = new Completer<Content>();
     this._pendingRequests.set(requestId, completer);
 
+    // The chunks of a tool call must not overtake the request that opens it.
+    const toolCallId = request["tool_call_id"];
+    const stream = typeof toolCallId === "string" ? toolCallId : undefined;
     try {
-      await this._protocolInstance.send(type, packMessage(request, data), requestId);
+      await this._protocolInstance.send(type, packMessage(request, data), requestId, { stream });
       afterSend?.();
-      return await completer.fut;
+      return await (cancellation == null ? completer.fut : cancellation.race(completer.fut));
     } catch (error) {
       this._pendingRequests.delete(requestId);
       throw error;
     }
   }
 
-  public async call(params: {
+  public async call({ signal, timeoutMs, ...params }: {
     name: string;
     url: string;
     arguments: Record<string, unknown>;
-  }): Promise<void> {
-    await this.sendRequest("room.call", params);
+  } & RequestOptions): Promise<void> {
+    await this.sendRequest("room.call", params, undefined, undefined, { signal, timeoutMs });
   }
 
   public async listToolkits(params?: {
     participantId?: string;
     participantName?: string;
     timeout?: number;
-  }): Promise<ToolkitDescription[]> {
+  } & RequestOptions): Promise<ToolkitDescription[]> {
     const request: Record<string, unknown> = {};
     if (params?.participantId != null) {
       request["participant_id"] = params.participantId;
@@ -1586,7 +1930,10 @@ export class RoomClient {
       request["timeout"] = params.timeout;
     }
 
-    const result = await this.sendRequest("room.list_toolkits", request);
+    const result = await this.sendRequest("room.list_toolkits", request, undefined, undefined, {
+      signal: params?.signal,
+      timeoutMs: params?.timeoutMs,
+    });
     if (!(result instanceof JsonContent)) {
       throw new RoomServerException("unexpected return type from room.list_toolkits");
     }
@@ -1635,13 +1982,17 @@ export class RoomClient {
     input?: InvokeInput;
     participantId?: string;
     onBehalfOfId?: string;
-  }): AsyncIterable<Content> {
+    idempotent?: boolean;
+  } & RequestOptions): AsyncIterable<Content> {
     const outputPromise = this.invokeToolCall({
       toolkit: params.toolkit,
       tool: params.tool,
       input: this._normalizeInvokeInput(params.input ?? params.arguments),
       participantId: params.participantId,
       onBehalfOfId: params.onBehalfOfId,
+      idempotent: params.idempotent,
+      signal: params.signal,
+      timeoutMs: params.timeoutMs,
     });
     void outputPromise.catch(() => undefined);
     return {
@@ -1664,7 +2015,8 @@ export class RoomClient {
     participantId?: string;
     onBehalfOfId?: string;
     afterSend?: () => void;
-  }): Promise<Content> {
+    idempotent?: boolean;
+  } & RequestOptions): Promise<Content> {
     const output = await this.invokeToolCall({
       toolkit: params.toolkit,
       tool: params.tool,
@@ -1672,6 +2024,9 @@ export class RoomClient {
       participantId: params.participantId,
       onBehalfOfId: params.onBehalfOfId,
       afterSend: params.afterSend,
+      idempotent: params.idempotent,
+      signal: params.signal,
+      timeoutMs: params.timeoutMs,
     });
     if (output.kind !== "content") {
       throw new RoomServerException("unexpected streamed output from " + params.toolkit + "." + params.tool);
@@ -1679,6 +2034,19 @@ export class RoomClient {
     return output.content;
   }
 
+  /**
+   * Adds middleware that runs around every tool call made by this client, including the calls
+   * made by its sub-clients. Fire-and-forget invokeNowait calls bypass middleware. Returns a
+   * function that removes the middleware.
+   */
+  public useToolCallMiddleware(middleware: ToolCallMiddleware): () => void {
+    return this._toolCallMiddleware.use(middleware);
+  }
+
+  public removeToolCallMiddleware(middleware: ToolCallMiddleware): void {
+    this._toolCallMiddleware.remove(middleware);
+  }
+
   public async invokeToolCall(params: {
     toolkit: string;
     tool: string;
@@ -1687,13 +2055,56 @@ export class RoomClient {
     participantId?: string;
     onBehalfOfId?: string;
     afterSend?: () => void;
-  }): Promise<{ kind: "content"; content: Content; inputClosed?: Promise<void> } | { kind: "stream"; stream: AsyncIterable<Content>; inputClosed?: Promise<void> }> {
-    const toolCallId = `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+    /**
+     * Marks the call as safe to repeat. With journalIdempotentRequests enabled, the call is replayed
+     * after a reconnect if it has not received a response. Calls with streamed input are never replayed.
+     */
+    idempotent?: boolean;
+  } & RequestOptions): Promise<ToolInvocationOutput> {
+    const call = new ToolInvocation({
+      toolkit: params.toolkit,
+      tool: params.tool,
+      input: params.input,
+      streamInput: params.streamInput === true,
+      participantId: params.participantId,
+      onBehalfOfId: params.onBehalfOfId,
+      signal: params.signal,
+      timeoutMs: params.timeoutMs,
+    });
+    return await this._toolCallMiddleware.run(call, (call) => this._invokeToolCall({
+      toolkit: call.toolkit,
+      tool: call.tool,
+      input: call.input,
+      streamInput: call.streamInput,
+      participantId: call.participantId,
+      onBehalfOfId: call.onBehalfOfId,
+      toolCallId: call.toolCallId,
+      afterSend: params.afterSend,
+      idempotent: params.idempotent,
+      signal: call.signal,
+      timeoutMs: call.timeoutMs,
+    }));
+  }
+
+  private async _invokeToolCall(params: {
+    toolkit: string;
+    tool: string;
+    input: Content | AsyncIterable<Content>;
+    streamInput: boolean;
+    participantId?: string;
+    onBehalfOfId?: string;
+    toolCallId: string;
+    afterSend?: () => void;
+    idempotent?: boolean;
+  } & RequestOptions): Promise<ToolInvocationOutput> {
+    const toolCallId = params.toolCallId;
+    const cancellation = this._toolCallCancellation(params);
     const controller = new StreamController<Content>();
-    const responseIterator = controller.stream[Symbol.asyncIterator]();
+    const responseIterator = disposeWhenFinished(controller.stream[Symbol.asyncIterator](), cancellation);
     const preOpenError = new Completer<never>();
     this._toolCallStreams.set(toolCallId, controller);
     this._toolCallPreOpenErrors.set(toolCallId, preOpenError);
+    this._sendToolCallCancelOnCancel(toolCallId, cancellation);
 
     const request: Record<string, unknown> = {
       toolkit: params.toolkit,
@@ -1704,7 +2115,7 @@ export class RoomClient {
     let requestTask: Promise<void> | undefined;
     if (params.streamInput === true) {
       request["arguments"] = { type: "control", method: "open" };
-      requestTask = this._streamInvokeToolRequestChunks(toolCallId, params.input as AsyncIterable<Content>);
+      requestTask = this._streamInvokeToolRequestChunks(toolCallId, params.input as AsyncIterable<Content>, cancellation);
     } else {
       const input = params.input as Content;
       const packed = input.pack();
@@ -1722,8 +2133,18 @@ export class RoomClient {
     }
 
     try {
+      const journaled = this._journalIdempotentRequests && params.idempotent === true && params.streamInput !== true;
       const response = await Promise.race([
-        this.sendRequest("room.invoke_tool", request, requestData, params.afterSend),
+        journaled
+          ? this._journalRequest({
+            type: "room.invoke_tool",
+            request,
+            data: requestData,
+            correlationId: toolCallId,
+            afterSend: params.afterSend,
+            cancellation,
+          })
+          : this._sendRequest("room.invoke_tool", request, requestData, params.afterSend, cancellation),
         preOpenError.fut,
       ]);
       this._toolCallPreOpenErrors.delete(toolCallId);
@@ -1739,6 +2160,7 @@ export class RoomClient {
             this._toolCallStreams.delete(toolCallId);
           });
         }
+        this._closeToolCallStreamOnCancel(toolCallId, cancellation);
         return {
           kind: "stream",
           stream: {
@@ -1752,11 +2174,13 @@ export class RoomClient {
       if (requestTask != null) {
         await requestTask;
       }
+      cancellation?.dispose();
       this._toolCallStreams.delete(toolCallId);
       controller.close();
       return { kind: "content", content: response, inputClosed: requestTask };
     } catch (error) {
       await Promise.resolve(requestTask).catch(() => undefined);
+      cancellation?.dispose();
       this._toolCallPreOpenErrors.delete(toolCallId);
       this._toolCallStreams.delete(toolCallId);
       controller.close();
@@ -1770,8 +2194,38 @@ export class RoomClient {
     input: AsyncIterable<Content>;
     participantId?: string;
     onBehalfOfId?: string;
-  }): Promise<Content> {
-    const toolCallId = `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+  } & RequestOptions): Promise<Content> {
+    const call = new ToolInvocation({ ...params, streamInput: true });
+    const output = await this._toolCallMiddleware.run(call, async (call) => ({
+      kind: "content",
+      content: await this._invokeWithStreamInput({
+        toolkit: call.toolkit,
+        tool: call.tool,
+        input: call.input as AsyncIterable<Content>,
+        participantId: call.participantId,
+        onBehalfOfId: call.onBehalfOfId,
+        toolCallId: call.toolCallId,
+        signal: call.signal,
+        timeoutMs: call.timeoutMs,
+      }),
+    }));
+    if (output.kind !== "content") {
+      throw new RoomServerException(`unexpected return type from ${params.toolkit}.${params.tool}`);
+    }
+    return output.content;
+  }
+
+  private async _invokeWithStreamInput(params: {
+    toolkit: string;
+    tool: string;
+    input: AsyncIterable<Content>;
+    participantId?: string;
+    onBehalfOfId?: string;
+    toolCallId: string;
+  } & RequestOptions): Promise<Content> {
+    const toolCallId = params.toolCallId;
+    const cancellation = this._toolCallCancellation(params);
+    this._sendToolCallCancelOnCancel(toolCallId, cancellation);
     const request: Record<string, unknown> = {
       toolkit: params.toolkit,
       tool: params.tool,
@@ -1784,9 +2238,9 @@ export class RoomClient {
     if (params.onBehalfOfId != null) {
       request["on_behalf_of_id"] = params.onBehalfOfId;
     }
-    const requestTask = this._streamInvokeToolRequestChunks(toolCallId, params.input);
+    const requestTask = this._streamInvokeToolRequestChunks(toolCallId, params.input, cancellation);
     try {
-      const response = await this.sendRequest("room.invoke_tool", request);
+      const response = await this._sendRequest("room.invoke_tool", request, undefined, undefined, cancellation);
       await requestTask;
       if (response instanceof ControlContent && response.method === "open") {
         throw new RoomServerException(`unexpected return type from ${params.toolkit}.${params.tool}`);
@@ -1795,6 +2249,8 @@ export class RoomClient {
     } catch (error) {
       await Promise.resolve(requestTask).catch(() => undefined);
       throw error;
+    } finally {
+      cancellation?.dispose();
     }
   }
 
@@ -1804,13 +2260,43 @@ export class RoomClient {
     input: AsyncIterable<Content>;
     participantId?: string;
     onBehalfOfId?: string;
-  }): Promise<AsyncIterable<Content>> {
-    const toolCallId = `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+  } & RequestOptions): Promise<AsyncIterable<Content>> {
+    const call = new ToolInvocation({ ...params, streamInput: true });
+    const output = await this._toolCallMiddleware.run(call, async (call) => ({
+      kind: "stream",
+      stream: await this._invokeStream({
+        toolkit: call.toolkit,
+        tool: call.tool,
+        input: call.input as AsyncIterable<Content>,
+        participantId: call.participantId,
+        onBehalfOfId: call.onBehalfOfId,
+        toolCallId: call.toolCallId,
+        signal: call.signal,
+        timeoutMs: call.timeoutMs,
+      }),
+    }));
+    if (output.kind !== "stream") {
+      throw new RoomServerException(`unexpected return type from ${params.toolkit}.${params.tool}`);
+    }
+    return output.stream;
+  }
+
+  private async _invokeStream(params: {
+    toolkit: string;
+    tool: string;
+    input: AsyncIterable<Content>;
+    participantId?: string;
+    onBehalfOfId?: string;
+    toolCallId: string;
+  } & RequestOptions): Promise<AsyncIterable<Content>> {
+    const toolCallId = params.toolCallId;
+    const cancellation = this._toolCallCancellation(params);
     const controller = new StreamController<Content>();
-    const responseIterator = controller.stream[Symbol.asyncIterator]();
+    const responseIterator = disposeWhenFinished(controller.stream[Symbol.asyncIterator](), cancellation);
     const preOpenError = new Completer<never>();
     this._toolCallStreams.set(toolCallId, controller);
     this._toolCallPreOpenErrors.set(toolCallId, preOpenError);
+    this._sendToolCallCancelOnCancel(toolCallId, cancellation);
 
     const request: Record<string, unknown> = {
       toolkit: params.toolkit,
@@ -1824,7 +2310,7 @@ export class RoomClient {
     if (params.onBehalfOfId != null) {
       request["on_behalf_of_id"] = params.onBehalfOfId;
     }
-    const requestTask = this._streamInvokeToolRequestChunks(toolCallId, params.input);
+    const requestTask = this._streamInvokeToolRequestChunks(toolCallId, params.input, cancellation);
     void requestTask.catch((error: unknown) => {
       const stream = this._toolCallStreams.get(toolCallId);
       if (stream == null) {
@@ -1838,10 +2324,11 @@ export class RoomClient {
     let response: Content;
     try {
       response = await Promise.race([
-        this.sendRequest("room.invoke_tool", request),
+        this._sendRequest("room.invoke_tool", request, undefined, undefined, cancellation),
         preOpenError.fut,
       ]);
     } catch (error) {
+      cancellation?.dispose();
       this._toolCallPreOpenErrors.delete(toolCallId);
       this._toolCallStreams.delete(toolCallId);
       controller.close();
@@ -1849,10 +2336,12 @@ export class RoomClient {
     }
     this._toolCallPreOpenErrors.delete(toolCallId);
     if (!(response instanceof ControlContent) || response.method !== "open") {
+      cancellation?.dispose();
       this._toolCallStreams.delete(toolCallId);
       controller.close();
       throw new RoomServerException(`unexpected return type from ${params.toolkit}.${params.tool}`);
     }
+    this._closeToolCallStreamOnCancel(toolCallId, cancellation);
 
     return {
       [Symbol.asyncIterator](): AsyncIterator<Content> {
@@ -1861,6 +2350,31 @@ export class RoomClient {
     };
   }
 
+  private _toolCallCancellation(params: { toolkit: string; tool: string } & RequestOptions): RequestCancellation | null {
+    const cancellation = RequestCancellation.create({
+      signal: params.signal,
+      timeoutMs: params.timeoutMs,
+      label: `${params.toolkit}.${params.tool}`,
+    });
+    cancellation?.throwIfCancelled();
+    return cancellation;
+  }
+
+  /**
+   * Fails an open tool call stream when its call is cancelled, releasing it from the open streams.
+   */
+  private _closeToolCallStreamOnCancel(toolCallId: string, cancellation: RequestCancellation | null): void {
+    cancellation?.onCancel((reason) => {
+      const stream = this._toolCallStreams.get(toolCallId);
+      if (stream == null) {
+        return;
+      }
+      this._toolCallStreams.delete(toolCallId);
+      stream.addError(reason);
+      stream.close();
+    });
+  }
+
   private async _sendToolCallRequestChunk(toolCallId: string, chunk: Content): Promise<void> {
     const packed = chunk.pack();
     const request: Record<string, unknown> = {
@@ -1875,23 +2389,47 @@ export class RoomClient {
     );
   }
 
+  /**
+   * Sends the input of a streamed tool call, followed by the closing chunk. A cancelled call stops reading its
+   * input and leaves the closing chunk to the cancellation.
+   */
   private async _streamInvokeToolRequestChunks(
     toolCallId: string,
     input: AsyncIterable<Content>,
+    cancellation: RequestCancellation | null,
   ): Promise<void> {
     await Promise.resolve();
     try {
-      for await (const item of input) {
+      for await (const item of cancellableInput(input, cancellation)) {
         await this._sendToolCallRequestChunk(toolCallId, item);
       }
     } finally {
-      await this._sendToolCallRequestChunk(
-        toolCallId,
-        new ControlContent({ method: "close" }),
-      );
+      if (cancellation?.cancelled !== true) {
+        await this._sendToolCallRequestChunk(
+          toolCallId,
+          new ControlContent({ method: "close" }),
+        );
+      }
     }
   }
 
+  /**
+   * Tells the server to stop working on a tool call once the call is cancelled, whether or not its input or
+   * output is streamed. Calls that already finished are not affected, since their cancellation is disposed.
+   */
+  private _sendToolCallCancelOnCancel(toolCallId: string, cancellation: RequestCancellation | null): void {
+    cancellation?.onCancel(() => {
+      const chunk = new ControlContent({ method: "close", statusCode: ControlCloseStatus.CANCELLED });
+      this._sendProtocolNowait({
+        type: "room.tool_call_request_chunk",
+        data: packMessage({ tool_call_id: toolCallId, chunk: JSON.parse(splitMessageHeader(chunk.pack())) }),
+        label: "tool call cancellation",
+        expectResponse: true,
+        stream: toolCallId,
+      });
+    });
+  }
+
   private _decodeToolCallContent(params: {
     header: Record<string, unknown>;
     payload: Uint8Array;
@@ -34,6 +34,78 @@ export class RoomStatusEvent extends RoomEvent {
     }
 }
 
+/**
+ * A snapshot of the health of the room connection. RoomClient emits one after each heartbeat and whenever
+ * the connection is lost or restored, when heartbeats are enabled.
+ */
+export class ConnectionQualityEvent extends RoomEvent {
+    public readonly connected: boolean;
+
+    /**
+     * The last measured round trip time in milliseconds, or null before the first heartbeat was answered.
+     */
+    public readonly rtt: number | null;
+
+    /**
+     * The smoothed variation of the round trip time in milliseconds, or null before it could be measured.
+     */
+    public readonly jitter: number | null;
+
+    /**
+     * How many heartbeats in a row went unanswered.
+     */
+    public readonly missedHeartbeats: number;
+
+    /**
+     * Whether the room server answers heartbeats: true once it answered one, false when none of the first
+     * heartbeats were answered, and null before that or when heartbeats are disabled. Heartbeats are turned off
+     * once this is false, so a lost connection is not detected by them.
+     */
+    public readonly heartbeatSupported: boolean | null;
+
+    /**
+     * How many times the room connection has been restored.
+     */
+    public readonly reconnects: number;
+
+    public readonly bytesSent: number;
+    public readonly bytesReceived: number;
+
+    constructor({ connected, rtt, jitter, missedHeartbeats, heartbeatSupported, reconnects, bytesSent, bytesReceived }: {
+        connected: boolean;
+        rtt: number | null;
+        jitter: number | null;
+        missedHeartbeats: number;
+        heartbeatSupported: boolean | null;
+        reconnects: number;
+        bytesSent: number;
+        bytesReceived: number;
+    }) {
+        super();
+        this.connected = connected;
+        this.rtt = rtt;
+        this.jitter = jitter;
+        this.missedHeartbeats = missedHeartbeats;
+        this.heartbeatSupported = heartbeatSupported;
+        this.reconnects = reconnects;
+        this.bytesSent = bytesSent;
+        this.bytesReceived = bytesReceived;
+    }
+
+    get name(): string {
+        return "connection quality";
+    }
+
+    get description(): string {
+        if (!this.connected) {
+            return "the room connection is lost";
+        }
+        return this.heartbeatSupported === false
+            ? "the room server does not answer heartbeats"
+            : `the room connection has a round trip time of ${this.rtt ?? "unknown"}ms`;
+    }
+}
+
 /**
  * A basic RoomMessage class containing message details and optional attachment.
  */
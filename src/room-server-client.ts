@@ -5,15 +5,20 @@ import { v4 as uuidv4 } from "uuid";
 import { RuntimeDocument } from "./document.js";
 import { MeshSchema } from "./schema.js";
 import { Completer } from "./completer.js";
+import type { DocumentAwareness } from "./document-awareness.js";
+import { DocumentUndoManager, type UndoOptions } from "./document-undo.js";
 
 import {
     registerDocument,
     unregisterDocument,
     applyChanges,
+    createRelativePosition,
     getState,
     getStateVector,
+    mergeDocumentUpdates,
+    resolveRelativePosition,
 } from "./runtime.js";
-import type { UpdatePayload } from "./runtime.js";
+import type { AbsolutePosition, PositionKind, RelativePosition, UpdatePayload } from "./runtime.js";
 
 /** Simulates Dart's `Uint8List`. In TypeScript, we usually use `Uint8Array`. */
 export type Uint8List = Uint8Array;
@@ -59,22 +64,57 @@ export class RoomServerException extends Error {
 ////////////////////////////////////////////////////////////////////////
 export class MeshDocument extends RuntimeDocument {
   private _synchronized = new Completer<boolean>();
+  private _pendingBackendUpdates: string[] = [];
 
-  constructor({schema, sendChangesToBackend}: {
+  /**
+   * Undo history for local edits, present when the document was created with `undo` enabled.
+   */
+  public readonly undoManager?: DocumentUndoManager;
+
+  /**
+   * Read-only documents reject local edits, such as documents opened from a snapshot.
+   */
+  public readonly readOnly: boolean;
+
+  /**
+   * Presence of the other participants that have the document open, present on documents opened with the
+   * `awareness` option of `SyncClient.open`.
+   */
+  public readonly awareness?: DocumentAwareness;
+
+  constructor({schema, sendChangesToBackend, undo = false, readOnly = false, awareness}: {
     schema:  MeshSchema;
     sendChangesToBackend?: (base64: string) => void;
+    undo?: boolean | UndoOptions;
+    readOnly?: boolean;
+    awareness?: DocumentAwareness;
   }) {
     super({
       id: uuidv4(),
       schema,
-      sendChanges: (base64) => applyChanges(base64 as UpdatePayload),
+      sendChanges: (base64) => {
+        if (readOnly) {
+          throw new RoomServerException("cannot modify a read-only document");
+        }
+        applyChanges(base64 as UpdatePayload);
+      },
       sendChangesToBackend,
     });
 
+    this.readOnly = readOnly;
+    this.awareness = awareness;
+
+    if (undo !== false) {
+      this.undoManager = new DocumentUndoManager({ documentId: this.id });
+    }
+
     registerDocument(
       this.id,
       null,
-      false, // undo
+      this.undoManager === undefined ? false : {
+        captureTimeout: typeof undo === "object" ? undo.captureTimeoutMs : undefined,
+        onStateChanged: this.undoManager.onStateChanged,
+      },
       this.onSendUpdateToBackend,
       this.onSendUpdateToClient);
   }
@@ -82,11 +122,37 @@ export class MeshDocument extends RuntimeDocument {
   public onSendUpdateToBackend = (base64: string): void => {
     const parsed = JSON.parse(base64);
 
+    if (this.inTransaction) {
+      this._pendingBackendUpdates.push(parsed.data);
+      return;
+    }
+
     if (this.sendChangesToBackend) {
       this.sendChangesToBackend(parsed.data);
     }
   }
 
+  /**
+   * Runs `fn` as one transaction, sending its changes to the backend as a single update. When the document has
+   * an undo manager, the changes also form a single undo step.
+   */
+  public override transact<T>(fn: () => T): T {
+    if (this.undoManager === undefined) {
+      return super.transact(fn);
+    }
+    return this.undoManager.transact(() => super.transact(fn));
+  }
+
+  protected override commitTransaction(): void {
+    const updates = this._pendingBackendUpdates;
+    this._pendingBackendUpdates = [];
+    if (updates.length > 0 && this.sendChangesToBackend) {
+      this.sendChangesToBackend(mergeDocumentUpdates(updates));
+    }
+
+    super.commitTransaction();
+  }
+
   public onSendUpdateToClient = (base64: string): void => {
     const parsed = JSON.parse(base64);
 
@@ -101,6 +167,14 @@ export class MeshDocument extends RuntimeDocument {
     return getStateVector(this.id);
   }
 
+  public override createRelativePosition(nodeID: string | undefined, kind: PositionKind, index: number, assoc = 0): RelativePosition {
+    return createRelativePosition(this.id, nodeID, kind, index, assoc);
+  }
+
+  protected override resolveRuntimePosition(position: RelativePosition): AbsolutePosition | null {
+    return resolveRelativePosition(this.id, position);
+  }
+
   get synchronized(): Promise<boolean> {
     return this._synchronized.fut;
   }
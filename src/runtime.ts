@@ -1,12 +1,30 @@
 export {
     applyBackendChanges,
     applyChanges,
+    beginUndoGroup,
+    clearUndoHistory,
+    createRelativePosition,
+    endUndoGroup,
     getState,
     getStateVector,
+    getUndoState,
+    mergeDocumentUpdates,
+    redoDocument,
     registerDocument,
+    resolveRelativePosition,
+    stopUndoCapturing,
+    undoDocument,
     unregisterDocument,
 } from './entrypoint.js';
 
+export type {
+    AbsolutePosition,
+    PositionKind,
+    RelativePosition,
+    RuntimeUndoOptions,
+    UndoState,
+} from './entrypoint.js';
+
 export type SendUpdateFn = (msg: string) => void;
 
 export interface UpdatePayload {
@@ -0,0 +1,241 @@
+// schema-migration.ts
+
+import { v4 as uuid } from "uuid";
+
+import { Element, RuntimeDocument, nodeChangeData } from "./document.js";
+import { MeshDocument } from "./room-server-client.js";
+import { applyBackendChanges, mergeDocumentUpdates } from "./runtime.js";
+import { MeshSchema } from "./schema.js";
+
+export class SchemaMigrationException extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SchemaMigrationException";
+  }
+}
+
+/**
+ * Root attribute that records the schema version a document was last migrated to. Documents without it are at
+ * version 0.
+ */
+export const SCHEMA_VERSION_ATTRIBUTE = "$schema_version";
+
+export type MigrationOperation =
+  | { type: "renameAttribute"; tagName: string; from: string; to: string }
+  | { type: "addDefault"; tagName: string; name: string; value: any }
+  | { type: "mapValues"; tagName: string; name: string; values: Record<string, any> }
+  | { type: "moveChildren"; tagName: string; childTagNames: string[]; into: string }
+  | { type: "dropTag"; tagName: string };
+
+/**
+ * The operations that bring a document from the previous version to `version`.
+ *
+ * - renameAttribute moves the value of `from` to `to` on every element with the tag.
+ * - addDefault sets `name` to `value` where the attribute is missing.
+ * - mapValues replaces attribute values found in `values`, for example to follow a changed enum.
+ * - moveChildren moves the children with the given tags into the element's first `into` child, creating one
+ *   when it has none.
+ * - dropTag deletes every element with the tag, together with its children.
+ */
+export interface SchemaMigration {
+  version: number;
+  description?: string;
+  operations: MigrationOperation[];
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+}
+
+function elementsWithTag(root: Element, tagName: string): Element[] {
+  const found: Element[] = [];
+  const visit = (element: Element) => {
+    if (element.tagName === tagName) {
+      found.push(element);
+    }
+    for (const child of element.getChildren()) {
+      if (child instanceof Element) {
+        visit(child);
+      }
+    }
+  };
+  visit(root);
+  return found;
+}
+
+/**
+ * Brings documents written with older versions of a schema up to date. Versions are integers; each migration
+ * moves documents to its version, and the highest one is the version of `schema`.
+ */
+export class SchemaMigrator {
+  public readonly schema: MeshSchema;
+  public readonly migrations: SchemaMigration[];
+
+  constructor({ schema, migrations }: { schema: MeshSchema; migrations: SchemaMigration[] }) {
+    const sorted = [...migrations].sort((a, b) => a.version - b.version);
+    for (let i = 0; i < sorted.length; i++) {
+      if (!Number.isInteger(sorted[i].version) || sorted[i].version < 1) {
+        throw new SchemaMigrationException(`migration versions must be positive integers: ${sorted[i].version}`);
+      }
+      if (i > 0 && sorted[i].version === sorted[i - 1].version) {
+        throw new SchemaMigrationException(`migration version ${sorted[i].version} was found more than once`);
+      }
+    }
+    this.schema = schema;
+    this.migrations = sorted;
+  }
+
+  get version(): number {
+    return this.migrations.length === 0 ? 0 : this.migrations[this.migrations.length - 1].version;
+  }
+
+  public documentVersion(doc: RuntimeDocument): number {
+    const version = doc.root.getAttribute(SCHEMA_VERSION_ATTRIBUTE);
+    return typeof version === "number" ? version : 0;
+  }
+
+  /**
+   * Applies the pending migrations to `doc` in one transaction. The document's schema must know every tag the
+   * migrations touch; use `migrateState` for documents whose content does not match the target schema.
+   */
+  public migrate(doc: RuntimeDocument): MigrationResult {
+    const fromVersion = this.documentVersion(doc);
+    if (fromVersion > this.version) {
+      throw new SchemaMigrationException(
+        `document is at schema version ${fromVersion}, newer than the supported version ${this.version}`,
+      );
+    }
+    if (fromVersion === this.version) {
+      return { fromVersion, toVersion: fromVersion };
+    }
+
+    doc.transact(() => {
+      for (const migration of this.migrations) {
+        if (migration.version > fromVersion) {
+          for (const operation of migration.operations) {
+            this._apply(doc, operation);
+          }
+        }
+      }
+      doc.root.setAttribute(SCHEMA_VERSION_ATTRIBUTE, this.version);
+    });
+    return { fromVersion, toVersion: this.version };
+  }
+
+  /**
+   * Migrates a document from its encoded state. `schema` is the schema the state was written with, and `states`
+   * are base64 Yjs updates that together make up the document. Returns the migrated state and the update that
+   * performs the migration, which is null when the document was already current.
+   */
+  public migrateState(schema: MeshSchema, states: string[]): MigrationResult & { state: string; update: string | null } {
+    const updates: string[] = [];
+    const doc = new MeshDocument({
+      schema: this._transitionSchema(schema),
+      sendChangesToBackend: (base64) => updates.push(base64),
+    });
+    try {
+      for (const state of states) {
+        applyBackendChanges(doc.id, state);
+      }
+      updates.length = 0;
+
+      const result = this.migrate(doc);
+      return {
+        ...result,
+        state: doc.getState(),
+        update: updates.length === 0 ? null : mergeDocumentUpdates(updates),
+      };
+    } finally {
+      doc.dispose();
+    }
+  }
+
+  /**
+   * The target schema extended with the element types only found in `schema`, so content written with either
+   * can be loaded while it is migrated.
+   */
+  private _transitionSchema(schema: MeshSchema): MeshSchema {
+    const removed = schema.elements.filter((element) => this.schema.elementsByTagName[element.tagName] == null);
+    if (removed.length === 0) {
+      return this.schema;
+    }
+    return new MeshSchema({ rootTagName: this.schema.root.tagName, elements: [...this.schema.elements, ...removed] });
+  }
+
+  private _apply(doc: RuntimeDocument, operation: MigrationOperation): void {
+    const send = (changes: Array<Record<string, any>>) => doc.sendChanges({ documentID: doc.id, changes });
+
+    switch (operation.type) {
+      case "renameAttribute":
+        for (const element of elementsWithTag(doc.root, operation.tagName)) {
+          if (operation.from in element.attributes) {
+            const value = element.getAttribute(operation.from);
+            send([
+              { nodeID: element.id, removeAttributes: [operation.from] },
+              { nodeID: element.id, setAttributes: { [operation.to]: value } },
+            ]);
+          }
+        }
+        break;
+
+      case "addDefault":
+        for (const element of elementsWithTag(doc.root, operation.tagName)) {
+          if (!(operation.name in element.attributes)) {
+            send([{ nodeID: element.id, setAttributes: { [operation.name]: operation.value } }]);
+          }
+        }
+        break;
+
+      case "mapValues":
+        for (const element of elementsWithTag(doc.root, operation.tagName)) {
+          const value = element.getAttribute(operation.name);
+          if (value !== undefined && Object.prototype.hasOwnProperty.call(operation.values, String(value))) {
+            send([{ nodeID: element.id, setAttributes: { [operation.name]: operation.values[String(value)] } }]);
+          }
+        }
+        break;
+
+      case "moveChildren":
+        for (const element of elementsWithTag(doc.root, operation.tagName)) {
+          const moved = element.getChildren().filter((child): child is Element =>
+            child instanceof Element && operation.childTagNames.includes(child.tagName));
+          if (moved.length === 0) {
+            continue;
+          }
+
+          let container = element.getChildren().find((child): child is Element =>
+            child instanceof Element && child.tagName === operation.into);
+          if (container === undefined) {
+            const id = uuid();
+            send([{
+              nodeID: element.id,
+              insertChildren: {
+                index: element.getChildren().length,
+                children: [{ element: { name: operation.into, attributes: { $id: id }, children: [] } }],
+              },
+            }]);
+            container = element.getNodeByID(id)!;
+          }
+
+          const children = moved.map(nodeChangeData);
+          send(moved.map((child) => ({ nodeID: child.id, delete: {} })));
+          send([{
+            nodeID: container.id,
+            insertChildren: { index: container.getChildren().length, children },
+          }]);
+        }
+        break;
+
+      case "dropTag":
+        // Descendants are listed after their ancestors, so deleting in reverse never targets a removed subtree.
+        for (const element of elementsWithTag(doc.root, operation.tagName).reverse()) {
+          if (element === doc.root) {
+            throw new SchemaMigrationException(`cannot drop the root tag ${operation.tagName}`);
+          }
+          send([{ nodeID: element.id, delete: {} }]);
+        }
+        break;
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { Schema, Table, tableFromIPC, tableToIPC } from "apache-arrow";
+import type { RequestOptions } from "./request-options.js";
 import { RoomClient } from "./room-client.js";
 import { RoomServerException } from "./room-server-client.js";
 import { BinaryContent, ControlContent, EmptyContent, ErrorContent, JsonContent, type Content } from "./response.js";
@@ -277,20 +278,20 @@ export class SqliteDatabaseClient {
     public readonly namespace?: string[],
   ) {}
 
-  public async createDatabase({ mode = "create" }: { mode?: SqliteCreateMode } = {}): Promise<void> {
-    return this.client.createDatabase({ name: this.database, namespace: this.namespace, mode });
+  public async createDatabase({ mode = "create", signal, timeoutMs }: { mode?: SqliteCreateMode } & RequestOptions = {}): Promise<void> {
+    return this.client.createDatabase({ name: this.database, namespace: this.namespace, mode, signal, timeoutMs });
   }
 
-  public async dropDatabase({ ignoreMissing = false }: { ignoreMissing?: boolean } = {}): Promise<void> {
-    return this.client.dropDatabase({ name: this.database, namespace: this.namespace, ignoreMissing });
+  public async dropDatabase({ ignoreMissing = false, signal, timeoutMs }: { ignoreMissing?: boolean } & RequestOptions = {}): Promise<void> {
+    return this.client.dropDatabase({ name: this.database, namespace: this.namespace, ignoreMissing, signal, timeoutMs });
   }
 
-  public async inspectDatabase(): Promise<SqliteDatabaseDetails> {
-    return this.client.inspectDatabase({ name: this.database, namespace: this.namespace });
+  public async inspectDatabase(options: RequestOptions = {}): Promise<SqliteDatabaseDetails> {
+    return this.client.inspectDatabase({ ...options, name: this.database, namespace: this.namespace });
   }
 
-  public async listTables(): Promise<string[]> {
-    return this.client.listTables({ database: this.database, namespace: this.namespace });
+  public async listTables(options: RequestOptions = {}): Promise<string[]> {
+    return this.client.listTables({ ...options, database: this.database, namespace: this.namespace });
   }
 
   public async createTableWithSchema(params: {
@@ -298,7 +299,7 @@ export class SqliteDatabaseClient {
     schema?: Schema;
     data?: Iterable<Table> | Table;
     mode?: SqliteCreateMode;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     return this.client.createTableWithSchema({ ...params, database: this.database, namespace: this.namespace });
   }
 
@@ -306,7 +307,7 @@ export class SqliteDatabaseClient {
     name: string;
     data?: Iterable<Table> | Table;
     mode?: SqliteCreateMode;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     return this.client.createTableFromData({ ...params, database: this.database, namespace: this.namespace });
   }
 
@@ -314,7 +315,7 @@ export class SqliteDatabaseClient {
     name: string;
     table: Table;
     mode?: SqliteCreateMode;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     return this.client.createTableFromArrowTable({ ...params, database: this.database, namespace: this.namespace });
   }
 
@@ -322,47 +323,47 @@ export class SqliteDatabaseClient {
     name: string;
     batches: ArrowTableChunks;
     mode?: SqliteCreateMode;
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     return this.client.createTableFromArrowBatches({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async dropTable(params: { name: string; ignoreMissing?: boolean }): Promise<void> {
+  public async dropTable(params: { name: string; ignoreMissing?: boolean } & RequestOptions): Promise<void> {
     return this.client.dropTable({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async renameTable(params: { name: string; newName: string }): Promise<void> {
+  public async renameTable(params: { name: string; newName: string } & RequestOptions): Promise<void> {
     return this.client.renameTable({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async inspect(params: { table: string }): Promise<Schema> {
+  public async inspect(params: { table: string } & RequestOptions): Promise<Schema> {
     return this.client.inspect({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async addColumns(params: { table: string; newColumns: Schema }): Promise<void> {
+  public async addColumns(params: { table: string; newColumns: Schema } & RequestOptions): Promise<void> {
     return this.client.addColumns({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async addColumnsWithSchema(params: { table: string; schema: Schema }): Promise<void> {
+  public async addColumnsWithSchema(params: { table: string; schema: Schema } & RequestOptions): Promise<void> {
     return this.client.addColumnsWithSchema({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async dropColumns(params: { table: string; columns: string[] }): Promise<void> {
+  public async dropColumns(params: { table: string; columns: string[] } & RequestOptions): Promise<void> {
     return this.client.dropColumns({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async insert(params: { table: string; records: Table }): Promise<void> {
+  public async insert(params: { table: string; records: Table } & RequestOptions): Promise<void> {
     return this.client.insert({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async insertTable(params: { table: string; records: Table }): Promise<void> {
+  public async insertTable(params: { table: string; records: Table } & RequestOptions): Promise<void> {
     return this.client.insertTable({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async update(params: { table: string; where: string; values: DatasetRecord; params?: unknown }): Promise<number> {
+  public async update(params: { table: string; where: string; values: DatasetRecord; params?: unknown } & RequestOptions): Promise<number> {
     return this.client.update({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async delete(params: { table: string; where: string; params?: unknown }): Promise<number> {
+  public async delete(params: { table: string; where: string; params?: unknown } & RequestOptions): Promise<number> {
     return this.client.delete({ ...params, database: this.database, namespace: this.namespace });
   }
 
@@ -373,7 +374,7 @@ export class SqliteDatabaseClient {
     offset?: number;
     limit?: number;
     select?: string[];
-  }): Promise<Table[]> {
+  } & RequestOptions): Promise<Table[]> {
     return this.client.search({ ...params, database: this.database, namespace: this.namespace });
   }
 
@@ -384,7 +385,7 @@ export class SqliteDatabaseClient {
     offset?: number;
     limit?: number;
     select?: string[];
-  }): Promise<Table> {
+  } & RequestOptions): Promise<Table> {
     return this.client.searchTable({ ...params, database: this.database, namespace: this.namespace });
   }
 
@@ -395,31 +396,31 @@ export class SqliteDatabaseClient {
     offset?: number;
     limit?: number;
     select?: string[];
-  }): Promise<AsyncIterable<Table>> {
+  } & RequestOptions): Promise<AsyncIterable<Table>> {
     return this.client.searchStream({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async count(params: { table: string; where?: SqliteWhere; params?: unknown }): Promise<number> {
+  public async count(params: { table: string; where?: SqliteWhere; params?: unknown } & RequestOptions): Promise<number> {
     return this.client.count({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async sql(params: { query: string; params?: unknown }): Promise<Table[]> {
+  public async sql(params: { query: string; params?: unknown } & RequestOptions): Promise<Table[]> {
     return this.client.sql({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async sqlTable(params: { query: string; params?: unknown }): Promise<Table> {
+  public async sqlTable(params: { query: string; params?: unknown } & RequestOptions): Promise<Table> {
     return this.client.sqlTable({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async *sqlStream(params: { query: string; params?: unknown }): AsyncIterable<Table> {
+  public async *sqlStream(params: { query: string; params?: unknown } & RequestOptions): AsyncIterable<Table> {
     yield* this.client.sqlStream({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async executeSql(params: { query: string; params?: unknown }): Promise<SqliteSqlExecution> {
+  public async executeSql(params: { query: string; params?: unknown } & RequestOptions): Promise<SqliteSqlExecution> {
     return this.client.executeSql({ ...params, database: this.database, namespace: this.namespace });
   }
 
-  public async executeSqlStatement(params: { query: string; params?: unknown }): Promise<number> {
+  public async executeSqlStatement(params: { query: string; params?: unknown } & RequestOptions): Promise<number> {
     return this.client.executeSqlStatement({ ...params, database: this.database, namespace: this.namespace });
   }
 }
@@ -439,20 +440,20 @@ export class SqliteClient {
     return new SqliteDatabaseClient(this, name, namespace);
   }
 
-  private async invoke(operation: string, input: Record<string, unknown>): Promise<Content> {
-    return await this.room.invokeContent({ toolkit: "sqlite", tool: operation, input });
+  private async invoke(operation: string, input: Record<string, unknown>, { signal, timeoutMs }: RequestOptions = {}): Promise<Content> {
+    return await this.room.invokeContent({ toolkit: "sqlite", tool: operation, input, signal, timeoutMs });
   }
 
-  private async invokeContent(operation: string, input: Content): Promise<Content> {
-    return await this.room.invokeContent({ toolkit: "sqlite", tool: operation, input });
+  private async invokeContent(operation: string, input: Content, { signal, timeoutMs }: RequestOptions = {}): Promise<Content> {
+    return await this.room.invokeContent({ toolkit: "sqlite", tool: operation, input, signal, timeoutMs });
   }
 
-  private async invokeStream(operation: string, input: AsyncIterable<Content>): Promise<AsyncIterable<Content>> {
-    return await this.room.invokeStream({ toolkit: "sqlite", tool: operation, input });
+  private async invokeStream(operation: string, input: AsyncIterable<Content>, { signal, timeoutMs }: RequestOptions = {}): Promise<AsyncIterable<Content>> {
+    return await this.room.invokeStream({ toolkit: "sqlite", tool: operation, input, signal, timeoutMs });
   }
 
-  private async drainWriteStream(operation: string, input: SqliteArrowWriteInputStream): Promise<void> {
-    const response = await this.invokeStream(operation, input.stream());
+  private async drainWriteStream(operation: string, input: SqliteArrowWriteInputStream, options: RequestOptions = {}): Promise<void> {
+    const response = await this.invokeStream(operation, input.stream(), options);
     try {
       for await (const chunk of response) {
         if (chunk instanceof ErrorContent) {
@@ -474,9 +475,9 @@ export class SqliteClient {
     }
   }
 
-  private async *streamArrow(operation: string, start: Record<string, unknown>): AsyncIterable<Table> {
+  private async *streamArrow(operation: string, start: Record<string, unknown>, options: RequestOptions = {}): AsyncIterable<Table> {
     const input = new SqliteArrowReadInputStream(start);
-    const response = await this.invokeStream(operation, input.stream());
+    const response = await this.invokeStream(operation, input.stream(), options);
     input.requestNext();
     try {
       for await (const chunk of response) {
@@ -500,38 +501,38 @@ export class SqliteClient {
     }
   }
 
-  public async listDatabases({ namespace }: { namespace?: string[] } = {}): Promise<string[]> {
-    const response = await this.invoke("list_databases", { namespace: namespace ?? null });
+  public async listDatabases({ namespace, signal, timeoutMs }: { namespace?: string[] } & RequestOptions = {}): Promise<string[]> {
+    const response = await this.invoke("list_databases", { namespace: namespace ?? null }, { signal, timeoutMs });
     if (!(response instanceof JsonContent) || !isStringArray(response.json.databases)) {
       throw this.unexpectedResponseError("list_databases");
     }
     return response.json.databases;
   }
 
-  public async createDatabase({ name, namespace, mode = "create" }: {
+  public async createDatabase({ name, namespace, mode = "create", signal, timeoutMs }: {
     name: string;
     namespace?: string[];
     mode?: SqliteCreateMode;
-  }): Promise<void> {
-    const response = await this.invoke("create_database", { name, namespace: namespace ?? null, mode });
+  } & RequestOptions): Promise<void> {
+    const response = await this.invoke("create_database", { name, namespace: namespace ?? null, mode }, { signal, timeoutMs });
     if (!(response instanceof EmptyContent)) {
       throw this.unexpectedResponseError("create_database");
     }
   }
 
-  public async dropDatabase({ name, namespace, ignoreMissing = false }: {
+  public async dropDatabase({ name, namespace, ignoreMissing = false, signal, timeoutMs }: {
     name: string;
     namespace?: string[];
     ignoreMissing?: boolean;
-  }): Promise<void> {
-    const response = await this.invoke("drop_database", { name, namespace: namespace ?? null, ignore_missing: ignoreMissing });
+  } & RequestOptions): Promise<void> {
+    const response = await this.invoke("drop_database", { name, namespace: namespace ?? null, ignore_missing: ignoreMissing }, { signal, timeoutMs });
     if (!(response instanceof EmptyContent)) {
       throw this.unexpectedResponseError("drop_database");
     }
   }
 
-  public async inspectDatabase({ name, namespace }: { name: string; namespace?: string[] }): Promise<SqliteDatabaseDetails> {
-    const response = await this.invoke("inspect_database", { name, namespace: namespace ?? null });
+  public async inspectDatabase({ name, namespace, signal, timeoutMs }: { name: string; namespace?: string[] } & RequestOptions): Promise<SqliteDatabaseDetails> {
+    const response = await this.invoke("inspect_database", { name, namespace: namespace ?? null }, { signal, timeoutMs });
     if (!(response instanceof JsonContent) || typeof response.json.name !== "string" || typeof response.json.tables !== "number") {
       throw this.unexpectedResponseError("inspect_database");
     }
@@ -543,8 +544,8 @@ export class SqliteClient {
     };
   }
 
-  public async listTables({ database, namespace }: { database: string; namespace?: string[] }): Promise<string[]> {
-    const response = await this.invoke("list_tables", { database, namespace: namespace ?? null });
+  public async listTables({ database, namespace, signal, timeoutMs }: { database: string; namespace?: string[] } & RequestOptions): Promise<string[]> {
+    const response = await this.invoke("list_tables", { database, namespace: namespace ?? null }, { signal, timeoutMs });
     if (!(response instanceof JsonContent) || !isStringArray(response.json.tables)) {
       throw this.unexpectedResponseError("list_tables");
     }
@@ -558,6 +559,8 @@ export class SqliteClient {
     schema,
     mode = "create",
     namespace,
+    signal,
+    timeoutMs,
   }: {
     database: string;
     name: string;
@@ -565,7 +568,7 @@ export class SqliteClient {
     schema?: Schema;
     mode?: SqliteCreateMode;
     namespace?: string[];
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     const input = new SqliteArrowWriteInputStream(
       {
         kind: "start",
@@ -577,17 +580,17 @@ export class SqliteClient {
       data ?? [],
       schema,
     );
-    await this.drainWriteStream("create_table", input);
+    await this.drainWriteStream("create_table", input, { signal, timeoutMs });
   }
 
-  public async createTableWithSchema({ database, name, schema, data, mode = "create", namespace }: {
+  public async createTableWithSchema({ database, name, schema, data, mode = "create", namespace, signal, timeoutMs }: {
     database: string;
     name: string;
     schema?: Schema;
     data?: Iterable<Table> | Table;
     mode?: SqliteCreateMode;
     namespace?: string[];
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     return this.createTable({
       database,
       name,
@@ -595,87 +598,91 @@ export class SqliteClient {
       data: data == null ? undefined : data instanceof Table ? [data] : data,
       mode,
       namespace,
+      signal,
+      timeoutMs,
     });
   }
 
-  public async createTableFromData({ database, name, data, mode = "create", namespace }: {
+  public async createTableFromData({ database, name, data, mode = "create", namespace, signal, timeoutMs }: {
     database: string;
     name: string;
     data?: Iterable<Table> | Table;
     mode?: SqliteCreateMode;
     namespace?: string[];
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     return this.createTable({
       database,
       name,
       data: data == null ? undefined : data instanceof Table ? [data] : data,
       mode,
       namespace,
+      signal,
+      timeoutMs,
     });
   }
 
-  public async createTableFromArrowTable({ database, name, table, mode = "create", namespace }: {
+  public async createTableFromArrowTable({ database, name, table, mode = "create", namespace, signal, timeoutMs }: {
     database: string;
     name: string;
     table: Table;
     mode?: SqliteCreateMode;
     namespace?: string[];
-  }): Promise<void> {
-    return this.createTableWithSchema({ database, name, schema: table.schema, data: table, mode, namespace });
+  } & RequestOptions): Promise<void> {
+    return this.createTableWithSchema({ database, name, schema: table.schema, data: table, mode, namespace, signal, timeoutMs });
   }
 
-  public async createTableFromArrowBatches({ database, name, batches, mode = "create", namespace }: {
+  public async createTableFromArrowBatches({ database, name, batches, mode = "create", namespace, signal, timeoutMs }: {
     database: string;
     name: string;
     batches: ArrowTableChunks;
     mode?: SqliteCreateMode;
     namespace?: string[];
-  }): Promise<void> {
-    return this.createTable({ database, name, data: batches, mode, namespace });
+  } & RequestOptions): Promise<void> {
+    return this.createTable({ database, name, data: batches, mode, namespace, signal, timeoutMs });
   }
 
-  public async dropTable({ database, name, ignoreMissing = false, namespace }: {
+  public async dropTable({ database, name, ignoreMissing = false, namespace, signal, timeoutMs }: {
     database: string;
     name: string;
     ignoreMissing?: boolean;
     namespace?: string[];
-  }): Promise<void> {
-    const response = await this.invoke("drop_table", { database, name, ignore_missing: ignoreMissing, namespace: namespace ?? null });
+  } & RequestOptions): Promise<void> {
+    const response = await this.invoke("drop_table", { database, name, ignore_missing: ignoreMissing, namespace: namespace ?? null }, { signal, timeoutMs });
     if (!(response instanceof EmptyContent)) {
       throw this.unexpectedResponseError("drop_table");
     }
   }
 
-  public async renameTable({ database, name, newName, namespace }: {
+  public async renameTable({ database, name, newName, namespace, signal, timeoutMs }: {
     database: string;
     name: string;
     newName: string;
     namespace?: string[];
-  }): Promise<void> {
-    const response = await this.invoke("rename_table", { database, name, new_name: newName, namespace: namespace ?? null });
+  } & RequestOptions): Promise<void> {
+    const response = await this.invoke("rename_table", { database, name, new_name: newName, namespace: namespace ?? null }, { signal, timeoutMs });
     if (!(response instanceof EmptyContent)) {
       throw this.unexpectedResponseError("rename_table");
     }
   }
 
-  public async inspect({ database, table, namespace }: {
+  public async inspect({ database, table, namespace, signal, timeoutMs }: {
     database: string;
     table: string;
     namespace?: string[];
-  }): Promise<Schema> {
-    const response = await this.invoke("inspect", { database, table, namespace: namespace ?? null });
+  } & RequestOptions): Promise<Schema> {
+    const response = await this.invoke("inspect", { database, table, namespace: namespace ?? null }, { signal, timeoutMs });
     if (!(response instanceof BinaryContent)) {
       throw this.unexpectedResponseError("inspect");
     }
     return schemaFromIPCBytes(response.data);
   }
 
-  public async addColumns({ database, table, newColumns, namespace }: {
+  public async addColumns({ database, table, newColumns, namespace, signal, timeoutMs }: {
     database: string;
     table: string;
     newColumns: Schema;
     namespace?: string[];
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     const response = await this.invokeContent("add_columns", new BinaryContent({
       data: schemaToIPC(newColumns),
       headers: {
@@ -684,74 +691,74 @@ export class SqliteClient {
         namespace: namespace ?? null,
         content_type: ARROW_IPC_STREAM_MIME_TYPE,
       },
-    }));
+    }), { signal, timeoutMs });
     if (!(response instanceof EmptyContent)) {
       throw this.unexpectedResponseError("add_columns");
     }
   }
 
-  public async addColumnsWithSchema({ database, table, schema, namespace }: {
+  public async addColumnsWithSchema({ database, table, schema, namespace, signal, timeoutMs }: {
     database: string;
     table: string;
     schema: Schema;
     namespace?: string[];
-  }): Promise<void> {
-    return this.addColumns({ database, table, newColumns: schema, namespace });
+  } & RequestOptions): Promise<void> {
+    return this.addColumns({ database, table, newColumns: schema, namespace, signal, timeoutMs });
   }
 
-  public async dropColumns({ database, table, columns, namespace }: {
+  public async dropColumns({ database, table, columns, namespace, signal, timeoutMs }: {
     database: string;
     table: string;
     columns: string[];
     namespace?: string[];
-  }): Promise<void> {
-    const response = await this.invoke("drop_columns", { database, table, columns, namespace: namespace ?? null });
+  } & RequestOptions): Promise<void> {
+    const response = await this.invoke("drop_columns", { database, table, columns, namespace: namespace ?? null }, { signal, timeoutMs });
     if (!(response instanceof EmptyContent)) {
       throw this.unexpectedResponseError("drop_columns");
     }
   }
 
-  public async insert({ database, table, records, namespace }: {
+  public async insert({ database, table, records, namespace, signal, timeoutMs }: {
     database: string;
     table: string;
     records: Table;
     namespace?: string[];
-  }): Promise<void> {
-    await this.insertStream({ database, table, chunks: [records], namespace });
+  } & RequestOptions): Promise<void> {
+    await this.insertStream({ database, table, chunks: [records], namespace, signal, timeoutMs });
   }
 
-  public async insertTable({ database, table, records, namespace }: {
+  public async insertTable({ database, table, records, namespace, signal, timeoutMs }: {
     database: string;
     table: string;
     records: Table;
     namespace?: string[];
-  }): Promise<void> {
-    await this.insert({ database, table, records, namespace });
+  } & RequestOptions): Promise<void> {
+    await this.insert({ database, table, records, namespace, signal, timeoutMs });
   }
 
-  public async insertStream({ database, table, chunks, namespace }: {
+  public async insertStream({ database, table, chunks, namespace, signal, timeoutMs }: {
     database: string;
     table: string;
     chunks: ArrowTableChunks;
     namespace?: string[];
-  }): Promise<void> {
+  } & RequestOptions): Promise<void> {
     const input = new SqliteArrowWriteInputStream({
       kind: "start",
       database,
       table,
       namespace: namespace ?? null,
     }, chunks);
-    await this.drainWriteStream("insert", input);
+    await this.drainWriteStream("insert", input, { signal, timeoutMs });
   }
 
-  public async update({ database, table, where, values, params, namespace }: {
+  public async update({ database, table, where, values, params, namespace, signal, timeoutMs }: {
     database: string;
     table: string;
     where: string;
     values: DatasetRecord;
     params?: unknown;
     namespace?: string[];
-  }): Promise<number> {
+  } & RequestOptions): Promise<number> {
     const response = await this.invoke("update", {
       database,
       table,
@@ -759,28 +766,28 @@ export class SqliteClient {
       values: Object.entries(values).map(([column, value]) => ({ column, value_json: JSON.stringify(encodeRecordValue(value)) })),
       params: params ?? null,
       namespace: namespace ?? null,
-    });
+    }, { signal, timeoutMs });
     if (!(response instanceof JsonContent) || typeof response.json.rows_affected !== "number") {
       throw this.unexpectedResponseError("update");
     }
     return response.json.rows_affected;
   }
 
-  public async delete({ database, table, where, params, namespace }: {
+  public async delete({ database, table, where, params, namespace, signal, timeoutMs }: {
     database: string;
     table: string;
     where: string;
     params?: unknown;
     namespace?: string[];
-  }): Promise<number> {
-    const response = await this.invoke("delete", { database, table, where, params: params ?? null, namespace: namespace ?? null });
+  } & RequestOptions): Promise<number> {
+    const response = await this.invoke("delete", { database, table, where, params: params ?? null, namespace: namespace ?? null }, { signal, timeoutMs });
     if (!(response instanceof JsonContent) || typeof response.json.rows_affected !== "number") {
       throw this.unexpectedResponseError("delete");
     }
     return response.json.rows_affected;
   }
 
-  public async search({ database, table, where, params, offset, limit, select, namespace }: {
+  public async search({ database, table, where, params, offset, limit, select, namespace, signal, timeoutMs }: {
     database: string;
     table: string;
     where?: SqliteWhere;
@@ -789,15 +796,15 @@ export class SqliteClient {
     limit?: number;
     select?: string[];
     namespace?: string[];
-  }): Promise<Table[]> {
+  } & RequestOptions): Promise<Table[]> {
     const results: Table[] = [];
-    for await (const chunk of this.searchStream({ database, table, where, params, offset, limit, select, namespace })) {
+    for await (const chunk of this.searchStream({ database, table, where, params, offset, limit, select, namespace, signal, timeoutMs })) {
       results.push(chunk);
     }
     return results;
   }
 
-  public async searchTable({ database, table, where, params, offset, limit, select, namespace }: {
+  public async searchTable({ database, table, where, params, offset, limit, select, namespace, signal, timeoutMs }: {
     database: string;
     table: string;
     where?: SqliteWhere;
@@ -806,11 +813,11 @@ export class SqliteClient {
     limit?: number;
     select?: string[];
     namespace?: string[];
-  }): Promise<Table> {
-    return tableFromChunks(await this.search({ database, table, where, params, offset, limit, select, namespace }));
+  } & RequestOptions): Promise<Table> {
+    return tableFromChunks(await this.search({ database, table, where, params, offset, limit, select, namespace, signal, timeoutMs }));
   }
 
-  public async *searchStream({ database, table, where, params, offset, limit, select, namespace }: {
+  public async *searchStream({ database, table, where, params, offset, limit, select, namespace, signal, timeoutMs }: {
     database: string;
     table: string;
     where?: SqliteWhere;
@@ -819,7 +826,7 @@ export class SqliteClient {
     limit?: number;
     select?: string[];
     namespace?: string[];
-  }): AsyncIterable<Table> {
+  } & RequestOptions): AsyncIterable<Table> {
     yield* this.streamArrow("search", {
       kind: "start",
       database,
@@ -830,61 +837,61 @@ export class SqliteClient {
       limit: limit ?? null,
       select: select ?? null,
       namespace: namespace ?? null,
-    });
+    }, { signal, timeoutMs });
   }
 
-  public async count({ database, table, where, params, namespace }: {
+  public async count({ database, table, where, params, namespace, signal, timeoutMs }: {
     database: string;
     table: string;
     where?: SqliteWhere;
     params?: unknown;
     namespace?: string[];
-  }): Promise<number> {
+  } & RequestOptions): Promise<number> {
     const response = await this.invoke("count", {
       database,
       table,
       where: buildWhereClause(where),
       params: params ?? null,
       namespace: namespace ?? null,
-    });
+    }, { signal, timeoutMs });
     if (!(response instanceof JsonContent) || typeof response.json.count !== "number" || !Number.isInteger(response.json.count)) {
       throw this.unexpectedResponseError("count");
     }
     return response.json.count;
   }
 
-  public async sql({ database, query, params, namespace }: {
+  public async sql({ database, query, params, namespace, signal, timeoutMs }: {
     database: string;
     query: string;
     params?: unknown;
     namespace?: string[];
-  }): Promise<Table[]> {
+  } & RequestOptions): Promise<Table[]> {
     const results: Table[] = [];
-    for await (const chunk of this.sqlStream({ database, query, params, namespace })) {
+    for await (const chunk of this.sqlStream({ database, query, params, namespace, signal, timeoutMs })) {
       results.push(chunk);
     }
     return results;
   }
 
-  public async sqlTable({ database, query, params, namespace }: {
+  public async sqlTable({ database, query, params, namespace, signal, timeoutMs }: {
     database: string;
     query: string;
     params?: unknown;
     namespace?: string[];
-  }): Promise<Table> {
-    return tableFromChunks(await this.sql({ database, query, params, namespace }));
+  } & RequestOptions): Promise<Table> {
+    return tableFromChunks(await this.sql({ database, query, params, namespace, signal, timeoutMs }));
   }
 
-  public async openSqlQuery({ database, query, params, namespace }: {
+  public async openSqlQuery({ database, query, params, namespace, signal, timeoutMs }: {
     database: string;
     query: string;
     params?: unknown;
     namespace?: string[];
-  }): Promise<SqliteSqlQuery> {
+  } & RequestOptions): Promise<SqliteSqlQuery> {
     const response = await this.invokeContent("open_sql_query", new BinaryContent({
       data: new Uint8Array(),
       headers: { database, query, params: params ?? null, namespace: namespace ?? null },
-    }));
+    }), { signal, timeoutMs });
     if (!(response instanceof BinaryContent)) {
       throw this.unexpectedResponseError("open_sql_query");
     }
@@ -899,16 +906,16 @@ export class SqliteClient {
     };
   }
 
-  public async executeSql({ database, query, params, namespace }: {
+  public async executeSql({ database, query, params, namespace, signal, timeoutMs }: {
     database: string;
     query: string;
     params?: unknown;
     namespace?: string[];
-  }): Promise<SqliteSqlExecution> {
+  } & RequestOptions): Promise<SqliteSqlExecution> {
     const response = await this.invokeContent("execute_sql", new BinaryContent({
       data: new Uint8Array(),
       headers: { database, query, params: params ?? null, namespace: namespace ?? null },
-    }));
+    }), { signal, timeoutMs });
     if (response instanceof BinaryContent) {
       if (response.headers.kind !== "query") {
         throw this.unexpectedResponseError("execute_sql");
@@ -937,36 +944,36 @@ export class SqliteClient {
     throw this.unexpectedResponseError("execute_sql");
   }
 
-  public async *sqlStream({ database, query, params, namespace }: {
+  public async *sqlStream({ database, query, params, namespace, signal, timeoutMs }: {
     database: string;
     query: string;
     params?: unknown;
     namespace?: string[];
-  }): AsyncIterable<Table> {
-    const result = await this.executeSql({ database, query, params, namespace });
+  } & RequestOptions): AsyncIterable<Table> {
+    const result = await this.executeSql({ database, query, params, namespace, signal, timeoutMs });
     if (result.kind === "statement") {
       throw new RoomServerException(`SQL statement did not return rows; rows_affected=${result.rowsAffected}`);
     }
     try {
-      yield* this.readSqlQuery({ queryId: result.queryId });
+      yield* this.readSqlQuery({ queryId: result.queryId, signal, timeoutMs });
     } finally {
       await this.closeSqlQuery({ queryId: result.queryId });
     }
   }
 
-  public async *readSqlQuery({ queryId }: { queryId: string }): AsyncIterable<Table> {
-    yield* this.streamArrow("read_sql_query", { kind: "start", query_id: queryId });
+  public async *readSqlQuery({ queryId, signal, timeoutMs }: { queryId: string } & RequestOptions): AsyncIterable<Table> {
+    yield* this.streamArrow("read_sql_query", { kind: "start", query_id: queryId }, { signal, timeoutMs });
   }
 
-  public async closeSqlQuery({ queryId }: { queryId: string }): Promise<void> {
-    const response = await this.invoke("close_sql_query", { query_id: queryId });
+  public async closeSqlQuery({ queryId, signal, timeoutMs }: { queryId: string } & RequestOptions): Promise<void> {
+    const response = await this.invoke("close_sql_query", { query_id: queryId }, { signal, timeoutMs });
     if (!(response instanceof EmptyContent)) {
       throw this.unexpectedResponseError("close_sql_query");
     }
   }
 
-  public async cancelSqlQuery({ queryId }: { queryId: string }): Promise<SqliteSqlCancelResult> {
-    const response = await this.invoke("cancel_sql_query", { query_id: queryId });
+  public async cancelSqlQuery({ queryId, signal, timeoutMs }: { queryId: string } & RequestOptions): Promise<SqliteSqlCancelResult> {
+    const response = await this.invoke("cancel_sql_query", { query_id: queryId }, { signal, timeoutMs });
     if (!(response instanceof JsonContent)
       || !["cancelled", "cancelling", "not_cancellable"].includes(response.json.status as string)) {
       throw this.unexpectedResponseError("cancel_sql_query");
@@ -974,16 +981,16 @@ export class SqliteClient {
     return { status: response.json.status as SqliteSqlCancelStatus };
   }
 
-  public async executeSqlStatement({ database, query, params, namespace }: {
+  public async executeSqlStatement({ database, query, params, namespace, signal, timeoutMs }: {
     database: string;
     query: string;
     params?: unknown;
     namespace?: string[];
-  }): Promise<number> {
+  } & RequestOptions): Promise<number> {
     const response = await this.invokeContent("execute_sql_statement", new BinaryContent({
       data: new Uint8Array(),
       headers: { database, query, params: params ?? null, namespace: namespace ?? null },
-    }));
+    }), { signal, timeoutMs });
     if (!(response instanceof JsonContent)
       || typeof response.json.rows_affected !== "number"
       || !Number.isInteger(response.json.rows_affected)) {
@@ -2,6 +2,7 @@
 
 import { RoomClient } from "./room-client.js";
 import { Protocol } from "./protocol.js";
+import type { RequestOptions } from "./request-options.js";
 import { FileDeletedEvent, FileMovedEvent, FileUpdatedEvent, RoomEvent } from "./room-event.js";
 import { BinaryContent, ControlContent, ErrorContent, JsonContent, FileContent } from "./response.js";
 import type { Content } from "./response.js";
@@ -189,19 +190,22 @@ export class StorageClient extends EventEmitter<RoomEvent> {
   private async _invoke(
     operation: string,
     input: Record<string, any> | Content,
+    options: RequestOptions = {},
   ): Promise<Content> {
     return await this.client.invokeContent({
       toolkit: "storage",
       tool: operation,
       input,
+      signal: options.signal,
+      timeoutMs: options.timeoutMs,
     });
   }
 
   /**
    * Lists files in the given path, returning an array of StorageEntry objects.
    */
-  public async list(path: string): Promise<StorageEntry[]> {
-    const response = await this._invoke("list", { path });
+  public async list(path: string, options: RequestOptions = {}): Promise<StorageEntry[]> {
+    const response = await this._invoke("list", { path }, options);
     if (!(response instanceof JsonContent) || !Array.isArray(response.json["files"])) {
       throw this._unexpectedResponseError("list");
     }
@@ -211,8 +215,8 @@ export class StorageClient extends EventEmitter<RoomEvent> {
     return entries;
   }
 
-  public async stat(path: string): Promise<StorageEntry | null> {
-    const response = await this._invoke("stat", { path });
+  public async stat(path: string, options: RequestOptions = {}): Promise<StorageEntry | null> {
+    const response = await this._invoke("stat", { path }, options);
     if (!(response instanceof JsonContent) || typeof response.json["exists"] !== "boolean") {
       throw this._unexpectedResponseError("stat");
     }
@@ -229,11 +233,13 @@ export class StorageClient extends EventEmitter<RoomEvent> {
     path: string,
     {
       recursive = null,
+      signal,
+      timeoutMs,
     }: {
       recursive?: boolean | null;
-    } = {},
+    } & RequestOptions = {},
   ): Promise<void> {
-    await this._invoke("delete", { path, recursive });
+    await this._invoke("delete", { path, recursive }, { signal, timeoutMs });
   }
 
   public async move(
@@ -241,22 +247,24 @@ export class StorageClient extends EventEmitter<RoomEvent> {
     destinationPath: string,
     {
       overwrite = false,
+      signal,
+      timeoutMs,
     }: {
       overwrite?: boolean;
-    } = {},
+    } & RequestOptions = {},
   ): Promise<void> {
     await this._invoke("move", {
       source_path: sourcePath,
       destination_path: destinationPath,
       overwrite,
-    });
+    }, { signal, timeoutMs });
   }
 
   /**
    * Checks if a path exists in storage.
    */
-  public async exists(path: string): Promise<boolean> {
-    const result = await this._invoke("exists", { path });
+  public async exists(path: string, options: RequestOptions = {}): Promise<boolean> {
+    const result = await this._invoke("exists", { path }, options);
     if (!(result instanceof JsonContent)) {
       throw this._unexpectedResponseError("exists");
     }
@@ -297,11 +305,13 @@ export class StorageClient extends EventEmitter<RoomEvent> {
       overwrite = false,
       name,
       mimeType = null,
+      signal,
+      timeoutMs,
     }: {
       overwrite?: boolean;
       name?: string | null;
       mimeType?: string | null;
-    } = {},
+    } & RequestOptions = {},
   ): Promise<void> {
     async function* singleChunk(): AsyncIterable<Uint8Array> {
       yield bytes;
@@ -314,6 +324,8 @@ export class StorageClient extends EventEmitter<RoomEvent> {
         size: bytes.length,
         name,
         mimeType,
+        signal,
+        timeoutMs,
       },
     );
   }
@@ -327,13 +339,15 @@ export class StorageClient extends EventEmitter<RoomEvent> {
       size = null,
       name,
       mimeType = null,
+      signal,
+      timeoutMs,
     }: {
       overwrite?: boolean;
       chunkSize?: number;
       size?: number | null;
       name?: string | null;
       mimeType?: string | null;
-    } = {},
+    } & RequestOptions = {},
   ): Promise<void> {
     const resolvedName = this._defaultUploadName(path, name);
     const resolvedMimeType = this._defaultUploadMimeType(resolvedName, mimeType);
@@ -350,6 +364,8 @@ export class StorageClient extends EventEmitter<RoomEvent> {
       toolkit: "storage",
       tool: "upload",
       input: input.stream(),
+      signal,
+      timeoutMs,
     });
 
     try {
@@ -384,8 +400,8 @@ export class StorageClient extends EventEmitter<RoomEvent> {
   /**
    * Downloads a file at the given path, returning a FileContent (which may contain its data).
    */
-  public async download(path: string): Promise<FileContent> {
-    const stream = await this.downloadStream(path);
+  public async download(path: string, options: RequestOptions = {}): Promise<FileContent> {
+    const stream = await this.downloadStream(path, options);
     let name: string | null = null;
     let mimeType: string | null = null;
     let expectedSize: number | null = null;
@@ -438,15 +454,19 @@ export class StorageClient extends EventEmitter<RoomEvent> {
     path: string,
     {
       chunkSize = 64 * 1024,
+      signal,
+      timeoutMs,
     }: {
       chunkSize?: number;
-    } = {},
+    } & RequestOptions = {},
   ): Promise<AsyncIterable<BinaryContent>> {
     const input = new _StorageDownloadInputStream({ path, chunkSize });
     const response = await this.client.invokeStream({
       toolkit: "storage",
       tool: "download",
       input: input.stream(),
+      signal,
+      timeoutMs,
     });
 
     const self = this;
@@ -523,12 +543,12 @@ export class StorageClient extends EventEmitter<RoomEvent> {
    */
   public async downloadUrl(
     path: string,
-    options: { download?: boolean } = {},
+    options: { download?: boolean } & RequestOptions = {},
   ): Promise<string> {
     const response = await this._invoke("download_url", {
       path,
       download: options.download ?? false,
-    });
+    }, options);
     if (!(response instanceof JsonContent)) {
       throw this._unexpectedResponseError("download_url");
     }
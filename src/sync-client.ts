@@ -1,10 +1,25 @@
+import { v4 as uuidv4 } from "uuid";
+
 import { Completer } from "./completer.js";
+import { DocumentAwareness, type DocumentAwarenessOptions } from "./document-awareness.js";
+import type { DocumentPersistence } from "./document-persistence.js";
+import {
+  diffDocuments,
+  replaceDocumentContent,
+  snapshotFolder,
+  snapshotFromJson,
+  snapshotToJson,
+  type DocumentDifference,
+  type DocumentSnapshot,
+} from "./document-snapshot.js";
+import type { UndoOptions } from "./document-undo.js";
 import { EventEmitter } from "./event-emitter.js";
 import { MeshSchema } from "./schema.js";
+import type { MigrationResult, SchemaMigrator } from "./schema-migration.js";
 import { BinaryContent, ControlContent, ErrorContent, type Content } from "./response.js";
 import { RoomClient } from "./room-client.js";
 import { MeshDocument, RoomServerException } from "./room-server-client.js";
-import { applyBackendChanges, unregisterDocument } from "./runtime.js";
+import { applyBackendChanges, mergeDocumentUpdates, unregisterDocument } from "./runtime.js";
 import { decoder, encoder, RefCount } from "./utils.js";
 
 function normalizeSyncPath(path: string): string {
@@ -190,11 +205,27 @@ export class SyncClient extends EventEmitter<SyncClientEvent> {
   private readonly _connectedDocuments: Record<string, RefCount<MeshDocument>> = {};
   private readonly _documentStreams: Record<string, SyncOpenStreamState> = {};
   private readonly _documentConfigs: Record<string, SyncOpenDocumentConfig> = {};
+  private readonly _offlineUpdates: Record<string, string[]> = {};
+  private readonly _documentWatchers: Record<string, () => void> = {};
+  private readonly _persistTimers: Record<string, ReturnType<typeof setTimeout>> = {};
+  private readonly persistence?: DocumentPersistence;
+  private readonly persistDelayMs: number;
   private _started = false;
 
-  constructor({ room }: { room: RoomClient }) {
+  /**
+   * With `persistence`, open documents are cached locally: reopening a cached document only fetches the changes
+   * made since it was saved, and edits made while the room is disconnected survive until they can be sent.
+   * Documents are saved `persistDelayMs` after they change, when the room disconnects and when they are closed.
+   */
+  constructor({ room, persistence, persistDelayMs = 500 }: {
+    room: RoomClient;
+    persistence?: DocumentPersistence;
+    persistDelayMs?: number;
+  }) {
     super();
     this.room = room;
+    this.persistence = persistence;
+    this.persistDelayMs = persistDelayMs;
   }
 
   public start(): void {
@@ -210,8 +241,15 @@ export class SyncClient extends EventEmitter<SyncClientEvent> {
       streamState.closeInputStream();
     }
     for (const doc of Object.values(this._connectedDocuments)) {
+      doc.ref.awareness?.dispose();
       unregisterDocument(doc.ref.id);
     }
+    for (const timer of Object.values(this._persistTimers)) {
+      clearTimeout(timer);
+    }
+    Object.keys(this._persistTimers).forEach((key) => delete this._persistTimers[key]);
+    Object.keys(this._offlineUpdates).forEach((key) => delete this._offlineUpdates[key]);
+    Object.keys(this._documentWatchers).forEach((key) => delete this._documentWatchers[key]);
     Object.keys(this._documentStreams).forEach((key) => delete this._documentStreams[key]);
     Object.keys(this._documentConfigs).forEach((key) => delete this._documentConfigs[key]);
     Object.keys(this._connectedDocuments).forEach((key) => delete this._connectedDocuments[key]);
@@ -241,6 +279,64 @@ export class SyncClient extends EventEmitter<SyncClientEvent> {
     }
   }
 
+  private _sendOrBuffer(path: string, base64: string): void {
+    const currentStream = this._documentStreams[path];
+    if (currentStream != null) {
+      try {
+        currentStream.queueSync(encoder.encode(base64));
+        return;
+      } catch {
+      }
+    }
+    // Keep edits made while the stream is down and send them once the document is reopened.
+    (this._offlineUpdates[path] ??= []).push(base64);
+  }
+
+  private _flushOfflineUpdates(path: string): void {
+    const updates = this._offlineUpdates[path];
+    const currentStream = this._documentStreams[path];
+    if (updates == null || updates.length === 0 || currentStream == null) {
+      return;
+    }
+    currentStream.queueSync(encoder.encode(mergeDocumentUpdates(updates)));
+    delete this._offlineUpdates[path];
+    this._schedulePersist(path);
+  }
+
+  private _schedulePersist(path: string): void {
+    if (this.persistence == null || this._persistTimers[path] != null) {
+      return;
+    }
+    this._persistTimers[path] = setTimeout(() => {
+      delete this._persistTimers[path];
+      const rc = this._connectedDocuments[path];
+      if (rc != null) {
+        void this._persist(path, rc.ref);
+      }
+    }, this.persistDelayMs);
+  }
+
+  private async _persist(path: string, doc: MeshDocument): Promise<void> {
+    const timer = this._persistTimers[path];
+    if (timer != null) {
+      clearTimeout(timer);
+      delete this._persistTimers[path];
+    }
+    if (this.persistence == null) {
+      return;
+    }
+    const updates = this._offlineUpdates[path];
+    try {
+      await this.persistence.save(path, {
+        state: doc.getState(),
+        stateVector: doc.getStateVector(),
+        pendingUpdate: updates == null || updates.length === 0 ? null : mergeDocumentUpdates(updates),
+      });
+    } catch (error) {
+      console.warn(`unable to persist document ${path}`, error);
+    }
+  }
+
   public async create(path: string, json?: Record<string, unknown>): Promise<void> {
     const normalizedPath = normalizeSyncPath(path);
     await this._invoke("create", {
@@ -257,12 +353,48 @@ export class SyncClient extends EventEmitter<SyncClientEvent> {
       create = true,
       initialJson,
       schema,
+      undo,
+      migrator,
+      awareness,
     }: {
       create?: boolean;
       initialJson?: Record<string, unknown>;
       schema?: MeshSchema;
+
+      /**
+       * Enables an undo manager for local edits. Only applies when this call opens the document; callers that
+       * share an already open document get it as it was first opened.
+       */
+      undo?: boolean | UndoOptions;
+
+      /**
+       * Migrates the document to the migrator's schema version when it is opened. The migration is sent to the
+       * room as one update, and the document uses the migrator's schema.
+       */
+      migrator?: SchemaMigrator;
+
+      /**
+       * Shares presence with the other participants that have the document open, through `doc.awareness`. Off by
+       * default, since an open document with awareness broadcasts to the whole room. Like `undo`, it only applies
+       * when this call opens the document.
+       */
+      awareness?: boolean | DocumentAwarenessOptions;
     } = {},
   ): Promise<MeshDocument> {
+    return (await this._open(path, { create, initialJson, schema, undo, migrator, awareness })).doc;
+  }
+
+  private async _open(
+    path: string,
+    { create, initialJson, schema, undo, migrator, awareness }: {
+      create: boolean;
+      initialJson?: Record<string, unknown>;
+      schema?: MeshSchema;
+      undo?: boolean | UndoOptions;
+      migrator?: SchemaMigrator;
+      awareness?: boolean | DocumentAwarenessOptions;
+    },
+  ): Promise<{ doc: MeshDocument; migration: MigrationResult | null }> {
     const normalizedPath = normalizeSyncPath(path);
     const closing = this._closingDocuments[normalizedPath];
     if (closing != null) {
@@ -276,8 +408,9 @@ export class SyncClient extends EventEmitter<SyncClientEvent> {
 
     const connected = this._connectedDocuments[normalizedPath];
     if (connected != null) {
+      const migration = migrator?.migrate(connected.ref) ?? null;
       connected.count += 1;
-      return connected.ref;
+      return { doc: connected.ref, migration };
     }
 
     const connecting = new Completer<RefCount<MeshDocument>>();
@@ -289,42 +422,74 @@ export class SyncClient extends EventEmitter<SyncClientEvent> {
         schemaJson: schema?.toJson() ?? null,
         schemaPath: null,
       };
+      const cached = this.persistence == null ? null : await this.persistence.load(normalizedPath);
       const openResult = await this._openStream({
         path: normalizedPath,
         config,
-        vector: null,
+        vector: cached?.stateVector ?? null,
         initialJson: initialJson ?? null,
       });
-      const resolvedSchema = MeshSchema.fromJson(openResult.stateHeaders.schema as Record<string, any>);
+      const storedSchema = MeshSchema.fromJson(openResult.stateHeaders.schema as Record<string, any>);
+      const states = cached == null ? [] : [cached.state];
+      if (openResult.firstChunk.data.length > 0) {
+        states.push(decoder.decode(openResult.firstChunk.data));
+      }
+      // Migrate a scratch copy first: the stored content may not load with the migrator's schema.
+      const migrated = migrator?.migrateState(storedSchema, states) ?? null;
+      let restoring = cached != null || migrated != null;
       const doc = new MeshDocument({
-        schema: resolvedSchema,
+        schema: migrator?.schema ?? storedSchema,
+        undo,
+        awareness: awareness === undefined || awareness === false
+          ? undefined
+          : new DocumentAwareness({ room: this.room, path: normalizedPath, ...(awareness === true ? {} : awareness) }),
         sendChangesToBackend: (base64: string) => {
-          const currentStream = this._documentStreams[normalizedPath];
-          if (currentStream == null) {
-            return;
-          }
-          try {
-            currentStream.queueSync(encoder.encode(base64));
-          } catch {
+          // the cached state is restored locally; only its pending edits are sent
+          if (!restoring) {
+            this._sendOrBuffer(normalizedPath, base64);
           }
         },
       });
+      if (migrated != null) {
+        applyBackendChanges(doc.id, migrated.state);
+      } else if (cached != null) {
+        applyBackendChanges(doc.id, cached.state);
+      }
+      restoring = false;
+      if (cached?.pendingUpdate != null) {
+        this._offlineUpdates[normalizedPath] = [cached.pendingUpdate];
+      }
+      if (migrated?.update != null) {
+        (this._offlineUpdates[normalizedPath] ??= []).push(migrated.update);
+      }
       const rc = new RefCount<MeshDocument>(doc);
       this._connectedDocuments[normalizedPath] = rc;
       this._documentConfigs[normalizedPath] = config;
       this._documentStreams[normalizedPath] = openResult.streamState;
       this._applySyncPayload(rc, openResult.firstChunk.data);
+      this._flushOfflineUpdates(normalizedPath);
       this._attachStreamConsumer({
         path: normalizedPath,
         doc: rc,
         streamState: openResult.streamState,
         iterator: openResult.iterator,
       });
+      if (this.persistence != null) {
+        const watcher = () => this._schedulePersist(normalizedPath);
+        this._documentWatchers[normalizedPath] = watcher;
+        doc.on("updated", watcher);
+        this._schedulePersist(normalizedPath);
+      }
+
+      doc.awareness?.start();
 
       this.emit("connected", { type: "connect", doc });
       connecting.complete(rc);
       await doc.synchronized;
-      return doc;
+      return {
+        doc,
+        migration: migrated == null ? null : { fromVersion: migrated.fromVersion, toVersion: migrated.toVersion },
+      };
     } catch (error) {
       connecting.completeError(error);
       throw error;
@@ -346,8 +511,17 @@ export class SyncClient extends EventEmitter<SyncClientEvent> {
       delete this._documentConfigs[normalizedPath];
       const streamState = this._documentStreams[normalizedPath];
       delete this._documentStreams[normalizedPath];
+      const watcher = this._documentWatchers[normalizedPath];
+      if (watcher != null) {
+        rc.ref.off("updated", watcher);
+        delete this._documentWatchers[normalizedPath];
+      }
+
+      rc.ref.awareness?.dispose();
 
       const closeFuture = (async () => {
+        await this._persist(normalizedPath, rc.ref);
+        delete this._offlineUpdates[normalizedPath];
         if (streamState != null) {
           streamState.closeInputStream();
           try {
@@ -385,6 +559,182 @@ export class SyncClient extends EventEmitter<SyncClientEvent> {
     streamState.queueSync(data);
   }
 
+  /**
+   * Opens every document under `folder` whose name ends with one of `extensions` and migrates it with
+   * `migrator`. Hidden folders, such as snapshot folders, are skipped. Returns the documents that were migrated.
+   */
+  public async migrateDocuments(
+    migrator: SchemaMigrator,
+    { folder = "", extensions }: { folder?: string; extensions: string[] },
+  ): Promise<Array<MigrationResult & { path: string }>> {
+    const migrated: Array<MigrationResult & { path: string }> = [];
+    const visit = async (current: string): Promise<void> => {
+      for (const entry of await this.room.storage.list(current)) {
+        if (entry.name.startsWith(".")) {
+          continue;
+        }
+        const path = current === "" ? entry.name : `${current}/${entry.name}`;
+        if (entry.isFolder) {
+          await visit(path);
+        } else if (extensions.some((extension) => entry.name.endsWith(extension))) {
+          const { migration } = await this._open(path, { create: false, migrator });
+          await this.close(path);
+          if (migration != null && migration.fromVersion !== migration.toVersion) {
+            migrated.push({ path, ...migration });
+          }
+        }
+      }
+    };
+    await visit(normalizeSyncPath(folder));
+    return migrated;
+  }
+
+  /**
+   * Saves the current state of the document at `path` as a named snapshot. Snapshots are stored in room storage
+   * next to the document, in a hidden `.<name>.snapshots` folder.
+   */
+  public async snapshot(path: string, label: string = ""): Promise<DocumentSnapshot> {
+    const normalizedPath = normalizeSyncPath(path);
+    const doc = await this.open(normalizedPath, { create: false });
+    try {
+      const createdAt = new Date();
+      const snapshot: DocumentSnapshot = {
+        id: `${createdAt.toISOString().replace(/[:.]/g, "-")}-${uuidv4().slice(0, 8)}`,
+        path: normalizedPath,
+        label,
+        createdAt,
+        createdBy: this.room.localParticipant?.id ?? null,
+      };
+      const folder = snapshotFolder(normalizedPath);
+      await this.room.storage.upload(`${folder}/${snapshot.id}.state`, encoder.encode(doc.getState()), {
+        mimeType: "application/octet-stream",
+      });
+      await this.room.storage.upload(
+        `${folder}/${snapshot.id}.json`,
+        encoder.encode(JSON.stringify(snapshotToJson(snapshot, doc.schema.toJson()))),
+        { mimeType: "application/json" },
+      );
+      return snapshot;
+    } finally {
+      await this.close(normalizedPath);
+    }
+  }
+
+  /**
+   * Lists the snapshots of the document at `path`, oldest first.
+   */
+  public async listSnapshots(path: string): Promise<DocumentSnapshot[]> {
+    const normalizedPath = normalizeSyncPath(path);
+    const folder = snapshotFolder(normalizedPath);
+    if (!(await this.room.storage.exists(folder))) {
+      return [];
+    }
+
+    const snapshots: DocumentSnapshot[] = [];
+    for (const entry of await this.room.storage.list(folder)) {
+      if (entry.isFolder || !entry.name.endsWith(".json")) {
+        continue;
+      }
+      const stored = await this._readSnapshot(normalizedPath, entry.name.slice(0, -".json".length));
+      if (stored != null) {
+        snapshots.push(stored.snapshot);
+      }
+    }
+    return snapshots.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Opens a snapshot as a read-only document that is not synchronized with the room. The caller owns the
+   * document and should dispose it when done.
+   */
+  public async openSnapshot(path: string, id: string): Promise<MeshDocument> {
+    const normalizedPath = normalizeSyncPath(path);
+    const stored = await this._readSnapshot(normalizedPath, id);
+    if (stored == null) {
+      throw new RoomServerException(`snapshot not found: ${id}`);
+    }
+
+    const state = await this.room.storage.download(`${snapshotFolder(normalizedPath)}/${id}.state`);
+    const doc = new MeshDocument({ schema: MeshSchema.fromJson(stored.schema), readOnly: true });
+    try {
+      applyBackendChanges(doc.id, decoder.decode(state.data));
+    } catch (error) {
+      doc.dispose();
+      throw error;
+    }
+    doc.setSynchronizedComplete();
+    return doc;
+  }
+
+  /**
+   * Replaces the content of the document at `path` with the content of a snapshot. The restore is sent as one
+   * update, so other participants see it as a normal edit and later snapshots are kept.
+   */
+  public async restore(path: string, id: string): Promise<void> {
+    const normalizedPath = normalizeSyncPath(path);
+    const snapshot = await this.openSnapshot(normalizedPath, id);
+    try {
+      const doc = await this.open(normalizedPath, { create: false });
+      try {
+        replaceDocumentContent(doc, snapshot);
+      } finally {
+        await this.close(normalizedPath);
+      }
+    } finally {
+      snapshot.dispose();
+    }
+  }
+
+  /**
+   * Lists the differences between two snapshots, or between a snapshot and the current document when `toId` is
+   * omitted.
+   */
+  public async diffSnapshots(path: string, fromId: string, toId?: string): Promise<DocumentDifference[]> {
+    const normalizedPath = normalizeSyncPath(path);
+    const from = await this.openSnapshot(normalizedPath, fromId);
+    try {
+      if (toId != null) {
+        const to = await this.openSnapshot(normalizedPath, toId);
+        try {
+          return diffDocuments(from, to);
+        } finally {
+          to.dispose();
+        }
+      }
+
+      const current = await this.open(normalizedPath, { create: false });
+      try {
+        return diffDocuments(from, current);
+      } finally {
+        await this.close(normalizedPath);
+      }
+    } finally {
+      from.dispose();
+    }
+  }
+
+  public async deleteSnapshot(path: string, id: string): Promise<void> {
+    const folder = snapshotFolder(normalizeSyncPath(path));
+    await this.room.storage.delete(`${folder}/${id}.json`);
+    await this.room.storage.delete(`${folder}/${id}.state`);
+  }
+
+  private async _readSnapshot(
+    path: string,
+    id: string,
+  ): Promise<{ snapshot: DocumentSnapshot; schema: Record<string, any> } | null> {
+    const file = `${snapshotFolder(path)}/${id}.json`;
+    if (!(await this.room.storage.exists(file))) {
+      return null;
+    }
+    const content = await this.room.storage.download(file);
+    try {
+      return snapshotFromJson(JSON.parse(decoder.decode(content.data)));
+    } catch {
+      return null;
+    }
+  }
+
   private async _consumeOpenStream({
     path,
     rc,
@@ -521,6 +871,10 @@ export class SyncClient extends EventEmitter<SyncClientEvent> {
     for (const streamState of openStreams) {
       streamState.closeInputStream();
     }
+    for (const rc of Object.values(this._connectedDocuments)) {
+      rc.ref.awareness?._onRoomDisconnect();
+    }
+    await Promise.all(Object.entries(this._connectedDocuments).map(([path, rc]) => this._persist(path, rc.ref)));
   }
 
   public async _onRoomReconnect(): Promise<void> {
@@ -538,6 +892,7 @@ export class SyncClient extends EventEmitter<SyncClientEvent> {
       });
       this._documentStreams[path] = openResult.streamState;
       this._applySyncPayload(ref, openResult.firstChunk.data);
+      this._flushOfflineUpdates(path);
       this._attachStreamConsumer({
         path,
         doc: ref,
@@ -0,0 +1,171 @@
+import { expect } from "chai";
+
+import { AWARENESS_MESSAGE_TYPE, DocumentAwareness, DocumentAwarenessEvent } from "../document-awareness.js";
+import { Element, TextElement } from "../document.js";
+import { resolveSelection } from "../document-position.js";
+import { InMemoryRoomServer } from "../in-memory-room-server.js";
+import { RoomClient } from "../room-client.js";
+import { RoomMessageEvent } from "../room-event.js";
+import { ChildProperty, ElementType, MeshSchema } from "../schema.js";
+
+const schema = new MeshSchema({
+  rootTagName: "note",
+  elements: [
+    new ElementType({
+      tagName: "note",
+      properties: [new ChildProperty({ name: "children", childTagNames: ["text"] })],
+    }),
+    new ElementType({
+      tagName: "text",
+      properties: [new ChildProperty({ name: "children", childTagNames: [] })],
+    }),
+  ],
+});
+
+async function waitUntil(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const started = Date.now();
+  while (!predicate()) {
+    if (Date.now() - started > timeoutMs) {
+      throw new Error("timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe("document_awareness_test", () => {
+  let server: InMemoryRoomServer;
+  let rooms: RoomClient[];
+
+  beforeEach(() => {
+    server = new InMemoryRoomServer();
+    rooms = [];
+  });
+
+  afterEach(() => {
+    for (const room of rooms) {
+      room.dispose();
+    }
+    server.dispose();
+  });
+
+  async function join(participantName: string): Promise<RoomClient> {
+    const room = new RoomClient({ protocolFactory: server.protocolFactory({ participantName }) });
+    await room.start();
+    rooms.push(room);
+    room.messaging.enable();
+    await waitUntil(() => room.messaging.online);
+    return room;
+  }
+
+  function record(awareness: DocumentAwareness): DocumentAwarenessEvent[] {
+    const events: DocumentAwarenessEvent[] = [];
+    for (const type of ["join", "update", "leave"]) {
+      awareness.on(type, (event) => events.push(event));
+    }
+    return events;
+  }
+
+  it("tracks who has the document open", async () => {
+    const alice = await join("alice");
+    const bob = await join("bob");
+    const aliceDoc = await alice.sync.open("notes/a.note", { schema, awareness: true });
+    const events = record(aliceDoc.awareness!);
+
+    const bobDoc = await bob.sync.open("notes/a.note", { schema, awareness: true });
+    await waitUntil(() => aliceDoc.awareness!.peers.length === 1 && bobDoc.awareness!.peers.length === 1);
+    expect(events.map((event) => event.type)).to.deep.equal(["join"]);
+    expect(events[0].peer.participantId).to.equal(bob.localParticipant!.id);
+    expect(bobDoc.awareness!.getPeer(alice.localParticipant!.id)).to.not.equal(null);
+
+    await bob.sync.close("notes/a.note");
+    await waitUntil(() => aliceDoc.awareness!.peers.length === 0);
+    expect(events.map((event) => event.type)).to.deep.equal(["join", "leave"]);
+    await alice.sync.close("notes/a.note");
+  });
+
+  it("shares selections and custom state", async () => {
+    const alice = await join("alice");
+    const bob = await join("bob");
+    const aliceDoc = await alice.sync.open("notes/a.note", { schema, awareness: true });
+    const paragraph = aliceDoc.root.createChildElement("text", {});
+    const text = paragraph.getChildren()[0] as TextElement;
+    text.insert(0, "hello world");
+
+    const bobDoc = await bob.sync.open("notes/a.note", { schema, awareness: true });
+    await waitUntil(() => bobDoc.awareness!.peers.length === 1);
+
+    aliceDoc.awareness!.setStateField("color", "#f00");
+    aliceDoc.awareness!.setSelection({ anchor: text.createPosition(6), head: text.createPosition(11, -1) });
+    await waitUntil(() => bobDoc.awareness!.peers[0].selection !== null);
+
+    const peer = bobDoc.awareness!.peers[0];
+    expect(peer.state).to.deep.equal({ color: "#f00" });
+    const bobText = (bobDoc.root.getNodeByID(paragraph.id!) as Element).getChildren()[0] as TextElement;
+    bobText.insert(0, ">> ");
+    const resolved = resolveSelection(bobDoc, peer.selection!)!;
+    expect([resolved.anchor.index, resolved.head.index]).to.deep.equal([9, 14]);
+    expect(resolved.anchor.node).to.equal(bobText);
+
+    await alice.sync.close("notes/a.note");
+    await bob.sync.close("notes/a.note");
+  });
+
+  it("only shares presence when asked to", async () => {
+    const alice = await join("alice");
+    const bob = await join("bob");
+    const received: RoomMessageEvent[] = [];
+    bob.messaging.on("message", (event) => {
+      if (event.message.type === AWARENESS_MESSAGE_TYPE) {
+        received.push(event);
+      }
+    });
+
+    const aliceDoc = await alice.sync.open("notes/a.note", { schema });
+    const bobDoc = await bob.sync.open("notes/a.note", { schema, awareness: true });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await alice.sync.close("notes/a.note");
+
+    expect(aliceDoc.awareness).to.equal(undefined);
+    expect(bobDoc.awareness!.peers).to.deep.equal([]);
+    expect(received).to.deep.equal([]);
+    await bob.sync.close("notes/a.note");
+  });
+
+  it("throttles outbound updates", async () => {
+    const alice = await join("alice");
+    const bob = await join("bob");
+    const received: RoomMessageEvent[] = [];
+    bob.messaging.on("message", (event) => {
+      if (event.message.type === AWARENESS_MESSAGE_TYPE && event.message.message["kind"] === "update") {
+        received.push(event);
+      }
+    });
+    const aliceDoc = await alice.sync.open("notes/a.note", { schema, awareness: { throttleMs: 50 } });
+    const bobDoc = await bob.sync.open("notes/a.note", { schema, awareness: true });
+    await waitUntil(() => bobDoc.awareness!.peers.length === 1);
+    received.length = 0;
+
+    for (let step = 1; step <= 5; step++) {
+      aliceDoc.awareness!.setStateField("step", step);
+    }
+    await waitUntil(() => bobDoc.awareness!.peers[0].state["step"] === 5);
+
+    expect(received.length).to.be.at.most(2);
+    await alice.sync.close("notes/a.note");
+    await bob.sync.close("notes/a.note");
+  });
+
+  it("drops peers that leave the room", async () => {
+    const alice = await join("alice");
+    const bob = await join("bob");
+    const aliceDoc = await alice.sync.open("notes/a.note", { schema, awareness: true });
+    await bob.sync.open("notes/a.note", { schema, awareness: true });
+    await waitUntil(() => aliceDoc.awareness!.peers.length === 1);
+    const events = record(aliceDoc.awareness!);
+
+    bob.dispose();
+    await waitUntil(() => aliceDoc.awareness!.peers.length === 0);
+    expect(events.map((event) => event.type)).to.deep.equal(["leave"]);
+    await alice.sync.close("notes/a.note");
+  });
+});
@@ -0,0 +1,136 @@
+import { expect } from "chai";
+
+import { Element } from "../document.js";
+import { generateDocumentBindings } from "../document-bindings-generator.js";
+import { MeshDocument } from "../room-server-client.js";
+import { ChildProperty, ElementType, MeshSchema, SimpleValue, ValueProperty } from "../schema.js";
+import { TypedElement } from "../typed-element.js";
+
+const schema = new MeshSchema({
+  rootTagName: "task_list",
+  elements: [
+    new ElementType({
+      tagName: "task_list",
+      description: "A list of tasks",
+      properties: [
+        new ValueProperty({ name: "title", description: "Shown in the header", type: SimpleValue.string }),
+        new ChildProperty({ name: "children", childTagNames: ["task", "text"] }),
+      ],
+    }),
+    new ElementType({
+      tagName: "task",
+      properties: [
+        new ValueProperty({ name: "name", type: SimpleValue.string, required: true }),
+        new ValueProperty({ name: "status", type: SimpleValue.string, enumValues: ["open", "done"] }),
+        new ValueProperty({ name: "delete", type: SimpleValue.boolean }),
+        new ValueProperty({ name: "due-date", type: SimpleValue.number }),
+      ],
+    }),
+    new ElementType({
+      tagName: "text",
+      properties: [new ChildProperty({ name: "children", childTagNames: [] })],
+    }),
+  ],
+});
+
+// What the generator emits for the "task" and "task_list" elements above.
+class Task extends TypedElement {
+  public static readonly tagName = "task";
+
+  get name(): string {
+    return this.getValue("name");
+  }
+
+  set name(value: string) {
+    this.setValue("name", value);
+  }
+
+  get status(): "open" | "done" | undefined {
+    return this.getValue("status");
+  }
+
+  set status(value: "open" | "done" | undefined) {
+    this.setValue("status", value);
+  }
+}
+
+class TaskList extends TypedElement {
+  public static readonly tagName = "task_list";
+
+  get children(): Task[] {
+    return this.getChildElements<Task>([Task]);
+  }
+
+  public createTask(attributes: { name: string; status?: "open" | "done" }, index?: number): Task {
+    return this.createChildElement(Task, attributes, index);
+  }
+}
+
+describe("document_bindings_generator_test", () => {
+  it("types attributes from value properties", () => {
+    const source = generateDocumentBindings(schema);
+
+    expect(source).to.contain('import { TypedElement } from "@meshagent/meshagent";');
+    expect(source).to.contain('import type { RuntimeDocument, TextElement } from "@meshagent/meshagent";');
+    expect(source).to.contain([
+      "export interface TaskAttributes {",
+      "    name: string;",
+      '    status?: "open" | "done";',
+      "    delete?: boolean | null;",
+      '    "due-date"?: number | null;',
+      "}",
+    ].join("\n"));
+    expect(source).to.contain([
+      '    get status(): "open" | "done" | undefined {',
+      '        return this.getValue("status");',
+      "    }",
+      "",
+      '    set status(value: "open" | "done" | undefined) {',
+      '        this.setValue("status", value);',
+      "    }",
+    ].join("\n"));
+    expect(source).to.contain("    get name(): string {");
+    expect(source).to.contain("    get delete_(): boolean | null | undefined {");
+    expect(source).to.contain("    get dueDate(): number | null | undefined {");
+  });
+
+  it("types children and factory methods from child properties", () => {
+    const source = generateDocumentBindings(schema.toJson(), { importPath: "../sdk.js" });
+
+    expect(source).to.contain('} from "../sdk.js";');
+    expect(source).to.contain("/**\n * A list of tasks\n */\nexport class TaskList extends TypedElement {");
+    expect(source).to.contain('    public static readonly tagName = "task_list";');
+    expect(source).to.contain([
+      "    get children(): Array<Task | Text> {",
+      "        return this.getChildElements<Task | Text>([Task, Text]);",
+      "    }",
+    ].join("\n"));
+    expect(source).to.contain("    public createTask(attributes: TaskAttributes, index?: number): Task {");
+    expect(source).to.contain("    public createText(attributes: TextAttributes = {}, index?: number): Text {");
+    expect(source).to.contain("export type TextAttributes = Record<string, never>;");
+    expect(source).to.contain("    get text(): TextElement {");
+    expect(source).to.contain("export function bindTaskList(doc: RuntimeDocument): TaskList {\n    return new TaskList(doc.root);\n}");
+  });
+
+  it("maps bindings onto elements", () => {
+    const doc = new MeshDocument({ schema });
+    try {
+      const list = new TaskList(doc.root);
+      const task = list.createTask({ name: "write" });
+      list.createTask({ name: "first", status: "done" }, 0);
+      doc.root.createChildElement("text", {});
+
+      expect(list.children.map((child) => child.name)).to.deep.equal(["first", "write"]);
+      task.status = "open";
+      expect((doc.root.getNodeByID(task.id!) as Element).getAttribute("status")).to.equal("open");
+      task.status = undefined;
+      expect(task.element.attributes).to.not.have.property("status");
+
+      expect(() => new Task(doc.root)).to.throw("Cannot bind task_list element as task");
+      task.delete();
+      expect(list.children).to.have.length(1);
+    } finally {
+      doc.dispose();
+    }
+  });
+});
@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import * as path from "path";
+
+import { FileDocumentPersistence, MemoryDocumentPersistence } from "../document-persistence.js";
+import { InMemoryRoomServer } from "../in-memory-room-server.js";
+import { RoomClient } from "../room-client.js";
+import { ElementType, MeshSchema, SimpleValue, ValueProperty } from "../schema.js";
+import { SyncClient } from "../sync-client.js";
+
+const schema = new MeshSchema({
+  rootTagName: "note",
+  elements: [
+    new ElementType({
+      tagName: "note",
+      description: "",
+      properties: [new ValueProperty({ name: "title", description: "", type: SimpleValue.string })],
+    }),
+  ],
+});
+
+async function waitUntil(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const started = Date.now();
+  while (!predicate()) {
+    if (Date.now() - started > timeoutMs) {
+      throw new Error("timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe("document_persistence_test", () => {
+  let server: InMemoryRoomServer;
+  let rooms: RoomClient[];
+  let syncs: SyncClient[];
+
+  beforeEach(() => {
+    server = new InMemoryRoomServer();
+    rooms = [];
+    syncs = [];
+  });
+
+  afterEach(() => {
+    syncs.forEach((sync) => sync.dispose());
+    rooms.forEach((room) => room.dispose());
+    server.dispose();
+  });
+
+  async function join(participantName: string): Promise<RoomClient> {
+    const room = new RoomClient({ protocolFactory: server.protocolFactory({ participantName }) });
+    await room.start();
+    rooms.push(room);
+    return room;
+  }
+
+  function syncClient(room: RoomClient, persistence: MemoryDocumentPersistence): SyncClient {
+    const sync = new SyncClient({ room, persistence, persistDelayMs: 0 });
+    syncs.push(sync);
+    return sync;
+  }
+
+  it("stores documents as files", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "meshagent-documents-"));
+    try {
+      const persistence = new FileDocumentPersistence({ directory: path.join(directory, "cache") });
+      const document = { state: "AAA=", stateVector: "AA==", pendingUpdate: null };
+
+      expect(await persistence.load("notes/a.note")).to.equal(null);
+      await persistence.save("notes/a.note", document);
+      expect(await persistence.load("notes/a.note")).to.deep.equal(document);
+      await persistence.remove("notes/a.note");
+      expect(await persistence.load("notes/a.note")).to.equal(null);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("stores files on Node.js versions without getBuiltinModule", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "meshagent-documents-"));
+    const process = globalThis.process as { getBuiltinModule?: unknown };
+    const getBuiltinModule = process.getBuiltinModule;
+    try {
+      process.getBuiltinModule = undefined;
+      const persistence = new FileDocumentPersistence({ directory });
+      const document = { state: "AAA=", stateVector: "AA==", pendingUpdate: null };
+
+      await persistence.save("a.note", document);
+      expect(await persistence.load("a.note")).to.deep.equal(document);
+    } finally {
+      process.getBuiltinModule = getBuiltinModule;
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("restores cached documents and fetches changes made since", async () => {
+    const persistence = new MemoryDocumentPersistence();
+    const alice = syncClient(await join("alice"), persistence);
+    const bob = await join("bob");
+
+    const doc = await alice.open("notes/a.note", { schema });
+    doc.root.setAttribute("title", "draft");
+    await alice.close("notes/a.note");
+    expect(persistence.documents.get("notes/a.note")?.pendingUpdate).to.equal(null);
+
+    const bobDoc = await bob.sync.open("notes/a.note");
+    await waitUntil(() => bobDoc.root.getAttribute("title") === "draft");
+    bobDoc.root.setAttribute("title", "final");
+    await bob.sync.close("notes/a.note");
+
+    const reopened = await alice.open("notes/a.note");
+    expect(reopened.root.getAttribute("title")).to.equal("final");
+  });
+
+  it("keeps edits made while disconnected and sends them on reconnect", async () => {
+    const persistence = new MemoryDocumentPersistence();
+    const alice = syncClient(await join("alice"), persistence);
+    const bob = await join("bob");
+    const doc = await alice.open("notes/a.note", { schema });
+    const bobDoc = await bob.sync.open("notes/a.note");
+
+    await alice._onRoomDisconnect();
+    doc.root.setAttribute("title", "offline");
+    await waitUntil(() => persistence.documents.get("notes/a.note")?.pendingUpdate != null);
+    expect(bobDoc.root.getAttribute("title")).to.equal(undefined);
+
+    await alice._onRoomReconnect();
+    await waitUntil(() => bobDoc.root.getAttribute("title") === "offline");
+    await waitUntil(() => persistence.documents.get("notes/a.note")?.pendingUpdate === null);
+  });
+
+  it("sends pending offline edits from the cache when the document is reopened", async () => {
+    const persistence = new MemoryDocumentPersistence();
+    const room = await join("alice");
+    const first = syncClient(room, persistence);
+    const doc = await first.open("notes/a.note", { schema });
+    await first._onRoomDisconnect();
+    doc.root.setAttribute("title", "written offline");
+    await waitUntil(() => persistence.documents.get("notes/a.note")?.pendingUpdate != null);
+    first.dispose();
+
+    const second = syncClient(room, persistence);
+    const restored = await second.open("notes/a.note");
+    expect(restored.root.getAttribute("title")).to.equal("written offline");
+
+    const bob = await join("bob");
+    const bobDoc = await bob.sync.open("notes/a.note");
+    await waitUntil(() => bobDoc.root.getAttribute("title") === "written offline");
+  });
+});
@@ -0,0 +1,160 @@
+import { expect } from "chai";
+
+import {
+  ChildProperty,
+  Element,
+  ElementType,
+  LocalParticipant,
+  MeshDocument,
+  MeshSchema,
+  RemoteParticipant,
+  SELECTION_ATTRIBUTE,
+  SimpleValue,
+  TextElement,
+  ValueProperty,
+  applyBackendChanges,
+  participantSelection,
+  resolveSelection,
+  shareSelection,
+} from "../index.js";
+
+const schema = new MeshSchema({
+  rootTagName: "root",
+  elements: [
+    new ElementType({
+      tagName: "root",
+      properties: [new ChildProperty({ name: "children", childTagNames: ["task", "text"] })],
+    }),
+    new ElementType({
+      tagName: "task",
+      properties: [new ValueProperty({ name: "name", type: SimpleValue.string })],
+    }),
+    new ElementType({
+      tagName: "text",
+      properties: [new ChildProperty({ name: "children", childTagNames: [] })],
+    }),
+  ],
+});
+
+function connectedPair(): [MeshDocument, MeshDocument] {
+  let remote: MeshDocument | undefined;
+  const local: MeshDocument = new MeshDocument({
+    schema,
+    sendChangesToBackend: (data) => applyBackendChanges(remote!.id, data),
+  });
+  remote = new MeshDocument({
+    schema,
+    sendChangesToBackend: (data) => applyBackendChanges(local.id, data),
+  });
+  return [local, remote];
+}
+
+function textOf(doc: MeshDocument, id: string): TextElement {
+  return (doc.root.getNodeByID(id) as Element).getChildren()[0] as TextElement;
+}
+
+describe("document_position_test", () => {
+  let documents: MeshDocument[] = [];
+
+  afterEach(() => {
+    documents.forEach((doc) => doc.dispose());
+    documents = [];
+  });
+
+  function track<T extends MeshDocument[]>(...docs: T): T {
+    documents.push(...docs);
+    return docs;
+  }
+
+  it("keeps text positions in place across remote edits", () => {
+    const [local, remote] = track(...connectedPair());
+    const paragraph = local.root.createChildElement("text", {});
+    const text = textOf(local, paragraph.id!);
+    text.insert(0, "hello world");
+
+    const cursor = text.createPosition(6);
+    const end = text.createPosition(11, -1);
+
+    const remoteText = textOf(remote, paragraph.id!);
+    remoteText.insert(0, ">> ");
+    remoteText.insert(14, "!");
+    remoteText.delete(3, 2);
+
+    expect(text.delta.map((delta) => delta["insert"]).join("")).to.equal(">> llo world!");
+    expect(text.resolvePosition(cursor)).to.equal(7);
+    expect(text.resolvePosition(end)).to.equal(12);
+  });
+
+  it("resolves positions created by another participant", () => {
+    const [local, remote] = track(...connectedPair());
+    const paragraph = local.root.createChildElement("text", {});
+    textOf(local, paragraph.id!).insert(0, "abc");
+
+    const position = JSON.parse(JSON.stringify(textOf(remote, paragraph.id!).createPosition(2)));
+    textOf(local, paragraph.id!).insert(0, "xyz");
+
+    const resolved = local.resolvePosition(position);
+    expect(resolved?.kind).to.equal("text");
+    expect(resolved?.node).to.equal(textOf(local, paragraph.id!));
+    expect(resolved?.index).to.equal(5);
+  });
+
+  it("keeps child positions in place across remote edits", () => {
+    const [local, remote] = track(...connectedPair());
+    const first = local.root.createChildElement("task", { name: "first" });
+    const second = local.root.createChildElement("task", { name: "second" });
+
+    const beforeSecond = local.root.createChildPosition(1);
+    const atEnd = local.root.createChildPosition(2);
+
+    remote.root.createChildElementAt(0, "task", { name: "zero" });
+    remote.root.createChildElement("task", { name: "last" });
+    (remote.root.getNodeByID(first.id!) as Element).delete();
+
+    expect(local.root.resolveChildPosition(beforeSecond)).to.equal(1);
+    expect((local.root.getChildren()[1] as Element).id).to.equal(second.id);
+    expect(local.root.resolveChildPosition(atEnd)).to.equal(3);
+  });
+
+  it("does not resolve positions in deleted text", () => {
+    const [local, remote] = track(...connectedPair());
+    const paragraph = local.root.createChildElement("text", {});
+    const text = textOf(local, paragraph.id!);
+    text.insert(0, "gone");
+    const position = text.createPosition(2);
+
+    (remote.root.getNodeByID(paragraph.id!) as Element).delete();
+
+    expect(local.resolvePosition(position)).to.equal(null);
+    expect(text.resolvePosition(position)).to.equal(null);
+    expect(local.root.resolveChildPosition(position)).to.equal(null);
+  });
+
+  it("shares selections as participant attributes", () => {
+    const [local, remote] = track(...connectedPair());
+    const paragraph = local.root.createChildElement("text", {});
+    textOf(local, paragraph.id!).insert(0, "select me");
+
+    const sent: Array<Record<string, unknown>> = [];
+    const room = { _sendLocalAttributesNowait: (attributes: Record<string, unknown>) => sent.push(attributes) };
+    const me = new LocalParticipant(room as never, "local-1");
+    const text = textOf(local, paragraph.id!);
+    shareSelection(me, "notes.document", { anchor: text.createPosition(0), head: text.createPosition(6, -1) });
+
+    const peer = new RemoteParticipant(room as never, "local-1", "member");
+    peer._setAttributes(JSON.parse(JSON.stringify(sent[0])));
+    textOf(remote, paragraph.id!).insert(0, "please ");
+
+    expect(participantSelection(peer, "other.document")).to.equal(null);
+    const selection = participantSelection(peer, "notes.document")!;
+    const resolved = resolveSelection(remote, selection)!;
+    expect(resolved.anchor.index).to.equal(7);
+    expect(resolved.head.index).to.equal(13);
+    expect(resolved.head.node).to.equal(textOf(remote, paragraph.id!));
+
+    shareSelection(me, "notes.document", null);
+    expect(sent[1]).to.deep.equal({ [SELECTION_ATTRIBUTE]: null });
+    peer._setAttributes({ [SELECTION_ATTRIBUTE]: { path: "notes.document", anchor: { kind: "text" }, head: null } });
+    expect(participantSelection(peer, "notes.document")).to.equal(null);
+  });
+});
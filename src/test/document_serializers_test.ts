@@ -0,0 +1,271 @@
+import { expect } from "chai";
+
+import { Element, TextElement } from "../document.js";
+import {
+  DocumentSerializationException,
+  HtmlDocumentSerializer,
+  JsonDocumentSerializer,
+  MarkdownDocumentSerializer,
+  MarkupRules,
+} from "../document-serializers.js";
+import { MeshDocument } from "../room-server-client.js";
+import { ChildProperty, ElementType, MeshSchema, SimpleValue, ValueProperty } from "../schema.js";
+
+function container(tagName: string, childTagNames: string[]): ElementType {
+  return new ElementType({ tagName, properties: [new ChildProperty({ name: "children", childTagNames })] });
+}
+
+const schema = new MeshSchema({
+  rootTagName: "doc",
+  elements: [
+    container("doc", ["title", "section", "text", "bullets", "steps", "code"]),
+    new ElementType({ tagName: "title", properties: [new ValueProperty({ name: "text", type: SimpleValue.string })] }),
+    container("section", ["text"]),
+    container("text", []),
+    container("bullets", ["item"]),
+    container("steps", ["item"]),
+    container("item", ["text", "bullets", "steps"]),
+    new ElementType({ tagName: "code", properties: [new ValueProperty({ name: "source", type: SimpleValue.string })] }),
+  ],
+});
+
+const rules: MarkupRules = {
+  title: { kind: "heading", level: 1, text: "text" },
+  section: { kind: "heading", level: 2 },
+  bullets: { kind: "list" },
+  steps: { kind: "list", ordered: true },
+  item: { kind: "listItem" },
+  code: { kind: "code", text: "source" },
+};
+
+function textOf(element: Element): TextElement {
+  const text = element.tagName === "text" ? element : element.getChildren()[0] as Element;
+  return text.getChildren()[0] as TextElement;
+}
+
+function fill(doc: MeshDocument): void {
+  doc.root.createChildElement("title", { text: "Plan" });
+  textOf(doc.root.createChildElement("section", {}).createChildElement("text", {})).insert(0, "Goals");
+  const paragraph = textOf(doc.root.createChildElement("text", {}));
+  paragraph.insert(0, "Ship v2 now, see docs");
+  paragraph.format(5, 2, { bold: true });
+  paragraph.format(17, 4, { link: "https://example.com" });
+
+  const bullets = doc.root.createChildElement("bullets", {});
+  const alpha = bullets.createChildElement("item", {});
+  textOf(alpha.createChildElement("text", {})).insert(0, "alpha");
+  const step = alpha.createChildElement("steps", {}).createChildElement("item", {});
+  textOf(step.createChildElement("text", {})).insert(0, "one");
+  textOf(bullets.createChildElement("item", {}).createChildElement("text", {})).insert(0, "beta");
+  doc.root.createChildElement("code", { source: "npm test" });
+}
+
+const markdown = [
+  "# Plan",
+  "",
+  "## Goals",
+  "",
+  "Ship **v2** now, see [docs](https://example.com)",
+  "",
+  "- alpha",
+  "  1. one",
+  "- beta",
+  "",
+  "```",
+  "npm test",
+  "```",
+  "",
+].join("\n");
+
+describe("document_serializers_test", () => {
+  let documents: MeshDocument[] = [];
+
+  afterEach(() => {
+    documents.forEach((doc) => doc.dispose());
+    documents = [];
+  });
+
+  function newDocument(): MeshDocument {
+    const doc = new MeshDocument({ schema });
+    documents.push(doc);
+    return doc;
+  }
+
+  it("round trips documents through canonical JSON", () => {
+    const doc = newDocument();
+    fill(doc);
+    const serializer = new JsonDocumentSerializer();
+    const json = serializer.toJson(doc);
+
+    expect(json["doc"]["children"][0]).to.deep.equal({ title: { text: "Plan" } });
+    expect(json["doc"]["children"][2]).to.deep.equal({
+      text: {
+        children: [{
+          $text: [
+            { insert: "Ship " },
+            { insert: "v2", attributes: { bold: true } },
+            { insert: " now, see " },
+            { insert: "docs", attributes: { link: "https://example.com" } },
+          ],
+        }],
+      },
+    });
+
+    const copy = newDocument();
+    copy.root.createChildElement("title", { text: "replaced" });
+    serializer.deserialize(copy, serializer.serialize(doc));
+    expect(serializer.toJson(copy)).to.deep.equal(json);
+  });
+
+  it("keeps element ids when asked to", () => {
+    const doc = newDocument();
+    const title = doc.root.createChildElement("title", { text: "Plan" });
+    const serializer = new JsonDocumentSerializer({ includeIds: true });
+
+    const copy = newDocument();
+    serializer.deserialize(copy, serializer.serialize(doc));
+    expect((copy.root.getChildren()[0] as Element).id).to.equal(title.id);
+  });
+
+  it("rejects JSON that does not match the schema", () => {
+    const serializer = new JsonDocumentSerializer();
+    const doc = newDocument();
+
+    expect(() => serializer.deserialize(doc, "{")).to.throw(DocumentSerializationException);
+    expect(() => serializer.fromJson(doc, { other: {} })).to.throw("expected doc but found other");
+    expect(() => serializer.fromJson(doc, { doc: { children: [{ item: {} }] } })).to.throw("doc cannot contain item");
+    expect(() => serializer.fromJson(doc, { doc: { children: [{ title: { size: 3 } }] } })).to.throw("title has no attribute size");
+  });
+
+  it("writes markdown using the markup rules", () => {
+    const doc = newDocument();
+    fill(doc);
+
+    expect(new MarkdownDocumentSerializer({ rules }).serialize(doc)).to.equal(markdown);
+  });
+
+  it("reads markdown back into schema elements", () => {
+    const serializer = new MarkdownDocumentSerializer({ rules });
+    const doc = newDocument();
+    serializer.deserialize(doc, markdown);
+
+    expect(doc.root.getChildren().map((child) => (child as Element).tagName))
+      .to.deep.equal(["title", "section", "text", "bullets", "code"]);
+    expect((doc.root.getChildren()[0] as Element).getAttribute("text")).to.equal("Plan");
+    expect(textOf(doc.root.getChildren()[2] as Element).delta[1]).to.deep.equal({ insert: "v2", attributes: { bold: true } });
+    expect(serializer.serialize(doc)).to.equal(markdown);
+  });
+
+  it("escapes markdown syntax in text", () => {
+    const serializer = new MarkdownDocumentSerializer();
+    const doc = newDocument();
+    textOf(doc.root.createChildElement("text", {})).insert(0, "# not a *heading*");
+
+    const text = serializer.serialize(doc);
+    expect(text).to.equal("\\# not a \\*heading\\*\n");
+
+    const copy = newDocument();
+    serializer.deserialize(copy, text);
+    expect(textOf(copy.root.getChildren()[0] as Element).delta).to.deep.equal([{ insert: "# not a *heading*" }]);
+  });
+
+  it("writes and reads html", () => {
+    const serializer = new HtmlDocumentSerializer({ rules });
+    const doc = newDocument();
+    fill(doc);
+
+    const html = serializer.serialize(doc);
+    expect(html).to.equal([
+      "<h1>Plan</h1>",
+      "<h2>Goals</h2>",
+      '<p>Ship <strong>v2</strong> now, see <a href="https://example.com">docs</a></p>',
+      "<ul>",
+      "<li>alpha",
+      "<ol>",
+      "<li>one</li>",
+      "</ol>",
+      "</li>",
+      "<li>beta</li>",
+      "</ul>",
+      "<pre><code>npm test</code></pre>",
+      "",
+    ].join("\n"));
+
+    const copy = newDocument();
+    serializer.deserialize(copy, html);
+    expect(serializer.serialize(copy)).to.equal(html);
+  });
+
+  it("exports only links with safe schemes", () => {
+    const doc = newDocument();
+    const text = textOf(doc.root.createChildElement("text", {}));
+    text.insert(0, "a b c d");
+    text.format(0, 1, { link: "javascript:alert(1)" });
+    text.format(2, 1, { link: " JavaScript:alert(1)" });
+    text.format(4, 1, { link: "mailto:team@example.com" });
+    text.format(6, 1, { link: "../notes.html" });
+
+    expect(new HtmlDocumentSerializer().serialize(doc)).to.equal(
+      '<p>a b <a href="mailto:team@example.com">c</a> <a href="../notes.html">d</a></p>\n',
+    );
+    expect(new MarkdownDocumentSerializer().serialize(doc)).to.equal("a b [c](mailto:team@example.com) [d](../notes.html)\n");
+  });
+
+  it("reads and writes markdown links with parentheses", () => {
+    const serializer = new MarkdownDocumentSerializer();
+    const doc = newDocument();
+    serializer.deserialize(doc, "[x](javascript:alert(1)) [wiki](https://en.wikipedia.org/wiki/Set_(mathematics))\n");
+
+    const delta = textOf(doc.root.getChildren()[0] as Element).delta;
+    expect(delta[0]).to.deep.equal({ insert: "x", attributes: { link: "javascript:alert(1)" } });
+    expect(delta[2]).to.deep.equal({ insert: "wiki", attributes: { link: "https://en.wikipedia.org/wiki/Set_(mathematics)" } });
+    expect(new HtmlDocumentSerializer().serialize(doc)).to.equal(
+      '<p>x <a href="https://en.wikipedia.org/wiki/Set_(mathematics)">wiki</a></p>\n',
+    );
+
+    const unbalanced = newDocument();
+    const text = textOf(unbalanced.root.createChildElement("text", {}));
+    text.insert(0, "smile");
+    text.format(0, 5, { link: "https://example.com/:)" });
+    const written = serializer.serialize(unbalanced);
+    expect(written).to.equal("[smile](https://example.com/:\\))\n");
+
+    const copy = newDocument();
+    serializer.deserialize(copy, written);
+    expect(textOf(copy.root.getChildren()[0] as Element).delta).to.deep.equal([
+      { insert: "smile", attributes: { link: "https://example.com/:)" } },
+    ]);
+  });
+
+  it("keeps html entities that are not valid characters", () => {
+    const doc = newDocument();
+    new HtmlDocumentSerializer().deserialize(doc, "<p>&#99999999; &#xD800; &#x1F600;</p>");
+
+    expect(textOf(doc.root.getChildren()[0] as Element).delta).to.deep.equal([{ insert: "&#99999999; &#xD800; \u{1F600}" }]);
+  });
+
+  it("reads html pages with markup it has no mapping for", () => {
+    const serializer = new HtmlDocumentSerializer({ rules });
+    const doc = newDocument();
+    serializer.deserialize(doc, [
+      "<!DOCTYPE html><html><head><title>ignored</title><style>p { color: red }</style></head>",
+      "<body><div class=\"page\"><h3>Notes &amp; more</h3>",
+      "<p>A <b>bold</b>\n   <i>claim</i><br>next line</p>",
+      "<ul><li><p>loose</p><ul><li>nested</li></ul></li></ul>",
+      "loose text</div></body></html>",
+    ].join(""));
+
+    expect(new MarkdownDocumentSerializer({ rules }).serialize(doc)).to.equal([
+      "## Notes & more",
+      "",
+      "A **bold** *claim*",
+      "next line",
+      "",
+      "- loose",
+      "  - nested",
+      "",
+      "loose text",
+      "",
+    ].join("\n"));
+  });
+});
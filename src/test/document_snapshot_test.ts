@@ -0,0 +1,131 @@
+import { expect } from "chai";
+
+import { snapshotFolder } from "../document-snapshot.js";
+import { InMemoryRoomServer } from "../in-memory-room-server.js";
+import { RoomClient } from "../room-client.js";
+import { Element } from "../document.js";
+import { RoomServerException } from "../room-server-client.js";
+import { ChildProperty, ElementType, MeshSchema, SimpleValue, ValueProperty } from "../schema.js";
+
+const schema = new MeshSchema({
+  rootTagName: "note",
+  elements: [
+    new ElementType({
+      tagName: "note",
+      description: "",
+      properties: [
+        new ValueProperty({ name: "title", description: "", type: SimpleValue.string }),
+        new ChildProperty({ name: "children", description: "", childTagNames: ["task"] }),
+      ],
+    }),
+    new ElementType({
+      tagName: "task",
+      description: "",
+      properties: [new ValueProperty({ name: "name", description: "", type: SimpleValue.string })],
+    }),
+  ],
+});
+
+function taskNames(root: Element): string[] {
+  return root.getChildren().map((child) => (child as Element).getAttribute("name"));
+}
+
+describe("document_snapshot_test", () => {
+  let server: InMemoryRoomServer;
+  let room: RoomClient;
+
+  beforeEach(async () => {
+    server = new InMemoryRoomServer();
+    room = new RoomClient({ protocolFactory: server.protocolFactory({ participantName: "alice" }) });
+    await room.start();
+  });
+
+  afterEach(() => {
+    room.dispose();
+    server.dispose();
+  });
+
+  it("stores snapshots next to the document", () => {
+    expect(snapshotFolder("notes/a.note")).to.equal("notes/.a.note.snapshots");
+    expect(snapshotFolder("a.note")).to.equal(".a.note.snapshots");
+  });
+
+  it("takes, lists and opens snapshots", async () => {
+    const doc = await room.sync.open("notes/a.note", { schema });
+    doc.root.setAttribute("title", "first");
+    doc.root.createChildElement("task", { name: "a" });
+
+    const first = await room.sync.snapshot("notes/a.note", "before review");
+    doc.root.setAttribute("title", "second");
+    const second = await room.sync.snapshot("notes/a.note");
+
+    const snapshots = await room.sync.listSnapshots("notes/a.note");
+    expect(snapshots.map((snapshot) => snapshot.id)).to.deep.equal([first.id, second.id]);
+    expect(snapshots[0].label).to.equal("before review");
+    expect(snapshots[0].path).to.equal("notes/a.note");
+    expect(await room.sync.listSnapshots("notes/b.note")).to.deep.equal([]);
+
+    const opened = await room.sync.openSnapshot("notes/a.note", first.id);
+    try {
+      expect(opened.readOnly).to.equal(true);
+      expect(opened.root.getAttribute("title")).to.equal("first");
+      expect(taskNames(opened.root)).to.deep.equal(["a"]);
+      expect(() => opened.root.setAttribute("title", "edited")).to.throw(RoomServerException);
+    } finally {
+      opened.dispose();
+    }
+    await room.sync.close("notes/a.note");
+  });
+
+  it("restores a snapshot as a new edit", async () => {
+    const doc = await room.sync.open("notes/a.note", { schema });
+    doc.root.setAttribute("title", "plan");
+    doc.root.createChildElement("task", { name: "a" });
+    const snapshot = await room.sync.snapshot("notes/a.note");
+
+    doc.root.setAttribute("title", "rewritten");
+    doc.root.setAttribute("extra", "value");
+    (doc.root.getChildren()[0] as Element).delete();
+    doc.root.createChildElement("task", { name: "b" });
+
+    const events: unknown[] = [];
+    doc.on("updated", (event) => events.push(event));
+    await room.sync.restore("notes/a.note", snapshot.id);
+
+    expect(events).to.have.length(1);
+    expect(doc.root.getAttribute("title")).to.equal("plan");
+    expect(doc.root.getAttribute("extra")).to.equal(undefined);
+    expect(taskNames(doc.root)).to.deep.equal(["a"]);
+    expect(await room.sync.listSnapshots("notes/a.note")).to.have.length(1);
+    await room.sync.close("notes/a.note");
+  });
+
+  it("diffs snapshots against each other and the current document", async () => {
+    const doc = await room.sync.open("notes/a.note", { schema });
+    doc.root.setAttribute("title", "plan");
+    const kept = doc.root.createChildElement("task", { name: "keep" });
+    const removed = doc.root.createChildElement("task", { name: "drop" });
+    const before = await room.sync.snapshot("notes/a.note");
+
+    kept.setAttribute("name", "kept");
+    removed.delete();
+    const added = doc.root.createChildElement("task", { name: "new" });
+    const after = await room.sync.snapshot("notes/a.note");
+
+    const differences = await room.sync.diffSnapshots("notes/a.note", before.id, after.id);
+    expect(differences).to.have.deep.members([
+      { type: "elementRemoved", id: removed.id, tagName: "task", parentId: null },
+      { type: "elementAdded", id: added.id, tagName: "task", parentId: null },
+      { type: "attributeChanged", id: kept.id, tagName: "task", name: "name", oldValue: "keep", newValue: "kept" },
+    ]);
+
+    doc.root.setAttribute("title", "done");
+    expect(await room.sync.diffSnapshots("notes/a.note", after.id)).to.deep.equal([
+      { type: "attributeChanged", id: null, tagName: "note", name: "title", oldValue: "plan", newValue: "done" },
+    ]);
+
+    await room.sync.deleteSnapshot("notes/a.note", before.id);
+    expect((await room.sync.listSnapshots("notes/a.note")).map((snapshot) => snapshot.id)).to.deep.equal([after.id]);
+    await room.sync.close("notes/a.note");
+  });
+});
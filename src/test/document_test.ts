@@ -3,12 +3,14 @@ import { expect } from "chai";
 import {
   ChildProperty,
   Element,
+  ElementChange,
   ElementType,
   MeshDocument,
   MeshSchema,
   SimpleValue,
   TextElement,
   ValueProperty,
+  applyBackendChanges,
 } from "../index.js";
 
 export const schema = new MeshSchema({
@@ -280,4 +282,154 @@ describe("Document Test", () => {
     expect(updatedChildren[2]).to.equal(child6);
     expect(child6.getAttribute("hello")).to.equal("world6");
   });
+
+  it("test_transact_sends_one_update_and_event", () => {
+    const updates: string[] = [];
+    const doc = new MeshDocument({ schema, sendChangesToBackend: (data) => updates.push(data) });
+    const remote = new MeshDocument({ schema });
+    const events: string[] = [];
+    const messages: Array<Record<string, any>> = [];
+    doc.on("updated", (event) => events.push(event.type));
+    doc.listen((message) => messages.push(message));
+    remote.on("updated", () => events.push("remote"));
+
+    const result = doc.transact(() => {
+      const parent = doc.root.createChildElement("child", { hello: "a" });
+      for (let i = 0; i < 5; i++) {
+        parent.createChildElement("child", { hi: `${i}` });
+      }
+      doc.transact(() => parent.setAttribute("test", "nested"));
+      const text = doc.root.createChildElement("text", {}).getChildren()[0] as TextElement;
+      text.insert(0, "hello");
+
+      expect(parent.getChildren()).to.have.length(5);
+      expect(events).to.deep.equal([]);
+      return parent;
+    });
+
+    expect(result.getAttribute("test")).to.equal("nested");
+    expect(updates).to.have.length(1);
+    expect(events).to.deep.equal(["change"]);
+    expect(messages.length).to.be.greaterThan(1);
+
+    applyBackendChanges(remote.id, updates[0]);
+    const remoteParent = remote.root.getNodeByID(result.id!)!;
+    expect(remoteParent.getChildren()).to.have.length(5);
+    expect(remoteParent.getAttribute("test")).to.equal("nested");
+
+    doc.dispose();
+    remote.dispose();
+  });
+
+  it("test_transact_flushes_changes_when_it_throws", () => {
+    const updates: string[] = [];
+    const doc = new MeshDocument({ schema, sendChangesToBackend: (data) => updates.push(data) });
+
+    expect(() => doc.transact(() => {
+      doc.root.setAttribute("hello", "kept");
+      throw new Error("boom");
+    })).to.throw("boom");
+
+    expect(doc.inTransaction).to.equal(false);
+    expect(doc.root.getAttribute("hello")).to.equal("kept");
+    expect(updates).to.have.length(1);
+
+    doc.root.setAttribute("hi", "after");
+    expect(updates).to.have.length(2);
+    doc.dispose();
+  });
+
+  it("test_transact_is_one_undo_step", () => {
+    const doc = new MeshDocument({ schema, undo: { captureTimeoutMs: 0 } });
+
+    doc.transact(() => {
+      doc.root.createChildElement("child", { hello: "a" });
+      doc.root.createChildElement("child", { hello: "b" });
+    });
+    doc.undoManager!.undo();
+
+    expect(doc.root.getChildren()).to.be.empty;
+    doc.dispose();
+  });
+
+  it("test_observe_reports_typed_changes", () => {
+    const doc = createNewDoc();
+    const changes: ElementChange[] = [];
+    doc.root.observe((batch) => changes.push(...batch));
+
+    const first = doc.root.createChildElement("child", { hello: "a" });
+    doc.root.createChildElementAt(0, "child", {});
+    doc.root.setAttribute("test", "v1");
+    doc.root.setAttribute("test", "v2");
+    doc.root.removeAttribute("test");
+    first.delete();
+
+    expect(changes.map((change) => {
+      switch (change.type) {
+        case "childInserted":
+        case "childRemoved":
+          return [change.type, change.index, (change.node as Element).getAttribute("hello") ?? null];
+        case "attributeChanged":
+          return [change.type, change.name, change.oldValue ?? null, change.newValue ?? null];
+        default:
+          return [change.type];
+      }
+    })).to.deep.equal([
+      ["childInserted", 0, "a"],
+      ["childInserted", 0, null],
+      ["attributeChanged", "test", null, "v1"],
+      ["attributeChanged", "test", "v1", "v2"],
+      ["attributeChanged", "test", "v2", null],
+      ["childRemoved", 1, "a"],
+    ]);
+  });
+
+  it("test_observe_deep_with_filters", () => {
+    const doc = createNewDoc();
+    const list = doc.root.createChildElement("child", {});
+    const task = list.createChildElement("child", { hello: "a" });
+    const nested = task.createChildElement("child", {});
+    const textElement = doc.root.createChildElement("text", {});
+    const text = textElement.getChildren()[0] as TextElement;
+
+    const hello: ElementChange[] = [];
+    const shallow: ElementChange[] = [];
+    const texts: ElementChange[] = [];
+    list.observe((batch) => hello.push(...batch), { deep: true, tagNames: ["child"], attributes: ["hello"] });
+    list.observe((batch) => shallow.push(...batch));
+    const subscription = doc.root.observe((batch) => texts.push(...batch), { deep: true, tagNames: ["text"] });
+
+    task.setAttribute("hello", "b");
+    task.setAttribute("hi", "skipped");
+    nested.setAttribute("hello", "deep");
+    doc.root.setAttribute("hello", "outside");
+    text.insert(0, "hi");
+    subscription.unsubscribe();
+    text.insert(2, "!");
+
+    expect(hello.map((change) => [change.target, (change as any).newValue])).to.deep.equal([
+      [task, "b"],
+      [nested, "deep"],
+    ]);
+    expect(shallow).to.deep.equal([]);
+    expect(texts).to.have.length(1);
+    expect(texts[0]).to.include({ type: "textChanged", target: textElement, text });
+    expect((texts[0] as any).delta).to.deep.equal([{ insert: "hi" }]);
+  });
+
+  it("test_observe_batches_transactions", () => {
+    const doc = createNewDoc();
+    const batches: ElementChange[][] = [];
+    doc.root.observe((batch) => batches.push(batch), { deep: true });
+
+    doc.transact(() => {
+      const child = doc.root.createChildElement("child", {});
+      child.createChildElement("child", {});
+      child.setAttribute("hello", "world");
+      expect(batches).to.have.length(0);
+    });
+
+    expect(batches).to.have.length(1);
+    expect(batches[0].map((change) => change.type)).to.deep.equal(["childInserted", "childInserted", "attributeChanged"]);
+  });
 });
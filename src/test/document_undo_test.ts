@@ -0,0 +1,177 @@
+import { expect } from "chai";
+
+import {
+  ChildProperty,
+  ElementType,
+  MeshDocument,
+  MeshSchema,
+  SimpleValue,
+  TextElement,
+  UndoStateEvent,
+  ValueProperty,
+  applyBackendChanges,
+} from "../index.js";
+
+const schema = new MeshSchema({
+  rootTagName: "root",
+  elements: [
+    new ElementType({
+      tagName: "root",
+      description: "",
+      properties: [
+        new ValueProperty({ name: "title", description: "", type: SimpleValue.string }),
+        new ChildProperty({ name: "children", description: "", childTagNames: ["task", "text"] }),
+      ],
+    }),
+    new ElementType({
+      tagName: "task",
+      description: "",
+      properties: [
+        new ValueProperty({ name: "name", description: "", type: SimpleValue.string }),
+        new ValueProperty({ name: "done", description: "", type: SimpleValue.string }),
+      ],
+    }),
+    new ElementType({
+      tagName: "text",
+      description: "",
+      properties: [
+        new ChildProperty({ name: "children", description: "", childTagNames: [] }),
+      ],
+    }),
+  ],
+});
+
+function connectedPair(): [MeshDocument, MeshDocument] {
+  let remote: MeshDocument | undefined;
+  const local: MeshDocument = new MeshDocument({
+    schema,
+    undo: { captureTimeoutMs: 0 },
+    sendChangesToBackend: (data) => applyBackendChanges(remote!.id, data),
+  });
+  remote = new MeshDocument({
+    schema,
+    sendChangesToBackend: (data) => applyBackendChanges(local.id, data),
+  });
+  return [local, remote];
+}
+
+describe("document_undo_test", () => {
+  let documents: MeshDocument[] = [];
+
+  afterEach(() => {
+    documents.forEach((doc) => doc.dispose());
+    documents = [];
+  });
+
+  function track<T extends MeshDocument[]>(...docs: T): T {
+    documents.push(...docs);
+    return docs;
+  }
+
+  it("is disabled unless requested", () => {
+    const [doc] = track(new MeshDocument({ schema }));
+
+    expect(doc.undoManager).to.equal(undefined);
+  });
+
+  it("undoes and redoes local edits", () => {
+    const [doc] = track(new MeshDocument({ schema, undo: { captureTimeoutMs: 0 } }));
+    const undo = doc.undoManager!;
+
+    const task = doc.root.createChildElement("task", { name: "write" });
+    task.setAttribute("done", "yes");
+    expect(undo.canUndo).to.equal(true);
+
+    expect(undo.undo()).to.equal(true);
+    expect(doc.root.getNodeByID(task.id!)!.getAttribute("done")).to.equal(undefined);
+
+    expect(undo.undo()).to.equal(true);
+    expect(doc.root.getChildren()).to.have.length(0);
+    expect(undo.canUndo).to.equal(false);
+    expect(undo.undo()).to.equal(false);
+
+    expect(undo.redo()).to.equal(true);
+    expect(undo.redo()).to.equal(true);
+    const restored = doc.root.getNodeByID(task.id!)!;
+    expect(restored.getAttribute("name")).to.equal("write");
+    expect(restored.getAttribute("done")).to.equal("yes");
+    expect(undo.canRedo).to.equal(false);
+  });
+
+  it("groups changes made in a transaction into one step", () => {
+    const [doc] = track(new MeshDocument({ schema, undo: { captureTimeoutMs: 0 } }));
+    const undo = doc.undoManager!;
+
+    doc.root.setAttribute("title", "plan");
+    undo.transact(() => {
+      doc.root.createChildElement("task", { name: "a" });
+      undo.transact(() => doc.root.createChildElement("task", { name: "b" }));
+      doc.root.setAttribute("title", "two tasks");
+    });
+
+    undo.undo();
+    expect(doc.root.getChildren()).to.have.length(0);
+    expect(doc.root.getAttribute("title")).to.equal("plan");
+
+    undo.undo();
+    expect(doc.root.getAttribute("title")).to.equal(undefined);
+  });
+
+  it("merges changes within the capture timeout until capturing stops", () => {
+    const [doc] = track(new MeshDocument({ schema, undo: { captureTimeoutMs: 60_000 } }));
+    const undo = doc.undoManager!;
+    const text = doc.root.createChildElement("text", {}).getChildren()[0] as TextElement;
+    undo.stopCapturing();
+
+    text.insert(0, "hello");
+    text.insert(5, " world");
+    undo.stopCapturing();
+    text.insert(11, "!");
+
+    undo.undo();
+    expect(text.delta.map((d) => d.insert).join("")).to.equal("hello world");
+    undo.undo();
+    expect(text.delta.map((d) => d.insert).join("")).to.equal("");
+  });
+
+  it("never reverts changes made by other participants", () => {
+    const [local, remote] = track(...connectedPair());
+    const undo = local.undoManager!;
+
+    local.root.createChildElement("task", { name: "mine" });
+    remote.root.createChildElement("task", { name: "theirs" });
+    remote.root.setAttribute("title", "shared");
+    expect(local.root.getChildren()).to.have.length(2);
+
+    undo.undo();
+
+    const names = (doc: MeshDocument) => doc.root.getChildren().map((child) => (child as any).getAttribute("name"));
+    expect(names(local)).to.deep.equal(["theirs"]);
+    expect(names(remote)).to.deep.equal(["theirs"]);
+    expect(local.root.getAttribute("title")).to.equal("shared");
+    expect(undo.canUndo).to.equal(false);
+  });
+
+  it("emits change events when canUndo or canRedo flips", () => {
+    const [doc] = track(new MeshDocument({ schema, undo: { captureTimeoutMs: 0 } }));
+    const undo = doc.undoManager!;
+    const events: UndoStateEvent[] = [];
+    undo.on("change", (event) => events.push(event));
+
+    doc.root.setAttribute("title", "a");
+    doc.root.setAttribute("title", "b");
+    undo.undo();
+    undo.undo();
+    doc.root.setAttribute("title", "c");
+    undo.clear();
+
+    expect(events.map(({ canUndo, canRedo }) => [canUndo, canRedo])).to.deep.equal([
+      [true, false],
+      [true, true],
+      [false, true],
+      [false, false],
+      [true, false],
+      [false, false],
+    ]);
+  });
+});
@@ -0,0 +1,226 @@
+import { expect } from "chai";
+
+import { FunctionTool, ToolContext, Toolkit, startHostedToolkit } from "../agent.js";
+import { InMemoryRoomServer } from "../in-memory-room-server.js";
+import { Content, JsonContent } from "../response.js";
+import { RoomClient } from "../room-client.js";
+import { FileUpdatedEvent, RoomMessageEvent } from "../room-event.js";
+import { RoomServerException } from "../room-server-client.js";
+import { ElementType, MeshSchema, SimpleValue, ValueProperty } from "../schema.js";
+import { decoder, encoder } from "../utils.js";
+
+const schema = new MeshSchema({
+  rootTagName: "note",
+  elements: [
+    new ElementType({
+      tagName: "note",
+      description: "",
+      properties: [new ValueProperty({ name: "title", description: "", type: SimpleValue.string })],
+    }),
+  ],
+});
+
+class GreetTool extends FunctionTool {
+  constructor() {
+    super({
+      name: "greet",
+      inputSchema: {
+        type: "object",
+        required: ["name"],
+        properties: { name: { type: "string" } },
+        additionalProperties: false,
+      },
+    });
+  }
+
+  public async execute(context: ToolContext, arguments_: Record<string, any>): Promise<Content> {
+    return new JsonContent({ json: { greeting: `hello ${arguments_["name"]}`, caller: context.caller?.id } });
+  }
+}
+
+async function waitUntil(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const started = Date.now();
+  while (!predicate()) {
+    if (Date.now() - started > timeoutMs) {
+      throw new Error("timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+async function connect(server: InMemoryRoomServer, participantName: string): Promise<RoomClient> {
+  const room = new RoomClient({ protocolFactory: server.protocolFactory({ participantName }) });
+  await room.start();
+  return room;
+}
+
+describe("in_memory_room_server_test", () => {
+  let server: InMemoryRoomServer;
+  let rooms: RoomClient[];
+
+  beforeEach(() => {
+    server = new InMemoryRoomServer();
+    rooms = [];
+  });
+
+  afterEach(() => {
+    for (const room of rooms) {
+      room.dispose();
+    }
+    server.dispose();
+  });
+
+  async function join(participantName: string): Promise<RoomClient> {
+    const room = await connect(server, participantName);
+    rooms.push(room);
+    return room;
+  }
+
+  it("completes the room handshake for each participant", async () => {
+    const alice = await join("alice");
+    const bob = await join("bob");
+
+    expect(alice.localParticipant?.getAttribute("name")).to.equal("alice");
+    expect(server.connections.map((connection) => connection.participantId)).to.deep.equal([
+      alice.localParticipant?.id,
+      bob.localParticipant?.id,
+    ]);
+  });
+
+  it("uploads, lists and downloads files", async () => {
+    const room = await join("alice");
+    const updated: string[] = [];
+    room.storage.on("file.updated", (event) => updated.push((event as FileUpdatedEvent).path));
+
+    await room.storage.upload("/docs/readme.txt", encoder.encode("hello"), { mimeType: "text/plain" });
+
+    expect(await room.storage.exists("docs/readme.txt")).to.equal(true);
+    const entries = await room.storage.list("docs");
+    expect(entries.map((entry) => [entry.name, entry.isFolder, entry.size])).to.deep.equal([["readme.txt", false, 5]]);
+
+    const file = await room.storage.download("docs/readme.txt");
+    expect(decoder.decode(file.data)).to.equal("hello");
+    expect(file.mimeType).to.equal("text/plain");
+    expect(decoder.decode(server.storage.read("docs/readme.txt")!.data)).to.equal("hello");
+
+    await waitUntil(() => updated.length > 0);
+    expect(updated).to.deep.equal(["docs/readme.txt"]);
+
+    await room.storage.delete("docs/readme.txt");
+    expect(await room.storage.stat("docs/readme.txt")).to.equal(null);
+  });
+
+  it("delivers queue messages to waiting receivers", async () => {
+    const alice = await join("alice");
+    const bob = await join("bob");
+
+    const received = bob.queues.receive("jobs", { wait: true });
+    await alice.queues.send("jobs", { id: 1 }, {});
+
+    expect(await received).to.deep.equal({ id: 1 });
+    expect(await bob.queues.receive("jobs", { wait: false })).to.equal(null);
+  });
+
+  it("routes messages between participants with messaging enabled", async () => {
+    const alice = await join("alice");
+    const bob = await join("bob");
+
+    const messages: RoomMessageEvent[] = [];
+    bob.messaging.on("message", (event) => messages.push(event));
+
+    alice.messaging.enable();
+    await waitUntil(() => server.connections[0].messagingEnabled);
+    bob.messaging.enable();
+    await waitUntil(() => alice.messaging.remoteParticipants.length === 1 && bob.messaging.remoteParticipants.length === 1);
+
+    const to = alice.messaging.remoteParticipants[0];
+    await alice.messaging.sendMessage({ to, type: "chat", message: { text: "hi" }, attachment: encoder.encode("data") });
+
+    await waitUntil(() => messages.some((event) => event.message.type === "chat"));
+    const chat = messages.find((event) => event.message.type === "chat")!;
+    expect(chat.message.fromParticipantId).to.equal(alice.localParticipant?.id);
+    expect(chat.message.message).to.deep.equal({ text: "hi" });
+    expect(decoder.decode(chat.message.attachment!)).to.equal("data");
+  });
+
+  it("forwards tool calls to hosted toolkits", async () => {
+    const host = await join("host");
+    const caller = await join("caller");
+    const hosted = await startHostedToolkit({
+      room: host,
+      toolkit: new Toolkit({ name: "greeter", tools: [new GreetTool()] }),
+    });
+
+    try {
+      const toolkits = await caller.listToolkits();
+      expect(toolkits.map((toolkit) => toolkit.name)).to.deep.equal(["greeter"]);
+
+      const response = await caller.invokeContent({ toolkit: "greeter", tool: "greet", input: { name: "bob" } });
+      expect((response as JsonContent).json).to.deep.equal({
+        greeting: "hello bob",
+        caller: caller.localParticipant?.id,
+      });
+    } finally {
+      await hosted.stop();
+    }
+  });
+
+  it("serves custom toolkits and reports missing toolkits", async () => {
+    server.addToolkit(new Toolkit({ name: "greeter", tools: [new GreetTool()] }));
+    const room = await join("alice");
+
+    const response = await room.invokeContent({ toolkit: "greeter", tool: "greet", input: { name: "ann" } });
+    expect((response as JsonContent).json["greeting"]).to.equal("hello ann");
+
+    let error: unknown;
+    try {
+      await room.invokeContent({ toolkit: "missing", tool: "noop", input: {} });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(RoomServerException);
+    expect((error as Error).message).to.equal("toolkit not found: missing");
+  });
+
+  it("synchronizes documents between participants", async () => {
+    const alice = await join("alice");
+    const bob = await join("bob");
+
+    const aliceDoc = await alice.sync.open("notes/today.note", { schema });
+    await aliceDoc.synchronized;
+    aliceDoc.root.setAttribute("title", "groceries");
+
+    const bobDoc = await bob.sync.open("notes/today.note");
+    await bobDoc.synchronized;
+    await waitUntil(() => bobDoc.root.getAttribute("title") === "groceries");
+
+    bobDoc.root.setAttribute("title", "errands");
+    await waitUntil(() => aliceDoc.root.getAttribute("title") === "errands");
+
+    await alice.sync.close("notes/today.note");
+    await bob.sync.close("notes/today.note");
+  });
+
+  it("broadcasts developer logs", async () => {
+    const alice = await join("alice");
+    const bob = await join("bob");
+    const logs: string[] = [];
+    bob.developer.on("log", (event) => logs.push(`${event.type}:${JSON.stringify(event.data)}`));
+
+    await alice.developer.log("step", { n: 1 });
+
+    await waitUntil(() => logs.length === 1);
+    expect(logs).to.deep.equal(['step:{"n":1}']);
+  });
+
+  it("reconnects a client as a new session after the connection fails", async () => {
+    const room = await join("alice");
+    const first = server.connections[0];
+
+    first.fail(new Error("network down"));
+
+    await waitUntil(() => server.connections.length === 1 && server.connections[0] !== first);
+    await waitUntil(() => room.localParticipant?.id === server.connections[0].participantId);
+    expect(await room.queues.receive("jobs", { wait: false })).to.equal(null);
+  });
+});
@@ -0,0 +1,243 @@
+import { expect } from "chai";
+
+import { FunctionTool, InvalidToolDataException, ToolContext, Toolkit } from "../agent.js";
+import { ToolDescription } from "../agent-client.js";
+import { JsonSchemaValidator, jsonPointer, validateJsonSchema, validateJsonSchemaValue } from "../json-schema.js";
+import { Content, JsonContent } from "../response.js";
+
+function errorsOf(schema: Record<string, any>, value: unknown): Array<[string, string]> {
+  return validateJsonSchema(schema, value).map((error) => [error.instancePath, error.keyword]);
+}
+
+class ShapeTool extends FunctionTool {
+  constructor() {
+    super({
+      name: "shape",
+      inputSchema: {
+        type: "object",
+        required: ["shape"],
+        properties: {
+          shape: {
+            oneOf: [
+              { type: "object", required: ["radius"], properties: { radius: { type: "number", exclusiveMinimum: 0 } } },
+              { type: "object", required: ["side"], properties: { side: { type: "number", exclusiveMinimum: 0 } } },
+            ],
+          },
+        },
+      },
+    });
+  }
+
+  public async execute(_context: ToolContext, _arguments_: Record<string, any>): Promise<Content> {
+    return new JsonContent({ json: {} });
+  }
+}
+
+describe("json_schema_test", () => {
+  it("reports failing values as JSON Pointers", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        "a/b": { type: "array", items: { type: "object", properties: { "x~y": { type: "integer" } } } },
+      },
+    };
+
+    const [error] = validateJsonSchema(schema, { "a/b": [{ "x~y": 1 }, { "x~y": "two" }] });
+
+    expect(error.instancePath).to.equal("/a~1b/1/x~0y");
+    expect(error.schemaPath).to.equal("#/properties/a~1b/items/properties/x~0y/type");
+    expect(error.message).to.equal("expected type integer but got string");
+    expect(jsonPointer(["a/b", 1, "x~y"])).to.equal("/a~1b/1/x~0y");
+    expect(validateJsonSchemaValue(schema, { "a/b": "no" })).to.equal("/a~1b: expected type array but got string");
+  });
+
+  it("applies allOf, anyOf, oneOf and not", () => {
+    const schema = {
+      allOf: [{ type: "integer" }, { minimum: 0 }],
+      anyOf: [{ multipleOf: 2 }, { multipleOf: 3 }],
+      oneOf: [{ maximum: 10 }, { minimum: 6 }],
+      not: { const: 8 },
+    };
+
+    expect(errorsOf(schema, 4)).to.deep.equal([]);
+    expect(errorsOf(schema, -2)).to.deep.equal([["", "minimum"]]);
+    expect(errorsOf(schema, 5)).to.deep.equal([["", "anyOf"]]);
+    expect(errorsOf(schema, 6)).to.deep.equal([["", "oneOf"]]);
+    expect(errorsOf(schema, 8)).to.deep.equal([["", "oneOf"], ["", "not"]]);
+  });
+
+  it("checks string patterns and formats", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        code: { type: "string", pattern: "^[A-Z]{3}$" },
+        email: { type: "string", format: "email" },
+        at: { type: "string", format: "date-time" },
+        id: { type: "string", format: "uuid" },
+        host: { type: "string", format: "ipv6" },
+      },
+    };
+
+    expect(errorsOf(schema, {
+      code: "ABC",
+      email: "ada@example.com",
+      at: "2024-02-29T12:30:00Z",
+      id: "0b7b4c38-3c2e-4e0f-8f7a-0ad3d5a9b1c2",
+      host: "::ffff:192.168.0.1",
+    })).to.deep.equal([]);
+    expect(errorsOf(schema, {
+      code: "abc",
+      email: "ada@",
+      at: "2023-02-29T12:30:00Z",
+      id: "not-a-uuid",
+      host: "1::2::3",
+    })).to.deep.equal([["/code", "pattern"], ["/email", "format"], ["/at", "format"], ["/id", "format"], ["/host", "format"]]);
+    expect(new JsonSchemaValidator({ format: "email" }, { assertFormats: false }).isValid("nope")).to.equal(true);
+    expect(new JsonSchemaValidator({ format: "even" }, { formats: { even: (value) => value.length % 2 === 0 } }).isValid("abc")).to.equal(false);
+  });
+
+  it("checks object keywords", () => {
+    const schema = {
+      type: "object",
+      properties: { name: { type: "string" } },
+      patternProperties: { "^x-": { type: "string" } },
+      additionalProperties: false,
+      propertyNames: { maxLength: 8 },
+      dependentRequired: { name: ["id"] },
+      minProperties: 1,
+    };
+
+    expect(errorsOf(schema, { name: "a", id: 1, "x-tag": "t" })).to.deep.equal([["", "additionalProperties"]]);
+    expect(errorsOf(schema, { "x-tag": 1 })).to.deep.equal([["/x-tag", "type"]]);
+    expect(errorsOf(schema, { name: "a" })).to.deep.equal([["", "dependentRequired"]]);
+    expect(errorsOf(schema, { "x-very-long": "t" })).to.deep.equal([["", "propertyNames"]]);
+    expect(errorsOf(schema, {})).to.deep.equal([["", "minProperties"]]);
+  });
+
+  it("checks array keywords", () => {
+    const schema = {
+      type: "array",
+      prefixItems: [{ type: "string" }],
+      items: { type: "integer" },
+      contains: { const: 0 },
+      maxContains: 1,
+      minItems: 2,
+      uniqueItems: true,
+    };
+
+    expect(errorsOf(schema, ["a", 0, 1])).to.deep.equal([]);
+    expect(errorsOf(schema, ["a"])).to.deep.equal([["", "contains"], ["", "minItems"]]);
+    expect(errorsOf(schema, ["a", 1, 1])).to.deep.equal([["", "contains"], ["", "uniqueItems"]]);
+    expect(errorsOf(schema, [1, 0, 0.5])).to.deep.equal([["/0", "type"], ["/2", "type"]]);
+    expect(errorsOf({ items: [{ type: "string" }], additionalItems: false }, ["a", "b"])).to.deep.equal([["/1", "false"]]);
+  });
+
+  it("applies if, then and else", () => {
+    const schema = {
+      type: "object",
+      if: { properties: { kind: { const: "card" } } },
+      then: { required: ["number"] },
+      else: { required: ["iban"] },
+    };
+
+    expect(errorsOf(schema, { kind: "card", number: "4242" })).to.deep.equal([]);
+    expect(errorsOf(schema, { kind: "card" })).to.deep.equal([["", "required"]]);
+    expect(validateJsonSchema(schema, { kind: "bank" })[0].schemaPath).to.equal("#/else/required");
+  });
+
+  it("tracks evaluated properties and items across applicators", () => {
+    const schema = {
+      allOf: [{ properties: { a: true } }],
+      anyOf: [{ properties: { b: true }, required: ["b"] }, { properties: { c: true }, required: ["c"] }],
+      unevaluatedProperties: false,
+    };
+
+    expect(errorsOf(schema, { a: 1, b: 2 })).to.deep.equal([]);
+    expect(errorsOf(schema, { a: 1, b: 2, d: 3 })).to.deep.equal([["", "unevaluatedProperties"]]);
+    expect(errorsOf({ prefixItems: [true], contains: { type: "string" }, unevaluatedItems: false }, [1, "x", 2]))
+      .to.deep.equal([["/2", "false"]]);
+  });
+
+  it("resolves local, anchored and remote references", () => {
+    const address = {
+      $id: "https://schemas.example.com/address.json",
+      type: "object",
+      required: ["city"],
+      properties: { city: { $ref: "#/$defs/name" } },
+      $defs: { name: { type: "string", minLength: 1 } },
+    };
+    const validator = new JsonSchemaValidator({
+      $id: "https://schemas.example.com/person.json",
+      type: "object",
+      properties: {
+        home: { $ref: "address.json" },
+        nickname: { $ref: "#nick" },
+      },
+      $defs: { nickname: { $anchor: "nick", type: "string", maxLength: 4 } },
+    }, { resources: { [address.$id]: address } });
+
+    expect(validator.validate({ home: { city: "Oslo" }, nickname: "Al" })).to.deep.equal([]);
+    expect(validator.validate({ home: { city: "" }, nickname: "Alfred" }).map((error) => error.instancePath))
+      .to.deep.equal(["/home/city", "/nickname"]);
+    expect(new JsonSchemaValidator({ $ref: "https://schemas.example.com/missing.json" }).validate(1)[0].message)
+      .to.equal("cannot resolve $ref https://schemas.example.com/missing.json");
+  });
+
+  it("fetches remote references when loading", async () => {
+    const fetched: string[] = [];
+    const validator = await JsonSchemaValidator.load({ $ref: "https://schemas.example.com/id.json" }, {
+      fetchSchema: async (uri) => {
+        fetched.push(uri);
+        return uri.endsWith("id.json")
+          ? { $ref: "https://schemas.example.com/positive.json" }
+          : { type: "integer", minimum: 1 };
+      },
+    });
+
+    expect(fetched).to.deep.equal(["https://schemas.example.com/id.json", "https://schemas.example.com/positive.json"]);
+    expect(validator.isValid(3)).to.equal(true);
+    expect(validator.isValid(0)).to.equal(false);
+  });
+
+  it("resolves dynamic references against the outermost scope", () => {
+    const tree = {
+      $id: "https://schemas.example.com/tree.json",
+      $dynamicAnchor: "node",
+      type: "object",
+      properties: { children: { type: "array", items: { $dynamicRef: "#node" } } },
+    };
+    const strictTree = {
+      $id: "https://schemas.example.com/strict-tree.json",
+      $dynamicAnchor: "node",
+      $ref: "tree.json",
+      unevaluatedProperties: false,
+    };
+    const validator = new JsonSchemaValidator(strictTree, { resources: { [tree.$id]: tree } });
+
+    expect(validator.isValid({ children: [{ children: [] }] })).to.equal(true);
+    expect(validator.validate({ children: [{ child: [] }] }).map((error) => error.instancePath)).to.deep.equal(["/children/0", ""]);
+  });
+
+  it("is used by full toolkit validation", () => {
+    const tool = new ShapeTool();
+    const toolkit = new Toolkit({ name: "shapes", tools: [tool] });
+
+    toolkit.validateInputContent(tool, new JsonContent({ json: { shape: { side: 2 } } }));
+    expect(() => toolkit.validateInputContent(tool, new JsonContent({ json: { shape: { side: 0 } } })))
+      .to.throw(InvalidToolDataException, "tool shape input does not match input_schema: /shape: value does not match any schema in oneOf");
+  });
+
+  it("validates arguments against tool descriptions", () => {
+    const description = new ToolDescription({
+      title: "lookup",
+      name: "lookup",
+      description: "",
+      inputSchema: { type: "object", properties: { id: { $ref: "#/$defs/id" } } },
+      defs: { id: { type: "string", format: "uuid" } },
+    });
+
+    expect(description.validateInput({ id: "0b7b4c38-3c2e-4e0f-8f7a-0ad3d5a9b1c2" })).to.deep.equal([]);
+    expect(description.validateInput({ id: "42" }).map((error) => error.instancePath)).to.deep.equal(["/id"]);
+    expect(description.validateOutput("anything")).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,174 @@
+import { expect } from "chai";
+import { execFile } from "child_process";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { promisify } from "util";
+
+import { InMemoryRoomServer } from "../in-memory-room-server.js";
+import { Protocol, ProtocolFactory, ProtocolOptions, ProtocolReconnectUnsupportedException } from "../protocol.js";
+import {
+  FileProtocolRecordSink,
+  MemoryProtocolRecordSink,
+  ProtocolRecordSink,
+  ProtocolReplay,
+  RecordingProtocolChannel,
+  formatProtocolRecording,
+  readProtocolRecording,
+} from "../protocol-recording.js";
+import { RoomClient } from "../room-client.js";
+import { decoder, encoder } from "../utils.js";
+
+function recording(server: InMemoryRoomServer, sink: ProtocolRecordSink, protocolOptions: ProtocolOptions = {}): ProtocolFactory {
+  const factory = server.protocolFactory({ participantName: "alice", protocolOptions });
+  return () => new Protocol({ ...protocolOptions, channel: new RecordingProtocolChannel({ channel: factory().channel, sink }) });
+}
+
+async function session(room: RoomClient): Promise<string[]> {
+  await room.start();
+  await room.storage.upload("notes/todo.txt", encoder.encode("x".repeat(3000)));
+  const file = await room.storage.download("notes/todo.txt");
+  const entries = await room.storage.list("notes");
+  return [decoder.decode(file.data).length.toString(), ...entries.map((entry) => entry.name)];
+}
+
+describe("protocol_recording_test", () => {
+  let server: InMemoryRoomServer;
+  let rooms: RoomClient[];
+
+  beforeEach(() => {
+    server = new InMemoryRoomServer();
+    rooms = [];
+  });
+
+  afterEach(() => {
+    rooms.forEach((room) => room.dispose());
+    server.dispose();
+  });
+
+  function room(protocolFactory: ProtocolFactory): RoomClient {
+    const client = new RoomClient({ protocolFactory, reconnectTimeout: 0 });
+    rooms.push(client);
+    return client;
+  }
+
+  it("records the messages sent and received", async () => {
+    const sink = new MemoryProtocolRecordSink();
+    await session(room(recording(server, sink)));
+
+    const types = sink.records.map((record) => `${record.direction} ${record.type}`);
+    expect(types.slice(0, 2)).to.deep.equal(["in room_ready", "in connected"]);
+    const download = sink.records.find((record) => record.direction === "out" && record.header?.["tool"] === "download");
+    expect(download?.header?.["toolkit"]).to.equal("storage");
+    const times = sink.records.map((record) => record.time);
+    expect(times).to.deep.equal([...times].sort((a, b) => a - b));
+  });
+
+  it("replays a recording to a room client without a server", async () => {
+    const sink = new MemoryProtocolRecordSink();
+    const recorded = await session(room(recording(server, sink)));
+
+    const replay = new ProtocolReplay({ records: JSON.parse(JSON.stringify(sink.records)) });
+    const replayed = await session(room(replay.protocolFactory));
+    await replay.finished;
+
+    expect(replayed).to.deep.equal(recorded);
+    expect(replay.mismatches).to.deep.equal([]);
+    expect(() => replay.protocolFactory()).to.throw(ProtocolReconnectUnsupportedException);
+  });
+
+  it("records compressed messages as they were before compression", async () => {
+    const sink = new MemoryProtocolRecordSink();
+    const factory = recording(server, sink, { compression: { threshold: 1024 } });
+    const protocols: Protocol[] = [];
+    const recorded = await session(room(() => {
+      const protocol = factory();
+      protocols.push(protocol);
+      return protocol;
+    }));
+    await (protocols[0].channel as RecordingProtocolChannel).recorded;
+
+    expect(protocols[0].compressing).to.equal(true);
+    expect(sink.records.some((record) => record.type.includes(";"))).to.equal(false);
+    const data = sink.records.filter((record) => JSON.stringify(record.header).includes('"kind":"data"'));
+    expect(data.map((record) => decoder.decode(Buffer.from(record.payload, "base64")))).to.deep.equal(["x".repeat(3000), "x".repeat(3000)]);
+
+    const replay = new ProtocolReplay({ records: sink.records });
+    const replayed = await session(room(replay.protocolFactory));
+    await replay.finished;
+
+    expect(replayed).to.deep.equal(recorded);
+    expect(replay.mismatches).to.deep.equal([]);
+  });
+
+  it("reports requests that differ from the recording", async () => {
+    const sink = new MemoryProtocolRecordSink();
+    const client = room(recording(server, sink));
+    await client.start();
+    await client.storage.exists("notes/todo.txt");
+
+    const replay = new ProtocolReplay({ records: sink.records });
+    const replayed = room(replay.protocolFactory);
+    await replayed.start();
+    await replayed.storage.list("notes").catch(() => undefined);
+    await replay.finished;
+
+    expect(replay.mismatches.map(({ expected, actual }) => [expected, actual])).to.deep.equal([
+      ["room.invoke_tool storage.exists", "room.invoke_tool storage.list"],
+    ]);
+  });
+
+  it("writes recording files on Node.js versions without getBuiltinModule", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "protocol-recording-"));
+    const process = globalThis.process as { getBuiltinModule?: unknown };
+    const getBuiltinModule = process.getBuiltinModule;
+    try {
+      const path = join(directory, "session.jsonl");
+      process.getBuiltinModule = undefined;
+      const sink = new FileProtocolRecordSink({ path });
+      await session(room(recording(server, sink)));
+      const records = await readProtocolRecording(path);
+
+      expect(records[0].type).to.equal("room_ready");
+      expect(records.some((record) => record.header?.["tool"] === "download")).to.equal(true);
+    } finally {
+      process.getBuiltinModule = getBuiltinModule;
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("writes recordings to files and formats them", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "protocol-recording-"));
+    try {
+      const path = join(directory, "session.jsonl");
+      await session(room(recording(server, new FileProtocolRecordSink({ path }))));
+
+      const records = await readProtocolRecording(path);
+      const lines = formatProtocolRecording(records).split("\n");
+      expect(lines).to.have.length(records.length);
+      expect(lines[0]).to.match(/^ +0\.\d{3}s <- #\d+ +room_ready \{"room_name":"in-memory-room"/);
+      expect(lines.some((line) => / -> #\d+ +room\.invoke_tool \{.*"tool":"upload"/.test(line))).to.equal(true);
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("prints recordings with the inspector script", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "protocol-recording-"));
+    const script = join(process.cwd(), "scripts", "inspect-protocol-recording.js");
+    try {
+      const path = join(directory, "session.jsonl");
+      await session(room(recording(server, new FileProtocolRecordSink({ path }))));
+
+      const { stdout } = await promisify(execFile)("node", [script, path, "--type", "room_ready"]);
+      expect(stdout).to.match(/^ +0\.\d{3}s <- #\d+ +room_ready \{"room_name":"in-memory-room"/);
+      expect(stdout.trim().split("\n")).to.have.length(1);
+
+      const missing = await promisify(execFile)("node", [script, join(directory, "missing.jsonl")]).catch((error: unknown) => error);
+      expect((missing as { code?: number }).code).to.equal(1);
+      expect((missing as { stderr?: string }).stderr).to.include("ENOENT");
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,343 @@
+import { expect } from "chai";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+
+import { InMemoryRoomServer } from "../in-memory-room-server.js";
+import {
+  Protocol,
+  ProtocolChannel,
+  ProtocolHandshakeException,
+  ProtocolOptions,
+  WebSocketClientProtocol,
+  WebSocketProtocolServer,
+} from "../protocol.js";
+import { RoomClient } from "../room-client.js";
+import { encoder, packMessage, unpackMessage } from "../utils.js";
+
+class RecordingProtocolChannel implements ProtocolChannel {
+  public readonly packets: Uint8Array[] = [];
+  public onData?: (data: Uint8Array) => void;
+
+  public start(onDataReceived: (data: Uint8Array) => void): void {
+    this.onData = onDataReceived;
+  }
+
+  public dispose(): void {}
+
+  public async sendData(data: Uint8Array): Promise<void> {
+    this.packets.push(data);
+  }
+}
+
+class LinkedProtocolChannel extends RecordingProtocolChannel {
+  public peer?: LinkedProtocolChannel;
+
+  public override async sendData(data: Uint8Array): Promise<void> {
+    await super.sendData(data);
+    this.peer?.onData?.(data);
+  }
+}
+
+interface Received {
+  id: number;
+  type: string;
+  data: Uint8Array;
+}
+
+function receiver(options: ProtocolOptions = {}) {
+  const channel = new RecordingProtocolChannel();
+  const protocol = new Protocol({ channel, ...options });
+  const received: Received[] = [];
+  protocol.start({ onMessage: (_protocol, id, type, data) => { received.push({ id, type, data }); } });
+  return { channel, protocol, received };
+}
+
+function sender() {
+  const channel = new RecordingProtocolChannel();
+  const protocol = new Protocol({ channel });
+  protocol.start();
+  return { channel, protocol };
+}
+
+function bytes(length: number, fill: number): Uint8Array {
+  return new Uint8Array(length).fill(fill);
+}
+
+function packetId(packet: Uint8Array): number {
+  return new DataView(packet.buffer, packet.byteOffset).getUint32(4, false);
+}
+
+async function packetsOf(messages: Array<[string, Uint8Array]>, id = 0): Promise<Uint8Array[][]> {
+  const { channel, protocol } = sender();
+  await Promise.all(messages.map(([type, data], index) => protocol.send(type, data, id + index)));
+  protocol.dispose();
+  return messages.map((_, index) => channel.packets.filter((packet) => packetId(packet) === id + index));
+}
+
+function linked(options: { a?: ProtocolOptions; b?: ProtocolOptions } = {}) {
+  const channels = [new LinkedProtocolChannel(), new LinkedProtocolChannel()];
+  channels[0].peer = channels[1];
+  channels[1].peer = channels[0];
+  const a = new Protocol({ channel: channels[0], ...options.a });
+  const b = new Protocol({ channel: channels[1], ...options.b });
+  const received: Received[] = [];
+  b.start({ onMessage: (_protocol, id, type, data) => { received.push({ id, type, data }); } });
+  a.start();
+  return { a, b, sent: channels[0].packets, received };
+}
+
+async function waitUntil(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const started = Date.now();
+  while (!predicate()) {
+    if (Date.now() - started > timeoutMs) {
+      throw new Error("timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+function largeJson(): Uint8Array {
+  return packMessage({ rows: Array.from({ length: 2000 }, (_, index) => ({ index, name: `row ${index}` })) });
+}
+
+describe("protocol_test", () => {
+  it("reassembles messages whose packets interleave", async () => {
+    const [first, second] = await packetsOf([["storage.download", bytes(3000, 1)], ["room.status", bytes(2500, 2)]]);
+    const { channel, protocol, received } = receiver();
+
+    for (let i = 0; i < Math.max(first.length, second.length); i++) {
+      if (i < first.length) channel.onData!(first[i]);
+      if (i < second.length) channel.onData!(second[i]);
+    }
+
+    expect(received.map((message) => [message.id, message.type, message.data.length])).to.deep.equal([
+      [0, "storage.download", 3000],
+      [1, "room.status", 2500],
+    ]);
+    expect(received[1].data.every((value) => value === 2)).to.equal(true);
+    protocol.dispose();
+  });
+
+  it("sends messages one after another until the peer interleaves", async () => {
+    const { a, b, sent, received } = linked({ a: { interleave: true } });
+    await waitUntil(() => sent.length > 0);
+
+    await Promise.all([a.send("storage.upload", bytes(8 * 1024, 1), 100), a.send("room.status", bytes(10, 2), 101)]);
+    await waitUntil(() => received.length === 2);
+
+    const ids = sent.map(packetId).filter((id) => id >= 100);
+    expect(ids).to.deep.equal([...Array(9).fill(100), 101, 101]);
+    expect(a.interleaving).to.equal(false);
+    a.dispose();
+    b.dispose();
+  });
+
+  it("does not hold small messages behind large transfers", async () => {
+    const { a, b, sent, received } = linked({ a: { interleave: true }, b: { interleave: true } });
+    await waitUntil(() => a.interleaving && b.interleaving);
+
+    const large = a.send("storage.upload", bytes(64 * 1024, 1), 100);
+    await Promise.resolve();
+    const small = a.send("room.status", bytes(10, 2), 101);
+    await Promise.all([large, small]);
+    await waitUntil(() => received.length === 2);
+
+    const ids = sent.map(packetId).filter((id) => id >= 100);
+    expect(ids.lastIndexOf(101)).to.be.lessThan(10);
+    expect(ids.lastIndexOf(100)).to.equal(ids.length - 1);
+    expect(received.map((message) => message.id)).to.deep.equal([101, 100]);
+    a.dispose();
+    b.dispose();
+  });
+
+  it("keeps messages of the same stream or id in order", async () => {
+    const { a, b, received } = linked({ a: { interleave: true }, b: { interleave: true } });
+    await waitUntil(() => a.interleaving && b.interleaving);
+
+    await Promise.all([
+      a.send("room.tool_call_request_chunk", bytes(5000, 1), 100, { stream: "call-1" }),
+      a.send("room.tool_call_request_chunk", bytes(100, 2), 101, { stream: "call-1" }),
+      a.send("room.invoke_tool", bytes(5000, 3), 102),
+      a.send("room.invoke_tool", bytes(100, 4), 103),
+      a.send("__response__", bytes(100, 5), 100),
+    ]);
+    await waitUntil(() => received.length === 5);
+
+    const order = received.map((message) => `${message.id} ${message.type}`);
+    const position = (entry: string) => order.indexOf(entry);
+    expect(position("100 room.tool_call_request_chunk")).to.be.lessThan(position("101 room.tool_call_request_chunk"));
+    expect(position("100 room.tool_call_request_chunk")).to.be.lessThan(position("100 __response__"));
+    expect(position("103 room.invoke_tool")).to.be.lessThan(position("102 room.invoke_tool"));
+    a.dispose();
+    b.dispose();
+  });
+
+  it("drops a broken message without affecting the others", async () => {
+    const [broken, intact] = await packetsOf([["a", bytes(3000, 1)], ["b", bytes(3000, 2)]]);
+    const { channel, protocol, received } = receiver();
+
+    channel.onData!(broken[0]);
+    channel.onData!(intact[0]);
+    channel.onData!(broken[2]);
+    intact.slice(1).forEach((packet) => channel.onData!(packet));
+    channel.onData!(broken[3]);
+
+    expect(received.map((message) => message.type)).to.deep.equal(["b"]);
+    protocol.dispose();
+  });
+
+  it("bounds the receive buffers", async () => {
+    const [large, small] = await packetsOf([["large", bytes(4096, 1)], ["small", bytes(512, 2)]]);
+    const { channel, protocol, received } = receiver({ maxBufferedBytes: 2048 });
+
+    channel.onData!(large[0]);
+    channel.onData!(small[0]);
+    large.slice(1).forEach((packet) => channel.onData!(packet));
+    channel.onData!(small[1]);
+    expect(received.map((message) => message.type)).to.deep.equal(["small"]);
+
+    const [first, second, third] = await packetsOf([["first", bytes(2000, 1)], ["second", bytes(10, 2)], ["third", bytes(10, 3)]], 10);
+    const limited = receiver({ maxPendingMessages: 2 });
+    [first[0], second[0], third[0], first[1], first[2], second[1], third[1]].forEach((packet) => limited.channel.onData!(packet));
+    expect(limited.received.map((message) => message.type)).to.deep.equal(["second", "third"]);
+
+    protocol.dispose();
+    limited.protocol.dispose();
+  });
+
+  it("compresses large messages once both peers support it", async () => {
+    const { a, b, sent, received } = linked({ a: { compression: true }, b: { compression: true } });
+    await waitUntil(() => a.compressing && b.compressing);
+
+    const payload = largeJson();
+    await a.send("dataset.rows", payload, 100);
+    await a.send("room.status", encoder.encode("small"), 101);
+    await waitUntil(() => received.length === 2);
+
+    expect(received.map((message) => [message.id, message.type])).to.deep.equal([[100, "dataset.rows"], [101, "room.status"]]);
+    expect(unpackMessage(received[0].data)[0]).to.deep.equal(unpackMessage(payload)[0]);
+    expect(sent.filter((packet) => packetId(packet) === 100).length).to.be.lessThan(payload.length / 1024 / 4);
+    a.dispose();
+    b.dispose();
+  });
+
+  it("only compresses the configured message types", async () => {
+    const { a, b, sent, received } = linked({ a: { compression: { types: ["dataset.rows"] } }, b: { compression: true } });
+    await waitUntil(() => a.compressing);
+
+    const payload = largeJson();
+    await a.send("toolkit.describe", payload, 100);
+    await waitUntil(() => received.length === 1);
+
+    expect(received[0].data).to.deep.equal(payload);
+    expect(sent.filter((packet) => packetId(packet) === 100).length).to.equal(Math.ceil(payload.length / 1024) + 1);
+    a.dispose();
+    b.dispose();
+  });
+
+  it("keeps sending other messages while a large one is compressed", async () => {
+    const options = { compression: true, interleave: true };
+    const { a, b, received } = linked({ a: options, b: options });
+    await waitUntil(() => a.compressing && a.interleaving && b.interleaving);
+
+    const large = a.send("dataset.rows", largeJson(), 100);
+    const small = a.send("room.status", encoder.encode("small"), 101);
+    await Promise.all([large, small]);
+    await waitUntil(() => received.length === 2);
+
+    expect(received.map((message) => message.id)).to.deep.equal([101, 100]);
+    a.dispose();
+    b.dispose();
+  });
+
+  it("treats a malformed compression handshake as no compression", async () => {
+    const [handshake, status] = await packetsOf([["__compression__", new Uint8Array(0)], ["room.status", bytes(10, 1)]], 100);
+    const { channel, protocol, received } = receiver({ compression: true });
+
+    [...handshake, ...status].forEach((packet) => channel.onData!(packet));
+
+    expect(protocol.compressing).to.equal(false);
+    expect(received.map((message) => message.type)).to.deep.equal(["room.status"]);
+    protocol.dispose();
+  });
+
+  it("sends uncompressed when the peer does not support compression", async () => {
+    const { a, b, sent, received } = linked({ a: { compression: true } });
+    await waitUntil(() => sent.length > 0);
+
+    const payload = largeJson();
+    await a.send("dataset.rows", payload, 100);
+    await waitUntil(() => received.length === 1);
+
+    expect(a.compressing).to.equal(false);
+    expect(received[0].data).to.deep.equal(payload);
+    expect(sent.filter((packet) => packetId(packet) === 100).length).to.equal(Math.ceil(payload.length / 1024) + 1);
+    a.dispose();
+    b.dispose();
+  });
+
+  describe("websocket server", () => {
+    let http: Server;
+    let url: string;
+    let rooms: InMemoryRoomServer;
+    let server: WebSocketProtocolServer;
+    const tokens: Array<string | null> = [];
+
+    beforeEach(async () => {
+      rooms = new InMemoryRoomServer();
+      tokens.length = 0;
+      server = new WebSocketProtocolServer({
+        path: "/room",
+        authorize: (_request, token) => token !== "denied",
+        onConnection: (protocol) => {
+          tokens.push(protocol.token);
+          rooms.accept(protocol);
+        },
+      });
+      http = createServer();
+      server.attach(http);
+      await new Promise<void>((resolve) => http.listen(0, "127.0.0.1", resolve));
+      url = `http://127.0.0.1:${(http.address() as AddressInfo).port}/room`;
+    });
+
+    afterEach(async () => {
+      server.close();
+      rooms.dispose();
+      await new Promise((resolve) => http.close(resolve));
+    });
+
+    it("serves room clients over websockets", async () => {
+      const room = new RoomClient({ protocolFactory: WebSocketClientProtocol.createFactory({ url, token: "secret" }) });
+      await room.start();
+
+      await room.storage.upload("data.bin", bytes(5000, 7));
+      const file = await room.storage.download("data.bin");
+      expect(file.data.length).to.equal(5000);
+      expect(file.data.every((value) => value === 7)).to.equal(true);
+      expect(tokens).to.deep.equal(["secret"]);
+      expect(server.protocols.length).to.equal(1);
+
+      room.dispose();
+    });
+
+    it("rejects clients it does not authorize", async () => {
+      const protocol = new WebSocketClientProtocol({ url, token: "denied" });
+      protocol.start();
+      const error = await protocol.done;
+
+      expect(error).to.be.instanceOf(ProtocolHandshakeException);
+      expect((error as ProtocolHandshakeException).statusCode).to.equal(401);
+      expect(tokens).to.deep.equal([]);
+      protocol.dispose();
+    });
+
+    it("disposes clients that are still connecting", async () => {
+      const protocol = new WebSocketClientProtocol({ url, token: "secret" });
+      protocol.start();
+      protocol.dispose();
+
+      expect(await protocol.done).to.equal(null);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import { expect } from "chai";
+
+import { Completer } from "../completer.js";
+import { InMemoryRoomServer } from "../in-memory-room-server.js";
+import { QueueDelivery } from "../queue-worker.js";
+import { RoomClient } from "../room-client.js";
+
+async function waitUntil(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+describe("queue_worker_test", () => {
+  let server: InMemoryRoomServer;
+  let room: RoomClient;
+
+  beforeEach(async () => {
+    server = new InMemoryRoomServer();
+    room = new RoomClient({ protocolFactory: server.protocolFactory() });
+    await room.start();
+  });
+
+  afterEach(() => {
+    room.dispose();
+    server.dispose();
+  });
+
+  it("limits the number of deliveries handled at once", async () => {
+    for (let i = 0; i < 6; i++) {
+      await room.queues.send("jobs", { id: i }, {});
+    }
+    const worker = room.queues.consume("jobs", { concurrency: 2 });
+    const handled: number[] = [];
+    let active = 0;
+    let maxActive = 0;
+
+    worker.start(async (delivery) => {
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      handled.push(delivery.message.id);
+      active -= 1;
+    });
+
+    await waitUntil(() => handled.length === 6);
+    await worker.stop();
+
+    expect(maxActive).to.equal(2);
+    expect([...handled].sort()).to.deep.equal([0, 1, 2, 3, 4, 5]);
+  });
+
+  it("retries failed deliveries until they succeed", async () => {
+    await room.queues.send("jobs", { id: 1 }, {});
+    const worker = room.queues.consume("jobs", { retryDelayMs: 1 });
+    const attempts: number[] = [];
+
+    worker.start((delivery) => {
+      attempts.push(delivery.attempt);
+      if (delivery.attempt < 3) {
+        throw new Error("not yet");
+      }
+    });
+
+    await waitUntil(() => attempts.length === 3);
+    await worker.stop();
+
+    expect(attempts).to.deep.equal([1, 2, 3]);
+    expect(await room.queues.receive("jobs", { wait: false })).to.equal(null);
+  });
+
+  it("sends exhausted messages to the dead-letter queue", async () => {
+    await room.queues.send("jobs", { id: 1 }, {});
+    const worker = room.queues.consume("jobs", { maxAttempts: 2, retryDelayMs: 1, deadLetterQueue: "jobs.dead" });
+    let attempts = 0;
+
+    worker.start(() => {
+      attempts += 1;
+      throw new Error("handler failed");
+    });
+
+    await waitUntil(() => (server.queues.queues.get("jobs.dead")?.length ?? 0) === 1);
+    await worker.stop();
+
+    expect(attempts).to.equal(2);
+    expect(await room.queues.receive("jobs.dead", { wait: false })).to.deep.equal({
+      queue: "jobs",
+      message: { id: 1 },
+      attempts: 2,
+      error: "handler failed",
+    });
+  });
+
+  it("yields deliveries to async iterators", async () => {
+    await room.queues.send("jobs", { id: 1 }, {});
+    await room.queues.send("jobs", { id: 2 }, {});
+    const worker = room.queues.consume("jobs", { retryDelayMs: 1 });
+    const seen: Array<[number, number]> = [];
+
+    for await (const delivery of worker) {
+      seen.push([delivery.message.id, delivery.attempt]);
+      if (delivery.message.id === 1 && delivery.attempt === 1) {
+        delivery.fail(new Error("try again"));
+      } else {
+        delivery.ack();
+      }
+      if (seen.length === 3) {
+        break;
+      }
+    }
+
+    expect(seen).to.deep.equal([[1, 1], [1, 2], [2, 1]]);
+    expect(worker.running).to.equal(false);
+  });
+
+  it("returns unsettled deliveries to the queue when iteration ends", async () => {
+    await room.queues.send("jobs", { id: 1 }, {});
+    const worker = room.queues.consume("jobs");
+
+    for await (const delivery of worker) {
+      expect(delivery.message).to.deep.equal({ id: 1 });
+      break;
+    }
+
+    expect(await room.queues.receive("jobs", { wait: false })).to.deep.equal({ id: 1 });
+  });
+
+  it("waits for in-flight deliveries when stopping", async () => {
+    await room.queues.send("jobs", { id: 1 }, {});
+    const worker = room.queues.consume("jobs");
+    const started = new Completer<QueueDelivery>();
+    const release = new Completer<void>();
+    let finished = false;
+
+    worker.start(async (delivery) => {
+      started.complete(delivery);
+      await release.fut;
+      finished = true;
+    });
+
+    await started.fut;
+    const stopped = worker.stop();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(finished).to.equal(false);
+
+    release.complete();
+    await stopped;
+    await worker.done;
+    expect(finished).to.equal(true);
+  });
+
+  it("does not lose messages that arrive after stopping", async () => {
+    const worker = room.queues.consume("jobs");
+    worker.start(() => {
+      throw new Error("should not be called");
+    });
+    await waitUntil(() => server.queues.queues.has("jobs"));
+
+    await worker.stop();
+    await room.queues.send("jobs", { id: 1 }, {});
+
+    await waitUntil(() => (server.queues.queues.get("jobs")?.length ?? 0) === 1);
+    expect(await room.queues.receive("jobs", { wait: false })).to.deep.equal({ id: 1 });
+  });
+
+  it("stops without waiting out the receive backoff", async () => {
+    let receives = 0;
+    room.queues.receive = async () => {
+      receives += 1;
+      throw new Error("queue unavailable");
+    };
+    const worker = room.queues.consume("jobs", { retryDelayMs: 60000 });
+    worker.start(() => undefined);
+    await waitUntil(() => receives === 1);
+
+    const started = Date.now();
+    await worker.stop();
+
+    expect(Date.now() - started).to.be.below(1000);
+    expect(receives).to.equal(1);
+  });
+
+  it("returns a message received while stopping to the queue", async () => {
+    const pending = new Completer<Record<string, any> | null>();
+    room.queues.receive = () => pending.fut;
+    const worker = room.queues.consume("jobs");
+    worker.start(() => {
+      throw new Error("should not be called");
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    await worker.stop();
+    pending.complete({ id: 1 });
+
+    await waitUntil(() => (server.queues.queues.get("jobs")?.length ?? 0) === 1);
+    expect(server.queues.queues.get("jobs")).to.deep.equal([{ id: 1 }]);
+  });
+
+  it("resumes consuming after the room reconnects", async () => {
+    const worker = room.queues.consume("jobs");
+    const handled: number[] = [];
+    worker.start((delivery) => {
+      handled.push(delivery.message.id);
+    });
+    await waitUntil(() => server.queues.queues.has("jobs"));
+
+    const first = server.connections[0];
+    first.fail(new Error("network down"));
+    await waitUntil(() => server.connections.length === 1 && server.connections[0] !== first && room.isConnected);
+
+    await room.queues.send("jobs", { id: 1 }, {});
+    await waitUntil(() => handled.length === 1);
+    await worker.stop();
+
+    expect(handled).to.deep.equal([1]);
+  });
+
+  it("rejects a second start", () => {
+    const worker = room.queues.consume("jobs");
+    worker.start(() => undefined);
+
+    expect(() => worker.start(() => undefined)).to.throw("already been started");
+    void worker.stop();
+  });
+});
@@ -0,0 +1,209 @@
+import { expect } from "chai";
+
+import { ContentTool, ToolCallOutput, ToolContext, ToolInput, ToolStreamInput, ToolStreamOutput, Toolkit } from "../agent.js";
+import { Completer } from "../completer.js";
+import { InMemoryRoomServer, InMemoryRoomToolContext } from "../in-memory-room-server.js";
+import { Content, JsonContent, TextContent } from "../response.js";
+import { RoomClient } from "../room-client.js";
+
+class EchoTool extends ContentTool {
+  public readonly inputClosed = new Completer<void>();
+
+  constructor() {
+    super({ name: "echo" });
+  }
+
+  async execute(_context: ToolContext, input: ToolInput): Promise<ToolCallOutput> {
+    const stream = (input as ToolStreamInput).stream;
+    const inputClosed = this.inputClosed;
+    async function* echo(): AsyncIterable<Content> {
+      for await (const chunk of stream) {
+        yield chunk;
+      }
+      inputClosed.complete();
+    }
+    return new ToolStreamOutput(echo());
+  }
+}
+
+class TickerTool extends ContentTool {
+  public readonly cancelled = new Completer<void>();
+
+  constructor() {
+    super({ name: "ticker" });
+  }
+
+  async execute(context: ToolContext, _input: ToolInput): Promise<ToolCallOutput> {
+    const signal = (context as InMemoryRoomToolContext).signal;
+    const cancelled = this.cancelled;
+    async function* tick(): AsyncIterable<Content> {
+      yield new TextContent({ text: "tick" });
+      await new Promise((resolve) => signal.addEventListener("abort", resolve, { once: true }));
+      cancelled.complete();
+    }
+    return new ToolStreamOutput(tick());
+  }
+}
+
+async function captureError(promise: Promise<unknown>): Promise<unknown> {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error("expected the promise to reject");
+}
+
+describe("room_client_cancellation_test", () => {
+  let server: InMemoryRoomServer;
+  let room: RoomClient;
+  let echo: EchoTool;
+  let ticker: TickerTool;
+  let releaseInput: Completer<void>;
+
+  beforeEach(async () => {
+    echo = new EchoTool();
+    ticker = new TickerTool();
+    releaseInput = new Completer<void>();
+    server = new InMemoryRoomServer({
+      toolkits: [new Toolkit({ name: "echoes", tools: [echo, ticker], validationMode: "none" })],
+    });
+    room = new RoomClient({ protocolFactory: server.protocolFactory() });
+    await room.start();
+  });
+
+  afterEach(() => {
+    releaseInput.complete();
+    room.dispose();
+    server.dispose();
+  });
+
+  it("aborts a waiting call and releases its pending request", async () => {
+    const controller = new AbortController();
+    const received = room.queues.receive("jobs", { wait: true, signal: controller.signal });
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+
+    const error = await captureError(received);
+    expect((error as Error).name).to.equal("AbortError");
+    expect((room as any)._pendingRequests.size).to.equal(0);
+    expect((room as any)._toolCallStreams.size).to.equal(0);
+  });
+
+  it("rejects with the abort reason when one is given", async () => {
+    const controller = new AbortController();
+    const reason = new Error("user navigated away");
+    const received = room.queues.receive("jobs", { wait: true, signal: controller.signal });
+
+    controller.abort(reason);
+
+    expect(await captureError(received)).to.equal(reason);
+  });
+
+  it("fails calls that exceed their timeout", async () => {
+    const error = await captureError(room.queues.receive("jobs", { wait: true, timeoutMs: 20 }));
+
+    expect((error as Error).name).to.equal("TimeoutError");
+    expect((error as Error).message).to.equal("queues.receive timed out after 20ms");
+    expect((room as any)._pendingRequests.size).to.equal(0);
+  });
+
+  it("rejects negative timeouts without listening to the signal", async () => {
+    const controller = new AbortController();
+    let listeners = 0;
+    const addEventListener = controller.signal.addEventListener.bind(controller.signal);
+    controller.signal.addEventListener = ((...args: Parameters<AbortSignal["addEventListener"]>) => {
+      listeners += 1;
+      addEventListener(...args);
+    }) as AbortSignal["addEventListener"];
+
+    const error = await captureError(room.queues.receive("jobs", { wait: false, signal: controller.signal, timeoutMs: -1 }));
+
+    expect((error as Error).message).to.equal("timeoutMs must be non-negative");
+    expect(listeners).to.equal(0);
+  });
+
+  it("does not send calls whose signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await captureError(room.queues.send("jobs", { id: 1 }, { signal: controller.signal }));
+
+    expect((error as Error).name).to.equal("AbortError");
+    expect(server.queues.queues.has("jobs")).to.equal(false);
+  });
+
+  it("closes the request stream of an aborted streaming call", async () => {
+    const controller = new AbortController();
+    async function* input(): AsyncIterable<Content> {
+      yield new TextContent({ text: "first" });
+      await releaseInput.fut;
+    }
+
+    const stream = await room.invokeStream({ toolkit: "echoes", tool: "echo", input: input(), signal: controller.signal });
+    const iterator = stream[Symbol.asyncIterator]();
+    const first = await iterator.next();
+    expect((first.value as TextContent).text).to.equal("first");
+
+    controller.abort();
+
+    const error = await captureError(iterator.next());
+    expect((error as Error).name).to.equal("AbortError");
+    await echo.inputClosed.fut;
+    expect((room as any)._toolCallStreams.size).to.equal(0);
+  });
+
+  it("cancels an aborted call whose output is streamed", async () => {
+    const controller = new AbortController();
+    const output = await room.invokeToolCall({
+      toolkit: "echoes",
+      tool: "ticker",
+      input: new JsonContent({ json: {} }),
+      signal: controller.signal,
+    });
+    expect(output.kind).to.equal("stream");
+    const iterator = (output as { stream: AsyncIterable<Content> }).stream[Symbol.asyncIterator]();
+    expect(((await iterator.next()).value as TextContent).text).to.equal("tick");
+
+    controller.abort();
+
+    expect(((await captureError(iterator.next())) as Error).name).to.equal("AbortError");
+    await ticker.cancelled.fut;
+    expect((room as any)._toolCallStreams.size).to.equal(0);
+  });
+
+  it("stops the server from waiting on an aborted queue receive", async () => {
+    const controller = new AbortController();
+    const received = room.queues.receive("jobs", { wait: true, signal: controller.signal });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    controller.abort();
+    await captureError(received);
+
+    await room.queues.send("jobs", { id: 1 }, {});
+
+    expect(server.queues.queues.get("jobs")).to.deep.equal([{ id: 1 }]);
+  });
+
+  it("lets middleware apply a default timeout", async () => {
+    room.useToolCallMiddleware({
+      beforeSend: (call) => {
+        call.timeoutMs ??= 20;
+      },
+    });
+
+    const error = await captureError(room.queues.receive("jobs", { wait: true }));
+
+    expect((error as Error).name).to.equal("TimeoutError");
+  });
+
+  it("leaves completed calls unaffected by a later abort", async () => {
+    const controller = new AbortController();
+    await room.queues.send("jobs", { id: 1 }, { signal: controller.signal, timeoutMs: 1000 });
+
+    const message = await room.queues.receive("jobs", { wait: false, signal: controller.signal });
+    controller.abort();
+
+    expect(message).to.deep.equal({ id: 1 });
+  });
+});
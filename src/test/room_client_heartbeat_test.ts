@@ -0,0 +1,124 @@
+import { expect } from "chai";
+
+import { InMemoryRoomServer } from "../in-memory-room-server.js";
+import type { Protocol, ProtocolFactory } from "../protocol.js";
+import { RoomClient } from "../room-client.js";
+import { ConnectionQualityEvent, RoomEvent } from "../room-event.js";
+
+async function waitUntil(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const started = Date.now();
+  while (!predicate()) {
+    if (Date.now() - started > timeoutMs) {
+      throw new Error("timed out waiting for condition");
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+/**
+ * Wraps a protocol factory so a test can stop the server from hearing the client, like a half-open TCP
+ * connection that never reports being closed.
+ */
+function silenceable(factory: ProtocolFactory): { factory: ProtocolFactory; protocols: Protocol[]; silence: (protocol: Protocol) => void } {
+  const protocols: Protocol[] = [];
+  const silenced = new Set<Protocol>();
+  return {
+    protocols,
+    factory: () => {
+      const protocol = factory();
+      const sendData = protocol.channel.sendData.bind(protocol.channel);
+      protocol.channel.sendData = async (data) => {
+        if (!silenced.has(protocol)) {
+          await sendData(data);
+        }
+      };
+      protocols.push(protocol);
+      return protocol;
+    },
+    silence: (protocol) => silenced.add(protocol),
+  };
+}
+
+describe("room_client_heartbeat_test", () => {
+  let server: InMemoryRoomServer;
+  let room: RoomClient | null;
+
+  beforeEach(() => {
+    server = new InMemoryRoomServer();
+    room = null;
+  });
+
+  afterEach(() => {
+    room?.dispose();
+    server.dispose();
+  });
+
+  function qualityEvents(client: RoomClient): ConnectionQualityEvent[] {
+    const events: ConnectionQualityEvent[] = [];
+    client.on("connection quality", (event: RoomEvent) => events.push(event as ConnectionQualityEvent));
+    return events;
+  }
+
+  it("measures the round trip time of the connection", async () => {
+    room = new RoomClient({ protocolFactory: server.protocolFactory(), heartbeat: { intervalMs: 10 } });
+    const events = qualityEvents(room);
+    await room.start();
+
+    await waitUntil(() => events.filter((event) => event.rtt !== null).length >= 3);
+    const quality = room.connectionQuality;
+    expect(quality.connected).to.equal(true);
+    expect(quality.rtt).to.be.at.least(0);
+    expect(quality.jitter).to.be.at.least(0);
+    expect(quality.missedHeartbeats).to.equal(0);
+    expect(quality.heartbeatSupported).to.equal(true);
+    expect(quality.reconnects).to.equal(0);
+    expect(quality.bytesSent).to.be.greaterThan(0);
+    expect(quality.bytesReceived).to.be.greaterThan(0);
+  });
+
+  it("reconnects when heartbeats go unanswered", async () => {
+    const connection = silenceable(server.protocolFactory());
+    room = new RoomClient({ protocolFactory: connection.factory, heartbeat: { intervalMs: 10, missedHeartbeats: 2 } });
+    const events = qualityEvents(room);
+    const statuses: string[] = [];
+    room.on("disconnected", (event) => statuses.push(event.name));
+    room.on("reconnected", (event) => statuses.push(event.name));
+    await room.start();
+    await waitUntil(() => room!.connectionQuality.rtt !== null);
+
+    connection.silence(connection.protocols[0]);
+    await waitUntil(() => room!.connectionQuality.reconnects === 1, 5000);
+
+    expect(statuses).to.deep.equal(["disconnected", "reconnected"]);
+    expect(events.some((event) => event.missedHeartbeats === 2)).to.equal(true);
+    expect(events.some((event) => !event.connected)).to.equal(true);
+    expect(room.isConnected).to.equal(true);
+    expect(connection.protocols[0].closeReason).to.equal("missed 2 heartbeats");
+  });
+
+  it("turns heartbeats off for servers that never answer them", async () => {
+    const connection = silenceable(server.protocolFactory());
+    room = new RoomClient({ protocolFactory: connection.factory, heartbeat: { intervalMs: 10, missedHeartbeats: 2 } });
+    const events = qualityEvents(room);
+    await room.start();
+    const protocol = connection.protocols[0];
+    let pings = 0;
+    const ping = protocol.ping.bind(protocol);
+    protocol.ping = (options) => {
+      pings += 1;
+      return ping(options);
+    };
+    connection.silence(protocol);
+
+    await waitUntil(() => room!.connectionQuality.heartbeatSupported === false);
+    const sent = pings;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(pings).to.equal(sent);
+    expect(room.isConnected).to.equal(true);
+    expect(room.connectionQuality.rtt).to.equal(null);
+    expect(room.connectionQuality.reconnects).to.equal(0);
+    expect(events.filter((event) => event.heartbeatSupported === false).map((event) => event.description)).to.deep.equal([
+      "the room server does not answer heartbeats",
+    ]);
+  });
+});
@@ -0,0 +1,115 @@
+import { expect } from "chai";
+
+import { ContentTool, ToolCallOutput, ToolContentOutput, ToolContext, ToolInput, Toolkit } from "../agent.js";
+import { Completer } from "../completer.js";
+import { InMemoryRoomServer, InMemoryRoomToolContext } from "../in-memory-room-server.js";
+import { JsonContent } from "../response.js";
+import { RoomClient } from "../room-client.js";
+import { RoomServerException } from "../room-server-client.js";
+
+class LookupTool extends ContentTool {
+  public readonly toolCallIds: string[] = [];
+  public readonly firstCallReceived = new Completer<void>();
+  public readonly releaseFirstCall = new Completer<void>();
+
+  constructor() {
+    super({ name: "lookup" });
+  }
+
+  async execute(context: ToolContext, _input: ToolInput): Promise<ToolCallOutput> {
+    this.toolCallIds.push((context as InMemoryRoomToolContext).toolCallId);
+    if (this.toolCallIds.length === 1) {
+      this.firstCallReceived.complete();
+      await this.releaseFirstCall.fut;
+    }
+    return new ToolContentOutput(new JsonContent({ json: { attempt: this.toolCallIds.length } }));
+  }
+}
+
+describe("room_client_request_journal_test", () => {
+  let server: InMemoryRoomServer;
+  let tool: LookupTool;
+  let room: RoomClient | null;
+
+  beforeEach(() => {
+    tool = new LookupTool();
+    server = new InMemoryRoomServer({
+      toolkits: [new Toolkit({ name: "directory", tools: [tool], validationMode: "none" })],
+    });
+    room = null;
+  });
+
+  afterEach(() => {
+    tool.releaseFirstCall.complete();
+    room?.dispose();
+    server.dispose();
+  });
+
+  async function start({ journalIdempotentRequests }: { journalIdempotentRequests: boolean }): Promise<RoomClient> {
+    room = new RoomClient({ protocolFactory: server.protocolFactory(), journalIdempotentRequests });
+    await room.start();
+    return room;
+  }
+
+  it("replays idempotent tool calls with the same tool call id after a reconnect", async () => {
+    const client = await start({ journalIdempotentRequests: true });
+
+    const response = client.invokeContent({ toolkit: "directory", tool: "lookup", input: {}, idempotent: true });
+    await tool.firstCallReceived.fut;
+    server.connections[0].fail(new Error("network down"));
+
+    const result = await response;
+    expect((result as JsonContent).json).to.deep.equal({ attempt: 2 });
+    expect(tool.toolCallIds).to.have.length(2);
+    expect(tool.toolCallIds[1]).to.equal(tool.toolCallIds[0]);
+  });
+
+  it("fails calls that are not marked idempotent", async () => {
+    const client = await start({ journalIdempotentRequests: true });
+
+    const response = client.invokeContent({ toolkit: "directory", tool: "lookup", input: {} });
+    await tool.firstCallReceived.fut;
+    server.connections[0].fail(new Error("network down"));
+
+    let error: unknown;
+    try {
+      await response;
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(RoomServerException);
+    expect(tool.toolCallIds).to.have.length(1);
+  });
+
+  it("does not journal requests unless enabled", async () => {
+    const client = await start({ journalIdempotentRequests: false });
+
+    const response = client.invokeContent({ toolkit: "directory", tool: "lookup", input: {}, idempotent: true });
+    await tool.firstCallReceived.fut;
+    server.connections[0].fail(new Error("network down"));
+
+    let error: unknown;
+    try {
+      await response;
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(RoomServerException);
+  });
+
+  it("fails journaled requests when the room client is disposed", async () => {
+    const client = await start({ journalIdempotentRequests: true });
+
+    const response = client.invokeContent({ toolkit: "directory", tool: "lookup", input: {}, idempotent: true });
+    await tool.firstCallReceived.fut;
+    client.dispose();
+
+    let error: unknown;
+    try {
+      await response;
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(RoomServerException);
+  });
+});
@@ -0,0 +1,207 @@
+import { expect } from "chai";
+
+import { Element } from "../document.js";
+import { InMemoryRoomServer } from "../in-memory-room-server.js";
+import { RoomClient } from "../room-client.js";
+import { MeshDocument } from "../room-server-client.js";
+import { SCHEMA_VERSION_ATTRIBUTE, SchemaMigrationException, SchemaMigrator } from "../schema-migration.js";
+import { ChildProperty, ElementType, MeshSchema, SimpleValue, ValueProperty } from "../schema.js";
+import { encoder } from "../utils.js";
+
+const oldSchema = new MeshSchema({
+  rootTagName: "list",
+  elements: [
+    new ElementType({
+      tagName: "list",
+      description: "",
+      properties: [
+        new ValueProperty({ name: "title", description: "", type: SimpleValue.string }),
+        new ChildProperty({ name: "children", description: "", childTagNames: ["item", "legacy"] }),
+      ],
+    }),
+    new ElementType({
+      tagName: "item",
+      description: "",
+      properties: [
+        new ValueProperty({ name: "label", description: "", type: SimpleValue.string }),
+        new ValueProperty({ name: "status", description: "", type: SimpleValue.string, enumValues: ["todo", "done"] }),
+      ],
+    }),
+    new ElementType({ tagName: "legacy", description: "", properties: [] }),
+  ],
+});
+
+const newSchema = new MeshSchema({
+  rootTagName: "list",
+  elements: [
+    new ElementType({
+      tagName: "list",
+      description: "",
+      properties: [
+        new ValueProperty({ name: "name", description: "", type: SimpleValue.string }),
+        new ChildProperty({ name: "children", description: "", childTagNames: ["group"] }),
+      ],
+    }),
+    new ElementType({
+      tagName: "group",
+      description: "",
+      properties: [new ChildProperty({ name: "children", description: "", childTagNames: ["item"] })],
+    }),
+    new ElementType({
+      tagName: "item",
+      description: "",
+      properties: [
+        new ValueProperty({ name: "text", description: "", type: SimpleValue.string }),
+        new ValueProperty({ name: "status", description: "", type: SimpleValue.string, enumValues: ["open", "closed"] }),
+        new ValueProperty({ name: "priority", description: "", type: SimpleValue.string }),
+      ],
+    }),
+  ],
+});
+
+const migrator = new SchemaMigrator({
+  schema: newSchema,
+  migrations: [
+    {
+      version: 2,
+      description: "group items",
+      operations: [
+        { type: "dropTag", tagName: "legacy" },
+        { type: "moveChildren", tagName: "list", childTagNames: ["item"], into: "group" },
+      ],
+    },
+    {
+      version: 1,
+      description: "rename attributes and statuses",
+      operations: [
+        { type: "renameAttribute", tagName: "list", from: "title", to: "name" },
+        { type: "renameAttribute", tagName: "item", from: "label", to: "text" },
+        { type: "mapValues", tagName: "item", name: "status", values: { todo: "open", done: "closed" } },
+        { type: "addDefault", tagName: "item", name: "priority", value: "normal" },
+      ],
+    },
+  ],
+});
+
+function fillOldDocument(doc: MeshDocument): void {
+  doc.root.setAttribute("title", "chores");
+  doc.root.createChildElement("item", { label: "dishes", status: "done" });
+  doc.root.createChildElement("legacy", {});
+  doc.root.createChildElement("item", { label: "laundry", status: "todo" });
+}
+
+function expectMigrated(doc: MeshDocument): void {
+  expect(doc.root.getAttribute("name")).to.equal("chores");
+  expect(doc.root.getAttribute("title")).to.equal(undefined);
+  expect(doc.root.getAttribute(SCHEMA_VERSION_ATTRIBUTE)).to.equal(2);
+
+  const children = doc.root.getChildren() as Element[];
+  expect(children.map((child) => child.tagName)).to.deep.equal(["group"]);
+  const items = children[0].getChildren() as Element[];
+  expect(items.map((item) => ({ ...item.attributes, $id: undefined }))).to.deep.equal([
+    { $id: undefined, text: "dishes", status: "closed", priority: "normal" },
+    { $id: undefined, text: "laundry", status: "open", priority: "normal" },
+  ]);
+}
+
+describe("schema_migration_test", () => {
+  let server: InMemoryRoomServer;
+  let rooms: RoomClient[];
+
+  beforeEach(() => {
+    server = new InMemoryRoomServer();
+    rooms = [];
+  });
+
+  afterEach(() => {
+    rooms.forEach((room) => room.dispose());
+    server.dispose();
+  });
+
+  async function join(participantName: string): Promise<RoomClient> {
+    const room = new RoomClient({ protocolFactory: server.protocolFactory({ participantName }) });
+    await room.start();
+    rooms.push(room);
+    return room;
+  }
+
+  it("sorts migrations and rejects duplicate versions", () => {
+    expect(migrator.version).to.equal(2);
+    expect(migrator.migrations.map((migration) => migration.version)).to.deep.equal([1, 2]);
+    expect(() => new SchemaMigrator({
+      schema: newSchema,
+      migrations: [{ version: 1, operations: [] }, { version: 1, operations: [] }],
+    })).to.throw(SchemaMigrationException);
+    expect(() => new SchemaMigrator({ schema: newSchema, migrations: [{ version: 0, operations: [] }] }))
+      .to.throw(SchemaMigrationException);
+  });
+
+  it("migrates documents in one transaction and only once", () => {
+    const doc = new MeshDocument({ schema: oldSchema });
+    try {
+      doc.root.setAttribute("title", "chores");
+      doc.root.createChildElement("item", { label: "dishes", status: "todo" });
+      const attributesOnly = new SchemaMigrator({ schema: oldSchema, migrations: [migrator.migrations[0]] });
+      const events: unknown[] = [];
+      doc.on("updated", (event) => events.push(event));
+
+      expect(attributesOnly.migrate(doc)).to.deep.equal({ fromVersion: 0, toVersion: 1 });
+      expect(events).to.have.length(1);
+      expect((doc.root.getChildren()[0] as Element).getAttribute("status")).to.equal("open");
+
+      expect(attributesOnly.migrate(doc)).to.deep.equal({ fromVersion: 1, toVersion: 1 });
+      expect(events).to.have.length(1);
+
+      doc.root.setAttribute(SCHEMA_VERSION_ATTRIBUTE, 5);
+      expect(() => attributesOnly.migrate(doc)).to.throw(SchemaMigrationException);
+    } finally {
+      doc.dispose();
+    }
+  });
+
+  it("migrates documents when they are opened", async () => {
+    const alice = await join("alice");
+    const oldDoc = await alice.sync.open("lists/a.list", { schema: oldSchema });
+    fillOldDocument(oldDoc);
+    await alice.sync.close("lists/a.list");
+
+    const bob = await join("bob");
+    const doc = await bob.sync.open("lists/a.list", { migrator });
+    expect(doc.schema).to.equal(newSchema);
+    expectMigrated(doc);
+    (doc.root.getChildren()[0] as Element).createChildElement("item", { text: "ironing" });
+    await bob.sync.close("lists/a.list");
+
+    const carol = await join("carol");
+    const reopened = await carol.sync.open("lists/a.list", { migrator });
+    const group = reopened.root.getChildren() as Element[];
+    expect(group).to.have.length(1);
+    expect(group[0].getChildren().map((item) => (item as Element).getAttribute("text")))
+      .to.deep.equal(["dishes", "laundry", "ironing"]);
+    await carol.sync.close("lists/a.list");
+  });
+
+  it("migrates every matching document in storage", async () => {
+    const alice = await join("alice");
+    for (const path of ["lists/a.list", "lists/archive/b.list"]) {
+      fillOldDocument(await alice.sync.open(path, { schema: oldSchema }));
+      await alice.sync.close(path);
+      // the in-memory server keeps synced documents apart from storage, so list them there as well
+      await alice.storage.upload(path, encoder.encode(""));
+    }
+    await alice.storage.upload("lists/readme.md", encoder.encode("lists"));
+    await alice.storage.upload("lists/.a.list.snapshots/old.list", encoder.encode(""));
+
+    const bob = await join("bob");
+    const migrated = await bob.sync.migrateDocuments(migrator, { folder: "lists", extensions: [".list"] });
+    expect(migrated).to.have.deep.members([
+      { path: "lists/a.list", fromVersion: 0, toVersion: 2 },
+      { path: "lists/archive/b.list", fromVersion: 0, toVersion: 2 },
+    ]);
+
+    expect(await bob.sync.migrateDocuments(migrator, { folder: "lists", extensions: [".list"] })).to.deep.equal([]);
+    const doc = await bob.sync.open("lists/archive/b.list", { migrator });
+    expectMigrated(doc);
+    await bob.sync.close("lists/archive/b.list");
+  });
+});
@@ -0,0 +1,103 @@
+import { expect } from "chai";
+
+import { InvalidToolDataException, Toolkit, startHostedToolkit } from "../agent.js";
+import { ToolkitDescription } from "../agent-client.js";
+import { InMemoryRoomServer } from "../in-memory-room-server.js";
+import { JsonContent, TextContent } from "../response.js";
+import { RoomClient } from "../room-client.js";
+import { defineTool, toolSchema } from "../tool-builder.js";
+
+const forecast = defineTool({
+  name: "forecast",
+  title: "Forecast",
+  description: "Returns the forecast for a city",
+  input: toolSchema.object({
+    city: toolSchema.string({ minLength: 1 }).describe("City name"),
+    days: toolSchema.integer({ minimum: 1, maximum: 7 }).optional(),
+    units: toolSchema.enum(["metric", "imperial"]).nullable().optional(),
+  }),
+  output: toolSchema.object({
+    city: toolSchema.string(),
+    temperatures: toolSchema.array(toolSchema.number()),
+  }),
+  execute: async (_context, { city, days = 1, units }) => {
+    const base = units === "imperial" ? 68 : 20;
+    return { city, temperatures: Array.from({ length: days }, (_, index) => base + index) };
+  },
+});
+
+const shout = defineTool({
+  name: "shout",
+  input: toolSchema.object({ text: toolSchema.string() }),
+  execute: async (_context, { text }) => new TextContent({ text: text.toUpperCase() }),
+});
+
+describe("tool_builder_test", () => {
+  it("derives schemas and specs from the builders", () => {
+    expect(forecast.inputSchema).to.deep.equal({
+      type: "object",
+      properties: {
+        city: { type: "string", minLength: 1, description: "City name" },
+        days: { type: "integer", minimum: 1, maximum: 7 },
+        units: { anyOf: [{ enum: ["metric", "imperial"] }, { type: "null" }] },
+      },
+      required: ["city"],
+      additionalProperties: false,
+    });
+    expect(forecast.inputSpec?.toJson()).to.deep.equal({ types: ["json"], stream: false, schema: forecast.inputSchema });
+    expect(forecast.outputSpec?.schema).to.deep.equal(forecast.outputSchema);
+    expect(shout.outputSpec).to.equal(undefined);
+  });
+
+  it("executes with typed arguments through a toolkit", async () => {
+    const toolkit = new Toolkit({ name: "weather", tools: [forecast, shout] });
+
+    const result = await toolkit.execute("forecast", { city: "Oslo", days: 2 });
+    const shouted = await toolkit.execute("shout", { text: "hi" });
+
+    expect((result as JsonContent).json).to.deep.equal({ city: "Oslo", temperatures: [20, 21] });
+    expect((shouted as TextContent).text).to.equal("HI");
+  });
+
+  it("rejects arguments that do not match the derived schema", () => {
+    const toolkit = new Toolkit({ name: "weather", tools: [forecast] });
+
+    expect(() => toolkit.validateInputContent(forecast, new JsonContent({ json: { city: "Oslo", days: 9 } })))
+      .to.throw(InvalidToolDataException, "/days: number is greater than 7");
+    expect(() => toolkit.validateInputContent(forecast, new JsonContent({ json: { city: "Oslo", wind: true } })))
+      .to.throw(InvalidToolDataException, "unexpected property wind");
+  });
+
+  it("round-trips through tool descriptions", () => {
+    const toolkit = new Toolkit({ name: "weather", tools: [forecast, shout] });
+
+    const description = ToolkitDescription.fromJson({ name: "weather", tools: toolkit.getTools() });
+    const tool = description.getTool("forecast")!;
+
+    expect(tool.title).to.equal("Forecast");
+    expect(tool.inputSchema).to.deep.equal(forecast.inputSchema);
+    expect(tool.outputSchema).to.deep.equal(forecast.outputSchema);
+    expect(tool.validateInput({ city: "Oslo", units: null })).to.deep.equal([]);
+    expect(tool.validateInput({ city: "" }).map((error) => error.instancePath)).to.deep.equal(["/city"]);
+    expect(description.getTool("shout")!.outputSpec).to.equal(undefined);
+  });
+
+  it("can be hosted in a room", async () => {
+    const server = new InMemoryRoomServer();
+    const host = new RoomClient({ protocolFactory: server.protocolFactory({ participantName: "host" }) });
+    const caller = new RoomClient({ protocolFactory: server.protocolFactory({ participantName: "caller" }) });
+    await host.start();
+    await caller.start();
+    const hosted = await startHostedToolkit({ room: host, toolkit: new Toolkit({ name: "weather", tools: [forecast] }) });
+
+    try {
+      const response = await caller.invokeContent({ toolkit: "weather", tool: "forecast", arguments: { city: "Oslo" } });
+      expect((response as JsonContent).json).to.deep.equal({ city: "Oslo", temperatures: [20] });
+    } finally {
+      await hosted.stop();
+      caller.dispose();
+      host.dispose();
+      server.dispose();
+    }
+  });
+});
@@ -0,0 +1,210 @@
+import { expect } from "chai";
+
+import { FunctionTool, Toolkit, ToolContext, startHostedToolkit } from "../agent.js";
+import { Completer } from "../completer.js";
+import { InMemoryRoomServer } from "../in-memory-room-server.js";
+import { JsonContent } from "../response.js";
+import { RoomClient } from "../room-client.js";
+import { RoomServerException } from "../room-server-client.js";
+import { ToolCallLimiter, ToolCallLimiterStats, ToolCallRejectedException } from "../tool-call-limiter.js";
+
+async function settle(): Promise<void> {
+  for (let i = 0; i < 5; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+class GatedTool extends FunctionTool {
+  public readonly gates: Completer<void>[] = [];
+  public started = 0;
+
+  constructor(name: string) {
+    super({ name, inputSchema: { type: "object", additionalProperties: false, properties: {} } });
+  }
+
+  async execute(_context: ToolContext, _args: Record<string, any>): Promise<JsonContent> {
+    this.started += 1;
+    const gate = new Completer<void>();
+    this.gates.push(gate);
+    await gate.fut;
+    return new JsonContent({ json: { ok: true } });
+  }
+}
+
+describe("tool_call_limiter_test", () => {
+  it("queues calls beyond the toolkit cap and starts them as slots free up", async () => {
+    const limiter = new ToolCallLimiter({ maxConcurrentCalls: 2 });
+
+    const first = await limiter.acquire({ tool: "a" });
+    const second = await limiter.acquire({ tool: "b" });
+    let thirdStarted = false;
+    const third = limiter.acquire({ tool: "a" }).then((release) => {
+      thirdStarted = true;
+      return release;
+    });
+    await settle();
+
+    expect(thirdStarted).to.equal(false);
+    expect(limiter.stats).to.deep.equal({
+      activeCalls: 2,
+      queuedCalls: 1,
+      activeCallsByTool: { a: 1, b: 1 },
+      queuedCallsByCaller: { "": 1 },
+      rejectedCalls: 0,
+    });
+
+    first();
+    first();
+    (await third)();
+    second();
+
+    expect(thirdStarted).to.equal(true);
+    expect(limiter.activeCalls).to.equal(0);
+    expect(limiter.queuedCalls).to.equal(0);
+  });
+
+  it("applies per-tool caps without blocking other tools", async () => {
+    const limiter = new ToolCallLimiter({ maxConcurrentCallsPerTool: { slow: 1 } });
+
+    const slow = await limiter.acquire({ tool: "slow" });
+    const waiting = limiter.acquire({ tool: "slow", callerId: "x" });
+    const fast = await limiter.acquire({ tool: "fast", callerId: "y" });
+
+    expect(limiter.stats.activeCallsByTool).to.deep.equal({ slow: 1, fast: 1 });
+    expect(limiter.queuedCalls).to.equal(1);
+
+    slow();
+    (await waiting)();
+    fast();
+    expect(limiter.activeCalls).to.equal(0);
+  });
+
+  it("rejects calls when the queue or a caller's share of it is full", async () => {
+    const limiter = new ToolCallLimiter({ maxConcurrentCalls: 1, maxQueuedCalls: 3, maxQueuedCallsPerCaller: 2 });
+    await limiter.acquire({ tool: "a" });
+    void limiter.acquire({ tool: "a", callerId: "x" });
+    void limiter.acquire({ tool: "a", callerId: "x" });
+
+    let error: unknown;
+    try {
+      await limiter.acquire({ tool: "a", callerId: "x" });
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.be.instanceOf(ToolCallRejectedException);
+    expect((error as Error).message).to.contain("too many queued tool calls for this caller");
+
+    void limiter.acquire({ tool: "a", callerId: "y" });
+    error = undefined;
+    try {
+      await limiter.acquire({ tool: "a", callerId: "z" });
+    } catch (e) {
+      error = e;
+    }
+    expect((error as Error).message).to.contain("tool call queue is full");
+    expect(limiter.stats.rejectedCalls).to.equal(2);
+
+    limiter.rejectQueued(new ToolCallRejectedException("stopped"));
+    expect(limiter.queuedCalls).to.equal(0);
+  });
+
+  it("rejects instead of queueing with the reject overflow policy", async () => {
+    const limiter = new ToolCallLimiter({ maxConcurrentCalls: 1, overflow: "reject" });
+    const release = await limiter.acquire({ tool: "a" });
+
+    let error: unknown;
+    try {
+      await limiter.acquire({ tool: "a" });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).to.be.instanceOf(ToolCallRejectedException);
+    expect(limiter.queuedCalls).to.equal(0);
+    release();
+    (await limiter.acquire({ tool: "a" }))();
+  });
+
+  it("serves queued callers round-robin", async () => {
+    const limiter = new ToolCallLimiter({ maxConcurrentCalls: 1 });
+    const order: string[] = [];
+    const release = await limiter.acquire({ tool: "a" });
+
+    const queued = [
+      ["busy", 1], ["busy", 2], ["busy", 3], ["other", 1], ["third", 1], ["other", 2],
+    ].map(([callerId, n]) => limiter.acquire({ tool: "a", callerId: callerId as string }).then((next) => {
+      order.push(`${callerId}${n}`);
+      next();
+    }));
+    release();
+    await Promise.all(queued);
+
+    expect(order).to.deep.equal(["busy1", "other1", "third1", "busy2", "other2", "busy3"]);
+  });
+
+  it("emits change events with current stats", async () => {
+    const limiter = new ToolCallLimiter({ maxConcurrentCalls: 1 });
+    const events: ToolCallLimiterStats[] = [];
+    limiter.on("change", (stats) => events.push(stats));
+
+    const release = await limiter.acquire({ tool: "a", callerId: "x" });
+    const waiting = limiter.acquire({ tool: "a", callerId: "y" });
+    release();
+    (await waiting)();
+
+    expect(events.map((stats) => [stats.activeCalls, stats.queuedCalls])).to.deep.equal([
+      [1, 0],
+      [1, 1],
+      [1, 0],
+      [1, 0],
+      [0, 0],
+    ]);
+  });
+
+  it("limits calls to a hosted toolkit and rejects overflow with an error response", async () => {
+    const server = new InMemoryRoomServer();
+    const host = new RoomClient({ protocolFactory: server.protocolFactory({ participantName: "host" }) });
+    const caller = new RoomClient({ protocolFactory: server.protocolFactory({ participantName: "caller" }) });
+    await host.start();
+    await caller.start();
+
+    const tool = new GatedTool("work");
+    const hosted = await startHostedToolkit({
+      room: host,
+      toolkit: new Toolkit({ name: "limited", tools: [tool] }),
+      limits: { maxConcurrentCalls: 1, maxQueuedCalls: 1 },
+    });
+
+    try {
+      const first = caller.invokeContent({ toolkit: "limited", tool: "work", arguments: {} });
+      await settle();
+      const second = caller.invokeContent({ toolkit: "limited", tool: "work", arguments: {} });
+      await settle();
+      let error: unknown;
+      try {
+        await caller.invokeContent({ toolkit: "limited", tool: "work", arguments: {} });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(tool.started).to.equal(1);
+      expect(hosted.limiter!.stats).to.include({ activeCalls: 1, queuedCalls: 1, rejectedCalls: 1 });
+      expect(error).to.be.instanceOf(RoomServerException);
+      expect((error as Error).message).to.contain("tool call queue is full");
+
+      tool.gates[0].complete();
+      expect(await first).to.be.instanceOf(JsonContent);
+      await settle();
+      expect(tool.started).to.equal(2);
+
+      tool.gates[1].complete();
+      expect(await second).to.be.instanceOf(JsonContent);
+      expect(hosted.limiter!.activeCalls).to.equal(0);
+    } finally {
+      await hosted.stop();
+      caller.dispose();
+      host.dispose();
+      server.dispose();
+    }
+  });
+});
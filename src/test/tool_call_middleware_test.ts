@@ -0,0 +1,168 @@
+import { expect } from "chai";
+
+import { FunctionTool, ToolContext, Toolkit, startHostedToolkit } from "../agent.js";
+import { InMemoryRoomServer } from "../in-memory-room-server.js";
+import { BinaryContent, Content, JsonContent } from "../response.js";
+import { RoomClient } from "../room-client.js";
+import { RoomServerException } from "../room-server-client.js";
+import { ToolCallMiddleware, ToolInvocation } from "../tool-call-middleware.js";
+import { decoder, encoder } from "../utils.js";
+
+class WhoAmITool extends FunctionTool {
+  constructor() {
+    super({ name: "whoami", inputSchema: { type: "object", additionalProperties: true } });
+  }
+
+  public async execute(context: ToolContext, _arguments_: Record<string, any>): Promise<Content> {
+    return new JsonContent({ json: { onBehalfOf: context.onBehalfOf?.id ?? null } });
+  }
+}
+
+function recordingMiddleware(name: string, events: string[]): ToolCallMiddleware {
+  return {
+    beforeSend: (call) => {
+      events.push(`${name}:before:${call.toolkit}.${call.tool}`);
+    },
+    onChunk: (_call, chunk) => {
+      events.push(`${name}:chunk:${chunk.constructor.name}`);
+    },
+    afterComplete: (_call, content) => {
+      events.push(`${name}:after:${content?.constructor.name ?? "stream"}`);
+    },
+    onError: (_call, error) => {
+      events.push(`${name}:error:${(error as Error).message}`);
+    },
+  };
+}
+
+describe("tool_call_middleware_test", () => {
+  let server: InMemoryRoomServer;
+  let room: RoomClient;
+
+  beforeEach(async () => {
+    server = new InMemoryRoomServer();
+    room = new RoomClient({ protocolFactory: server.protocolFactory({ participantName: "caller" }) });
+    await room.start();
+  });
+
+  afterEach(() => {
+    room.dispose();
+    server.dispose();
+  });
+
+  it("runs hooks in order around content calls", async () => {
+    const events: string[] = [];
+    room.useToolCallMiddleware(recordingMiddleware("outer", events));
+    room.useToolCallMiddleware(recordingMiddleware("inner", events));
+
+    await room.queues.send("jobs", { id: 1 }, {});
+
+    expect(events).to.deep.equal([
+      "outer:before:queues.send",
+      "inner:before:queues.send",
+      "inner:after:EmptyContent",
+      "outer:after:EmptyContent",
+    ]);
+  });
+
+  it("sees streamed output from sub-client calls", async () => {
+    server.storage.write("notes.txt", encoder.encode("hello"));
+    const events: string[] = [];
+    room.useToolCallMiddleware(recordingMiddleware("trace", events));
+
+    await room.storage.download("notes.txt");
+
+    expect(events).to.deep.equal([
+      "trace:before:storage.download",
+      "trace:chunk:BinaryContent",
+      "trace:chunk:BinaryContent",
+      "trace:chunk:ControlContent",
+      "trace:after:stream",
+    ]);
+  });
+
+  it("lets middleware replace streamed chunks", async () => {
+    server.storage.write("notes.txt", encoder.encode("hello"));
+    room.useToolCallMiddleware({
+      onChunk: (_call, chunk) => {
+        if (chunk instanceof BinaryContent && chunk.headers["kind"] === "data") {
+          return new BinaryContent({ data: encoder.encode(decoder.decode(chunk.data).toUpperCase()), headers: chunk.headers });
+        }
+      },
+    });
+
+    const file = await room.storage.download("notes.txt");
+    expect(decoder.decode(file.data)).to.equal("HELLO");
+  });
+
+  it("reports errors to onError hooks", async () => {
+    const events: string[] = [];
+    room.useToolCallMiddleware(recordingMiddleware("trace", events));
+
+    let error: unknown;
+    try {
+      await room.invokeContent({ toolkit: "missing", tool: "noop", input: {} });
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).to.be.instanceOf(RoomServerException);
+    expect(events).to.deep.equal([
+      "trace:before:missing.noop",
+      "trace:error:toolkit not found: missing",
+    ]);
+  });
+
+  it("fails the call when beforeSend throws", async () => {
+    room.useToolCallMiddleware({
+      beforeSend: () => {
+        throw new Error("not allowed");
+      },
+    });
+
+    let error: unknown;
+    try {
+      await room.queues.send("jobs", { id: 1 }, {});
+    } catch (e) {
+      error = e;
+    }
+
+    expect((error as Error).message).to.equal("not allowed");
+    expect(server.queues.queues.has("jobs")).to.equal(false);
+  });
+
+  it("injects the on-behalf-of participant before sending", async () => {
+    const host = new RoomClient({ protocolFactory: server.protocolFactory({ participantName: "host" }) });
+    await host.start();
+    const hosted = await startHostedToolkit({ room: host, toolkit: new Toolkit({ name: "auth", tools: [new WhoAmITool()] }) });
+    const calls: ToolInvocation[] = [];
+
+    try {
+      room.useToolCallMiddleware({
+        beforeSend: (call) => {
+          calls.push(call);
+          call.onBehalfOfId = "user-42";
+        },
+      });
+
+      const response = await room.invokeContent({ toolkit: "auth", tool: "whoami", input: {} });
+      expect((response as JsonContent).json).to.deep.equal({ onBehalfOf: "user-42" });
+      expect(calls).to.have.length(1);
+      expect(calls[0].toolCallId).to.be.a("string");
+    } finally {
+      await hosted.stop();
+      host.dispose();
+    }
+  });
+
+  it("stops running middleware once it is removed", async () => {
+    const events: string[] = [];
+    const remove = room.useToolCallMiddleware(recordingMiddleware("trace", events));
+
+    await room.queues.send("jobs", { id: 1 }, {});
+    remove();
+    await room.queues.send("jobs", { id: 2 }, {});
+
+    expect(events).to.deep.equal(["trace:before:queues.send", "trace:after:EmptyContent"]);
+  });
+});
@@ -0,0 +1,88 @@
+import { expect } from "chai";
+
+import { ToolkitDescription } from "../agent-client.js";
+import { generateToolkitClient } from "../toolkit-client-generator.js";
+
+function description(tools: Record<string, any>[]): ToolkitDescription {
+  return ToolkitDescription.fromJson({ name: "weather-tools", title: "Weather", description: "Weather lookups", tools });
+}
+
+describe("toolkit_client_generator_test", () => {
+  it("types arguments and JSON output from the tool schemas", () => {
+    const source = generateToolkitClient(description([
+      {
+        name: "get_forecast",
+        description: "Returns the forecast",
+        input_spec: {
+          types: ["json"],
+          stream: false,
+          schema: {
+            type: "object",
+            required: ["city"],
+            additionalProperties: false,
+            properties: {
+              city: { type: "string", description: "City name" },
+              units: { enum: ["metric", "imperial"] },
+              "max-days": { type: ["integer", "null"] },
+            },
+          },
+        },
+        output_spec: {
+          types: ["json"],
+          stream: false,
+          schema: { type: "object", required: ["temperatures"], properties: { temperatures: { type: "array", items: { type: "number" } } } },
+        },
+      },
+    ]));
+
+    expect(source).to.contain('} from "@meshagent/meshagent";');
+    expect(source).to.contain([
+      "export type GetForecastArguments = {",
+      "    /**",
+      "     * City name",
+      "     */",
+      "    city: string;",
+      '    units?: "metric" | "imperial";',
+      '    "max-days"?: number | null;',
+      "};",
+    ].join("\n"));
+    expect(source).to.contain("export type GetForecastOutput = {\n    temperatures: number[];\n};");
+    expect(source).to.contain("export class WeatherToolsClient {");
+    expect(source).to.contain(
+      "public async getForecast(arguments_: GetForecastArguments, options: RequestOptions = {}): Promise<JsonContent & { json: GetForecastOutput }> {",
+    );
+    expect(source).to.contain('tool: "get_forecast", arguments: arguments_, ...this._defaults, ...options');
+  });
+
+  it("emits shared definitions as named types", () => {
+    const source = generateToolkitClient(description([
+      {
+        name: "route",
+        input_spec: {
+          types: ["json"],
+          schema: { type: "object", properties: { from: { $ref: "#/$defs/place" }, to: { $ref: "#/$defs/place" } } },
+        },
+        defs: { place: { type: "object", required: ["name"], properties: { name: { type: "string" }, near: { $ref: "#/$defs/place" } } } },
+      },
+    ]), { className: "Routes" });
+
+    expect(source.match(/export type RoutePlace = /g)).to.have.length(1);
+    expect(source).to.contain("    near?: RoutePlace;");
+    expect(source).to.contain("    from?: RoutePlace;");
+    expect(source).to.contain("export class Routes {");
+  });
+
+  it("maps output specs to content classes and streamed tools to raw calls", () => {
+    const source = generateToolkitClient(description([
+      { name: "render", input_spec: { types: ["json"] }, output_spec: { types: ["text", "file"] } },
+      { name: "transcribe", input_spec: { types: ["binary"], stream: true }, output_spec: { types: ["text"], stream: true } },
+      { name: "delete", input_spec: { types: ["json"] } },
+    ]), { importPath: "../sdk.js" });
+
+    expect(source).to.contain("public async render(arguments_: RenderArguments, options: RequestOptions = {}): Promise<TextContent | FileContent> {");
+    expect(source).to.contain("public async transcribe(input: ToolInput, options: RequestOptions = {}): Promise<ToolCallOutput> {");
+    expect(source).to.contain("public async delete_(arguments_: DeleteArguments, options: RequestOptions = {}): Promise<Content> {");
+    expect(source).to.contain("export type RenderArguments = Record<string, unknown>;");
+    expect(source).to.contain('} from "../sdk.js";');
+  });
+});
@@ -0,0 +1,94 @@
+import { expect } from "chai";
+
+import { InMemoryRoomServer } from "../in-memory-room-server.js";
+import { InvalidQueueMessageException } from "../queues-client.js";
+import { RoomClient } from "../room-client.js";
+import { ToolContentSpec } from "../tool-content-type.js";
+
+interface Job {
+  id: number;
+  kind: "build" | "test";
+}
+
+const jobSchema = {
+  type: "object",
+  required: ["id", "kind"],
+  additionalProperties: false,
+  properties: {
+    id: { type: "integer" },
+    kind: { type: "string", enum: ["build", "test"] },
+  },
+};
+
+describe("typed_queue_test", () => {
+  let server: InMemoryRoomServer;
+  let room: RoomClient;
+
+  beforeEach(async () => {
+    server = new InMemoryRoomServer();
+    room = new RoomClient({ protocolFactory: server.protocolFactory() });
+    await room.start();
+  });
+
+  afterEach(() => {
+    room.dispose();
+    server.dispose();
+  });
+
+  it("sends and receives valid messages", async () => {
+    const jobs = room.queues.typed<Job>("jobs", jobSchema);
+
+    await jobs.send({ id: 1, kind: "build" });
+    const job = await jobs.receive({ wait: false });
+
+    expect(job).to.deep.equal({ id: 1, kind: "build" });
+  });
+
+  it("refuses to send messages that do not match the schema", async () => {
+    const jobs = room.queues.typed<Job>("jobs", jobSchema);
+
+    let error: unknown;
+    try {
+      await jobs.send({ id: 1, kind: "deploy" } as unknown as Job);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).to.be.instanceOf(InvalidQueueMessageException);
+    expect((error as InvalidQueueMessageException).message).to.contain("kind: value is not one of the allowed enum values");
+    expect(server.queues.queues.has("jobs")).to.equal(false);
+  });
+
+  it("routes invalid incoming messages to the error sink and skips them", async () => {
+    const invalid: InvalidQueueMessageException[] = [];
+    const jobs = room.queues.typed<Job>("jobs", jobSchema, { errorSink: (error) => { invalid.push(error); } });
+    await room.queues.send("jobs", { id: "one" }, {});
+    await room.queues.send("jobs", { id: 2, kind: "test" }, {});
+
+    expect(await jobs.receive({ wait: false })).to.deep.equal({ id: 2, kind: "test" });
+    expect(await jobs.receive({ wait: false })).to.equal(null);
+    expect(invalid).to.have.length(1);
+    expect(invalid[0].queue).to.equal("jobs");
+    expect(invalid[0].value).to.deep.equal({ id: "one" });
+  });
+
+  it("keeps receiving when the error sink throws", async () => {
+    const jobs = room.queues.typed<Job>("jobs", jobSchema, {
+      errorSink: () => {
+        throw new Error("sink unavailable");
+      },
+    });
+    await room.queues.send("jobs", { id: 1, kind: "lint" }, {});
+    await room.queues.send("jobs", { id: 2, kind: "build" }, {});
+
+    expect(await jobs.receive({ wait: false })).to.deep.equal({ id: 2, kind: "build" });
+  });
+
+  it("accepts the schema of a tool content spec", async () => {
+    const jobs = room.queues.typed<Job>("jobs", new ToolContentSpec({ types: ["json"], schema: jobSchema }));
+
+    expect(jobs.validate({ id: 1, kind: "test" })).to.equal(true);
+    expect(jobs.validate({ id: 1 })).to.equal(false);
+    expect(() => room.queues.typed("jobs", new ToolContentSpec({ types: ["json"] }))).to.throw("a schema is required");
+  });
+});
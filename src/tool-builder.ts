@@ -0,0 +1,217 @@
+// tool-builder.ts
+
+import { FunctionTool, ToolContext } from "./agent.js";
+import { JsonContent, type Content } from "./response.js";
+import { ToolContentSpec } from "./tool-content-type.js";
+
+/**
+ * A JSON schema together with the TypeScript type of the values it accepts. Build these with toolSchema.
+ * Builders are immutable: every modifier returns a new builder.
+ */
+export class ToolSchema<T, Optional extends boolean = false> {
+    /**
+     * Phantom field carrying the value type; always undefined at runtime.
+     */
+    declare public readonly __type?: T;
+
+    public readonly isOptional: Optional;
+
+    private readonly _schema: Record<string, any>;
+
+    constructor(schema: Record<string, any>, { optional }: { optional?: Optional } = {}) {
+        this._schema = schema;
+        this.isOptional = (optional ?? false) as Optional;
+    }
+
+    public toJson(): Record<string, any> {
+        return structuredClone(this._schema);
+    }
+
+    public describe(description: string): ToolSchema<T, Optional> {
+        return new ToolSchema({ ...this._schema, description }, { optional: this.isOptional });
+    }
+
+    public title(title: string): ToolSchema<T, Optional> {
+        return new ToolSchema({ ...this._schema, title }, { optional: this.isOptional });
+    }
+
+    public default(value: T): ToolSchema<T, Optional> {
+        return new ToolSchema({ ...this._schema, default: value }, { optional: this.isOptional });
+    }
+
+    /**
+     * Marks an object property as not required.
+     */
+    public optional(): ToolSchema<T, true> {
+        return new ToolSchema<T, true>(this._schema, { optional: true });
+    }
+
+    public nullable(): ToolSchema<T | null, Optional> {
+        return new ToolSchema<T | null, Optional>({ anyOf: [this._schema, { type: "null" }] }, { optional: this.isOptional });
+    }
+}
+
+export type InferToolSchema<S> = S extends ToolSchema<infer T, any> ? T : never;
+
+type ToolSchemaShape = Record<string, ToolSchema<any, boolean>>;
+
+type OptionalKeys<S extends ToolSchemaShape> = { [K in keyof S]: S[K] extends ToolSchema<any, true> ? K : never }[keyof S];
+type RequiredKeys<S extends ToolSchemaShape> = Exclude<keyof S, OptionalKeys<S>>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+export type InferToolSchemaShape<S extends ToolSchemaShape> = Simplify<
+    { [K in RequiredKeys<S>]: InferToolSchema<S[K]> } & { [K in OptionalKeys<S>]?: InferToolSchema<S[K]> }
+>;
+
+function withOptions(schema: Record<string, any>, options: Record<string, any> = {}): Record<string, any> {
+    const merged = { ...schema };
+    for (const [key, value] of Object.entries(options)) {
+        if (value !== undefined) {
+            merged[key] = value;
+        }
+    }
+    return merged;
+}
+
+/**
+ * Schema builders for defineTool. Objects reject properties that are not declared unless additionalProperties
+ * is set, so the inferred type matches what the schema accepts.
+ */
+export const toolSchema = {
+    string(options: { minLength?: number; maxLength?: number; pattern?: string; format?: string } = {}): ToolSchema<string> {
+        return new ToolSchema(withOptions({ type: "string" }, options));
+    },
+
+    number(options: { minimum?: number; maximum?: number; exclusiveMinimum?: number; exclusiveMaximum?: number; multipleOf?: number } = {}): ToolSchema<number> {
+        return new ToolSchema(withOptions({ type: "number" }, options));
+    },
+
+    integer(options: { minimum?: number; maximum?: number; exclusiveMinimum?: number; exclusiveMaximum?: number; multipleOf?: number } = {}): ToolSchema<number> {
+        return new ToolSchema(withOptions({ type: "integer" }, options));
+    },
+
+    boolean(): ToolSchema<boolean> {
+        return new ToolSchema({ type: "boolean" });
+    },
+
+    null(): ToolSchema<null> {
+        return new ToolSchema({ type: "null" });
+    },
+
+    literal<const V extends string | number | boolean | null>(value: V): ToolSchema<V> {
+        return new ToolSchema({ const: value });
+    },
+
+    enum<const V extends readonly (string | number)[]>(values: V): ToolSchema<V[number]> {
+        return new ToolSchema({ enum: [...values] });
+    },
+
+    array<S extends ToolSchema<any, boolean>>(
+        items: S,
+        options: { minItems?: number; maxItems?: number; uniqueItems?: boolean } = {},
+    ): ToolSchema<InferToolSchema<S>[]> {
+        return new ToolSchema(withOptions({ type: "array", items: items.toJson() }, options));
+    },
+
+    object<S extends ToolSchemaShape>(
+        shape: S,
+        { additionalProperties = false }: { additionalProperties?: boolean } = {},
+    ): ToolSchema<InferToolSchemaShape<S>> {
+        const properties: Record<string, any> = {};
+        const required: string[] = [];
+        for (const [key, property] of Object.entries(shape)) {
+            properties[key] = property.toJson();
+            if (!property.isOptional) {
+                required.push(key);
+            }
+        }
+        return new ToolSchema({ type: "object", properties, required, additionalProperties });
+    },
+
+    record<S extends ToolSchema<any, boolean>>(values: S): ToolSchema<Record<string, InferToolSchema<S>>> {
+        return new ToolSchema({ type: "object", additionalProperties: values.toJson() });
+    },
+
+    union<S extends ToolSchema<any, boolean>[]>(...options: S): ToolSchema<InferToolSchema<S[number]>> {
+        return new ToolSchema({ anyOf: options.map((option) => option.toJson()) });
+    },
+
+    /**
+     * Wraps a hand-written JSON schema. The value type is whatever the caller declares.
+     */
+    json<T = unknown>(schema: Record<string, any>): ToolSchema<T> {
+        return new ToolSchema(structuredClone(schema));
+    },
+};
+
+export interface ToolDefinition<I extends ToolSchema<Record<string, any>, false>, O extends ToolSchema<Record<string, any>, false> | undefined> {
+    name: string;
+    title?: string;
+    description?: string;
+
+    /**
+     * Schema for the tool arguments. It must describe a JSON object.
+     */
+    input: I;
+
+    /**
+     * Schema for the tool result, which must describe a JSON object. With one, execute returns the object and
+     * the tool responds with JsonContent; without one, execute returns Content directly.
+     */
+    output?: O;
+
+    defs?: Record<string, any>;
+
+    execute(
+        context: ToolContext,
+        arguments_: InferToolSchema<I>,
+    ): Promise<O extends ToolSchema<infer R, false> ? R : Content>;
+}
+
+/**
+ * A FunctionTool created by defineTool.
+ */
+export class DefinedTool<I extends ToolSchema<Record<string, any>, false>, O extends ToolSchema<Record<string, any>, false> | undefined> extends FunctionTool {
+    private readonly _execute: ToolDefinition<I, O>["execute"];
+    private readonly _jsonOutput: boolean;
+
+    constructor(definition: ToolDefinition<I, O>) {
+        const inputSchema = definition.input.toJson();
+        const outputSchema = definition.output?.toJson();
+        super({
+            name: definition.name,
+            title: definition.title,
+            description: definition.description,
+            inputSchema,
+            inputSpec: new ToolContentSpec({ types: ["json"], stream: false, schema: inputSchema }),
+            outputSchema,
+            outputSpec: outputSchema === undefined ? undefined : new ToolContentSpec({ types: ["json"], stream: false, schema: outputSchema }),
+            defs: definition.defs,
+        });
+        this._execute = definition.execute;
+        this._jsonOutput = definition.output !== undefined;
+    }
+
+    /**
+     * Arguments reach the tool as JSON; when the toolkit validates in "full" mode they have already been
+     * checked against the input schema.
+     */
+    public async execute(context: ToolContext, arguments_: Record<string, any>): Promise<Content> {
+        const result = await this._execute(context, arguments_ as InferToolSchema<I>);
+        if (!this._jsonOutput) {
+            return result as Content;
+        }
+        return new JsonContent({ json: result as Record<string, any> });
+    }
+}
+
+/**
+ * Defines a function tool from schema builders, deriving its input and output schemas and specs and typing the
+ * arguments passed to execute. The result can be added to a Toolkit like any other FunctionTool.
+ */
+export function defineTool<I extends ToolSchema<Record<string, any>, false>, O extends ToolSchema<Record<string, any>, false> | undefined = undefined>(
+    definition: ToolDefinition<I, O>,
+): DefinedTool<I, O> {
+    return new DefinedTool(definition);
+}
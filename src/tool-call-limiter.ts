@@ -0,0 +1,236 @@
+// tool-call-limiter.ts
+
+import { EventEmitter } from "./event-emitter.js";
+import { RoomServerException } from "./room-server-client.js";
+
+/**
+ * What a hosted toolkit does with a call that arrives while its concurrency caps are reached: "queue" waits for
+ * a free slot in the bounded wait queue, "reject" answers with an error straight away.
+ */
+export type ToolCallOverflowPolicy = "queue" | "reject";
+
+export interface ToolCallLimits {
+    /**
+     * Maximum number of calls executing at once across the toolkit.
+     */
+    maxConcurrentCalls?: number;
+
+    /**
+     * Maximum number of calls executing at once, by tool name.
+     */
+    maxConcurrentCallsPerTool?: Record<string, number>;
+
+    /**
+     * Maximum number of calls waiting for a slot. Calls beyond it are rejected. Defaults to 100.
+     */
+    maxQueuedCalls?: number;
+
+    /**
+     * Maximum number of calls one caller may have waiting. Defaults to maxQueuedCalls.
+     */
+    maxQueuedCallsPerCaller?: number;
+
+    overflow?: ToolCallOverflowPolicy;
+}
+
+export interface ToolCallLimiterStats {
+    activeCalls: number;
+    queuedCalls: number;
+    activeCallsByTool: Record<string, number>;
+    queuedCallsByCaller: Record<string, number>;
+    rejectedCalls: number;
+}
+
+export class ToolCallRejectedException extends RoomServerException {
+    constructor(message: string) {
+        super(message);
+        this.name = "ToolCallRejectedException";
+    }
+}
+
+interface QueuedCall {
+    tool: string;
+    callerId: string;
+    grant: (release: () => void) => void;
+    reject: (error: unknown) => void;
+}
+
+/**
+ * Enforces concurrency caps for a hosted toolkit. Calls that cannot start wait in a queue that is served
+ * round-robin across callers, so one busy caller cannot starve the others. Emits "change" with fresh stats
+ * whenever a call starts, finishes, is queued or is rejected.
+ */
+export class ToolCallLimiter extends EventEmitter<ToolCallLimiterStats> {
+    private readonly _maxConcurrentCalls: number;
+    private readonly _maxConcurrentCallsPerTool: Record<string, number>;
+    private readonly _maxQueuedCalls: number;
+    private readonly _maxQueuedCallsPerCaller: number;
+    private readonly _overflow: ToolCallOverflowPolicy;
+
+    private readonly _activeByTool = new Map<string, number>();
+    private readonly _queues = new Map<string, QueuedCall[]>();
+    private _callers: string[] = [];
+    private _nextCaller = 0;
+    private _active = 0;
+    private _queued = 0;
+    private _rejected = 0;
+
+    constructor({
+        maxConcurrentCalls = Infinity,
+        maxConcurrentCallsPerTool = {},
+        maxQueuedCalls = 100,
+        maxQueuedCallsPerCaller,
+        overflow = "queue",
+    }: ToolCallLimits = {}) {
+        super();
+        this._maxConcurrentCalls = maxConcurrentCalls;
+        this._maxConcurrentCallsPerTool = { ...maxConcurrentCallsPerTool };
+        this._maxQueuedCalls = maxQueuedCalls;
+        this._maxQueuedCallsPerCaller = maxQueuedCallsPerCaller ?? maxQueuedCalls;
+        this._overflow = overflow;
+    }
+
+    public get activeCalls(): number {
+        return this._active;
+    }
+
+    public get queuedCalls(): number {
+        return this._queued;
+    }
+
+    public get stats(): ToolCallLimiterStats {
+        const queuedCallsByCaller: Record<string, number> = {};
+        for (const [callerId, queue] of this._queues) {
+            queuedCallsByCaller[callerId] = queue.length;
+        }
+        return {
+            activeCalls: this._active,
+            queuedCalls: this._queued,
+            activeCallsByTool: Object.fromEntries(this._activeByTool),
+            queuedCallsByCaller,
+            rejectedCalls: this._rejected,
+        };
+    }
+
+    /**
+     * Waits for a slot to run a call and returns a function that frees it. Anonymous callers share the ""
+     * caller id. Throws ToolCallRejectedException when the call can neither start nor be queued.
+     */
+    public async acquire({ tool, callerId = "" }: { tool: string; callerId?: string }): Promise<() => void> {
+        if (this._queued === 0 && this._hasCapacity(tool)) {
+            return this._start(tool);
+        }
+        if (this._overflow === "reject") {
+            throw this._reject(`tool ${tool} is at its concurrency limit`);
+        }
+        const queue = this._queues.get(callerId) ?? [];
+        if (this._queued >= this._maxQueuedCalls) {
+            throw this._reject(`tool call queue is full (${this._maxQueuedCalls} waiting)`);
+        }
+        if (queue.length >= this._maxQueuedCallsPerCaller) {
+            throw this._reject(`too many queued tool calls for this caller (${this._maxQueuedCallsPerCaller} waiting)`);
+        }
+
+        // Calls waiting on another tool's cap may leave room for this one, so queue it and let the round-robin
+        // decide whether it starts now.
+        return await new Promise<() => void>((resolve, reject) => {
+            queue.push({ tool, callerId, grant: resolve, reject });
+            if (!this._queues.has(callerId)) {
+                this._queues.set(callerId, queue);
+                this._callers.push(callerId);
+            }
+            this._queued += 1;
+            this._drain();
+            this._changed();
+        });
+    }
+
+    /**
+     * Rejects every queued call, for example when the toolkit stops. Running calls are not affected.
+     */
+    public rejectQueued(error: unknown): void {
+        const queued = [...this._queues.values()].flat();
+        this._queues.clear();
+        this._callers = [];
+        this._nextCaller = 0;
+        this._queued = 0;
+        for (const call of queued) {
+            call.reject(error);
+        }
+        if (queued.length > 0) {
+            this._changed();
+        }
+    }
+
+    private _hasCapacity(tool: string): boolean {
+        if (this._active >= this._maxConcurrentCalls) {
+            return false;
+        }
+        const limit = this._maxConcurrentCallsPerTool[tool];
+        return limit === undefined || (this._activeByTool.get(tool) ?? 0) < limit;
+    }
+
+    private _start(tool: string): () => void {
+        this._active += 1;
+        this._activeByTool.set(tool, (this._activeByTool.get(tool) ?? 0) + 1);
+        this._changed();
+
+        let released = false;
+        return () => {
+            if (released) {
+                return;
+            }
+            released = true;
+            this._active -= 1;
+            const remaining = (this._activeByTool.get(tool) ?? 1) - 1;
+            if (remaining === 0) {
+                this._activeByTool.delete(tool);
+            } else {
+                this._activeByTool.set(tool, remaining);
+            }
+            this._drain();
+            this._changed();
+        };
+    }
+
+    /**
+     * Starts queued calls while slots are free, taking one call per caller in turn. Within a caller's queue the
+     * oldest call whose tool has capacity goes first.
+     */
+    private _drain(): void {
+        let idle = 0;
+        while (this._callers.length > 0 && idle < this._callers.length && this._active < this._maxConcurrentCalls) {
+            const index = this._nextCaller % this._callers.length;
+            const callerId = this._callers[index];
+            const queue = this._queues.get(callerId)!;
+            const position = queue.findIndex((call) => this._hasCapacity(call.tool));
+            if (position === -1) {
+                this._nextCaller = index + 1;
+                idle += 1;
+                continue;
+            }
+
+            const [call] = queue.splice(position, 1);
+            this._queued -= 1;
+            idle = 0;
+            if (queue.length === 0) {
+                this._queues.delete(callerId);
+                this._callers.splice(index, 1);
+                this._nextCaller = index;
+            } else {
+                this._nextCaller = index + 1;
+            }
+            call.grant(this._start(call.tool));
+        }
+    }
+
+    private _reject(message: string): ToolCallRejectedException {
+        this._rejected += 1;
+        this._changed();
+        return new ToolCallRejectedException(message);
+    }
+
+    private _changed(): void {
+        this.emit("change", this.stats);
+    }
+}
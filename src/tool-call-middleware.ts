@@ -0,0 +1,166 @@
+// tool-call-middleware.ts
+
+import type { Content } from "./response.js";
+
+/**
+ * A tool call made through RoomClient, as seen by middleware. Middleware may replace the input,
+ * participant ids, signal or timeout in beforeSend.
+ */
+export class ToolInvocation {
+  public readonly toolkit: string;
+  public readonly tool: string;
+  public readonly toolCallId: string;
+  public readonly streamInput: boolean;
+  public input: Content | AsyncIterable<Content>;
+  public participantId?: string;
+  public onBehalfOfId?: string;
+  public signal?: AbortSignal;
+  public timeoutMs?: number;
+
+  /**
+   * Scratch space for middleware to carry state (span handles, start times) between hooks.
+   */
+  public readonly attributes: Record<string, unknown> = {};
+
+  constructor({ toolkit, tool, input, streamInput = false, participantId, onBehalfOfId, toolCallId, signal, timeoutMs }: {
+    toolkit: string;
+    tool: string;
+    input: Content | AsyncIterable<Content>;
+    streamInput?: boolean;
+    participantId?: string;
+    onBehalfOfId?: string;
+    toolCallId?: string;
+    signal?: AbortSignal;
+    timeoutMs?: number;
+  }) {
+    this.toolkit = toolkit;
+    this.tool = tool;
+    this.input = input;
+    this.streamInput = streamInput;
+    this.participantId = participantId;
+    this.onBehalfOfId = onBehalfOfId;
+    this.signal = signal;
+    this.timeoutMs = timeoutMs;
+    this.toolCallId = toolCallId ?? `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+  }
+}
+
+export type ToolInvocationOutput =
+  | { kind: "content"; content: Content; inputClosed?: Promise<void> }
+  | { kind: "stream"; stream: AsyncIterable<Content>; inputClosed?: Promise<void> };
+
+/**
+ * Hooks run around every tool call made through RoomClient.
+ *
+ * beforeSend and onChunk run in registration order, afterComplete and onError in reverse order.
+ * An error thrown by beforeSend, onChunk or afterComplete fails the call.
+ */
+export interface ToolCallMiddleware {
+  beforeSend?(call: ToolInvocation): void | Promise<void>;
+
+  /**
+   * Called for each streamed output chunk. Returning a Content replaces the chunk.
+   */
+  onChunk?(call: ToolInvocation, chunk: Content): Content | void | Promise<Content | void>;
+
+  /**
+   * Called with the response of a non-streaming call, or without content once a streamed response
+   * ends or the caller stops reading it.
+   */
+  afterComplete?(call: ToolInvocation, content?: Content): void | Promise<void>;
+
+  onError?(call: ToolInvocation, error: unknown): void | Promise<void>;
+}
+
+export class ToolCallMiddlewarePipeline {
+  private _middleware: ToolCallMiddleware[] = [];
+
+  public get middleware(): readonly ToolCallMiddleware[] {
+    return this._middleware;
+  }
+
+  /**
+   * Adds middleware to the end of the pipeline and returns a function that removes it.
+   */
+  public use(middleware: ToolCallMiddleware): () => void {
+    this._middleware = [...this._middleware, middleware];
+    return () => this.remove(middleware);
+  }
+
+  public remove(middleware: ToolCallMiddleware): void {
+    this._middleware = this._middleware.filter((item) => item !== middleware);
+  }
+
+  /**
+   * Runs a tool call through the middleware registered when the call starts. Middleware added or
+   * removed while the call is in flight applies to later calls.
+   */
+  public async run(call: ToolInvocation, invoke: (call: ToolInvocation) => Promise<ToolInvocationOutput>): Promise<ToolInvocationOutput> {
+    const middleware = this._middleware;
+    if (middleware.length === 0) {
+      return await invoke(call);
+    }
+
+    let output: ToolInvocationOutput;
+    try {
+      for (const item of middleware) {
+        await item.beforeSend?.(call);
+      }
+      output = await invoke(call);
+      if (output.kind === "content") {
+        await this._afterComplete(middleware, call, output.content);
+        return output;
+      }
+    } catch (error) {
+      await this._onError(middleware, call, error);
+      throw error;
+    }
+
+    return {
+      kind: "stream",
+      stream: this._wrapStream(middleware, call, output.stream),
+      inputClosed: output.inputClosed,
+    };
+  }
+
+  private _wrapStream(middleware: ToolCallMiddleware[], call: ToolInvocation, stream: AsyncIterable<Content>): AsyncIterable<Content> {
+    const self = this;
+    return {
+      async *[Symbol.asyncIterator](): AsyncIterator<Content> {
+        let failed = false;
+        try {
+          for await (let chunk of stream) {
+            for (const item of middleware) {
+              chunk = (await item.onChunk?.(call, chunk)) ?? chunk;
+            }
+            yield chunk;
+          }
+        } catch (error) {
+          failed = true;
+          await self._onError(middleware, call, error);
+          throw error;
+        } finally {
+          if (!failed) {
+            await self._afterComplete(middleware, call);
+          }
+        }
+      },
+    };
+  }
+
+  private async _afterComplete(middleware: ToolCallMiddleware[], call: ToolInvocation, content?: Content): Promise<void> {
+    for (const item of [...middleware].reverse()) {
+      await item.afterComplete?.(call, content);
+    }
+  }
+
+  private async _onError(middleware: ToolCallMiddleware[], call: ToolInvocation, error: unknown): Promise<void> {
+    for (const item of [...middleware].reverse()) {
+      try {
+        await item.onError?.(call, error);
+      } catch (hookError) {
+        console.warn(`tool call middleware onError hook failed for ${call.toolkit}.${call.tool}`, hookError);
+      }
+    }
+  }
+}
@@ -0,0 +1,297 @@
+// toolkit-client-generator.ts
+
+import { ToolDescription, ToolkitDescription } from "./agent-client.js";
+import type { ToolContentType } from "./tool-content-type.js";
+
+export interface ToolkitClientGeneratorOptions {
+    /**
+     * Name of the generated class. Defaults to the PascalCase toolkit name followed by "Client".
+     */
+    className?: string;
+
+    /**
+     * Module the generated code imports the SDK from. Defaults to "@meshagent/meshagent".
+     */
+    importPath?: string;
+}
+
+const CONTENT_CLASSES: Record<ToolContentType, string> = {
+    binary: "BinaryContent",
+    json: "JsonContent",
+    text: "TextContent",
+    file: "FileContent",
+    link: "LinkContent",
+    empty: "EmptyContent",
+};
+
+const RESERVED_WORDS = new Set([
+    "break", "case", "catch", "class", "const", "continue", "debugger", "default", "delete", "do", "else", "enum",
+    "export", "extends", "false", "finally", "for", "function", "if", "import", "in", "instanceof", "new", "null",
+    "return", "super", "switch", "this", "throw", "true", "try", "typeof", "var", "void", "while", "with", "yield",
+    "let", "static", "implements", "interface", "package", "private", "protected", "public", "await",
+    "constructor", "toolkit", "agents",
+]);
+
+function isRecord(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isSchema(value: unknown): value is Record<string, any> | boolean {
+    return typeof value === "boolean" || isRecord(value);
+}
+
+function words(name: string): string[] {
+    return name
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .split(/[^A-Za-z0-9]+/)
+        .filter((word) => word.length > 0);
+}
+
+function pascalCase(name: string): string {
+    const result = words(name).map((word) => word[0].toUpperCase() + word.slice(1)).join("");
+    if (result === "") return "Tool";
+    return /^[0-9]/.test(result) ? `_${result}` : result;
+}
+
+function camelCase(name: string): string {
+    const pascal = pascalCase(name);
+    const result = pascal.startsWith("_") ? pascal : pascal[0].toLowerCase() + pascal.slice(1);
+    return RESERVED_WORDS.has(result) ? `${result}_` : result;
+}
+
+function propertyKey(name: string): string {
+    return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+function docComment(text: string | undefined, indent: string): string {
+    if (text === undefined || text.trim() === "") return "";
+    const lines = text.trim().replace(/\*\//g, "*\\/").split("\n");
+    return `${indent}/**\n${lines.map((line) => `${indent} * ${line}`.trimEnd()).join("\n")}\n${indent} */\n`;
+}
+
+/**
+ * Converts the JSON schemas of one tool into TypeScript types, emitting $defs as named type aliases.
+ */
+class SchemaTypeEmitter {
+    public readonly declarations: string[] = [];
+
+    private readonly _aliases = new Map<string, string>();
+
+    constructor(private readonly _prefix: string, private readonly _defs: Record<string, any>) {}
+
+    public typeOf(schema: unknown, indent: string): string {
+        if (schema === true || schema === undefined) return "unknown";
+        if (schema === false) return "never";
+        if (!isRecord(schema)) return "unknown";
+
+        if (typeof schema["$ref"] === "string") {
+            return this._ref(schema["$ref"]);
+        }
+        if ("const" in schema) {
+            return JSON.stringify(schema.const);
+        }
+        if (Array.isArray(schema.enum)) {
+            return schema.enum.map((value: unknown) => JSON.stringify(value)).join(" | ") || "never";
+        }
+        for (const keyword of ["anyOf", "oneOf"]) {
+            if (Array.isArray(schema[keyword])) {
+                return this._join(schema[keyword].map((option: unknown) => this.typeOf(option, indent)), " | ");
+            }
+        }
+        if (Array.isArray(schema.allOf)) {
+            return this._join(schema.allOf.map((part: unknown) => this.typeOf(part, indent)), " & ");
+        }
+
+        const types: unknown[] = Array.isArray(schema.type) ? schema.type : schema.type === undefined ? [] : [schema.type];
+        if (types.length === 0) {
+            if (isRecord(schema.properties)) return this._object(schema, indent);
+            if (schema.items !== undefined || schema.prefixItems !== undefined) return this._array(schema, indent);
+            return "unknown";
+        }
+        return this._join(types.map((type) => {
+            switch (type) {
+                case "string": return "string";
+                case "number":
+                case "integer": return "number";
+                case "boolean": return "boolean";
+                case "null": return "null";
+                case "array": return this._array(schema, indent);
+                case "object": return this._object(schema, indent);
+                default: return "unknown";
+            }
+        }), " | ");
+    }
+
+    private _join(types: string[], separator: string): string {
+        const unique = [...new Set(types)];
+        if (unique.length === 0) return "unknown";
+        if (unique.length === 1) return unique[0];
+        return unique.map((type) => (type.includes(" ") && !type.startsWith("{") ? `(${type})` : type)).join(separator);
+    }
+
+    private _array(schema: Record<string, any>, indent: string): string {
+        if (Array.isArray(schema.prefixItems)) {
+            const items = schema.prefixItems.map((item: unknown) => this.typeOf(item, indent));
+            const rest = schema.items === false ? [] : [`...${this._arrayOf(this.typeOf(schema.items, indent))}`];
+            return `[${[...items, ...rest].join(", ")}]`;
+        }
+        return this._arrayOf(this.typeOf(schema.items, indent));
+    }
+
+    private _arrayOf(type: string): string {
+        return /^[A-Za-z0-9_$.]+$/.test(type) ? `${type}[]` : `Array<${type}>`;
+    }
+
+    private _object(schema: Record<string, any>, indent: string): string {
+        const properties = isRecord(schema.properties) ? schema.properties : {};
+        const required = new Set(Array.isArray(schema.required) ? schema.required : []);
+        const inner = `${indent}    `;
+        const lines: string[] = [];
+        for (const [name, property] of Object.entries(properties)) {
+            const description = isRecord(property) ? property.description : undefined;
+            lines.push(`${docComment(description, inner)}${inner}${propertyKey(name)}${required.has(name) ? "" : "?"}: ${this.typeOf(property, inner)};`);
+        }
+        // Index signatures must admit every declared property, so typed additional properties are only kept on
+        // objects without declared ones.
+        const additional = schema.additionalProperties;
+        if (lines.length === 0 && additional !== false) {
+            lines.push(`${inner}[key: string]: ${additional === undefined || additional === true ? "unknown" : this.typeOf(additional, inner)};`);
+        } else if (isSchema(additional) && additional !== false && additional !== true) {
+            lines.push(`${inner}[key: string]: unknown;`);
+        }
+        if (lines.length === 0) return "Record<string, never>";
+        return `{\n${lines.join("\n")}\n${indent}}`;
+    }
+
+    private _ref(ref: string): string {
+        const match = /^#\/(?:\$defs|definitions)\/(.+)$/.exec(ref);
+        if (match === null) return "unknown";
+        const name = decodeURIComponent(match[1]).replace(/~1/g, "/").replace(/~0/g, "~");
+        const existing = this._aliases.get(name);
+        if (existing !== undefined) return existing;
+        if (!(name in this._defs)) return "unknown";
+
+        const alias = `${this._prefix}${pascalCase(name)}`;
+        this._aliases.set(name, alias);
+        const definition = this._defs[name];
+        const type = this.typeOf(definition, "");
+        this.declarations.push(`${docComment(isRecord(definition) ? definition.description : undefined, "")}export type ${alias} = ${type};`);
+        return alias;
+    }
+}
+
+interface GeneratedMethod {
+    declarations: string[];
+    method: string;
+    imports: string[];
+}
+
+function generateMethod(tool: ToolDescription, methodName: string): GeneratedMethod {
+    const prefix = pascalCase(tool.name);
+    const imports: string[] = [];
+
+    const acceptsArguments = tool.inputSpec === undefined || (tool.inputSpec.types.includes("json") && !tool.inputSpec.stream);
+    const emitter = new SchemaTypeEmitter(prefix, {
+        ...(tool.defs ?? {}),
+        ...(tool.inputSchema?.["$defs"] ?? {}),
+        ...(tool.outputSchema?.["$defs"] ?? {}),
+    });
+    const types: string[] = [];
+
+    let parameter: string;
+    let call: string;
+    if (acceptsArguments) {
+        const argumentsType = `${prefix}Arguments`;
+        const type = tool.inputSchema === undefined ? "Record<string, unknown>" : emitter.typeOf(tool.inputSchema, "");
+        types.push(`export type ${argumentsType} = ${type};`);
+        parameter = `arguments_: ${argumentsType}`;
+        call = "arguments: arguments_";
+    } else {
+        imports.push("ToolInput");
+        parameter = "input: ToolInput";
+        call = "input";
+    }
+
+    let result: string;
+    if (!acceptsArguments || tool.outputSpec?.stream === true) {
+        imports.push("ToolCallOutput");
+        result = "ToolCallOutput";
+    } else if (tool.outputSpec === undefined) {
+        imports.push("Content");
+        result = "Content";
+    } else {
+        const variants = tool.outputSpec.types.map((type) => {
+            const contentClass = CONTENT_CLASSES[type];
+            imports.push(contentClass);
+            if (type === "json" && tool.outputSchema !== undefined) {
+                const outputType = `${prefix}Output`;
+                types.push(`export type ${outputType} = ${emitter.typeOf(tool.outputSchema, "")};`);
+                return `(JsonContent & { json: ${outputType} })`;
+            }
+            return contentClass;
+        });
+        result = variants.length === 1 ? variants[0].replace(/^\((.*)\)$/, "$1") : variants.join(" | ");
+    }
+
+    const invokeOptions = `{ toolkit: this.toolkit, tool: ${JSON.stringify(tool.name)}, ${call}, ...this._defaults, ...options }`;
+    const cast = result === "Content" || result === "ToolCallOutput" ? "" : ` as ${result}`;
+    const method = [
+        docComment(tool.description || tool.title, "    ").trimEnd(),
+        `    public async ${methodName}(${parameter}, options: RequestOptions = {}): Promise<${result}> {`,
+        `        return await this.agents.invokeTool(${invokeOptions})${cast};`,
+        "    }",
+    ].filter((line) => line !== "").join("\n");
+
+    return { declarations: [...emitter.declarations, ...types], method, imports };
+}
+
+/**
+ * Generates a TypeScript module with a client class for a toolkit. Each tool becomes a method that takes
+ * arguments typed from its input schema and returns the content classes its output spec allows, with JSON output
+ * typed from its output schema. Tools that take streamed or non-JSON input take a ToolInput and return the raw
+ * ToolCallOutput.
+ *
+ * The description can come from AgentsClient.listToolkits or from ToolkitDescription.fromJson on saved JSON.
+ */
+export function generateToolkitClient(description: ToolkitDescription, { className, importPath = "@meshagent/meshagent" }: ToolkitClientGeneratorOptions = {}): string {
+    const name = className ?? `${pascalCase(description.name)}Client`;
+    const imports = new Set<string>(["AgentsClient", "RequestOptions"]);
+    const declarations: string[] = [];
+    const methods: string[] = [];
+    const usedNames = new Set<string>();
+
+    for (const tool of description.tools) {
+        let methodName = camelCase(tool.name);
+        for (let suffix = 2; usedNames.has(methodName); suffix += 1) {
+            methodName = `${camelCase(tool.name)}${suffix}`;
+        }
+        usedNames.add(methodName);
+        const generated = generateMethod(tool, methodName);
+        generated.imports.forEach((item) => imports.add(item));
+        declarations.push(...generated.declarations);
+        methods.push(generated.method);
+    }
+
+    const importList = [...imports].sort();
+
+    return [
+        `// Generated from the ${JSON.stringify(description.name)} toolkit description. Do not edit by hand.`,
+        "",
+        `import type {\n${importList.map((item) => `    ${item},`).join("\n")}\n} from ${JSON.stringify(importPath)};`,
+        "",
+        ...declarations.map((declaration) => `${declaration}\n`),
+        `${docComment(description.description || description.title, "")}export class ${name} {`,
+        `    public readonly toolkit = ${JSON.stringify(description.name)};`,
+        "",
+        "    private readonly agents: AgentsClient;",
+        "    private readonly _defaults: { participantId?: string; onBehalfOfId?: string };",
+        "",
+        "    constructor({ agents, participantId, onBehalfOfId }: { agents: AgentsClient; participantId?: string; onBehalfOfId?: string }) {",
+        "        this.agents = agents;",
+        "        this._defaults = { participantId, onBehalfOfId };",
+        "    }",
+        ...methods.map((method) => `\n${method}`),
+        "}",
+        "",
+    ].join("\n");
+}
@@ -0,0 +1,84 @@
+// typed-element.ts
+
+import { Element, TextElement } from "./document.js";
+
+export interface TypedElementClass<T extends TypedElement = TypedElement> {
+  new (element: Element): T;
+  readonly tagName: string;
+}
+
+/**
+ * Base class for the typed element bindings made by generateDocumentBindings. A binding is a thin view over an
+ * Element: it holds no state of its own, so several bindings over the same element always agree.
+ */
+export class TypedElement {
+  public static readonly tagName: string = "";
+
+  public readonly element: Element;
+
+  constructor(element: Element) {
+    const tagName = (this.constructor as TypedElementClass).tagName;
+    if (tagName !== "" && element.tagName !== tagName) {
+      throw new Error(`Cannot bind ${element.tagName} element as ${tagName}`);
+    }
+    this.element = element;
+  }
+
+  get id(): string | undefined {
+    return this.element.id;
+  }
+
+  public delete(): void {
+    this.element.delete();
+  }
+
+  protected getValue<T>(name: string): T {
+    return this.element.getAttribute(name) as T;
+  }
+
+  /**
+   * Sets an attribute, or removes it when `value` is undefined.
+   */
+  protected setValue(name: string, value: unknown): void {
+    if (value === undefined) {
+      this.element.removeAttribute(name);
+    } else {
+      this.element.setAttribute(name, value);
+    }
+  }
+
+  /**
+   * Binds the child elements whose tags match one of `classes`, in document order.
+   */
+  protected getChildElements<T extends TypedElement>(classes: Array<TypedElementClass<T>>): T[] {
+    const children: T[] = [];
+    for (const child of this.element.getChildren()) {
+      if (child instanceof Element) {
+        const binding = classes.find((cls) => cls.tagName === child.tagName);
+        if (binding !== undefined) {
+          children.push(new binding(child));
+        }
+      }
+    }
+    return children;
+  }
+
+  protected createChildElement<T extends TypedElement>(
+    cls: TypedElementClass<T>,
+    attributes: object,
+    index?: number,
+  ): T {
+    const child = index === undefined
+      ? this.element.createChildElement(cls.tagName, { ...attributes })
+      : this.element.createChildElementAt(index, cls.tagName, { ...attributes });
+    return new cls(child);
+  }
+
+  protected getTextElement(): TextElement {
+    const text = this.element.getChildren().find((child) => child instanceof TextElement);
+    if (text === undefined) {
+      throw new Error(`${this.element.tagName} element has no text`);
+    }
+    return text as TextElement;
+  }
+}